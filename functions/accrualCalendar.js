@@ -0,0 +1,109 @@
+/**
+ * Accrual calendars for contract periods, computed in the platform timezone.
+ * Keep in sync with src/lib/accrualCalendar.ts.
+ *
+ *   fixed_30_day   - period N unlocks N x 30 days after the start
+ *   calendar_month - period N unlocks on the start's day-of-month N months
+ *                    later (Asia/Manila), clamped to the end of shorter months
+ */
+
+export const PLATFORM_TIMEZONE = 'Asia/Manila';
+export const DEFAULT_ACCRUAL_CALENDAR = 'fixed_30_day';
+
+const FIXED_PERIOD_DAYS = 30;
+const DAY_IN_MS = 1000 * 60 * 60 * 24;
+
+const formatterCache = new Map();
+
+const getFormatter = (timeZone) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getZonedParts = (date, timeZone) => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .filter((part) => part.type !== 'literal')
+      .map((part) => [part.type, Number(part.value)])
+  );
+
+  return { ...parts, millisecond: date.getUTCMilliseconds() };
+};
+
+const toUtcMillis = (parts) =>
+  Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+
+const getTimeZoneOffset = (date, timeZone) => toUtcMillis(getZonedParts(date, timeZone)) - date.getTime();
+
+const fromZonedParts = (parts, timeZone) => {
+  const asUtc = toUtcMillis(parts);
+  const firstGuess = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone);
+  return new Date(asUtc - getTimeZoneOffset(new Date(firstGuess), timeZone));
+};
+
+const getDaysInMonth = (year, month) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export const isAccrualCalendar = (value) => value === 'fixed_30_day' || value === 'calendar_month';
+
+export const addCalendarMonths = (start, months, timeZone = PLATFORM_TIMEZONE) => {
+  const parts = getZonedParts(start, timeZone);
+  const monthIndex = parts.month - 1 + months;
+  const year = parts.year + Math.floor(monthIndex / 12);
+  const month = (((monthIndex % 12) + 12) % 12) + 1;
+
+  return fromZonedParts({ ...parts, year, month, day: Math.min(parts.day, getDaysInMonth(year, month)) }, timeZone);
+};
+
+export const getPeriodUnlockDate = (start, period, calendar = DEFAULT_ACCRUAL_CALENDAR) => {
+  if (calendar === 'calendar_month') {
+    return addCalendarMonths(start, period);
+  }
+  return new Date(start.getTime() + period * FIXED_PERIOD_DAYS * DAY_IN_MS);
+};
+
+export const countElapsedPeriods = (start, now, calendar = DEFAULT_ACCRUAL_CALENDAR) => {
+  if (now < start) return 0;
+
+  if (calendar === 'fixed_30_day') {
+    return Math.floor(Math.floor((now.getTime() - start.getTime()) / DAY_IN_MS) / FIXED_PERIOD_DAYS);
+  }
+
+  const startParts = getZonedParts(start, PLATFORM_TIMEZONE);
+  const nowParts = getZonedParts(now, PLATFORM_TIMEZONE);
+  let periods = Math.max(0, (nowParts.year - startParts.year) * 12 + (nowParts.month - startParts.month));
+
+  while (periods > 0 && getPeriodUnlockDate(start, periods, calendar) > now) {
+    periods -= 1;
+  }
+  while (getPeriodUnlockDate(start, periods + 1, calendar) <= now) {
+    periods += 1;
+  }
+
+  return periods;
+};
+
+/**
+ * Midnight (platform timezone) starting the day, or the month when
+ * `unit` is 'month', that contains `date`. Used for daily and monthly limits.
+ */
+export const getPlatformPeriodStart = (date, unit = 'day') => {
+  const parts = getZonedParts(date, PLATFORM_TIMEZONE);
+  return fromZonedParts(
+    { ...parts, day: unit === 'month' ? 1 : parts.day, hour: 0, minute: 0, second: 0, millisecond: 0 },
+    PLATFORM_TIMEZONE
+  );
+};
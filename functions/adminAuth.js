@@ -0,0 +1,78 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+const auth = getAuth();
+
+const getBearerToken = (authHeader) => {
+  if (!authHeader || typeof authHeader !== 'string') {
+    return null;
+  }
+
+  const match = authHeader.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+};
+
+/**
+ * For onRequest endpoints: verifies the bearer ID token and that the caller
+ * has a document in the admins collection.
+ */
+export const ensureAdminUser = async (req) => {
+  const token = getBearerToken(req.headers.authorization);
+  if (!token) {
+    throw new Error('Missing Authorization bearer token');
+  }
+
+  const decoded = await auth.verifyIdToken(token);
+  const adminDoc = await db.collection('admins').doc(decoded.uid).get();
+
+  if (!adminDoc.exists) {
+    throw new Error('Only admins can run this operation');
+  }
+
+  return decoded;
+};
+
+/**
+ * For onCall callables: same check using the callable auth context.
+ */
+export const ensureAdminCaller = async (request) => {
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError('unauthenticated', 'Sign in to continue');
+  }
+
+  const adminDoc = await db.collection('admins').doc(uid).get();
+  if (!adminDoc.exists) {
+    throw new HttpsError('permission-denied', 'Only admins can run this operation');
+  }
+
+  return { uid, ...adminDoc.data() };
+};
+
+/**
+ * Records an admin action in adminAuditLogs
+ * @param writer - transaction or write batch the change is committed with
+ */
+export const writeAdminAuditLog = (writer, admin, action, targetCollection, targetId, details = {}) => {
+  writer.set(db.collection('adminAuditLogs').doc(), {
+    action,
+    targetCollection,
+    targetId,
+    details,
+    adminId: admin.uid,
+    createdAt: FieldValue.serverTimestamp(),
+  });
+};
+
+export const setAdminCorsHeaders = (res) => {
+  res.set('Access-Control-Allow-Origin', '*');
+  res.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.set('Access-Control-Allow-Methods', 'POST, OPTIONS');
+};
@@ -0,0 +1,370 @@
+/**
+ * Admin console callables (backs the /admin area of the app)
+ *
+ * listAdminQueue        - pending contracts, open payouts, unsettled payout
+ *                         batches or pending KYC
+ * updatePayoutStatus    - move a payout_queue doc along its lifecycle (see
+ *                         payoutStateMachine.js); the payout_queue triggers
+ *                         post the ledger and refund side effects
+ * reviewKycSubmission   - verify or reject a member's KYC submission
+ * lookupMember          - find a member by UID or email for PIN support
+ * resetMemberPin        - clear a PIN lockout, or clear the PIN entirely so
+ *                         the member sets a new one
+ * postManaReward        - replace globalRewards/currentActiveReward
+ * setMaintenanceSchedule - write systemSettings/maintenanceScheduler
+ *
+ * Contract approvals go through reviewDonationContract and bulk transfer files
+ * through payoutBatches.js. Every callable checks the admins collection
+ * (ensureAdminCaller) and every change is recorded in adminAuditLogs. These
+ * replace the one-off scripts in scripts/.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { ensureAdminCaller, writeAdminAuditLog } from './adminAuth.js';
+import { REFUND_PAYOUT_STATUSES, transitionPayout } from './payoutStateMachine.js';
+import { MEMBER_PINS_COLLECTION } from './pinVerification.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const QUEUE_LIMIT = 200;
+const OPEN_PAYOUT_STATUSES = ['pending_review', 'pending', 'approved', 'processing'];
+const OPEN_BATCH_STATUSES = ['exported', 'partially_settled'];
+const PAYOUT_ACTIONS = {
+  clear: 'pending',
+  approve: 'approved',
+  process: 'processing',
+  complete: 'completed',
+  reject: 'rejected',
+  fail: 'failed',
+  return: 'returned',
+};
+const MAINTENANCE_TIMEZONE = 'Asia/Manila';
+
+const toOptionalString = (value) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+const requireString = (value, field) => {
+  const parsed = toOptionalString(value);
+  if (!parsed) {
+    throw new HttpsError('invalid-argument', `${field} is required`);
+  }
+  return parsed;
+};
+
+const parseOptionalDate = (value, field) => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    throw new HttpsError('invalid-argument', `${field} must be an ISO date`);
+  }
+  return parsed;
+};
+
+// pinRecord is the member's memberPins doc; members that never migrated off
+// the legacy pinHash still keep their lockout counters on the members doc
+const toMemberSummary = (docSnap, pinRecord = null) => {
+  const data = docSnap.data();
+  return {
+    userId: docSnap.id,
+    fullName: data.fullName || [data.firstName, data.lastName].filter(Boolean).join(' ') || null,
+    email: data.email || null,
+    phoneNumber: data.phoneNumber || null,
+    kycStatus: data.kycStatus || 'NOT_SUBMITTED',
+    hasPinSetup: Boolean(data.hasPinSetup),
+    failedPinAttempts: Number((pinRecord ? pinRecord.failedAttempts : data.failedPinAttempts) || 0),
+    pinLockUntil: (pinRecord ? pinRecord.lockUntil : data.pinLockUntil) || null,
+  };
+};
+
+export const listAdminQueue = onCall(async (request) => {
+  await ensureAdminCaller(request);
+
+  const queue = String(request.data?.queue || '');
+
+  if (queue === 'contracts') {
+    const snapshot = await db
+      .collection('donationContracts')
+      .where('status', '==', 'pending')
+      .limit(QUEUE_LIMIT)
+      .get();
+    return { items: snapshot.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() })) };
+  }
+
+  if (queue === 'payouts') {
+    const snapshot = await db
+      .collection('payout_queue')
+      .where('status', 'in', OPEN_PAYOUT_STATUSES)
+      .limit(QUEUE_LIMIT)
+      .get();
+    return { items: snapshot.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() })) };
+  }
+
+  if (queue === 'batches') {
+    const snapshot = await db
+      .collection('payoutBatches')
+      .where('status', 'in', OPEN_BATCH_STATUSES)
+      .limit(QUEUE_LIMIT)
+      .get();
+    return { items: snapshot.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() })) };
+  }
+
+  if (queue === 'kyc') {
+    const snapshot = await db.collection('members').where('kycStatus', '==', 'PENDING').limit(QUEUE_LIMIT).get();
+    return {
+      items: snapshot.docs.map((docSnap) => {
+        const data = docSnap.data();
+        return {
+          ...toMemberSummary(docSnap),
+          kycSubmittedAt: data.kycSubmittedAt || null,
+          kycIdImageURL: data.kycIdImageURL || null,
+          kycManualData: data.kycManualData || null,
+        };
+      }),
+    };
+  }
+
+  throw new HttpsError('invalid-argument', `Unknown queue: ${queue}`);
+});
+
+export const updatePayoutStatus = onCall(async (request) => {
+  const admin = await ensureAdminCaller(request);
+
+  const payload = request.data || {};
+  const payoutId = requireString(payload.payoutId, 'payoutId');
+  const action = String(payload.action || '');
+  const to = PAYOUT_ACTIONS[action];
+
+  if (!to) {
+    throw new HttpsError('invalid-argument', `Unknown payout action: ${action}`);
+  }
+
+  const reason = toOptionalString(payload.reason);
+  const reference = toOptionalString(payload.reference);
+
+  if (REFUND_PAYOUT_STATUSES.has(to) && !reason) {
+    throw new HttpsError('invalid-argument', 'A reason is required');
+  }
+
+  const payoutRef = db.collection('payout_queue').doc(payoutId);
+
+  return db.runTransaction(async (transaction) => {
+    const payoutSnap = await transaction.get(payoutRef);
+    if (!payoutSnap.exists) {
+      throw new HttpsError('not-found', 'Payout not found');
+    }
+
+    const fields = {
+      processedAt: new Date().toISOString(),
+      processedBy: admin.uid,
+    };
+
+    if (reason) fields.rejectionReason = reason;
+    if (to === 'completed' && reference) fields.transactionReference = reference;
+
+    const { from } = transitionPayout(transaction, payoutRef, payoutSnap.data(), {
+      to,
+      actor: admin.uid,
+      actorRole: 'admin',
+      note: reason || reference,
+      fields,
+    });
+
+    writeAdminAuditLog(transaction, admin, `payout_${action}`, 'payout_queue', payoutId, {
+      previousStatus: from,
+      reason,
+      reference,
+    });
+
+    return { payoutId, status: to };
+  });
+});
+
+export const reviewKycSubmission = onCall(async (request) => {
+  const admin = await ensureAdminCaller(request);
+
+  const payload = request.data || {};
+  const userId = requireString(payload.userId, 'userId');
+  const decision = String(payload.decision || '');
+  const reason = toOptionalString(payload.reason);
+
+  if (decision !== 'approve' && decision !== 'reject') {
+    throw new HttpsError('invalid-argument', `Unknown KYC decision: ${decision}`);
+  }
+
+  if (decision === 'reject' && !reason) {
+    throw new HttpsError('invalid-argument', 'A rejection reason is required');
+  }
+
+  const memberRef = db.collection('members').doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const memberSnap = await transaction.get(memberRef);
+    if (!memberSnap.exists) {
+      throw new HttpsError('not-found', 'Member not found');
+    }
+
+    const kycStatus = memberSnap.data().kycStatus;
+    if (kycStatus !== 'PENDING') {
+      throw new HttpsError('failed-precondition', `KYC status is ${kycStatus || 'NOT_SUBMITTED'}`);
+    }
+
+    const timestamp = new Date().toISOString();
+    const nextStatus = decision === 'approve' ? 'VERIFIED' : 'REJECTED';
+
+    transaction.update(memberRef, {
+      kycStatus: nextStatus,
+      kycVerifiedAt: decision === 'approve' ? timestamp : null,
+      kycRejectionReason: decision === 'reject' ? reason : null,
+      kycReviewedAt: timestamp,
+      kycReviewedBy: admin.uid,
+    });
+    writeAdminAuditLog(transaction, admin, `kyc_${decision}`, 'members', userId, { reason });
+
+    return { userId, kycStatus: nextStatus };
+  });
+});
+
+export const lookupMember = onCall(async (request) => {
+  await ensureAdminCaller(request);
+
+  const identifier = requireString(request.data?.identifier, 'identifier');
+  let memberSnap;
+
+  if (identifier.includes('@')) {
+    const snapshot = await db.collection('members').where('email', '==', identifier.toLowerCase()).limit(1).get();
+    if (snapshot.empty) {
+      throw new HttpsError('not-found', `No member with email ${identifier}`);
+    }
+    memberSnap = snapshot.docs[0];
+  } else {
+    memberSnap = await db.collection('members').doc(identifier).get();
+    if (!memberSnap.exists) {
+      throw new HttpsError('not-found', `No member with ID ${identifier}`);
+    }
+  }
+
+  const pinSnap = await db.collection(MEMBER_PINS_COLLECTION).doc(memberSnap.id).get();
+  return toMemberSummary(memberSnap, pinSnap.exists ? pinSnap.data() : null);
+});
+
+export const resetMemberPin = onCall(async (request) => {
+  const admin = await ensureAdminCaller(request);
+
+  const payload = request.data || {};
+  const userId = requireString(payload.userId, 'userId');
+  const mode = String(payload.mode || '');
+
+  if (mode !== 'unlock' && mode !== 'reset') {
+    throw new HttpsError('invalid-argument', `Unknown PIN action: ${mode}`);
+  }
+
+  const memberRef = db.collection('members').doc(userId);
+  const memberSnap = await memberRef.get();
+  if (!memberSnap.exists) {
+    throw new HttpsError('not-found', 'Member not found');
+  }
+
+  const pinRef = db.collection(MEMBER_PINS_COLLECTION).doc(userId);
+  const batch = db.batch();
+
+  if (mode === 'reset') {
+    batch.delete(pinRef);
+    batch.update(memberRef, {
+      pinHash: FieldValue.delete(), // Legacy hash that was never migrated
+      failedPinAttempts: FieldValue.delete(),
+      pinLockUntil: FieldValue.delete(),
+      hasPinSetup: false,
+      pinResetAt: new Date().toISOString(), // Starts the pinResetHold withdrawal rule
+    });
+  } else if ((await pinRef.get()).exists) {
+    batch.update(pinRef, { failedAttempts: 0, lockUntil: null });
+  } else {
+    batch.update(memberRef, { failedPinAttempts: 0, pinLockUntil: null });
+  }
+
+  writeAdminAuditLog(batch, admin, `pin_${mode}`, 'members', userId);
+  await batch.commit();
+
+  return { userId, mode };
+});
+
+export const postManaReward = onCall(async (request) => {
+  const admin = await ensureAdminCaller(request);
+
+  const payload = request.data || {};
+  const activeCode = requireString(payload.code, 'code').toUpperCase();
+  const totalPool = Number(payload.totalPool);
+  const expiresInHours = Number(payload.expiresInHours);
+
+  if (!Number.isFinite(totalPool) || totalPool <= 0) {
+    throw new HttpsError('invalid-argument', 'Total pool must be greater than zero');
+  }
+
+  if (!Number.isFinite(expiresInHours) || expiresInHours <= 0) {
+    throw new HttpsError('invalid-argument', 'Expiry must be at least one hour');
+  }
+
+  const now = new Date();
+  const timestamp = now.toISOString();
+  const expiresAt = new Date(now.getTime() + expiresInHours * 60 * 60 * 1000).toISOString();
+  const poolId = `pool_${now.getTime()}`;
+
+  const batch = db.batch();
+  batch.set(db.collection('globalRewards').doc('currentActiveReward'), {
+    poolId,
+    activeCode,
+    totalPool,
+    remainingPool: totalPool,
+    postedAt: timestamp,
+    expiresAt,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    postedBy: admin.uid,
+  });
+  writeAdminAuditLog(batch, admin, 'mana_reward_post', 'globalRewards', 'currentActiveReward', {
+    poolId,
+    activeCode,
+    totalPool,
+    expiresAt,
+  });
+  await batch.commit();
+
+  return { poolId, activeCode, totalPool, expiresAt };
+});
+
+export const setMaintenanceSchedule = onCall(async (request) => {
+  const admin = await ensureAdminCaller(request);
+
+  const payload = request.data || {};
+  const startAt = parseOptionalDate(payload.startAt, 'startAt');
+  const endAt = parseOptionalDate(payload.endAt, 'endAt');
+
+  if (startAt && endAt && endAt <= startAt) {
+    throw new HttpsError('invalid-argument', 'Maintenance must end after it starts');
+  }
+
+  const schedule = {
+    enabled: Boolean(payload.enabled),
+    message: toOptionalString(payload.message) || '',
+    startAt: startAt ? startAt.toISOString() : null,
+    endAt: endAt ? endAt.toISOString() : null,
+    durationHours: null,
+    timezone: MAINTENANCE_TIMEZONE,
+  };
+
+  const batch = db.batch();
+  batch.set(db.collection('systemSettings').doc('maintenanceScheduler'), {
+    ...schedule,
+    updatedAt: new Date().toISOString(),
+    updatedBy: admin.uid,
+  });
+  writeAdminAuditLog(batch, admin, 'maintenance_schedule', 'systemSettings', 'maintenanceScheduler', schedule);
+  await batch.commit();
+
+  return schedule;
+});
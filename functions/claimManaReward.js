@@ -6,16 +6,20 @@
  * 2. Checks remaining pool
  * 3. Generates random reward (₱1-₱5)
  * 4. Updates pool and user balance atomically
+ * 5. Posts the claim to the double-entry ledger
  * 
  * Deploy this to your Firebase Functions
  */
 
 import { onRequest } from 'firebase-functions/v2/https';
-import { initializeApp } from 'firebase-admin/app';
+import { getApps, initializeApp } from 'firebase-admin/app';
 import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { LedgerAccounts, postLedgerJournal } from './ledger.js';
 
 // Initialize Firebase Admin (only once)
-initializeApp();
+if (getApps().length === 0) {
+  initializeApp();
+}
 
 const db = getFirestore();
 
@@ -158,6 +162,19 @@ export const claimManaReward = onRequest(async (req, res) => {
         lastManaClaimDate: today,
       });
 
+      // 11b. Ledger: reward pool -> member MANA balance
+      postLedgerJournal(transaction, {
+        movementType: 'mana_claim',
+        userId,
+        sourceCollection: 'rewardsHistory',
+        sourceId: rewardHistoryRef.id,
+        memo: `MANA claim with code ${normalizedCode}`,
+        lines: [
+          { account: LedgerAccounts.manaRewardPool, debit: rewardAmount },
+          { account: LedgerAccounts.memberMana(userId), credit: rewardAmount },
+        ],
+      });
+
       // 12. Store analytics data for admin dashboard
       const analyticsRef = db.collection('manaClaimAnalytics').doc();
       const claimedAt = new Date();
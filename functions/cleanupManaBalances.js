@@ -1,14 +1,14 @@
 import { onRequest } from 'firebase-functions/v2/https';
 import { getApps, initializeApp } from 'firebase-admin/app';
-import { getAuth } from 'firebase-admin/auth';
 import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { ensureAdminUser, setAdminCorsHeaders } from './adminAuth.js';
+import { LedgerAccounts, postLedgerJournal } from './ledger.js';
 
 if (getApps().length === 0) {
   initializeApp();
 }
 
 const db = getFirestore();
-const auth = getAuth();
 
 const CONFIRMATION_KEY = 'ZERO_MANA_BALANCES';
 
@@ -38,35 +38,8 @@ const isRewardActive = (rewardData) => {
   return hasCode && hasPool && notExpired;
 };
 
-const getBearerToken = (authHeader) => {
-  if (!authHeader || typeof authHeader !== 'string') {
-    return null;
-  }
-
-  const match = authHeader.match(/^Bearer\s+(.+)$/i);
-  return match ? match[1] : null;
-};
-
-const ensureAdminUser = async (req) => {
-  const token = getBearerToken(req.headers.authorization);
-  if (!token) {
-    throw new Error('Missing Authorization bearer token');
-  }
-
-  const decoded = await auth.verifyIdToken(token);
-  const adminDoc = await db.collection('admins').doc(decoded.uid).get();
-
-  if (!adminDoc.exists) {
-    throw new Error('Only admins can run this operation');
-  }
-
-  return decoded;
-};
-
 export const cleanupManaBalances = onRequest(async (req, res) => {
-  res.set('Access-Control-Allow-Origin', '*');
-  res.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  res.set('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  setAdminCorsHeaders(res);
 
   if (req.method === 'OPTIONS') {
     res.status(204).send('');
@@ -127,6 +100,7 @@ export const cleanupManaBalances = onRequest(async (req, res) => {
     const sample = [];
 
     if (!dryRun) {
+      const cleanupLogRef = db.collection('manaBalanceCleanupLogs').doc();
       let batch = db.batch();
       let opsInBatch = 0;
 
@@ -154,7 +128,20 @@ export const cleanupManaBalances = onRequest(async (req, res) => {
           manaBalanceBeforeCleanup: previousBalance,
         });
 
-        opsInBatch += 1;
+        postLedgerJournal(batch, {
+          journalId: `cleanup_zeroing_${cleanupLogRef.id}_${memberDoc.id}`,
+          movementType: 'cleanup_zeroing',
+          userId: memberDoc.id,
+          sourceCollection: 'manaBalanceCleanupLogs',
+          sourceId: cleanupLogRef.id,
+          memo: `MANA cleanup by admin ${adminUser.uid}`,
+          lines: [
+            { account: LedgerAccounts.memberMana(memberDoc.id), debit: previousBalance },
+            { account: LedgerAccounts.manaForfeited, credit: previousBalance },
+          ],
+        });
+
+        opsInBatch += 3;
         if (opsInBatch >= 400) {
           await batch.commit();
           batch = db.batch();
@@ -166,7 +153,7 @@ export const cleanupManaBalances = onRequest(async (req, res) => {
         await batch.commit();
       }
 
-      await db.collection('manaBalanceCleanupLogs').add({
+      await cleanupLogRef.set({
         adminUid: adminUser.uid,
         dryRun: false,
         force: Boolean(force),
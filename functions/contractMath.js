@@ -0,0 +1,417 @@
+/**
+ * Server-side contract math
+ *
+ * Mirrors the plan catalog (src/lib/contractPlans.ts) and the withdrawal
+ * calculations in src/lib/donationContract.ts so callables can recompute what
+ * a member is allowed to withdraw instead of trusting amounts sent by the
+ * client. Keep these files in sync when a plan rule changes.
+ */
+
+import {
+  DEFAULT_ACCRUAL_CALENDAR,
+  addCalendarMonths,
+  countElapsedPeriods,
+  isAccrualCalendar,
+} from './accrualCalendar.js';
+
+export const CONTRACT_PLANS_COLLECTION = 'contractPlans';
+export const DEFAULT_CONTRACT_PLAN_TYPE = 'monthly_12_no_principal';
+export const DEFAULT_CLAIM_WINDOW_DAYS = 30;
+export const DEFAULT_EARLY_TERMINATION_PENALTY_RATE = 0.2;
+export const DEFAULT_PLAN_MIN_AMOUNT = 1000;
+const DAY_IN_MS = 1000 * 60 * 60 * 24;
+const PLAN_CATALOG_TTL_MS = 5 * 60 * 1000;
+
+// Version 1 of the original plans; contracts without planVersion resolve here.
+// Newer versions live in the contractPlans collection ({planId}_v{version}).
+const BUILT_IN_PLANS = [
+  {
+    type: 'monthly_12_no_principal',
+    version: 1,
+    label: '30% Monthly for 1 Year (Principal Unchanged)',
+    durationMonths: 12,
+    compoundLockIn: false,
+    periodicRate: 0.3,
+    withdrawalSlots: 12,
+    accrualCalendar: 'fixed_30_day',
+    claimWindowDays: DEFAULT_CLAIM_WINDOW_DAYS,
+    earlyTerminationPenaltyRate: DEFAULT_EARLY_TERMINATION_PENALTY_RATE,
+    minAmount: DEFAULT_PLAN_MIN_AMOUNT,
+    maxAmount: null,
+    availableFrom: null,
+    availableUntil: null,
+  },
+  {
+    type: 'lockin_6_compound',
+    version: 1,
+    label: '6-Month Lock-In (30% Monthly Compounded)',
+    durationMonths: 6,
+    compoundLockIn: true,
+    periodicRate: 0.3,
+    withdrawalSlots: 1,
+    accrualCalendar: 'fixed_30_day',
+    claimWindowDays: DEFAULT_CLAIM_WINDOW_DAYS,
+    earlyTerminationPenaltyRate: DEFAULT_EARLY_TERMINATION_PENALTY_RATE,
+    minAmount: DEFAULT_PLAN_MIN_AMOUNT,
+    maxAmount: null,
+    availableFrom: null,
+    availableUntil: null,
+  },
+  {
+    type: 'lockin_12_compound',
+    version: 1,
+    label: '12-Month Lock-In (30% Monthly Compounded)',
+    durationMonths: 12,
+    compoundLockIn: true,
+    periodicRate: 0.3,
+    withdrawalSlots: 1,
+    accrualCalendar: 'fixed_30_day',
+    claimWindowDays: DEFAULT_CLAIM_WINDOW_DAYS,
+    earlyTerminationPenaltyRate: DEFAULT_EARLY_TERMINATION_PENALTY_RATE,
+    minAmount: DEFAULT_PLAN_MIN_AMOUNT,
+    maxAmount: null,
+    availableFrom: null,
+    availableUntil: null,
+  },
+];
+
+const getPlanKey = (type, version) => `${type}_v${version}`;
+
+const buildCatalog = (plans) => new Map(plans.map((plan) => [getPlanKey(plan.type, plan.version), plan]));
+
+let planCatalog = buildCatalog(BUILT_IN_PLANS);
+let planCatalogLoadedAt = 0;
+
+const toPlanConfig = (data) => {
+  const type = typeof data.planId === 'string' ? data.planId : '';
+  const version = Number(data.version);
+  const durationMonths = Number(data.durationMonths);
+  const periodicRate = Number(data.periodicRate);
+
+  if (!type || !Number.isInteger(version) || version < 1 || !(durationMonths > 0) || !(periodicRate >= 0)) {
+    return null;
+  }
+
+  const maxAmount = data.maxAmount === null || data.maxAmount === undefined ? null : Number(data.maxAmount);
+
+  return {
+    type,
+    version,
+    label: String(data.label || type),
+    durationMonths,
+    compoundLockIn: Boolean(data.compoundLockIn),
+    periodicRate,
+    withdrawalSlots: Math.max(1, Number(data.withdrawalSlots) || 1),
+    accrualCalendar: isAccrualCalendar(data.accrualCalendar) ? data.accrualCalendar : DEFAULT_ACCRUAL_CALENDAR,
+    claimWindowDays:
+      data.claimWindowDays === undefined || data.claimWindowDays === null
+        ? DEFAULT_CLAIM_WINDOW_DAYS
+        : Math.max(0, Number(data.claimWindowDays) || 0),
+    earlyTerminationPenaltyRate:
+      data.earlyTerminationPenaltyRate === undefined || data.earlyTerminationPenaltyRate === null
+        ? DEFAULT_EARLY_TERMINATION_PENALTY_RATE
+        : Math.min(1, Math.max(0, Number(data.earlyTerminationPenaltyRate) || 0)),
+    minAmount:
+      data.minAmount === undefined || data.minAmount === null
+        ? DEFAULT_PLAN_MIN_AMOUNT
+        : Math.max(0, Number(data.minAmount) || 0),
+    maxAmount: maxAmount !== null && Number.isFinite(maxAmount) ? maxAmount : null,
+    availableFrom: typeof data.availableFrom === 'string' ? data.availableFrom : null,
+    availableUntil: typeof data.availableUntil === 'string' ? data.availableUntil : null,
+  };
+};
+
+/**
+ * Refreshes the cached plan catalog from Firestore (at most every 5 minutes
+ * per instance unless forced). Call before any contract math.
+ */
+export const loadContractPlanCatalog = async (db, { force = false } = {}) => {
+  if (!force && Date.now() - planCatalogLoadedAt < PLAN_CATALOG_TTL_MS) {
+    return;
+  }
+
+  const snapshot = await db.collection(CONTRACT_PLANS_COLLECTION).get();
+  const plans = snapshot.docs.map((docSnap) => toPlanConfig(docSnap.data())).filter(Boolean);
+
+  plans
+    .filter((plan) => plan.minAmount <= 0)
+    .forEach((plan) => {
+      console.warn(`Contract plan ${plan.type} v${plan.version} has no minAmount; donations of any size are accepted`);
+    });
+
+  planCatalog = buildCatalog([...BUILT_IN_PLANS, ...plans]);
+  planCatalogLoadedAt = Date.now();
+};
+
+export const getLatestContractPlan = (type) =>
+  Array.from(planCatalog.values())
+    .filter((plan) => plan.type === type)
+    .reduce((latest, plan) => (!latest || plan.version > latest.version ? plan : latest), null);
+
+export const resolveContractPlan = (type, version = 1) =>
+  planCatalog.get(getPlanKey(type, version)) ||
+  getLatestContractPlan(type) ||
+  planCatalog.get(getPlanKey(DEFAULT_CONTRACT_PLAN_TYPE, 1));
+
+export const calculateContractEndDate = (startDate, plan) => addCalendarMonths(startDate, plan.durationMonths);
+
+export const isContractPlanAvailable = (plan, now = new Date()) => {
+  if (plan.availableFrom && now < new Date(plan.availableFrom)) return false;
+  if (plan.availableUntil && now > new Date(plan.availableUntil)) return false;
+  return true;
+};
+
+const toSafeAmount = (value) => {
+  const amount = Number(value);
+  if (!Number.isFinite(amount)) return 0;
+  return Math.max(0, amount);
+};
+
+export const getContractType = (contract) => {
+  const value = contract?.contractType;
+  if (value && getLatestContractPlan(value)) {
+    return value;
+  }
+  return DEFAULT_CONTRACT_PLAN_TYPE;
+};
+
+export const getContractPlanConfig = (contract) =>
+  resolveContractPlan(getContractType(contract), contract?.planVersion ?? 1);
+
+export const calculateCompoundedContractValue = (principal, months, monthlyRate = 0.3) => {
+  const safePrincipal = Math.max(0, Number(principal) || 0);
+  const safeMonths = Math.max(0, Math.floor(Number(months) || 0));
+  const safeRate = Math.max(0, Number(monthlyRate) || 0);
+  return safePrincipal * Math.pow(1 + safeRate, safeMonths);
+};
+
+export const getContractPrincipal = (contract) => {
+  const originalAmount = toSafeAmount(contract.donationAmount);
+  const verifiedRaw = contract.verifiedAmount;
+  const hasVerifiedAmount = verifiedRaw !== undefined && verifiedRaw !== null && Number.isFinite(Number(verifiedRaw));
+  const verifiedAmount = hasVerifiedAmount ? toSafeAmount(verifiedRaw) : originalAmount;
+  const outcomeAdjusted = String(contract.reviewOutcome || '').toLowerCase() === 'approved_adjusted';
+  const amountAdjusted = hasVerifiedAmount && verifiedAmount !== originalAmount;
+  const isAdjusted = outcomeAdjusted || Boolean(contract.hasDiscrepancy) || amountAdjusted;
+
+  return isAdjusted ? verifiedAmount : originalAmount;
+};
+
+export const getContractMaxTotalWithdrawal = (contract) => {
+  const principal = getContractPrincipal(contract);
+  const plan = getContractPlanConfig(contract);
+
+  if (plan.compoundLockIn) {
+    return calculateCompoundedContractValue(principal, plan.durationMonths, plan.periodicRate);
+  }
+
+  return principal * plan.periodicRate * plan.withdrawalSlots;
+};
+
+export const getContractWithdrawalSlots = (contract) => getContractPlanConfig(contract).withdrawalSlots;
+
+export const getContractTotalWithdrawn = (contract) => {
+  const plan = getContractPlanConfig(contract);
+  const amountPerPeriod = getContractPrincipal(contract) * plan.periodicRate;
+  return contract.totalWithdrawn ?? (Number(contract.withdrawalsCount || 0) * amountPerPeriod);
+};
+
+/**
+ * Last moment accrued funds of a monthly contract can be claimed: the end date
+ * plus the plan's claim window. Null for lock-in plans, whose matured funds do
+ * not lapse.
+ */
+export const getContractClaimDeadline = (contract) => {
+  if (!contract.contractEndDate) return null;
+  const plan = getContractPlanConfig(contract);
+  if (plan.compoundLockIn) return null;
+  return new Date(new Date(contract.contractEndDate).getTime() + plan.claimWindowDays * DAY_IN_MS);
+};
+
+/**
+ * Returns the amount currently withdrawable from a contract, or 0 when the
+ * contract is pending, locked, past its claim
+ * deadline or fully drawn.
+ */
+export const getAvailableAmount = (contract, now = new Date()) => {
+  if (contract.status === 'pending' || contract.status === 'terminated') return 0;
+  if (contract.terminationStatus === 'requested') return 0;
+  if (!contract.donationStartDate || !contract.contractEndDate) return 0;
+
+  const startDate = new Date(contract.donationStartDate);
+  const endDate = new Date(contract.contractEndDate);
+  const plan = getContractPlanConfig(contract);
+
+  if (plan.compoundLockIn) {
+    if (now < endDate) return 0;
+    const totalWithdrawn = Number(contract.totalWithdrawn || 0);
+    return Math.max(0, getContractMaxTotalWithdrawal(contract) - totalWithdrawn);
+  }
+
+  if (now > getContractClaimDeadline(contract)) return 0;
+  if (contract.status !== 'active' && contract.status !== 'approved') return 0;
+
+  const periodsElapsed = countElapsedPeriods(startDate, now, plan.accrualCalendar);
+  if (periodsElapsed < 1) return 0;
+
+  const amountPerPeriod = getContractPrincipal(contract) * plan.periodicRate;
+  const maxTotalWithdrawal = getContractMaxTotalWithdrawal(contract);
+  const totalWithdrawn = getContractTotalWithdrawn(contract);
+  const accumulatedAmount = Math.min(periodsElapsed * amountPerPeriod, maxTotalWithdrawal);
+
+  return Math.max(0, accumulatedAmount - totalWithdrawn);
+};
+
+/**
+ * Amount the next withdrawal takes, in whole KOLI: everything available for
+ * lock-in plans, one period's payout capped at what is available for monthly
+ * plans. The withdrawal modal previews the same amount
+ * (getContractWithdrawalAmount in src/lib/donationContract.ts).
+ */
+export const getContractWithdrawalAmount = (contract, now = new Date()) => {
+  const plan = getContractPlanConfig(contract);
+  const availableAmount = getAvailableAmount(contract, now);
+
+  return plan.compoundLockIn
+    ? Math.floor(availableAmount)
+    : Math.min(Math.floor(getContractPrincipal(contract) * plan.periodicRate), Math.floor(availableAmount));
+};
+
+/**
+ * Early exit quote for a lock-in contract before maturity: the principal plus
+ * the returns compounded over whole periods elapsed so far, less the plan's
+ * penalty on that value.
+ */
+export const getEarlyTerminationQuote = (contract, now = new Date()) => {
+  const plan = getContractPlanConfig(contract);
+  const principal = getContractPrincipal(contract);
+  const startDate = contract.donationStartDate ? new Date(contract.donationStartDate) : now;
+  const monthsElapsed = Math.min(plan.durationMonths, countElapsedPeriods(startDate, now, plan.accrualCalendar));
+  const currentValue = calculateCompoundedContractValue(principal, monthsElapsed, plan.periodicRate);
+  const penaltyAmount = currentValue * plan.earlyTerminationPenaltyRate;
+  const totalWithdrawn = getContractTotalWithdrawn(contract);
+
+  return {
+    monthsElapsed,
+    principal,
+    accruedReturns: currentValue - principal,
+    currentValue,
+    penaltyRate: plan.earlyTerminationPenaltyRate,
+    penaltyAmount,
+    totalWithdrawn,
+    payoutAmount: Math.max(0, currentValue - penaltyAmount - totalWithdrawn),
+  };
+};
+
+export const ROLLOVER_MODES = ['none', 'principal_and_returns', 'returns_only'];
+
+/**
+ * Amount a rollover would reinvest right now. Lock-in contracts unlock
+ * principal and returns together at maturity, so returns_only leaves the
+ * principal withdrawable; monthly unlocks are all returns (the principal is
+ * never paid back), so both modes reinvest the whole unlock.
+ */
+export const getRolloverAmount = (contract, mode, now = new Date()) => {
+  if (mode !== 'principal_and_returns' && mode !== 'returns_only') return 0;
+
+  const availableAmount = getAvailableAmount(contract, now);
+  if (mode === 'principal_and_returns' || !getContractPlanConfig(contract).compoundLockIn) {
+    return availableAmount;
+  }
+
+  // Withdrawals count against returns first, so the principal is what is left last
+  const totalReturns = getContractMaxTotalWithdrawal(contract) - getContractPrincipal(contract);
+  const returnsRemaining = Math.max(0, totalReturns - getContractTotalWithdrawn(contract));
+  return Math.min(availableAmount, returnsRemaining);
+};
+
+export const calculateTotalWithdrawable = (contracts, userBalance = 0, now = new Date()) => {
+  const eligibleContracts = [];
+  let contractWithdrawals = 0;
+
+  for (const contract of contracts) {
+    const availableAmount = getAvailableAmount(contract, now);
+    if (availableAmount > 0) {
+      eligibleContracts.push({ contract, availableAmount });
+      contractWithdrawals += availableAmount;
+    }
+  }
+
+  const manaBalance = userBalance || 0;
+  return {
+    totalAmount: contractWithdrawals + manaBalance,
+    contractWithdrawals,
+    manaBalance,
+    eligibleContracts,
+  };
+};
+
+export const distributeWithdrawalAmount = (requestedAmount, eligibleContracts) => {
+  if (requestedAmount <= 0) {
+    throw new Error('Withdrawal amount must be greater than zero');
+  }
+
+  const totalAvailable = eligibleContracts.reduce((sum, item) => sum + item.availableAmount, 0);
+  if (requestedAmount > totalAvailable) {
+    throw new Error(
+      `Requested amount ${requestedAmount.toFixed(2)} KOLI exceeds available ${totalAvailable.toFixed(2)} KOLI`
+    );
+  }
+
+  const distribution = [];
+  let remainingAmount = requestedAmount;
+
+  for (const { contract, availableAmount } of eligibleContracts) {
+    if (remainingAmount <= 0) break;
+
+    const amountFromThisContract = Math.min(remainingAmount, availableAmount);
+    if (amountFromThisContract > 0) {
+      distribution.push({ contractId: contract.id, amount: amountFromThisContract, contract });
+      remainingAmount -= amountFromThisContract;
+    }
+  }
+
+  if (remainingAmount > 0 && distribution.length > 0) {
+    distribution[0].amount += remainingAmount;
+  }
+
+  return distribution;
+};
+
+const getEquivalentWithdrawals = (contract, totalWithdrawn) => {
+  const plan = getContractPlanConfig(contract);
+  if (plan.compoundLockIn) return totalWithdrawn > 0 ? 1 : 0;
+  const amountPerPeriod = getContractPrincipal(contract) * plan.periodicRate;
+  return Math.ceil(totalWithdrawn / amountPerPeriod);
+};
+
+/**
+ * Computes the contract fields that change when `amount` is drawn from it.
+ */
+export const applyContractDrawdown = (contract, amount, timestamp) => {
+  const maxTotalWithdrawal = getContractMaxTotalWithdrawal(contract);
+  const newTotalWithdrawn = getContractTotalWithdrawn(contract) + amount;
+
+  return {
+    totalWithdrawn: newTotalWithdrawn,
+    withdrawalsCount: getEquivalentWithdrawals(contract, newTotalWithdrawn),
+    lastWithdrawalDate: timestamp,
+    status: newTotalWithdrawn >= maxTotalWithdrawal ? 'completed' : contract.status,
+  };
+};
+
+/**
+ * Inverse of applyContractDrawdown for a payout that was never paid: puts
+ * `amount` back and reopens a contract the drawdown completed.
+ */
+export const reverseContractDrawdown = (contract, amount) => {
+  const maxTotalWithdrawal = getContractMaxTotalWithdrawal(contract);
+  const newTotalWithdrawn = Math.max(0, getContractTotalWithdrawn(contract) - amount);
+  const reopened = contract.status === 'completed' && newTotalWithdrawn < maxTotalWithdrawal;
+
+  return {
+    totalWithdrawn: newTotalWithdrawn,
+    withdrawalsCount: getEquivalentWithdrawals(contract, newTotalWithdrawn),
+    status: reopened ? 'active' : contract.status,
+  };
+};
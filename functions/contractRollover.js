@@ -0,0 +1,240 @@
+/**
+ * Contract auto-rollover
+ *
+ * setContractRollover - member-facing callable that stores a contract's
+ *   rolloverMode: 'none', 'principal_and_returns' or 'returns_only'
+ *   (see getRolloverAmount in contractMath.js for what each reinvests).
+ * scheduledContractRollover - daily job. For every live contract with a
+ *   rollover mode and an unlocked amount, draws that amount from the contract
+ *   into a new active contract on the same plan (latest version), the same way
+ *   createPoolRedonation does, and notifies the member.
+ *
+ * The successor links back through parentContractId (and fundingSources, like
+ * a pool re-donation) and inherits the rolloverMode, so returns keep compounding until the member turns it off.
+ * Rollovers that would break the plan or donation limits are skipped and the
+ * reason is kept on the parent (rolloverSkippedReason).
+ *
+ * Runs before scheduledContractExpiry so an unlock is reinvested before its
+ * claim window can close.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import {
+  ROLLOVER_MODES,
+  applyContractDrawdown,
+  calculateContractEndDate,
+  getLatestContractPlan,
+  getRolloverAmount,
+  isContractPlanAvailable,
+  loadContractPlanCatalog,
+} from './contractMath.js';
+import { assertDonationWithinLimits, loadDonationLimits } from './donationLimits.js';
+import { LedgerAccounts, postLedgerJournal } from './ledger.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const LIVE_CONTRACT_STATUSES = new Set(['active', 'approved']);
+const ACTIVE_ROLLOVER_MODES = ['principal_and_returns', 'returns_only'];
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+export const setContractRollover = onCall(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'Sign in to change rollover settings');
+  }
+
+  const payload = request.data || {};
+  const contractId = typeof payload.contractId === 'string' ? payload.contractId.trim() : '';
+  const rolloverMode = String(payload.rolloverMode || '');
+
+  if (!contractId) {
+    throw new HttpsError('invalid-argument', 'contractId is required');
+  }
+
+  if (!ROLLOVER_MODES.includes(rolloverMode)) {
+    throw new HttpsError('invalid-argument', `Unknown rollover mode: ${rolloverMode}`);
+  }
+
+  const contractRef = db.collection('donationContracts').doc(contractId);
+  const contractSnap = await contractRef.get();
+
+  if (!contractSnap.exists) {
+    throw new HttpsError('not-found', 'Contract not found');
+  }
+
+  const contract = contractSnap.data();
+  if (contract.userId !== userId) {
+    throw new HttpsError('permission-denied', 'Unauthorized: Contract does not belong to this user');
+  }
+
+  if (contract.status !== 'pending' && !LIVE_CONTRACT_STATUSES.has(contract.status)) {
+    throw new HttpsError('failed-precondition', `Contract status is ${contract.status}`);
+  }
+
+  await contractRef.update({
+    rolloverMode,
+    rolloverUpdatedAt: new Date().toISOString(),
+  });
+
+  return { contractId, rolloverMode };
+});
+
+const rolloverContract = (contractRef, now) =>
+  db.runTransaction(async (transaction) => {
+    // === ALL READS FIRST ===
+    const contractSnap = await transaction.get(contractRef);
+    if (!contractSnap.exists) return null;
+
+    const contract = { id: contractSnap.id, ...contractSnap.data() };
+    const mode = contract.rolloverMode;
+    if (!ACTIVE_ROLLOVER_MODES.includes(mode) || !LIVE_CONTRACT_STATUSES.has(contract.status)) {
+      return null;
+    }
+
+    const amount = round2(getRolloverAmount(contract, mode, now));
+    if (amount <= 0) return null;
+
+    const userId = contract.userId;
+    const memberRef = db.collection('members').doc(userId);
+    const [memberSnap, contractsSnap, limits] = await Promise.all([
+      transaction.get(memberRef),
+      transaction.get(db.collection('donationContracts').where('userId', '==', userId)),
+      loadDonationLimits(db, transaction),
+    ]);
+
+    if (!memberSnap.exists) return null;
+
+    // === VALIDATIONS ===
+    const timestamp = now.toISOString();
+    const plan = getLatestContractPlan(contract.contractType || '');
+    let skippedReason = null;
+
+    if (!plan || !isContractPlanAvailable(plan, now)) {
+      skippedReason = 'The contract plan is no longer available for new donations';
+    } else {
+      try {
+        assertDonationWithinLimits({
+          amount,
+          plan,
+          contracts: contractsSnap.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() })),
+          kycStatus: memberSnap.data().kycStatus,
+          limits,
+        });
+      } catch (error) {
+        if (!(error instanceof HttpsError)) throw error;
+        skippedReason = error.message;
+      }
+    }
+
+    // === ALL WRITES LAST ===
+    if (skippedReason) {
+      if (contract.rolloverSkippedReason !== skippedReason) {
+        transaction.update(contractRef, { rolloverSkippedReason: skippedReason, rolloverSkippedAt: timestamp });
+      }
+      return { contractId: contract.id, skippedReason };
+    }
+
+    const successorRef = db.collection('donationContracts').doc();
+
+    transaction.update(contractRef, {
+      ...applyContractDrawdown(contract, amount, timestamp),
+      lastRolloverAt: timestamp,
+      lastRolloverContractId: successorRef.id,
+      rolloverSkippedReason: null,
+      fundedContracts: FieldValue.arrayUnion({ contractId: successorRef.id, amount, fundedAt: timestamp }),
+    });
+
+    transaction.set(successorRef, {
+      userId,
+      donationAmount: amount,
+      contractType: plan.type,
+      planVersion: plan.version,
+      donationStartDate: timestamp,
+      lastWithdrawalDate: null,
+      withdrawalsCount: 0,
+      totalWithdrawn: 0,
+      contractEndDate: calculateContractEndDate(now, plan).toISOString(),
+      status: 'active',
+      paymentMethod: 'rollover',
+      parentContractId: contract.id,
+      fundingSources: [{ type: 'contract', contractId: contract.id, amount }],
+      rolloverMode: mode,
+      createdAt: timestamp,
+      approvedAt: timestamp,
+      approvedBy: 'system_rollover',
+    });
+
+    postLedgerJournal(transaction, {
+      movementType: 'redonation',
+      userId,
+      sourceCollection: 'donationContracts',
+      sourceId: successorRef.id,
+      memo: `Auto-rollover from contract ${contract.id}`,
+      lines: [
+        { account: LedgerAccounts.contract(contract.id), debit: amount },
+        { account: LedgerAccounts.contractPrincipal(successorRef.id), credit: amount },
+      ],
+    });
+
+    transaction.set(db.collection('notifications').doc(`${userId}_contract_rollover_${successorRef.id}`), {
+      userId,
+      type: 'contract_rolled_over',
+      title: 'Contract Rolled Over',
+      message:
+        `${amount.toFixed(2)} KOLI from contract ${contract.id.slice(0, 8)} was reinvested ` +
+        `into a new ${plan.label} contract.`,
+      relatedId: successorRef.id,
+      isRead: false,
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+
+    return { contractId: contract.id, successorId: successorRef.id, amount };
+  });
+
+/**
+ * Rolls over every contract with a rollover mode and an unlocked amount.
+ * @returns { rolledOver: [{ contractId, successorId, amount }], skipped: [{ contractId, skippedReason }] }
+ */
+export const runContractRollovers = async (now = new Date()) => {
+  await loadContractPlanCatalog(db, { force: true });
+
+  const snapshot = await db
+    .collection('donationContracts')
+    .where('rolloverMode', 'in', ACTIVE_ROLLOVER_MODES)
+    .get();
+
+  const rolledOver = [];
+  const skipped = [];
+
+  for (const docSnap of snapshot.docs) {
+    if (!LIVE_CONTRACT_STATUSES.has(docSnap.data().status)) continue;
+
+    try {
+      const result = await rolloverContract(docSnap.ref, now);
+      if (result?.skippedReason) skipped.push(result);
+      else if (result) rolledOver.push(result);
+    } catch (error) {
+      console.error(`Rollover failed for contract ${docSnap.id}:`, error);
+      skipped.push({ contractId: docSnap.id, skippedReason: error?.message || 'Rollover failed' });
+    }
+  }
+
+  return { rolledOver, skipped };
+};
+
+export const scheduledContractRollover = onSchedule(
+  { schedule: 'every day 00:05', timeZone: 'Asia/Manila' },
+  async () => {
+    const { rolledOver, skipped } = await runContractRollovers();
+    console.log(`Contract rollover: ${rolledOver.length} rolled over, ${skipped.length} skipped`);
+  }
+);
@@ -0,0 +1,267 @@
+/**
+ * Firebase Cloud Functions: Donation contract creation
+ *
+ * createDonationContract - new contract paid by bank / e-wallet / Kash
+ *   (status pending until an admin approves the receipt)
+ * createPoolRedonation - new active contract funded from the member's
+ *   withdrawable pool (contract drawdowns first, then MANA balance). The
+ *   split is kept on the new contract (fundingSources) and each source
+ *   contract lists what it funded (fundedContracts).
+ *
+ * Both re-check the plan and the donation limits (see donationLimits.js)
+ * against the member's live contracts inside the transaction, and accept an
+ * optional idempotencyKey so a retry returns the original contract ID.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import {
+  applyContractDrawdown,
+  calculateContractEndDate,
+  calculateTotalWithdrawable,
+  distributeWithdrawalAmount,
+  getLatestContractPlan,
+  isContractPlanAvailable,
+  loadContractPlanCatalog,
+} from './contractMath.js';
+import { assertDonationWithinLimits, loadDonationLimits } from './donationLimits.js';
+import { LedgerAccounts, postLedgerJournal } from './ledger.js';
+import { getReplayedResult, normalizeIdempotencyKey, recordIdempotentResult } from './idempotency.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const toPositiveNumber = (value) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+const toOptionalString = (value) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+const getCurrentPlan = (contractType, now) => {
+  const plan = getLatestContractPlan(String(contractType || ''));
+
+  if (!plan) {
+    throw new HttpsError('invalid-argument', `Unknown contract plan: ${contractType}`);
+  }
+
+  if (!isContractPlanAvailable(plan, now)) {
+    throw new HttpsError('failed-precondition', `${plan.label} is not available for new donations`);
+  }
+
+  return plan;
+};
+
+const readMemberAndContracts = async (transaction, userId) => {
+  const memberRef = db.collection('members').doc(userId);
+  const [memberSnap, contractsSnap, limits] = await Promise.all([
+    transaction.get(memberRef),
+    transaction.get(db.collection('donationContracts').where('userId', '==', userId)),
+    loadDonationLimits(db, transaction),
+  ]);
+
+  if (!memberSnap.exists) {
+    throw new HttpsError('not-found', 'User not found');
+  }
+
+  return {
+    memberRef,
+    member: memberSnap.data(),
+    contracts: contractsSnap.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() })),
+    limits,
+  };
+};
+
+const rethrow = (name, error) => {
+  if (error instanceof HttpsError) {
+    throw error;
+  }
+
+  console.error(`${name} error:`, error);
+  throw new HttpsError('internal', error?.message || 'Failed to create donation contract');
+};
+
+export const createDonationContract = onCall(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'Sign in to donate');
+  }
+
+  const payload = request.data || {};
+  const amount = toPositiveNumber(payload.amount);
+  const paymentMethod = toOptionalString(payload.paymentMethod);
+  const idempotencyKey = normalizeIdempotencyKey(payload.idempotencyKey);
+
+  if (amount <= 0) {
+    throw new HttpsError('invalid-argument', 'Donation amount must be greater than zero');
+  }
+
+  if (!paymentMethod || paymentMethod === 'redonate_pool') {
+    throw new HttpsError('invalid-argument', 'Select a payment method');
+  }
+
+  await loadContractPlanCatalog(db);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const replayed = await getReplayedResult(transaction, userId, idempotencyKey, 'donate');
+      if (replayed) {
+        return replayed;
+      }
+
+      const { member, contracts, limits } = await readMemberAndContracts(transaction, userId);
+      const now = new Date();
+      const plan = getCurrentPlan(payload.contractType, now);
+
+      assertDonationWithinLimits({ amount, plan, contracts, kycStatus: member.kycStatus, limits });
+
+      const contractRef = db.collection('donationContracts').doc();
+      transaction.set(contractRef, {
+        userId,
+        donationAmount: amount,
+        contractType: plan.type,
+        planVersion: plan.version,
+        donationStartDate: null, // Set when admin approves
+        lastWithdrawalDate: null,
+        withdrawalsCount: 0,
+        totalWithdrawn: 0,
+        contractEndDate: null, // Set when admin approves
+        status: 'pending',
+        paymentMethod,
+        receiptURL: toOptionalString(payload.receiptURL),
+        receiptPath: toOptionalString(payload.receiptPath),
+        createdAt: now.toISOString(),
+        approvedAt: null,
+        approvedBy: null,
+      });
+
+      const result = { contractId: contractRef.id };
+      recordIdempotentResult(transaction, userId, idempotencyKey, 'donate', result);
+      return result;
+    });
+  } catch (error) {
+    return rethrow('createDonationContract', error);
+  }
+});
+
+export const createPoolRedonation = onCall(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'Sign in to donate');
+  }
+
+  const payload = request.data || {};
+  const amount = toPositiveNumber(payload.amount);
+  const idempotencyKey = normalizeIdempotencyKey(payload.idempotencyKey);
+
+  if (amount <= 0) {
+    throw new HttpsError('invalid-argument', 'Donation amount must be greater than zero');
+  }
+
+  await loadContractPlanCatalog(db);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      // === ALL READS FIRST ===
+      const replayed = await getReplayedResult(transaction, userId, idempotencyKey, 'donate_from_pool');
+      if (replayed) {
+        return replayed;
+      }
+
+      const { memberRef, member, contracts, limits } = await readMemberAndContracts(transaction, userId);
+      const now = new Date();
+      const timestamp = now.toISOString();
+      const plan = getCurrentPlan(payload.contractType, now);
+
+      // === VALIDATIONS ===
+      assertDonationWithinLimits({ amount, plan, contracts, kycStatus: member.kycStatus, limits });
+
+      const liveBalance = Number(member.balance || 0);
+      const {
+        totalAmount: totalWithdrawable,
+        contractWithdrawals,
+        eligibleContracts,
+      } = calculateTotalWithdrawable(contracts, liveBalance, now);
+
+      if (amount > totalWithdrawable) {
+        throw new HttpsError(
+          'failed-precondition',
+          `Requested amount ${amount.toFixed(2)} KOLI exceeds withdrawable pool ${totalWithdrawable.toFixed(2)} KOLI`
+        );
+      }
+
+      const amountFromContracts = Math.min(amount, contractWithdrawals);
+      const amountFromBalance = Math.max(0, amount - amountFromContracts);
+
+      // === ALL WRITES LAST ===
+      const newContractRef = db.collection('donationContracts').doc();
+      const fundingLines = [];
+      const fundingSources = [];
+
+      if (amountFromContracts > 0) {
+        for (const { contractId, amount: consumedAmount, contract } of distributeWithdrawalAmount(
+          amountFromContracts,
+          eligibleContracts
+        )) {
+          transaction.update(db.collection('donationContracts').doc(contractId), {
+            ...applyContractDrawdown(contract, consumedAmount, timestamp),
+            fundedContracts: FieldValue.arrayUnion({
+              contractId: newContractRef.id,
+              amount: consumedAmount,
+              fundedAt: timestamp,
+            }),
+          });
+          fundingLines.push({ account: LedgerAccounts.contract(contractId), debit: consumedAmount });
+          fundingSources.push({ type: 'contract', contractId, amount: consumedAmount });
+        }
+      }
+
+      if (amountFromBalance > 0) {
+        transaction.update(memberRef, {
+          balance: Math.max(0, liveBalance - amountFromBalance),
+        });
+        fundingLines.push({ account: LedgerAccounts.memberMana(userId), debit: amountFromBalance });
+        fundingSources.push({ type: 'mana', amount: amountFromBalance });
+      }
+
+      const endDate = calculateContractEndDate(now, plan);
+
+      transaction.set(newContractRef, {
+        userId,
+        donationAmount: amount,
+        contractType: plan.type,
+        planVersion: plan.version,
+        donationStartDate: timestamp,
+        lastWithdrawalDate: null,
+        withdrawalsCount: 0,
+        totalWithdrawn: 0,
+        contractEndDate: endDate.toISOString(),
+        status: 'active',
+        paymentMethod: 'redonate_pool',
+        fundingSources,
+        createdAt: timestamp,
+        approvedAt: timestamp,
+        approvedBy: 'system_redonate_pool',
+      });
+
+      postLedgerJournal(transaction, {
+        movementType: 'redonation',
+        userId,
+        sourceCollection: 'donationContracts',
+        sourceId: newContractRef.id,
+        memo: 'Re-donation from withdrawable pool',
+        lines: [...fundingLines, { account: LedgerAccounts.contractPrincipal(newContractRef.id), credit: amount }],
+      });
+
+      const result = { contractId: newContractRef.id };
+      recordIdempotentResult(transaction, userId, idempotencyKey, 'donate_from_pool', result);
+      return result;
+    });
+  } catch (error) {
+    return rethrow('createPoolRedonation', error);
+  }
+});
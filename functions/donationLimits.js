@@ -0,0 +1,151 @@
+/**
+ * Donation limits
+ *
+ * Checked before a contract is created:
+ * 1. Plan minimum / maximum principal (contractPlans catalog)
+ * 2. Per-member cap on active principal (systemSettings/donationLimits)
+ * 3. KYC-tier ceiling on active principal (systemSettings/donationLimits)
+ *
+ * Active principal counts pending, approved and active contracts.
+ * Keep in sync with src/lib/donationLimits.ts.
+ */
+
+import { HttpsError } from 'firebase-functions/v2/https';
+import { getContractPrincipal } from './contractMath.js';
+
+// systemSettings/donationLimits:
+//   memberActivePrincipalCap  - max active principal per member
+//   kycTierCeilings           - max active principal per KYC tier
+//                               ({ unverified, pending, verified })
+// Amounts are in pesos; null disables a limit.
+export const DONATION_LIMITS_DOC = 'donationLimits';
+
+// Fallbacks for a missing doc or a missing / invalid field. A warning is
+// logged whenever one is used, since it means the doc needs fixing.
+export const DEFAULT_MEMBER_ACTIVE_PRINCIPAL_CAP = 500000;
+export const DEFAULT_UNVERIFIED_PRINCIPAL_CEILING = 20000; // not submitted / rejected
+export const DEFAULT_PENDING_PRINCIPAL_CEILING = 50000; // KYC under review
+export const DEFAULT_VERIFIED_PRINCIPAL_CEILING = 500000;
+
+export const DEFAULT_DONATION_LIMITS = {
+  memberActivePrincipalCap: DEFAULT_MEMBER_ACTIVE_PRINCIPAL_CAP,
+  kycTierCeilings: {
+    unverified: DEFAULT_UNVERIFIED_PRINCIPAL_CEILING,
+    pending: DEFAULT_PENDING_PRINCIPAL_CEILING,
+    verified: DEFAULT_VERIFIED_PRINCIPAL_CEILING,
+  },
+};
+
+const KYC_TIER_LABELS = {
+  unverified: 'Unverified',
+  pending: 'KYC Pending',
+  verified: 'KYC Verified',
+};
+
+const ACTIVE_PRINCIPAL_STATUSES = new Set(['pending', 'approved', 'active']);
+
+const toLimit = (value, fallback) => {
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const formatPeso = (value) => `₱${Number(value).toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+
+export const resolveDonationLimits = (data = {}) => {
+  const ceilings = data.kycTierCeilings || {};
+  const defaults = DEFAULT_DONATION_LIMITS.kycTierCeilings;
+  const fallbacks = [];
+
+  const readLimit = (field, value, fallback) => {
+    const limit = toLimit(value, undefined);
+    if (limit !== undefined) return limit;
+    fallbacks.push(`${field}=${fallback}`);
+    return fallback;
+  };
+
+  const limits = {
+    memberActivePrincipalCap: readLimit(
+      'memberActivePrincipalCap',
+      data.memberActivePrincipalCap,
+      DEFAULT_DONATION_LIMITS.memberActivePrincipalCap
+    ),
+    kycTierCeilings: {
+      unverified: readLimit('kycTierCeilings.unverified', ceilings.unverified, defaults.unverified),
+      pending: readLimit('kycTierCeilings.pending', ceilings.pending, defaults.pending),
+      verified: readLimit('kycTierCeilings.verified', ceilings.verified, defaults.verified),
+    },
+  };
+
+  if (fallbacks.length > 0) {
+    console.warn(`systemSettings/${DONATION_LIMITS_DOC} missing or invalid, using defaults: ${fallbacks.join(', ')}`);
+  }
+
+  return limits;
+};
+
+export const loadDonationLimits = async (db, transaction) => {
+  const ref = db.collection('systemSettings').doc(DONATION_LIMITS_DOC);
+  const snapshot = transaction ? await transaction.get(ref) : await ref.get();
+  return resolveDonationLimits(snapshot.exists ? snapshot.data() : {});
+};
+
+export const getKycTier = (kycStatus) => {
+  const status = String(kycStatus || 'NOT_SUBMITTED').toUpperCase();
+  if (status === 'VERIFIED' || status === 'APPROVED') return 'verified';
+  if (status === 'PENDING') return 'pending';
+  return 'unverified';
+};
+
+export const getActivePrincipal = (contracts) =>
+  contracts
+    .filter((contract) => ACTIVE_PRINCIPAL_STATUSES.has(contract.status))
+    .reduce((sum, contract) => sum + getContractPrincipal(contract), 0);
+
+/**
+ * Throws failed-precondition naming the limit that a new contract of `amount`
+ * on `plan` would exceed. `details.limit` is one of plan_minimum, plan_maximum,
+ * member_cap or kyc_tier_ceiling.
+ */
+export const assertDonationWithinLimits = ({ amount, plan, contracts, kycStatus, limits }) => {
+  if (plan.minAmount > 0 && amount < plan.minAmount) {
+    throw new HttpsError(
+      'failed-precondition',
+      `Minimum donation for ${plan.label} is ${formatPeso(plan.minAmount)}`,
+      { limit: 'plan_minimum', limitAmount: plan.minAmount }
+    );
+  }
+
+  if (plan.maxAmount !== null && amount > plan.maxAmount) {
+    throw new HttpsError(
+      'failed-precondition',
+      `Maximum donation for ${plan.label} is ${formatPeso(plan.maxAmount)}`,
+      { limit: 'plan_maximum', limitAmount: plan.maxAmount }
+    );
+  }
+
+  const activePrincipal = getActivePrincipal(contracts);
+  const projectedPrincipal = activePrincipal + amount;
+  const cap = limits.memberActivePrincipalCap;
+
+  if (cap !== null && projectedPrincipal > cap) {
+    throw new HttpsError(
+      'failed-precondition',
+      `Per-member cap reached: active principal would be ${formatPeso(projectedPrincipal)}, above the ${formatPeso(cap)} cap ` +
+        `(you can add up to ${formatPeso(Math.max(0, cap - activePrincipal))})`,
+      { limit: 'member_cap', limitAmount: cap, activePrincipal }
+    );
+  }
+
+  const tier = getKycTier(kycStatus);
+  const ceiling = limits.kycTierCeilings[tier];
+
+  if (ceiling !== null && projectedPrincipal > ceiling) {
+    throw new HttpsError(
+      'failed-precondition',
+      `${KYC_TIER_LABELS[tier]} members can hold up to ${formatPeso(ceiling)} in active principal ` +
+        `(you can add up to ${formatPeso(Math.max(0, ceiling - activePrincipal))})`,
+      { limit: 'kyc_tier_ceiling', limitAmount: ceiling, activePrincipal, kycTier: tier }
+    );
+  }
+};
@@ -0,0 +1,288 @@
+/**
+ * Early termination of lock-in compound contracts
+ *
+ * requestEarlyTermination - member-facing callable. Uses up an
+ *   early_termination PIN authorization (pinAuthorization.js), recomputes the penalized quote (see getEarlyTerminationQuote in
+ *   contractMath.js) and queues an EARLY_TERMINATION payout for the quoted
+ *   amount. The amount is held from the contract like any other drawdown,
+ *   after the withdrawal risk rules (withdrawalRisk.js) are checked, and
+ *   sent to the saved destination the member picks (resolvePayoutDestination
+ *   in payoutDestinations.js).
+ * handleEarlyTerminationDecision - payout_queue trigger. Approval or
+ *   completion closes the contract as `terminated`; rejection releases the
+ *   hold so the contract runs on to maturity.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import {
+  applyContractDrawdown,
+  getContractPlanConfig,
+  getContractPrincipal,
+  getEarlyTerminationQuote,
+  loadContractPlanCatalog,
+  reverseContractDrawdown,
+} from './contractMath.js';
+import { LedgerAccounts, postLedgerJournal } from './ledger.js';
+import { getReplayedResult, normalizeIdempotencyKey, recordIdempotentResult } from './idempotency.js';
+import { assertPinAuthorization, consumePinAuthorization, loadPinAuthorization } from './pinAuthorization.js';
+import { resolvePayoutDestination } from './payoutDestinations.js';
+import { REFUND_PAYOUT_STATUSES, buildCreatedPayoutHistory, getAppliedPayoutTransition } from './payoutStateMachine.js';
+import { applyWithdrawalRisk, evaluateWithdrawalRisk, loadWithdrawalRiskContext } from './withdrawalRisk.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+export const EARLY_TERMINATION_WITHDRAWAL_TYPE = 'EARLY_TERMINATION';
+
+const APPROVED_STATUSES = new Set(['approved', 'completed']);
+
+const isKycApproved = (userData) => userData?.kycStatus === 'VERIFIED' || userData?.kycStatus === 'APPROVED';
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+export const requestEarlyTermination = onCall(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'Sign in to terminate a contract');
+  }
+
+  const payload = request.data || {};
+  const contractId = typeof payload.contractId === 'string' ? payload.contractId.trim() : '';
+  const destinationId = typeof payload.destinationId === 'string' ? payload.destinationId.trim() : '';
+  const idempotencyKey = normalizeIdempotencyKey(payload.idempotencyKey);
+
+  if (!contractId) {
+    throw new HttpsError('invalid-argument', 'contractId is required');
+  }
+
+  if (!destinationId) {
+    throw new HttpsError('invalid-argument', 'Choose a payout destination');
+  }
+
+  await loadContractPlanCatalog(db);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      // === ALL READS FIRST ===
+      const replayed = await getReplayedResult(transaction, userId, idempotencyKey, 'early_termination');
+      if (replayed) {
+        return replayed;
+      }
+
+      const userRef = db.collection('members').doc(userId);
+      const contractRef = db.collection('donationContracts').doc(contractId);
+      const [userSnap, contractSnap] = await Promise.all([transaction.get(userRef), transaction.get(contractRef)]);
+      const payoutDestination = await resolvePayoutDestination(transaction, userId, destinationId);
+      const riskContext = await loadWithdrawalRiskContext(db, transaction, userId);
+      const authorization = await loadPinAuthorization(transaction, payload.pinAuthorization);
+
+      if (!userSnap.exists) {
+        throw new HttpsError('not-found', 'User not found');
+      }
+
+      if (!contractSnap.exists) {
+        throw new HttpsError('not-found', 'Contract not found');
+      }
+
+      const userData = userSnap.data();
+      const contract = { id: contractSnap.id, ...contractSnap.data() };
+
+      // === VALIDATIONS ===
+      if (contract.userId !== userId) {
+        throw new HttpsError('permission-denied', 'Unauthorized: Contract does not belong to this user');
+      }
+
+      if (!isKycApproved(userData)) {
+        throw new HttpsError(
+          'failed-precondition',
+          `KYC verification required. Status: ${userData.kycStatus || 'NOT_SUBMITTED'}`
+        );
+      }
+
+      const plan = getContractPlanConfig(contract);
+      if (!plan.compoundLockIn) {
+        throw new HttpsError('failed-precondition', 'Only lock-in contracts can be terminated early');
+      }
+
+      if (contract.status !== 'active' && contract.status !== 'approved') {
+        throw new HttpsError('failed-precondition', `Contract status is ${contract.status}`);
+      }
+
+      if (contract.terminationStatus === 'requested') {
+        throw new HttpsError('already-exists', 'An early termination request is already pending for this contract');
+      }
+
+      const now = new Date();
+      if (!contract.contractEndDate || now >= new Date(contract.contractEndDate)) {
+        throw new HttpsError('failed-precondition', 'Contract has matured; withdraw the full amount instead');
+      }
+
+      const quote = getEarlyTerminationQuote(contract, now);
+      const amount = round2(quote.payoutAmount);
+
+      if (amount <= 0) {
+        throw new HttpsError('failed-precondition', 'Nothing would be paid out for this contract yet');
+      }
+
+      assertPinAuthorization(authorization, { userId, scope: 'early_termination', amount });
+
+      const risk = applyWithdrawalRisk(evaluateWithdrawalRisk({ ...riskContext, member: userData, amount }));
+
+      // === ALL WRITES LAST ===
+      const timestamp = now.toISOString();
+      const payoutRef = db.collection('payout_queue').doc();
+      const drawdown = applyContractDrawdown(contract, amount, timestamp);
+
+      consumePinAuthorization(transaction, authorization, payoutRef.id);
+
+      transaction.update(contractRef, {
+        totalWithdrawn: drawdown.totalWithdrawn,
+        withdrawalsCount: drawdown.withdrawalsCount,
+        lastWithdrawalDate: drawdown.lastWithdrawalDate,
+        terminationStatus: 'requested',
+        terminationPayoutId: payoutRef.id,
+        terminationRequestedAt: timestamp,
+        terminationPreviousLastWithdrawalDate: contract.lastWithdrawalDate || null,
+        earlyTerminationQuote: quote,
+      });
+
+      const journalId = postLedgerJournal(transaction, {
+        movementType: 'withdrawal_hold',
+        userId,
+        sourceCollection: 'payout_queue',
+        sourceId: payoutRef.id,
+        memo: `Contract ${contractId} early termination held for payout`,
+        lines: [
+          { account: LedgerAccounts.contract(contractId), debit: amount },
+          { account: LedgerAccounts.payoutClearing(userId), credit: amount },
+        ],
+      });
+
+      transaction.set(payoutRef, {
+        userId,
+        userName: userData.fullName || userData.email || 'Unknown',
+        userEmail: userData.email || '',
+        userPhone: userData.phoneNumber || '',
+        contractId,
+        amount,
+        grossAmount: amount,
+        platformFee: 0,
+        netAmount: amount,
+        withdrawalType: EARLY_TERMINATION_WITHDRAWAL_TYPE,
+        isPooled: false,
+        contractPrincipal: getContractPrincipal(contract),
+        actualAmountWithdrawn: amount,
+        totalWithdrawnSoFar: drawdown.totalWithdrawn,
+        remainingBalance: 0,
+        earlyTerminationQuote: quote,
+        ...risk,
+        ...payoutDestination,
+        requestedAt: timestamp,
+        statusHistory: buildCreatedPayoutHistory({ status: risk.status, actor: userId, at: timestamp }),
+        processedAt: null,
+        processedBy: null,
+        transactionProof: null,
+        notes:
+          `Early termination of contract ${contractId}: ${amount.toFixed(2)} KOLI ` +
+          `(${quote.penaltyAmount.toFixed(2)} KOLI penalty after ${quote.monthsElapsed} month(s))`,
+        ledgerJournalId: journalId,
+      });
+
+      const result = { payoutId: payoutRef.id, amount, quote, status: risk.status };
+      recordIdempotentResult(transaction, userId, idempotencyKey, 'early_termination', result);
+      return result;
+    });
+  } catch (error) {
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    console.error('requestEarlyTermination error:', error);
+    throw new HttpsError('internal', error?.message || 'Failed to request early termination');
+  }
+});
+
+const applyTerminationDecision = async (payoutId, status) => {
+  const payoutRef = db.collection('payout_queue').doc(payoutId);
+
+  await db.runTransaction(async (transaction) => {
+    const payoutSnap = await transaction.get(payoutRef);
+    const payout = payoutSnap.data();
+    if (!payout?.contractId) {
+      return;
+    }
+
+    const contractRef = db.collection('donationContracts').doc(payout.contractId);
+    const contractSnap = await transaction.get(contractRef);
+    const contract = contractSnap.data();
+
+    // Only the pending request this payout belongs to can be decided
+    if (!contract || contract.terminationPayoutId !== payoutId || contract.terminationStatus !== 'requested') {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+
+    if (APPROVED_STATUSES.has(status)) {
+      transaction.update(contractRef, {
+        status: 'terminated',
+        terminationStatus: 'approved',
+        terminatedAt: timestamp,
+      });
+      return;
+    }
+
+    const amount = Number(payout.amount || 0);
+
+    // Requests made before terminationPreviousLastWithdrawalDate was recorded
+    // keep the termination's date
+    transaction.update(contractRef, {
+      ...reverseContractDrawdown(contract, amount),
+      lastWithdrawalDate: contract.terminationPreviousLastWithdrawalDate !== undefined
+        ? contract.terminationPreviousLastWithdrawalDate
+        : contract.lastWithdrawalDate || null,
+      terminationStatus: 'rejected',
+      terminationRejectedAt: timestamp,
+    });
+
+    const refundJournalId = postLedgerJournal(transaction, {
+      movementType: 'rejection_refund',
+      userId: payout.userId,
+      sourceCollection: 'payout_queue',
+      sourceId: payoutId,
+      memo: `Rejected early termination returned to contract ${payout.contractId}`,
+      lines: [
+        { account: LedgerAccounts.payoutClearing(payout.userId), debit: amount },
+        { account: LedgerAccounts.contract(payout.contractId), credit: amount },
+      ],
+    });
+
+    transaction.update(payoutRef, {
+      drawdownRefundedAt: timestamp,
+      refundLedgerJournalId: refundJournalId,
+    });
+  });
+};
+
+export const handleEarlyTerminationDecision = onDocumentUpdated('payout_queue/{payoutId}', async (event) => {
+  const before = event.data?.before?.data();
+  const after = event.data?.after?.data();
+
+  if (!after || after.withdrawalType !== EARLY_TERMINATION_WITHDRAWAL_TYPE) {
+    return;
+  }
+
+  const transition = getAppliedPayoutTransition(before, after);
+  if (!transition || (!APPROVED_STATUSES.has(transition.to) && !REFUND_PAYOUT_STATUSES.has(transition.to))) {
+    return;
+  }
+
+  await loadContractPlanCatalog(db);
+  await applyTerminationDecision(event.params.payoutId, transition.to);
+});
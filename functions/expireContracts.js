@@ -0,0 +1,97 @@
+/**
+ * Contract expiry
+ *
+ * Monthly contracts stay withdrawable for the plan's claimWindowDays after
+ * contractEndDate. Once that claim deadline passes, this job moves the
+ * contract to `expired` and records what was left unclaimed:
+ *
+ *   forfeitedAmount = max total withdrawal - totalWithdrawn
+ *
+ * Fully drawn contracts are already `completed` by applyContractDrawdown, and
+ * lock-in contracts never lapse, so neither is touched.
+ *
+ * Runs daily shortly after midnight Manila time. Each contract is re-read in
+ * its own transaction so a withdrawal committed just before the deadline is
+ * never counted as forfeited.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import {
+  getContractClaimDeadline,
+  getContractMaxTotalWithdrawal,
+  getContractTotalWithdrawn,
+  loadContractPlanCatalog,
+} from './contractMath.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const LIVE_CONTRACT_STATUSES = ['active', 'approved'];
+
+const isPastClaimDeadline = (contract, now) => {
+  const claimDeadline = getContractClaimDeadline(contract);
+  return Boolean(claimDeadline) && now > claimDeadline;
+};
+
+const expireContract = (contractRef, now) =>
+  db.runTransaction(async (transaction) => {
+    const contractSnap = await transaction.get(contractRef);
+    if (!contractSnap.exists) return null;
+
+    const contract = { id: contractSnap.id, ...contractSnap.data() };
+    if (!LIVE_CONTRACT_STATUSES.includes(contract.status) || !isPastClaimDeadline(contract, now)) {
+      return null;
+    }
+
+    const forfeitedAmount = Math.max(
+      0,
+      getContractMaxTotalWithdrawal(contract) - getContractTotalWithdrawn(contract)
+    );
+
+    transaction.update(contractRef, {
+      status: 'expired',
+      expiredAt: now.toISOString(),
+      forfeitedAmount,
+    });
+
+    return { contractId: contract.id, userId: contract.userId, forfeitedAmount };
+  });
+
+/**
+ * Expires every live contract whose claim deadline has passed.
+ * @returns { expired: [{ contractId, userId, forfeitedAmount }], totalForfeited }
+ */
+export const expireLapsedContracts = async (now = new Date()) => {
+  await loadContractPlanCatalog(db, { force: true });
+
+  const snapshot = await db
+    .collection('donationContracts')
+    .where('status', 'in', LIVE_CONTRACT_STATUSES)
+    .get();
+
+  const expired = [];
+  for (const docSnap of snapshot.docs) {
+    if (!isPastClaimDeadline({ id: docSnap.id, ...docSnap.data() }, now)) continue;
+
+    const result = await expireContract(docSnap.ref, now);
+    if (result) expired.push(result);
+  }
+
+  return {
+    expired,
+    totalForfeited: expired.reduce((sum, item) => sum + item.forfeitedAmount, 0),
+  };
+};
+
+export const scheduledContractExpiry = onSchedule(
+  { schedule: 'every day 00:15', timeZone: 'Asia/Manila' },
+  async () => {
+    const { expired, totalForfeited } = await expireLapsedContracts();
+    console.log(`Contract expiry: ${expired.length} expired, ${totalForfeited.toFixed(2)} KOLI forfeited`);
+  }
+);
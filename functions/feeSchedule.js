@@ -0,0 +1,132 @@
+/**
+ * Platform fee schedule
+ *
+ * Fee rules live in systemSettings/feeSchedule as { rules: [...] }. Every
+ * active rule that matches the payout method adds its fee to a payout line:
+ *
+ *   percentage - amount * rate
+ *   flat       - a fixed amount
+ *   tiered     - the tier with the highest minAmount <= amount, charging
+ *                amount * rate + flat for that tier
+ *
+ * paymentMethods limits a rule to gcash, maya and/or bank payouts (empty or
+ * missing = all). minFee / maxFee clamp a single rule's fee. The total fee is
+ * rounded to centavos and never exceeds the line amount.
+ *
+ * The fee is deducted from each payout line: grossAmount is what leaves the
+ * contract or MANA balance, netAmount is what finance sends.
+ * Keep in sync with src/lib/feeSchedule.ts.
+ */
+
+export const FEE_SCHEDULE_DOC = 'feeSchedule';
+
+export const DEFAULT_FEE_SCHEDULE = { rules: [] };
+
+const FEE_RULE_TYPES = new Set(['percentage', 'flat', 'tiered']);
+const PAYOUT_METHODS = new Set(['gcash', 'maya', 'bank']);
+
+const toNonNegative = (value, fallback = 0) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const toOptionalLimit = (value) => (value === null || value === undefined ? null : toNonNegative(value, null));
+
+const roundCentavos = (value) => Math.round(value * 100) / 100;
+
+const resolveTier = (tier) => ({
+  minAmount: toNonNegative(tier?.minAmount),
+  rate: toNonNegative(tier?.rate),
+  flat: toNonNegative(tier?.flat),
+});
+
+const resolveFeeRule = (rule, index) => {
+  if (!rule || !FEE_RULE_TYPES.has(rule.type)) {
+    return null;
+  }
+
+  const paymentMethods = Array.isArray(rule.paymentMethods)
+    ? rule.paymentMethods.map((method) => String(method).toLowerCase()).filter((method) => PAYOUT_METHODS.has(method))
+    : [];
+
+  return {
+    id: typeof rule.id === 'string' && rule.id ? rule.id : `rule_${index + 1}`,
+    label: typeof rule.label === 'string' && rule.label ? rule.label : 'Platform fee',
+    type: rule.type,
+    active: rule.active !== false,
+    rate: toNonNegative(rule.rate),
+    amount: toNonNegative(rule.amount),
+    tiers: Array.isArray(rule.tiers)
+      ? rule.tiers.map(resolveTier).sort((a, b) => a.minAmount - b.minAmount)
+      : [],
+    paymentMethods,
+    minFee: toOptionalLimit(rule.minFee),
+    maxFee: toOptionalLimit(rule.maxFee),
+  };
+};
+
+/**
+ * Merge the systemSettings/feeSchedule document over the defaults, dropping
+ * rules with an unknown type
+ */
+export const resolveFeeSchedule = (data = {}) => ({
+  rules: (Array.isArray(data?.rules) ? data.rules : DEFAULT_FEE_SCHEDULE.rules)
+    .map(resolveFeeRule)
+    .filter(Boolean),
+});
+
+export const loadFeeSchedule = async (db, transaction) => {
+  const ref = db.collection('systemSettings').doc(FEE_SCHEDULE_DOC);
+  const snapshot = transaction ? await transaction.get(ref) : await ref.get();
+  return resolveFeeSchedule(snapshot.exists ? snapshot.data() : {});
+};
+
+/**
+ * gcash, maya or bank for a payout's destination fields
+ */
+export const getPayoutMethod = ({ paymentMethod, bankName } = {}) => {
+  if (bankName) return 'bank';
+  const method = String(paymentMethod || '').trim().toLowerCase();
+  return method === 'gcash' || method === 'maya' ? method : 'bank';
+};
+
+const getRuleFee = (rule, amount) => {
+  let fee = 0;
+
+  if (rule.type === 'percentage') {
+    fee = amount * rule.rate;
+  } else if (rule.type === 'flat') {
+    fee = rule.amount;
+  } else {
+    const tier = rule.tiers.filter((candidate) => candidate.minAmount <= amount).pop();
+    fee = tier ? amount * tier.rate + tier.flat : 0;
+  }
+
+  if (rule.minFee !== null) fee = Math.max(fee, rule.minFee);
+  if (rule.maxFee !== null) fee = Math.min(fee, rule.maxFee);
+  return fee;
+};
+
+/**
+ * Fee for one payout line
+ * @returns { grossAmount, platformFee, netAmount, feeBreakdown: [{ ruleId, label, fee }] }
+ */
+export const calculatePayoutFee = (amount, paymentMethod, schedule) => {
+  const grossAmount = toNonNegative(amount);
+  const feeBreakdown = schedule.rules
+    .filter((rule) => rule.active && (rule.paymentMethods.length === 0 || rule.paymentMethods.includes(paymentMethod)))
+    .map((rule) => ({ ruleId: rule.id, label: rule.label, fee: roundCentavos(getRuleFee(rule, grossAmount)) }))
+    .filter((line) => line.fee > 0);
+
+  const platformFee = Math.min(
+    grossAmount,
+    roundCentavos(feeBreakdown.reduce((sum, line) => sum + line.fee, 0))
+  );
+
+  return {
+    grossAmount,
+    platformFee,
+    netAmount: grossAmount - platformFee,
+    feeBreakdown,
+  };
+};
@@ -2,6 +2,10 @@ import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
 import { onSchedule } from 'firebase-functions/v2/scheduler';
 import { getApps, initializeApp } from 'firebase-admin/app';
 import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { getContractClaimDeadline, loadContractPlanCatalog, reverseContractDrawdown } from './contractMath.js';
+import { LedgerAccounts, postLedgerJournal } from './ledger.js';
+import { getPayoutSettlement } from './payoutLedger.js';
+import { REFUND_PAYOUT_STATUSES, getAppliedPayoutTransition, normalizePayoutStatus } from './payoutStateMachine.js';
 
 if (getApps().length === 0) {
   initializeApp();
@@ -9,9 +13,7 @@ if (getApps().length === 0) {
 
 const db = getFirestore();
 
-const REJECTED_STATUSES = new Set(['rejected', 'reject', 'declined', 'failed', 'returned']);
-
-const normalizeStatus = (status) => String(status || '').trim().toLowerCase();
+const BACKFILL_PAGE_SIZE = 100;
 
 const getRefundAmount = (payout) => {
   const rawAmount = payout?.netAmount ?? payout?.actualAmountWithdrawn ?? payout?.amount ?? 0;
@@ -22,6 +24,35 @@ const getRefundAmount = (payout) => {
   return parsed;
 };
 
+// The amount taken from the contract or MANA balance when the payout was queued
+const getDrawdownAmount = (payout) => {
+  const parsed = Number(payout?.actualAmountWithdrawn ?? payout?.amount ?? 0);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+// Payouts queued by processPooledWithdrawal / withdrawWithPin draw on a
+// contract or the MANA balance; anything else is an ODHex vault withdrawal
+const isKoliDrawdown = (payout) =>
+  !payout?.odhexWithdrawalId && (payout?.withdrawalType === 'MANA_REWARDS' || Boolean(payout?.contractId));
+
+// Contracts that can still take a drawdown back; completed ones reopen.
+// Anything else (expired, terminated…) is refunded to the MANA balance.
+const REFUNDABLE_CONTRACT_STATUSES = new Set(['active', 'approved', 'completed']);
+
+const canContractTakeRefund = (contract, now) => {
+  if (!REFUNDABLE_CONTRACT_STATUSES.has(contract.status)) {
+    return false;
+  }
+  const claimDeadline = getContractClaimDeadline(contract);
+  return !claimDeadline || now <= claimDeadline;
+};
+
+const STATUS_VERBS = {
+  rejected: 'was rejected',
+  failed: 'could not be sent',
+  returned: 'was returned by the receiving wallet',
+};
+
 const getFinanceNote = (payout) => {
   return (
     payout?.financeNote ||
@@ -32,6 +63,13 @@ const getFinanceNote = (payout) => {
   );
 };
 
+const SYNCED_WITHDRAWAL_FIELDS = ['payoutQueueId', 'status', 'processedAt', 'processedBy', 'financeAdminNote', 'mainAdminNote'];
+
+const isSameValue = (left, right) =>
+  typeof left?.isEqual === 'function' ? left.isEqual(right) : left === right;
+
+// Copies the payout's status and notes onto its odhexWithdrawals doc; skips
+// the write when nothing changed
 const syncLinkedOdhexWithdrawal = async (payoutId, payoutData) => {
   const linkedWithdrawalId = payoutData?.odhexWithdrawalId;
   if (!linkedWithdrawalId) {
@@ -39,22 +77,199 @@ const syncLinkedOdhexWithdrawal = async (payoutId, payoutData) => {
   }
 
   const linkedWithdrawalRef = db.collection('odhexWithdrawals').doc(linkedWithdrawalId);
-  const syncedFinanceNote = getFinanceNote(payoutData);
-
-  await linkedWithdrawalRef.set({
+  const synced = {
     payoutQueueId: payoutId,
     status: payoutData.status || 'pending',
     processedAt: payoutData.processedAt || null,
     processedBy: payoutData.processedBy || null,
-    financeAdminNote: syncedFinanceNote || null,
+    financeAdminNote: getFinanceNote(payoutData) || null,
     mainAdminNote: payoutData.mainAdminNote || null,
+  };
+
+  const linkedSnap = await linkedWithdrawalRef.get();
+  const current = linkedSnap.exists ? linkedSnap.data() : null;
+  if (current && SYNCED_WITHDRAWAL_FIELDS.every((field) => isSameValue(current[field] ?? null, synced[field]))) {
+    return;
+  }
+
+  await linkedWithdrawalRef.set({ ...synced, updatedAt: FieldValue.serverTimestamp() }, { merge: true });
+};
+
+/**
+ * Puts a KOLI drawdown back where it came from: the contract's totalWithdrawn
+ * (reopening a contract the drawdown completed) or the member's MANA balance.
+ * A contract that has expired, ended its claim window or was terminated
+ * can't take it back, so the amount goes to the MANA balance instead.
+ * A payout returned after it settled is taken back out of payouts_settled
+ * and platform_fees, since payout_completion already drained clearing.
+ * Must run before any other write in the transaction.
+ */
+const refundKoliDrawdown = async (transaction, payoutRef, payoutData, payoutStatus) => {
+  const userId = payoutData.userId;
+  const amount = getDrawdownAmount(payoutData);
+  const memberRef = db.collection('members').doc(userId);
+  const contractRef = payoutData.withdrawalType === 'MANA_REWARDS'
+    ? null
+    : db.collection('donationContracts').doc(payoutData.contractId);
+
+  // === ALL READS FIRST ===
+  const contractSnap = contractRef ? await transaction.get(contractRef) : null;
+
+  const now = new Date();
+  const contract = contractSnap?.exists ? { id: contractSnap.id, ...contractSnap.data() } : null;
+  const refundToContract = Boolean(contract) && canContractTakeRefund(contract, now);
+  const memberSnap = refundToContract ? null : await transaction.get(memberRef);
+
+  // === VALIDATIONS ===
+  const timestamp = now.toISOString();
+
+  if (!refundToContract && !memberSnap.exists) {
+    transaction.update(payoutRef, {
+      drawdownRefundedAt: timestamp,
+      drawdownRefundError: 'Member not found',
+      refundPending: false,
+    });
+    return;
+  }
+
+  // === ALL WRITES LAST ===
+  const sourceLabel = refundToContract ? `contract ${payoutData.contractId.slice(0, 8)}` : 'your MANA balance';
+  const refundAccount = refundToContract
+    ? LedgerAccounts.contract(payoutData.contractId)
+    : LedgerAccounts.memberMana(userId);
+
+  if (refundToContract) {
+    transaction.update(contractRef, reverseContractDrawdown(contract, amount));
+  } else {
+    transaction.update(memberRef, {
+      balance: Number(memberSnap.data().balance || 0) + amount,
+    });
+  }
+
+  // Legacy payouts were queued without a withdrawal_hold, so nothing sits in clearing
+  let refundJournalId = null;
+  if (payoutData.ledgerJournalId) {
+    // Only completed payouts can be returned (see payoutStateMachine.js)
+    const wasSettled = payoutStatus === 'returned';
+    const { netAmount, platformFee } = getPayoutSettlement(payoutData);
+    const debitLines = wasSettled
+      ? [
+        { account: LedgerAccounts.payoutsSettled, debit: netAmount },
+        { account: LedgerAccounts.platformFees, debit: platformFee },
+      ]
+      : [{ account: LedgerAccounts.payoutClearing(userId), debit: amount }];
+
+    refundJournalId = postLedgerJournal(transaction, {
+      movementType: 'rejection_refund',
+      userId,
+      sourceCollection: 'payout_queue',
+      sourceId: payoutRef.id,
+      memo: `${wasSettled ? 'Returned' : 'Unpaid'} payout refunded to ` +
+        (refundToContract ? `contract ${payoutData.contractId}` : 'MANA balance'),
+      lines: [...debitLines, { account: refundAccount, credit: amount }],
+    });
+  }
+
+  const reason = payoutData.rejectionReason || payoutData.financeNote || null;
+  const notificationRef = db.collection('notifications').doc(`${userId}_payout_refunded_${payoutRef.id}`);
+  transaction.set(notificationRef, {
+    userId,
+    type: 'withdrawal_refunded',
+    title: 'Withdrawal Refunded',
+    message:
+      `Your ${amount.toFixed(2)} KOLI withdrawal ${STATUS_VERBS[payoutStatus]}. ` +
+      `The amount was returned to ${sourceLabel}.` +
+      (reason ? ` Reason: ${reason}` : ''),
+    relatedId: payoutRef.id,
+    isRead: false,
+    createdAt: FieldValue.serverTimestamp(),
     updatedAt: FieldValue.serverTimestamp(),
-  }, { merge: true });
+  });
+
+  transaction.update(payoutRef, {
+    drawdownRefundedAt: timestamp,
+    drawdownRefundAmount: amount,
+    drawdownRefundedTo: refundToContract ? 'contract' : 'mana_balance',
+    refundLedgerJournalId: refundJournalId,
+    refundNotificationId: notificationRef.id,
+    refundPending: false,
+  });
+};
+
+/**
+ * Returns an ODHex withdrawal to the member's ODHex vault.
+ * Must run before any other write in the transaction.
+ */
+const refundOdhexVault = async (transaction, payoutRef, payoutData, payoutStatus) => {
+  const userId = payoutData.userId;
+  const amountToRefund = getRefundAmount(payoutData);
+
+  const memberRef = db.collection('ODHexMembers').doc(userId);
+  const memberSnapshot = await transaction.get(memberRef);
+
+  if (!memberSnapshot.exists) {
+    transaction.update(payoutRef, {
+      odhexRefundProcessedAt: FieldValue.serverTimestamp(),
+      odhexRefundError: 'ODHex member not found',
+      refundPending: false,
+    });
+    return;
+  }
+
+  const currentVaultBalance = Number(memberSnapshot.data()?.vaultBalance || 0);
+  const nextVaultBalance = currentVaultBalance + amountToRefund;
+
+  transaction.update(memberRef, {
+    vaultBalance: nextVaultBalance,
+    lastRefundedAt: FieldValue.serverTimestamp(),
+  });
+
+  const refundJournalId = postLedgerJournal(transaction, {
+    movementType: 'rejection_refund',
+    userId,
+    sourceCollection: 'payout_queue',
+    sourceId: payoutRef.id,
+    memo: 'Rejected payout refunded to ODHex vault',
+    lines: [
+      { account: LedgerAccounts.odhexPayoutClearing, debit: amountToRefund },
+      { account: LedgerAccounts.odhexVault(userId), credit: amountToRefund },
+    ],
+  });
+
+  const financeAdminNote = getFinanceNote(payoutData);
+  const notificationRef = db.collection('odhexNotifications').doc();
+  const message = financeAdminNote
+    ? `Your withdrawal was rejected by finance admin. ₱${amountToRefund.toFixed(2)} was returned to your ODHex wallet. Note: ${financeAdminNote}`
+    : `Your withdrawal was rejected by finance admin. ₱${amountToRefund.toFixed(2)} was returned to your ODHex wallet.`;
+
+  transaction.set(notificationRef, {
+    userId,
+    payoutId: payoutRef.id,
+    type: 'withdrawal_rejected',
+    title: 'Withdrawal Rejected',
+    message,
+    amount: amountToRefund,
+    financeAdminNote: financeAdminNote || null,
+    status: payoutStatus,
+    createdAt: FieldValue.serverTimestamp(),
+    read: false,
+  });
+
+  transaction.update(payoutRef, {
+    odhexRefundProcessedAt: FieldValue.serverTimestamp(),
+    odhexRefundAmount: amountToRefund,
+    odhexRefundedTo: userId,
+    odhexNotificationId: notificationRef.id,
+    refundLedgerJournalId: refundJournalId,
+    refundPending: false,
+  });
 };
 
 const processRejectedRefund = async (payoutId) => {
   const payoutRef = db.collection('payout_queue').doc(payoutId);
 
+  await loadContractPlanCatalog(db);
+
   await db.runTransaction(async (transaction) => {
     const payoutSnapshot = await transaction.get(payoutRef);
     if (!payoutSnapshot.exists) {
@@ -66,69 +281,45 @@ const processRejectedRefund = async (payoutId) => {
       return;
     }
 
-    const payoutStatus = normalizeStatus(payoutData.status);
-    if (!REJECTED_STATUSES.has(payoutStatus)) {
+    // Nothing to refund here, so the backfill can stop looking at it
+    const skip = () => {
+      if (payoutData.refundPending) {
+        transaction.update(payoutRef, { refundPending: false });
+      }
+    };
+
+    const payoutStatus = normalizePayoutStatus(payoutData.status);
+    if (!REFUND_PAYOUT_STATUSES.has(payoutStatus)) {
       return;
     }
 
-    if (payoutData.odhexRefundProcessedAt) {
+    if (payoutData.odhexRefundProcessedAt || payoutData.drawdownRefundedAt) {
+      skip();
       return;
     }
 
-    const userId = payoutData.userId;
-    const amountToRefund = getRefundAmount(payoutData);
-    if (!userId || amountToRefund <= 0) {
+    // Early termination holds go back to the contract (see earlyTermination.js)
+    if (payoutData.withdrawalType === 'EARLY_TERMINATION') {
+      skip();
       return;
     }
 
-    const memberRef = db.collection('ODHexMembers').doc(userId);
-    const memberSnapshot = await transaction.get(memberRef);
-
-    if (!memberSnapshot.exists) {
-      transaction.update(payoutRef, {
-        odhexRefundProcessedAt: FieldValue.serverTimestamp(),
-        odhexRefundError: 'ODHex member not found',
-      });
+    if (!payoutData.userId || getRefundAmount(payoutData) <= 0) {
+      skip();
       return;
     }
 
-    const currentVaultBalance = Number(memberSnapshot.data()?.vaultBalance || 0);
-    const nextVaultBalance = currentVaultBalance + amountToRefund;
-
-    transaction.update(memberRef, {
-      vaultBalance: nextVaultBalance,
-      lastRefundedAt: FieldValue.serverTimestamp(),
-    });
-
-    const financeAdminNote = getFinanceNote(payoutData);
-    const notificationRef = db.collection('odhexNotifications').doc();
-    const message = financeAdminNote
-      ? `Your withdrawal was rejected by finance admin. ₱${amountToRefund.toFixed(2)} was returned to your ODHex wallet. Note: ${financeAdminNote}`
-      : `Your withdrawal was rejected by finance admin. ₱${amountToRefund.toFixed(2)} was returned to your ODHex wallet.`;
-
-    transaction.set(notificationRef, {
-      userId,
-      payoutId,
-      type: 'withdrawal_rejected',
-      title: 'Withdrawal Rejected',
-      message,
-      amount: amountToRefund,
-      financeAdminNote: financeAdminNote || null,
-      status: payoutStatus,
-      createdAt: FieldValue.serverTimestamp(),
-      read: false,
-    });
+    if (isKoliDrawdown(payoutData)) {
+      await refundKoliDrawdown(transaction, payoutRef, payoutData, payoutStatus);
+      return;
+    }
 
-    transaction.update(payoutRef, {
-      odhexRefundProcessedAt: FieldValue.serverTimestamp(),
-      odhexRefundAmount: amountToRefund,
-      odhexRefundedTo: userId,
-      odhexNotificationId: notificationRef.id,
-    });
+    await refundOdhexVault(transaction, payoutRef, payoutData, payoutStatus);
   });
 };
 
 export const handlePayoutRejection = onDocumentUpdated('payout_queue/{payoutId}', async (event) => {
+  const before = event.data?.before?.data();
   const after = event.data?.after?.data();
 
   if (!after) {
@@ -136,43 +327,39 @@ export const handlePayoutRejection = onDocumentUpdated('payout_queue/{payoutId}'
   }
 
   const payoutId = event.params.payoutId;
-  const currentStatus = normalizeStatus(after.status);
 
   await syncLinkedOdhexWithdrawal(payoutId, after);
 
-  if (!REJECTED_STATUSES.has(currentStatus)) {
+  // Only refund on an allowed move into a refund status (see payoutStateMachine.js)
+  const transition = getAppliedPayoutTransition(before, after);
+  if (!transition || !REFUND_PAYOUT_STATUSES.has(transition.to)) {
     return;
   }
 
   await processRejectedRefund(payoutId);
 });
 
+// Retries refunds the trigger missed. Only payouts still flagged refundPending
+// (set with the move into a refund status, cleared by the refund) are read.
 export const backfillRejectedOdhexRefunds = onSchedule('every 5 minutes', async () => {
-  const rejectedStatuses = [
-    'rejected',
-    'reject',
-    'declined',
-    'failed',
-    'returned',
-    'Rejected',
-    'Declined',
-    'Failed',
-    'Returned',
-    'REJECTED',
-  ];
-  const snapshot = await db
+  const baseQuery = db
     .collection('payout_queue')
-    .where('status', 'in', rejectedStatuses)
-    .limit(100)
-    .get();
-
-  for (const docSnap of snapshot.docs) {
-    const data = docSnap.data();
-
-    await syncLinkedOdhexWithdrawal(docSnap.id, data);
+    .where('refundPending', '==', true)
+    .limit(BACKFILL_PAGE_SIZE);
+
+  // startAfter keeps a payout whose refund keeps failing from stalling the run
+  let lastDoc = null;
+  for (;;) {
+    const snapshot = await (lastDoc ? baseQuery.startAfter(lastDoc) : baseQuery).get();
+    if (snapshot.empty) {
+      break;
+    }
 
-    if (!data.odhexRefundProcessedAt) {
+    for (const docSnap of snapshot.docs) {
+      await syncLinkedOdhexWithdrawal(docSnap.id, docSnap.data());
       await processRejectedRefund(docSnap.id);
     }
+
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
   }
 });
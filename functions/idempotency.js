@@ -0,0 +1,69 @@
+import { HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+// Keys are generated by createIdempotencyKey (src/lib/idempotency.ts)
+const IDEMPOTENCY_COLLECTION = 'idempotencyKeys';
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const normalizeIdempotencyKey = (value) => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+
+  const key = String(value);
+  if (!/^[A-Za-z0-9_-]{8,128}$/.test(key)) {
+    throw new HttpsError('invalid-argument', 'Invalid idempotency key');
+  }
+
+  return key;
+};
+
+const getKeyRef = (userId, key) => db.collection(IDEMPOTENCY_COLLECTION).doc(`${userId}_${key}`);
+
+/**
+ * Reads a key inside a transaction. Returns the stored result for a replay,
+ * or null for a new/expired key. Call before any transaction writes.
+ */
+export const getReplayedResult = async (transaction, userId, key, operation) => {
+  if (!key) {
+    return null;
+  }
+
+  const snapshot = await transaction.get(getKeyRef(userId, key));
+  if (!snapshot.exists) {
+    return null;
+  }
+
+  const record = snapshot.data();
+  if (record.expiresAt && record.expiresAt.toMillis() <= Date.now()) {
+    return null;
+  }
+
+  if (record.operation !== operation) {
+    throw new HttpsError('already-exists', 'Idempotency key was already used for a different operation');
+  }
+
+  return record.result;
+};
+
+export const recordIdempotentResult = (transaction, userId, key, operation, result) => {
+  if (!key) {
+    return;
+  }
+
+  const now = Date.now();
+  transaction.set(getKeyRef(userId, key), {
+    userId,
+    operation,
+    result,
+    createdAt: Timestamp.fromMillis(now),
+    expiresAt: Timestamp.fromMillis(now + IDEMPOTENCY_TTL_MS),
+  });
+};
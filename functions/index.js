@@ -2,5 +2,44 @@
 export { claimManaReward } from './claimManaReward.js';
 export { cleanupManaBalances } from './cleanupManaBalances.js';
 export { sendVerificationEmail } from './sendVerificationEmail.js';
+export { sendSignupOTP, verifySignupOTP } from './signupOtp.js';
+export { recordSignupReferral } from './signupReferral.js';
 export { sendPasswordResetOTP, verifyPasswordResetOTP, resetPasswordWithOTP } from './sendPasswordResetOTP.js';
 export { handlePayoutRejection, backfillRejectedOdhexRefunds } from './handlePayoutRejection.js';
+export { processPooledWithdrawal } from './processPooledWithdrawal.js';
+export { withdrawWithPin } from './withdrawWithPin.js';
+export { setupPin, verifyPin, changePin } from './pinVerification.js';
+export { authorizePinAction, redeemPinAuthorization } from './pinAuthorization.js';
+export {
+  startPasskeyRegistration,
+  finishPasskeyRegistration,
+  startPasskeyAuthentication,
+  finishPasskeyAuthentication,
+  removePasskey,
+  setPasskeyFunding,
+} from './passkeys.js';
+export { registerSession, endSession, signOutSession, signOutOtherSessions } from './memberSessions.js';
+export {
+  addPayoutDestination,
+  resendPayoutDestinationCode,
+  verifyPayoutDestination,
+  removePayoutDestination,
+} from './payoutDestinations.js';
+export { postPayoutCompletionLedger, reconstructLedgerBalance } from './payoutLedger.js';
+export { scheduledBalanceReconciliation, runBalanceReconciliation } from './reconcileBalances.js';
+export { createDonationContract, createPoolRedonation } from './createDonationContract.js';
+export { scheduledContractExpiry } from './expireContracts.js';
+export { requestEarlyTermination, handleEarlyTerminationDecision } from './earlyTermination.js';
+export { setContractRollover, scheduledContractRollover } from './contractRollover.js';
+export { reviewDonationContract } from './reviewDonationContract.js';
+export {
+  listAdminQueue,
+  updatePayoutStatus,
+  reviewKycSubmission,
+  lookupMember,
+  resetMemberPin,
+  postManaReward,
+  setMaintenanceSchedule,
+} from './adminConsole.js';
+export { enforcePayoutTransitions } from './payoutStateMachine.js';
+export { exportPayoutBatch, importPayoutSettlement } from './payoutBatches.js';
@@ -0,0 +1,110 @@
+/**
+ * Double-entry ledger for KOLI balance movements
+ *
+ * Every movement is a journal of immutable entries in `ledgerEntries` whose
+ * debits equal its credits. Member-facing accounts are liabilities, so a
+ * credit increases what the platform owes and a debit decreases it:
+ *
+ *   member_mana:{uid}       MANA balance (members.balance)
+ *   contract:{contractId}   contract drawdowns (debits = totalWithdrawn)
+ *   contract_principal:{id} principal funded from the withdrawable pool
+ *   payout_clearing:{uid}   amounts held for queued payouts
+ *   mana_reward_pool        source of MANA claims
+ *   payouts_settled         amounts paid out by finance
+ *   platform_fees           fees kept from completed payouts
+ *   mana_forfeited          balances zeroed by MANA cleanup
+ *   odhex_vault:{uid}       ODHex vault refunds
+ *
+ * The ledger is append-only and only Cloud Functions post to it (clients are
+ * denied by firestore.rules). Journal IDs are derived from the source
+ * document and entries are written with create(), so re-posting a journal
+ * fails instead of double posting or replacing an existing entry.
+ */
+
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+export const LEDGER_COLLECTION = 'ledgerEntries';
+const BALANCE_TOLERANCE = 1e-6;
+
+export const LedgerAccounts = {
+  memberMana: (userId) => `member_mana:${userId}`,
+  contract: (contractId) => `contract:${contractId}`,
+  contractPrincipal: (contractId) => `contract_principal:${contractId}`,
+  payoutClearing: (userId) => `payout_clearing:${userId}`,
+  odhexVault: (userId) => `odhex_vault:${userId}`,
+  odhexPayoutClearing: 'odhex_payout_clearing',
+  manaRewardPool: 'mana_reward_pool',
+  payoutsSettled: 'payouts_settled',
+  platformFees: 'platform_fees',
+  manaForfeited: 'mana_forfeited',
+};
+
+export const getLedgerJournalId = (movementType, sourceId) => `${movementType}_${sourceId}`;
+
+export const getLedgerEntryRef = (journalId, index) => db.collection(LEDGER_COLLECTION).doc(`${journalId}_${index}`);
+
+/**
+ * Adds the journal's entries to a transaction or batch. The commit fails if
+ * any entry already exists.
+ * @param writer - Firestore transaction or write batch
+ * @param journal - { movementType, userId, sourceCollection, sourceId, memo, lines: [{ account, debit?, credit? }] }
+ * @returns Journal ID
+ */
+export const postLedgerJournal = (writer, journal) => {
+  const lines = (journal.lines || []).filter((line) => Number(line.debit || 0) > 0 || Number(line.credit || 0) > 0);
+
+  if (lines.length < 2) {
+    throw new Error('Ledger journal needs at least one debit and one credit');
+  }
+
+  const totalDebits = lines.reduce((sum, line) => sum + Number(line.debit || 0), 0);
+  const totalCredits = lines.reduce((sum, line) => sum + Number(line.credit || 0), 0);
+
+  if (Math.abs(totalDebits - totalCredits) > BALANCE_TOLERANCE) {
+    throw new Error(`Unbalanced ledger journal: debits ${totalDebits} != credits ${totalCredits}`);
+  }
+
+  const journalId = journal.journalId || getLedgerJournalId(journal.movementType, journal.sourceId);
+  const effectiveAt = journal.effectiveAt || new Date().toISOString();
+
+  lines.forEach((line, index) => {
+    const isDebit = Number(line.debit || 0) > 0;
+    writer.create(getLedgerEntryRef(journalId, index), {
+      journalId,
+      movementType: journal.movementType,
+      userId: journal.userId || null,
+      account: line.account,
+      side: isDebit ? 'debit' : 'credit',
+      amount: isDebit ? Number(line.debit) : Number(line.credit),
+      sourceCollection: journal.sourceCollection,
+      sourceId: journal.sourceId,
+      memo: journal.memo || null,
+      effectiveAt,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+  });
+
+  return journalId;
+};
+
+/**
+ * Net balance of an account from its entries (credits minus debits).
+ */
+export const sumLedgerEntries = (entries) => {
+  const balances = {};
+
+  for (const entry of entries) {
+    const amount = Number(entry.amount || 0);
+    const signed = entry.side === 'credit' ? amount : -amount;
+    balances[entry.account] = (balances[entry.account] || 0) + signed;
+  }
+
+  return balances;
+};
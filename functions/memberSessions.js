@@ -0,0 +1,224 @@
+/**
+ * Member sessions (signed-in devices)
+ *
+ * The app registers its session on sign-in, app start and PIN / passkey unlock
+ * so members can see where they are signed in from Profile:
+ *
+ * registerSession        - create or refresh this device's session (last seen,
+ *                          approximate location); rejects a signed-out session
+ * endSession             - mark this device's session signed out (logout)
+ * signOutSession         - mark one of the member's other sessions signed out
+ *                          (e.g. a lost phone)
+ * signOutOtherSessions   - revoke the member's refresh tokens, mark every other
+ *                          session signed out and return a custom token so this
+ *                          device can sign straight back in
+ *
+ * Sessions live in memberSessions/{sessionId}; members can read their own and
+ * the app signs out as soon as its session shows signedOutAt, and
+ * registerSession refuses it afterwards. Firebase can only revoke refresh
+ * tokens per account, so signOutSession relies on that app check; use
+ * signOutOtherSessions when a device may not be running the app.
+ *
+ * Location is looked up from the caller's IP (first x-forwarded-for hop) with
+ * the GEOIP_LOOKUP_URL service, only when the IP changes, and is null when
+ * the lookup fails. Only a hash of the member id and IP is stored, to spot changes.
+ * Keep in sync with src/lib/memberSessions.ts
+ */
+
+import { createHash } from 'node:crypto';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { defineString } from 'firebase-functions/params';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+const auth = getAuth();
+
+// {ip} is replaced with the caller's IP. The response may use ipapi.co
+// (city / region_code / country_code) or ip-api.com (city / region / countryCode) fields.
+const geoIpLookupUrl = defineString('GEOIP_LOOKUP_URL', { default: 'https://ipapi.co/{ip}/json/' });
+
+const MEMBER_SESSIONS_COLLECTION = 'memberSessions';
+const GEO_LOOKUP_TIMEOUT_MS = 2000;
+const PLATFORMS = new Set(['iPhone', 'iPad', 'Android', 'Mac', 'Windows', 'Linux', 'Other']);
+
+const requireUser = (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'Sign in to manage your sessions');
+  }
+  return userId;
+};
+
+const requireSessionId = (value) => {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9-]{16,64}$/.test(value)) {
+    throw new HttpsError('invalid-argument', 'Invalid session ID');
+  }
+  return value;
+};
+
+// Loopback, private and link-local ranges (emulator, internal hops) have no location
+const PRIVATE_IP_PATTERN = /^(127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.|169\.254\.|::1$|f[cd]|fe80:)/i;
+
+/**
+ * The caller's IP: the first x-forwarded-for hop (Cloud Run's front end
+ * appends its own), else the socket address
+ */
+const getClientIp = (request) => {
+  const forwarded = request.rawRequest?.headers?.['x-forwarded-for'];
+  const candidate = typeof forwarded === 'string' && forwarded
+    ? forwarded.split(',')[0].trim()
+    : request.rawRequest?.ip || '';
+  const ip = candidate.replace(/^::ffff:/, '');
+  return ip && !PRIVATE_IP_PATTERN.test(ip) ? ip : null;
+};
+
+const hashIp = (userId, ip) => createHash('sha256').update(`${userId}:${ip}`).digest('hex');
+
+const toText = (value) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+/**
+ * City / region / country for an IP, or null when the lookup fails
+ */
+const lookupApproximateLocation = async (ip) => {
+  try {
+    const response = await fetch(geoIpLookupUrl.value().replace('{ip}', encodeURIComponent(ip)), {
+      signal: AbortSignal.timeout(GEO_LOOKUP_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return null;
+    }
+
+    const data = await response.json();
+    const country = toText(data.country_code) || toText(data.countryCode);
+    if (!country || data.error || data.status === 'fail') {
+      return null;
+    }
+
+    return {
+      city: toText(data.city),
+      region: toText(data.region_code) || toText(data.region),
+      country: country.toUpperCase(),
+    };
+  } catch (error) {
+    console.warn('Session location lookup failed:', error?.message || error);
+    return null;
+  }
+};
+
+export const registerSession = onCall(async (request) => {
+  const userId = requireUser(request);
+  const payload = request.data || {};
+  const sessionId = requireSessionId(payload.sessionId);
+  const sessionRef = db.collection(MEMBER_SESSIONS_COLLECTION).doc(sessionId);
+  const now = new Date().toISOString();
+
+  // The lookup is a network call, so it runs before the transaction and only
+  // when this device's IP changed since its last registration
+  const clientIp = getClientIp(request);
+  const ipHash = clientIp ? hashIp(userId, clientIp) : null;
+  const previous = (await sessionRef.get()).data();
+  const lookedUpLocation = ipHash && (previous?.ipHash !== ipHash || !previous?.location)
+    ? await lookupApproximateLocation(clientIp)
+    : null;
+
+  return db.runTransaction(async (transaction) => {
+    // === ALL READS FIRST ===
+    const sessionSnap = await transaction.get(sessionRef);
+    const existing = sessionSnap.exists ? sessionSnap.data() : null;
+
+    // === VALIDATIONS ===
+    if (existing && existing.userId !== userId) {
+      throw new HttpsError('permission-denied', 'Session belongs to another account');
+    }
+
+    if (existing?.signedOutAt) {
+      throw new HttpsError('unauthenticated', 'This device was signed out. Please sign in again.');
+    }
+
+    // === ALL WRITES LAST ===
+    const session = {
+      userId,
+      sessionId,
+      deviceLabel: String(payload.deviceLabel || '').trim().slice(0, 60) || 'Unknown device',
+      platform: PLATFORMS.has(payload.platform) ? payload.platform : 'Other',
+      displayMode: payload.displayMode === 'pwa' ? 'pwa' : 'browser',
+      location: lookedUpLocation || existing?.location || null,
+      ipHash: lookedUpLocation ? ipHash : existing?.ipHash || null,
+      createdAt: existing?.createdAt || now,
+      lastSeenAt: now,
+      signedOutAt: null,
+    };
+
+    transaction.set(sessionRef, session);
+    const { ipHash: _ipHash, ...visible } = session;
+    return visible;
+  });
+});
+
+export const endSession = onCall(async (request) => {
+  const userId = requireUser(request);
+  const sessionId = requireSessionId(request.data?.sessionId);
+  const sessionRef = db.collection(MEMBER_SESSIONS_COLLECTION).doc(sessionId);
+  const sessionSnap = await sessionRef.get();
+
+  if (!sessionSnap.exists || sessionSnap.data().userId !== userId) {
+    throw new HttpsError('not-found', 'Session not found');
+  }
+
+  if (!sessionSnap.data().signedOutAt) {
+    await sessionRef.update({ signedOutAt: new Date().toISOString(), signedOutBy: 'self' });
+  }
+
+  return { sessionId };
+});
+
+export const signOutSession = onCall(async (request) => {
+  const userId = requireUser(request);
+  const sessionId = requireSessionId(request.data?.sessionId);
+  const currentSessionId = request.data?.currentSessionId ? requireSessionId(request.data.currentSessionId) : null;
+  const sessionRef = db.collection(MEMBER_SESSIONS_COLLECTION).doc(sessionId);
+  const sessionSnap = await sessionRef.get();
+
+  if (!sessionSnap.exists || sessionSnap.data().userId !== userId) {
+    throw new HttpsError('not-found', 'Session not found');
+  }
+
+  if (!sessionSnap.data().signedOutAt) {
+    await sessionRef.update({
+      signedOutAt: new Date().toISOString(),
+      signedOutBy: sessionId === currentSessionId ? 'self' : currentSessionId || 'member',
+    });
+  }
+
+  return { sessionId };
+});
+
+export const signOutOtherSessions = onCall(async (request) => {
+  const userId = requireUser(request);
+  const sessionId = requireSessionId(request.data?.sessionId);
+
+  // Every refresh token issued so far stops working, including this device's
+  await auth.revokeRefreshTokens(userId);
+
+  const snapshot = await db.collection(MEMBER_SESSIONS_COLLECTION).where('userId', '==', userId).get();
+  const now = new Date().toISOString();
+  const batch = db.batch();
+  let signedOut = 0;
+
+  snapshot.docs.forEach((docSnap) => {
+    if (docSnap.id !== sessionId && !docSnap.data().signedOutAt) {
+      batch.update(docSnap.ref, { signedOutAt: now, signedOutBy: sessionId });
+      signedOut += 1;
+    }
+  });
+
+  await batch.commit();
+
+  return { signedOut, customToken: await auth.createCustomToken(userId) };
+});
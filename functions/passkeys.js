@@ -0,0 +1,294 @@
+/**
+ * Passkeys (WebAuthn platform authenticators)
+ *
+ * Members can enroll a device's fingerprint / face unlock from Profile and use
+ * it instead of typing the PIN:
+ *
+ * startPasskeyRegistration    - check the PIN, return creation options
+ * finishPasskeyRegistration   - verify the attestation and save the credential
+ * startPasskeyAuthentication  - return request options for the member's passkeys
+ * finishPasskeyAuthentication - verify an assertion for the app unlock, or,
+ *                               with { scope, maxAmount } and passkeyFunding
+ *                               on, mint a PIN authorization (pinAuthorization.js)
+ * removePasskey               - revoke one device's passkey
+ * setPasskeyFunding           - let passkeys authorize funding actions
+ *
+ * Credentials live in passkeys/{credentialId}; members can read their own for
+ * the device list. The pending challenge lives in passkeyChallenges/{userId}
+ * (Cloud Functions only), is good for one response and expires after
+ * CHALLENGE_TTL_MINUTES. The relying party comes from the PASSKEY_RP_ID and
+ * PASSKEY_ORIGINS (comma-separated) params.
+ * Keep in sync with src/lib/passkeys.ts
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { defineString } from 'firebase-functions/params';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import { mintPinAuthorization } from './pinAuthorization.js';
+import { verifyMemberPin } from './pinVerification.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const RP_NAME = 'KOLI Community';
+const MAX_PASSKEYS = 10;
+const CHALLENGE_TTL_MINUTES = 5;
+
+const passkeyRpId = defineString('PASSKEY_RP_ID');
+const passkeyOrigins = defineString('PASSKEY_ORIGINS');
+
+const getRelyingParty = () => ({
+  rpID: passkeyRpId.value(),
+  origins: passkeyOrigins
+    .value()
+    .split(',')
+    .map((origin) => origin.trim())
+    .filter(Boolean),
+});
+
+const requireUser = (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'Sign in to manage passkeys');
+  }
+  return userId;
+};
+
+const toDeviceLabel = (value) => String(value || '').trim().slice(0, 60) || 'This device';
+
+const getUserPasskeys = async (userId) => {
+  const snapshot = await db.collection('passkeys').where('userId', '==', userId).get();
+  return snapshot.docs.map((docSnap) => docSnap.data());
+};
+
+const toCredentialDescriptor = (passkey) => ({ id: passkey.credentialId, transports: passkey.transports || [] });
+
+const saveChallenge = (userId, purpose, challenge) =>
+  db
+    .collection('passkeyChallenges')
+    .doc(userId)
+    .set({
+      challenge,
+      purpose,
+      expiresAt: new Date(Date.now() + CHALLENGE_TTL_MINUTES * 60 * 1000).toISOString(),
+    });
+
+/**
+ * Reads and deletes the pending challenge so each one answers one response
+ */
+const takeChallenge = (userId, purpose) => {
+  const ref = db.collection('passkeyChallenges').doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(ref);
+    const data = snapshot.exists ? snapshot.data() : null;
+
+    if (!data || data.purpose !== purpose || new Date(data.expiresAt).getTime() <= Date.now()) {
+      throw new HttpsError('deadline-exceeded', 'Passkey request expired. Please try again.');
+    }
+
+    transaction.delete(ref);
+    return data.challenge;
+  });
+};
+
+export const startPasskeyRegistration = onCall(async (request) => {
+  const userId = requireUser(request);
+
+  // A stolen session alone must not be able to add its own passkey
+  await verifyMemberPin(userId, String(request.data?.pin || ''));
+
+  const [memberSnap, passkeys] = await Promise.all([
+    db.collection('members').doc(userId).get(),
+    getUserPasskeys(userId),
+  ]);
+
+  if (passkeys.length >= MAX_PASSKEYS) {
+    throw new HttpsError('resource-exhausted', `You can keep up to ${MAX_PASSKEYS} passkeys; remove one first`);
+  }
+
+  const member = memberSnap.data() || {};
+  const options = await generateRegistrationOptions({
+    rpName: RP_NAME,
+    rpID: getRelyingParty().rpID,
+    userID: new TextEncoder().encode(userId),
+    userName: member.email || userId,
+    userDisplayName: member.fullName || member.email || '',
+    attestationType: 'none',
+    excludeCredentials: passkeys.map(toCredentialDescriptor),
+    authenticatorSelection: {
+      authenticatorAttachment: 'platform',
+      residentKey: 'preferred',
+      userVerification: 'required',
+    },
+  });
+
+  await saveChallenge(userId, 'registration', options.challenge);
+  return options;
+});
+
+export const finishPasskeyRegistration = onCall(async (request) => {
+  const userId = requireUser(request);
+  const payload = request.data || {};
+  const expectedChallenge = await takeChallenge(userId, 'registration');
+  const { rpID, origins } = getRelyingParty();
+
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response: payload.response,
+      expectedChallenge,
+      expectedOrigin: origins,
+      expectedRPID: rpID,
+      requireUserVerification: true,
+    });
+  } catch (error) {
+    throw new HttpsError('invalid-argument', error?.message || 'Passkey could not be verified');
+  }
+
+  if (!verification.verified || !verification.registrationInfo) {
+    throw new HttpsError('permission-denied', 'Passkey could not be verified');
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+  const passkeyRef = db.collection('passkeys').doc(credential.id);
+
+  if ((await passkeyRef.get()).exists) {
+    throw new HttpsError('already-exists', 'This passkey is already registered');
+  }
+
+  await passkeyRef.set({
+    userId,
+    credentialId: credential.id,
+    publicKey: Buffer.from(credential.publicKey).toString('base64url'),
+    counter: credential.counter,
+    transports: credential.transports || [],
+    deviceLabel: toDeviceLabel(payload.deviceLabel),
+    deviceType: credentialDeviceType,
+    backedUp: credentialBackedUp,
+    createdAt: new Date().toISOString(),
+    lastUsedAt: null,
+  });
+
+  return { credentialId: credential.id };
+});
+
+export const startPasskeyAuthentication = onCall(async (request) => {
+  const userId = requireUser(request);
+  const passkeys = await getUserPasskeys(userId);
+
+  if (passkeys.length === 0) {
+    throw new HttpsError('failed-precondition', 'No passkeys are set up for this account');
+  }
+
+  const options = await generateAuthenticationOptions({
+    rpID: getRelyingParty().rpID,
+    allowCredentials: passkeys.map(toCredentialDescriptor),
+    userVerification: 'required',
+  });
+
+  await saveChallenge(userId, 'authentication', options.challenge);
+  return options;
+});
+
+export const finishPasskeyAuthentication = onCall(async (request) => {
+  const userId = requireUser(request);
+  const payload = request.data || {};
+  const wantsAuthorization = payload.scope !== undefined && payload.scope !== null;
+  const expectedChallenge = await takeChallenge(userId, 'authentication');
+  const { rpID, origins } = getRelyingParty();
+
+  const credentialId = typeof payload.response?.id === 'string' ? payload.response.id : '';
+  const passkeyRef = credentialId ? db.collection('passkeys').doc(credentialId) : null;
+  const passkeySnap = passkeyRef ? await passkeyRef.get() : null;
+
+  if (!passkeySnap?.exists || passkeySnap.data().userId !== userId) {
+    throw new HttpsError('permission-denied', 'This passkey is not registered to your account');
+  }
+
+  const passkey = passkeySnap.data();
+
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response: payload.response,
+      expectedChallenge,
+      expectedOrigin: origins,
+      expectedRPID: rpID,
+      requireUserVerification: true,
+      credential: {
+        id: passkey.credentialId,
+        publicKey: Buffer.from(passkey.publicKey, 'base64url'),
+        counter: passkey.counter,
+        transports: passkey.transports,
+      },
+    });
+  } catch (error) {
+    throw new HttpsError('permission-denied', error?.message || 'Passkey could not be verified');
+  }
+
+  if (!verification.verified) {
+    throw new HttpsError('permission-denied', 'Passkey could not be verified');
+  }
+
+  await passkeyRef.update({
+    counter: verification.authenticationInfo.newCounter,
+    lastUsedAt: new Date().toISOString(),
+  });
+
+  if (!wantsAuthorization) {
+    return { verified: true };
+  }
+
+  const memberSnap = await db.collection('members').doc(userId).get();
+  if (!memberSnap.data()?.passkeyFunding) {
+    throw new HttpsError('failed-precondition', 'Passkeys are not turned on for withdrawals; use your PIN');
+  }
+
+  return { verified: true, authorization: await mintPinAuthorization(userId, payload, 'passkey') };
+});
+
+export const removePasskey = onCall(async (request) => {
+  const userId = requireUser(request);
+  const credentialId = typeof request.data?.credentialId === 'string' ? request.data.credentialId : '';
+
+  const passkeyRef = credentialId ? db.collection('passkeys').doc(credentialId) : null;
+  const passkeySnap = passkeyRef ? await passkeyRef.get() : null;
+
+  if (!passkeySnap?.exists || passkeySnap.data().userId !== userId) {
+    throw new HttpsError('not-found', 'Passkey not found');
+  }
+
+  const remaining = (await getUserPasskeys(userId)).filter((passkey) => passkey.credentialId !== credentialId);
+
+  const batch = db.batch();
+  batch.delete(passkeyRef);
+  if (remaining.length === 0) {
+    batch.update(db.collection('members').doc(userId), { passkeyFunding: false });
+  }
+  await batch.commit();
+
+  return { credentialId };
+});
+
+export const setPasskeyFunding = onCall(async (request) => {
+  const userId = requireUser(request);
+  const enabled = request.data?.enabled === true;
+
+  if (enabled && (await getUserPasskeys(userId)).length === 0) {
+    throw new HttpsError('failed-precondition', 'Set up a passkey first');
+  }
+
+  await db.collection('members').doc(userId).update({ passkeyFunding: enabled });
+  return { passkeyFunding: enabled };
+});
@@ -0,0 +1,344 @@
+/**
+ * Payout batches (bulk transfer files for finance)
+ *
+ * exportPayoutBatch       - takes the pending/approved payouts of one payment
+ *                           method, moves them to processing under a new
+ *                           payoutBatches doc and returns the bulk-transfer CSV
+ * importPayoutSettlement  - applies the bank's result file to a batch: each
+ *                           row marks its payout completed (with the transfer
+ *                           reference) or failed (with the bank's remarks)
+ *
+ * Export file layouts:
+ *   GCash: Reference,Mobile Number,Account Name,Amount,Remarks
+ *   Bank:  Reference,Bank,Account Number,Account Name,Amount,Remarks
+ * Reference is the payout_queue ID. The settlement file needs Reference and
+ * Status columns (SUCCESS / FAILED); Transaction Reference and Remarks are
+ * optional. Column order does not matter.
+ *
+ * Status changes go through transitionPayout, so the payout_queue triggers
+ * post the ledger entries and refunds as for single updates.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { ensureAdminCaller, writeAdminAuditLog } from './adminAuth.js';
+import { normalizePayoutStatus, transitionPayout } from './payoutStateMachine.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+// Keeps each export/import inside one transaction's write limit
+const MAX_BATCH_SIZE = 200;
+const EXPORTABLE_STATUSES = ['pending', 'approved'];
+const SUCCESS_RESULTS = new Set(['success', 'successful', 'completed', 'paid', 'ok']);
+const FAILED_RESULTS = new Set(['failed', 'failure', 'rejected', 'error', 'returned']);
+
+const GCASH_COLUMNS = ['Reference', 'Mobile Number', 'Account Name', 'Amount', 'Remarks'];
+const BANK_COLUMNS = ['Reference', 'Bank', 'Account Number', 'Account Name', 'Amount', 'Remarks'];
+
+const getPaymentMethod = (payout) => String(payout.paymentMethod || 'GCash').trim() || 'GCash';
+
+const isGcash = (paymentMethod) => paymentMethod.toLowerCase() === 'gcash';
+
+const getTransferAmount = (payout) => Number(payout.netAmount ?? payout.amount ?? 0);
+
+const escapeCsvValue = (value) => {
+  const text = String(value ?? '');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows) => rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+const buildTransferRow = (payoutId, payout, paymentMethod) => {
+  const accountNumber = payout.accountNumber || payout.gcashNumber || payout.userPhone || payout.userPhoneNumber || '';
+  const accountName = payout.accountName || payout.userFullName || payout.userName || '';
+  const amount = getTransferAmount(payout).toFixed(2);
+  const remarks = `KOLI payout ${payoutId.slice(0, 8)}`;
+
+  return isGcash(paymentMethod)
+    ? [payoutId, accountNumber, accountName, amount, remarks]
+    : [payoutId, payout.bankName || paymentMethod, accountNumber, accountName, amount, remarks];
+};
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF or LF rows
+ */
+const parseCsv = (text) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+const normalizeHeader = (value) => String(value || '').trim().toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Settlement rows keyed by payout ID
+ * @returns Map<payoutId, { result, transactionReference, remarks, line }>
+ */
+const parseSettlementFile = (csv) => {
+  const [header, ...rows] = parseCsv(csv.replace(/^\uFEFF/, ''));
+  const columns = (header || []).map(normalizeHeader);
+  const indexOf = (...names) => columns.findIndex((column) => names.includes(column));
+
+  const referenceIndex = indexOf('reference', 'payoutid', 'referenceno');
+  const statusIndex = indexOf('status', 'result');
+  const transactionReferenceIndex = indexOf('transactionreference', 'transactionref', 'bankreference', 'transactionid');
+  const remarksIndex = indexOf('remarks', 'reason', 'message');
+
+  if (referenceIndex < 0 || statusIndex < 0) {
+    throw new HttpsError('invalid-argument', 'Settlement file needs Reference and Status columns');
+  }
+
+  const settlements = new Map();
+  rows.forEach((cells, index) => {
+    const payoutId = String(cells[referenceIndex] || '').trim();
+    if (!payoutId) return;
+
+    settlements.set(payoutId, {
+      result: String(cells[statusIndex] || '').trim().toLowerCase(),
+      transactionReference: transactionReferenceIndex >= 0 ? String(cells[transactionReferenceIndex] || '').trim() : '',
+      remarks: remarksIndex >= 0 ? String(cells[remarksIndex] || '').trim() : '',
+      line: index + 2,
+    });
+  });
+
+  return settlements;
+};
+
+export const exportPayoutBatch = onCall(async (request) => {
+  const admin = await ensureAdminCaller(request);
+
+  const paymentMethod = String(request.data?.paymentMethod || '').trim();
+  if (!paymentMethod) {
+    throw new HttpsError('invalid-argument', 'paymentMethod is required');
+  }
+
+  const snapshot = await db.collection('payout_queue').where('status', 'in', EXPORTABLE_STATUSES).get();
+  const candidates = snapshot.docs
+    .filter((docSnap) => getPaymentMethod(docSnap.data()).toLowerCase() === paymentMethod.toLowerCase())
+    .sort((a, b) => String(a.data().requestedAt).localeCompare(String(b.data().requestedAt)))
+    .slice(0, MAX_BATCH_SIZE);
+
+  if (candidates.length === 0) {
+    throw new HttpsError('failed-precondition', `No ${paymentMethod} payouts are waiting to be sent`);
+  }
+
+  const batchRef = db.collection('payoutBatches').doc();
+
+  return db.runTransaction(async (transaction) => {
+    // === ALL READS FIRST ===
+    const payoutSnaps = await transaction.getAll(...candidates.map((docSnap) => docSnap.ref));
+
+    // === VALIDATIONS ===
+    // Anything picked up by someone else since the query stays out of the batch
+    const payouts = payoutSnaps.filter(
+      (payoutSnap) => payoutSnap.exists && EXPORTABLE_STATUSES.includes(normalizePayoutStatus(payoutSnap.data().status))
+    );
+
+    if (payouts.length === 0) {
+      throw new HttpsError('aborted', 'These payouts were just updated. Try exporting again.');
+    }
+
+    // === ALL WRITES LAST ===
+    const timestamp = new Date().toISOString();
+    const rows = [isGcash(paymentMethod) ? GCASH_COLUMNS : BANK_COLUMNS];
+    let totalAmount = 0;
+
+    for (const payoutSnap of payouts) {
+      const payout = payoutSnap.data();
+      rows.push(buildTransferRow(payoutSnap.id, payout, paymentMethod));
+      totalAmount += getTransferAmount(payout);
+
+      transitionPayout(transaction, payoutSnap.ref, payout, {
+        to: 'processing',
+        actor: admin.uid,
+        actorRole: 'admin',
+        note: `Exported in batch ${batchRef.id}`,
+        fields: { batchId: batchRef.id, batchedAt: timestamp },
+      });
+    }
+
+    const fileName = `koli-payouts-${paymentMethod.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${timestamp.slice(0, 10)}-${batchRef.id.slice(0, 6)}.csv`;
+
+    transaction.set(batchRef, {
+      paymentMethod,
+      payoutIds: payouts.map((payoutSnap) => payoutSnap.id),
+      payoutCount: payouts.length,
+      totalAmount,
+      fileName,
+      status: 'exported',
+      completedCount: 0,
+      failedCount: 0,
+      createdBy: admin.uid,
+      createdAt: timestamp,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    writeAdminAuditLog(transaction, admin, 'payout_batch_export', 'payoutBatches', batchRef.id, {
+      paymentMethod,
+      payoutCount: payouts.length,
+      totalAmount,
+    });
+
+    return {
+      batchId: batchRef.id,
+      paymentMethod,
+      payoutCount: payouts.length,
+      totalAmount,
+      fileName,
+      csv: toCsv(rows),
+    };
+  });
+});
+
+export const importPayoutSettlement = onCall(async (request) => {
+  const admin = await ensureAdminCaller(request);
+
+  const payload = request.data || {};
+  const batchId = String(payload.batchId || '').trim();
+  const csv = typeof payload.csv === 'string' ? payload.csv : '';
+
+  if (!batchId) {
+    throw new HttpsError('invalid-argument', 'batchId is required');
+  }
+
+  if (!csv.trim()) {
+    throw new HttpsError('invalid-argument', 'Settlement file is empty');
+  }
+
+  const settlements = parseSettlementFile(csv);
+  const batchRef = db.collection('payoutBatches').doc(batchId);
+
+  return db.runTransaction(async (transaction) => {
+    // === ALL READS FIRST ===
+    const batchSnap = await transaction.get(batchRef);
+    if (!batchSnap.exists) {
+      throw new HttpsError('not-found', 'Payout batch not found');
+    }
+
+    const batch = batchSnap.data();
+    const payoutIds = Array.isArray(batch.payoutIds) ? batch.payoutIds : [];
+    const payoutSnaps = payoutIds.length > 0
+      ? await transaction.getAll(...payoutIds.map((payoutId) => db.collection('payout_queue').doc(payoutId)))
+      : [];
+
+    // === VALIDATIONS ===
+    const completed = [];
+    const failed = [];
+    const skipped = [];
+    const updates = [];
+
+    for (const [payoutId, settlement] of settlements) {
+      if (!payoutIds.includes(payoutId)) {
+        skipped.push({ payoutId, line: settlement.line, reason: 'Not part of this batch' });
+      }
+    }
+
+    let stillProcessing = 0;
+
+    for (const payoutSnap of payoutSnaps) {
+      const payout = payoutSnap.data();
+      const settlement = settlements.get(payoutSnap.id);
+      const isProcessing = normalizePayoutStatus(payout?.status) === 'processing';
+
+      if (!settlement) {
+        if (isProcessing) stillProcessing += 1;
+        continue;
+      }
+
+      if (!payoutSnap.exists || !isProcessing) {
+        skipped.push({ payoutId: payoutSnap.id, line: settlement.line, reason: `Payout is ${payout?.status || 'missing'}` });
+        continue;
+      }
+
+      if (SUCCESS_RESULTS.has(settlement.result)) {
+        updates.push({ payoutSnap, payout, to: 'completed', settlement });
+        completed.push(payoutSnap.id);
+      } else if (FAILED_RESULTS.has(settlement.result)) {
+        updates.push({ payoutSnap, payout, to: 'failed', settlement });
+        failed.push(payoutSnap.id);
+      } else {
+        stillProcessing += 1;
+        skipped.push({ payoutId: payoutSnap.id, line: settlement.line, reason: `Unknown status "${settlement.result}"` });
+      }
+    }
+
+    // === ALL WRITES LAST ===
+    const timestamp = new Date().toISOString();
+
+    for (const { payoutSnap, payout, to, settlement } of updates) {
+      const fields = { processedAt: timestamp, processedBy: admin.uid };
+      if (to === 'completed' && settlement.transactionReference) {
+        fields.transactionReference = settlement.transactionReference;
+      }
+      if (to === 'failed') {
+        fields.rejectionReason = settlement.remarks || 'Bulk transfer failed';
+      }
+
+      transitionPayout(transaction, payoutSnap.ref, payout, {
+        to,
+        actor: admin.uid,
+        actorRole: 'admin',
+        note: to === 'completed' ? settlement.transactionReference : fields.rejectionReason,
+        fields,
+      });
+    }
+
+    const completedCount = Number(batch.completedCount || 0) + completed.length;
+    const failedCount = Number(batch.failedCount || 0) + failed.length;
+
+    transaction.update(batchRef, {
+      status: stillProcessing > 0 ? 'partially_settled' : 'settled',
+      completedCount,
+      failedCount,
+      lastSettlementAt: timestamp,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    writeAdminAuditLog(transaction, admin, 'payout_batch_settlement', 'payoutBatches', batchId, {
+      completed: completed.length,
+      failed: failed.length,
+      skipped: skipped.length,
+    });
+
+    return { batchId, completed, failed, skipped, stillProcessing };
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Saved payout destinations
+ *
+ * Members keep up to MAX_DESTINATIONS GCash, Maya or bank destinations in
+ * payoutDestinations. A new destination is confirmed with a 6-digit code sent
+ * to the member's email, then cools off for COOLING_OFF_HOURS before a
+ * withdrawal can use it, so a hijacked session cannot redirect a payout
+ * straight away.
+ *
+ * addPayoutDestination        - validate and save a destination, send its code
+ * resendPayoutDestinationCode - replace the code of an unverified destination
+ * verifyPayoutDestination     - check the code and start the cooling-off period
+ * removePayoutDestination     - delete a destination
+ *
+ * Withdrawal callables call resolvePayoutDestination inside their transaction
+ * and copy the returned fields onto the payout_queue doc. Confirming or
+ * removing a verified destination stamps members.payoutDestinationChangedAt,
+ * which starts the destinationChangeHold withdrawal rule (withdrawalRisk.js).
+ * Keep in sync with src/lib/payoutDestinations.ts
+ */
+
+import { randomInt } from 'node:crypto';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const MAX_DESTINATIONS = 5;
+const CODE_TTL_MINUTES = 10;
+const MAX_CODE_ATTEMPTS = 5;
+const COOLING_OFF_HOURS = 24;
+
+const DESTINATION_TYPES = {
+  gcash: { label: 'GCash', isEwallet: true },
+  maya: { label: 'Maya', isEwallet: true },
+  bank: { label: 'Bank', isEwallet: false },
+};
+
+const requireUser = (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'Sign in to manage payout destinations');
+  }
+  return userId;
+};
+
+const toTrimmedString = (value) => (typeof value === 'string' ? value.trim() : '');
+
+// Same result as normalizePhilippinePhone in src/lib/phoneValidation.ts
+const normalizePhilippineMobile = (value) => {
+  const cleaned = String(value || '').replace(/[\s\-()]/g, '');
+  let digits = null;
+
+  if (cleaned.startsWith('+63')) digits = cleaned.substring(3);
+  else if (cleaned.startsWith('09')) digits = cleaned.substring(1);
+  else if (cleaned.startsWith('9')) digits = cleaned;
+
+  return digits && /^9\d{9}$/.test(digits) ? `+63${digits}` : null;
+};
+
+const generateCode = () => randomInt(100000, 1000000).toString();
+
+/**
+ * Validated destination fields from a client payload
+ */
+const parseDestination = (payload) => {
+  const type = toTrimmedString(payload.type).toLowerCase();
+  const config = DESTINATION_TYPES[type];
+  if (!config) {
+    throw new HttpsError('invalid-argument', `Unknown destination type: ${payload.type}`);
+  }
+
+  const accountName = toTrimmedString(payload.accountName);
+  if (accountName.length < 2 || accountName.length > 100) {
+    throw new HttpsError('invalid-argument', 'Enter the account holder name');
+  }
+
+  if (config.isEwallet) {
+    const accountNumber = normalizePhilippineMobile(payload.accountNumber);
+    if (!accountNumber) {
+      throw new HttpsError('invalid-argument', `${config.label} needs a valid Philippine mobile number`);
+    }
+    return { type, accountNumber, accountName, bankName: null };
+  }
+
+  const bankName = toTrimmedString(payload.bankName);
+  const accountNumber = String(payload.accountNumber || '').replace(/[\s-]/g, '');
+  if (!bankName || bankName.length > 60) {
+    throw new HttpsError('invalid-argument', 'Enter the bank name');
+  }
+  if (!/^\d{8,20}$/.test(accountNumber)) {
+    throw new HttpsError('invalid-argument', 'Bank account numbers are 8 to 20 digits');
+  }
+
+  return { type, accountNumber, accountName, bankName };
+};
+
+const maskAccountNumber = (accountNumber) => `•••• ${String(accountNumber).slice(-4)}`;
+
+const queueCodeEmail = async (email, code, destination) => {
+  const label = destination.bankName || DESTINATION_TYPES[destination.type].label;
+  await db.collection('emailQueue').doc(`payout-destination-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`).set({
+    to: email,
+    subject: 'Confirm your new KOLI payout destination',
+    html:
+      `<p>A new payout destination was added to your KOLI account: <strong>${label} ${maskAccountNumber(destination.accountNumber)}</strong>.</p>` +
+      `<p>Your confirmation code is <strong style="font-size:1.5em;letter-spacing:0.2em">${code}</strong>. It expires in ${CODE_TTL_MINUTES} minutes.</p>` +
+      `<p>If you did not add this destination, do not share the code and change your password and PIN.</p>`,
+    text: `Your KOLI payout destination code is ${code} (${label} ${maskAccountNumber(destination.accountNumber)}). It expires in ${CODE_TTL_MINUTES} minutes.`,
+    createdAt: FieldValue.serverTimestamp(),
+    processed: false,
+  });
+};
+
+const issueCode = async (destinationRef, userId, email, destination) => {
+  const code = generateCode();
+  await db.collection('payoutDestinationCodes').doc(destinationRef.id).set({
+    userId,
+    code,
+    attempts: 0,
+    expiresAt: new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString(),
+    createdAt: FieldValue.serverTimestamp(),
+  });
+  await queueCodeEmail(email, code, destination);
+};
+
+const getOwnedDestination = async (userId, destinationId) => {
+  if (!destinationId) {
+    throw new HttpsError('invalid-argument', 'destinationId is required');
+  }
+
+  const destinationRef = db.collection('payoutDestinations').doc(destinationId);
+  const destinationSnap = await destinationRef.get();
+  if (!destinationSnap.exists || destinationSnap.data().userId !== userId) {
+    throw new HttpsError('not-found', 'Payout destination not found');
+  }
+
+  return { destinationRef, destination: destinationSnap.data() };
+};
+
+const getMemberEmail = async (userId) => {
+  const memberSnap = await db.collection('members').doc(userId).get();
+  const email = memberSnap.data()?.email;
+  if (!email) {
+    throw new HttpsError('failed-precondition', 'Add an email address to your account first');
+  }
+  return email;
+};
+
+export const addPayoutDestination = onCall(async (request) => {
+  const userId = requireUser(request);
+  const destination = parseDestination(request.data || {});
+
+  const existingSnap = await db.collection('payoutDestinations').where('userId', '==', userId).get();
+  if (existingSnap.size >= MAX_DESTINATIONS) {
+    throw new HttpsError('resource-exhausted', `You can save up to ${MAX_DESTINATIONS} payout destinations`);
+  }
+
+  const isDuplicate = existingSnap.docs.some((docSnap) => {
+    const existing = docSnap.data();
+    return (
+      existing.type === destination.type &&
+      existing.accountNumber === destination.accountNumber &&
+      (existing.bankName || null) === destination.bankName
+    );
+  });
+  if (isDuplicate) {
+    throw new HttpsError('already-exists', 'This payout destination is already saved');
+  }
+
+  const email = await getMemberEmail(userId);
+  const destinationRef = db.collection('payoutDestinations').doc();
+
+  await destinationRef.set({
+    userId,
+    ...destination,
+    status: 'pending_verification',
+    verifiedAt: null,
+    availableAt: null,
+    createdAt: new Date().toISOString(),
+  });
+  await issueCode(destinationRef, userId, email, destination);
+
+  return { destinationId: destinationRef.id };
+});
+
+export const resendPayoutDestinationCode = onCall(async (request) => {
+  const userId = requireUser(request);
+  const { destinationRef, destination } = await getOwnedDestination(userId, toTrimmedString(request.data?.destinationId));
+
+  if (destination.status !== 'pending_verification') {
+    throw new HttpsError('failed-precondition', 'This destination is already verified');
+  }
+
+  await issueCode(destinationRef, userId, await getMemberEmail(userId), destination);
+  return { destinationId: destinationRef.id };
+});
+
+export const verifyPayoutDestination = onCall(async (request) => {
+  const userId = requireUser(request);
+  const destinationId = toTrimmedString(request.data?.destinationId);
+  const code = String(request.data?.code || '').replace(/\D/g, '').slice(0, 6);
+
+  if (!destinationId || code.length !== 6) {
+    throw new HttpsError('invalid-argument', 'Enter the 6-digit code');
+  }
+
+  const destinationRef = db.collection('payoutDestinations').doc(destinationId);
+  const codeRef = db.collection('payoutDestinationCodes').doc(destinationId);
+
+  const result = await db.runTransaction(async (transaction) => {
+    // === ALL READS FIRST ===
+    const [destinationSnap, codeSnap] = await transaction.getAll(destinationRef, codeRef);
+
+    // === VALIDATIONS ===
+    if (!destinationSnap.exists || destinationSnap.data().userId !== userId) {
+      throw new HttpsError('not-found', 'Payout destination not found');
+    }
+
+    if (destinationSnap.data().status !== 'pending_verification') {
+      throw new HttpsError('failed-precondition', 'This destination is already verified');
+    }
+
+    const stored = codeSnap.data();
+    if (!stored || new Date(stored.expiresAt).getTime() < Date.now() || stored.attempts >= MAX_CODE_ATTEMPTS) {
+      return { error: 'Code expired. Request a new one.' };
+    }
+
+    // === ALL WRITES LAST ===
+    if (stored.code !== code) {
+      transaction.update(codeRef, { attempts: FieldValue.increment(1) });
+      return { error: 'Incorrect code' };
+    }
+
+    const now = new Date();
+    const availableAt = new Date(now.getTime() + COOLING_OFF_HOURS * 60 * 60 * 1000).toISOString();
+
+    transaction.update(destinationRef, {
+      status: 'verified',
+      verifiedAt: now.toISOString(),
+      availableAt,
+    });
+    transaction.delete(codeRef);
+    transaction.set(
+      db.collection('members').doc(userId),
+      { payoutDestinationChangedAt: now.toISOString() },
+      { merge: true }
+    );
+
+    return { availableAt };
+  });
+
+  // Thrown after the commit so the failed attempt is counted
+  if (result.error) {
+    throw new HttpsError('permission-denied', result.error);
+  }
+
+  return { destinationId, availableAt: result.availableAt };
+});
+
+export const removePayoutDestination = onCall(async (request) => {
+  const userId = requireUser(request);
+  const { destinationRef, destination } = await getOwnedDestination(
+    userId,
+    toTrimmedString(request.data?.destinationId)
+  );
+
+  const batch = db.batch();
+  batch.delete(destinationRef);
+  batch.delete(db.collection('payoutDestinationCodes').doc(destinationRef.id));
+  if (destination.status === 'verified') {
+    batch.set(
+      db.collection('members').doc(userId),
+      { payoutDestinationChangedAt: new Date().toISOString() },
+      { merge: true }
+    );
+  }
+  await batch.commit();
+
+  return { destinationId: destinationRef.id };
+});
+
+/**
+ * Reads a destination inside a withdrawal transaction and returns the fields
+ * to store on the payout_queue doc. Throws unless the destination belongs to
+ * the member, is verified and its cooling-off period is over.
+ */
+export const resolvePayoutDestination = async (transaction, userId, destinationId) => {
+  const destinationSnap = await transaction.get(db.collection('payoutDestinations').doc(destinationId));
+  const destination = destinationSnap.data();
+
+  if (!destination || destination.userId !== userId) {
+    throw new HttpsError('not-found', 'Payout destination not found');
+  }
+
+  if (destination.status !== 'verified') {
+    throw new HttpsError('failed-precondition', 'Verify this payout destination before using it');
+  }
+
+  if (new Date(destination.availableAt).getTime() > Date.now()) {
+    throw new HttpsError(
+      'failed-precondition',
+      `This payout destination can be used from ${new Date(destination.availableAt).toISOString()}`
+    );
+  }
+
+  const config = DESTINATION_TYPES[destination.type];
+
+  return {
+    payoutDestinationId: destinationSnap.id,
+    paymentMethod: destination.bankName || config.label,
+    accountNumber: destination.accountNumber,
+    accountName: destination.accountName,
+    bankName: destination.bankName || null,
+    gcashNumber: config.isEwallet ? destination.accountNumber : '',
+  };
+};
@@ -0,0 +1,167 @@
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { onRequest } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import { ensureAdminUser, setAdminCorsHeaders } from './adminAuth.js';
+import {
+  LEDGER_COLLECTION,
+  LedgerAccounts,
+  getLedgerEntryRef,
+  getLedgerJournalId,
+  postLedgerJournal,
+  sumLedgerEntries,
+} from './ledger.js';
+import { getContractTotalWithdrawn, loadContractPlanCatalog } from './contractMath.js';
+import { getAppliedPayoutTransition } from './payoutStateMachine.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+/**
+ * What payout_completion moves out of clearing for a payout: the amount sent
+ * (netAmount) and the platform fee kept. Payouts queued before the fee
+ * schedule carry netAmount === amount.
+ */
+export const getPayoutSettlement = (payout) => {
+  const amount = Number(payout?.amount || 0);
+  const netAmount = Math.min(amount, Math.max(0, Number(payout?.netAmount ?? amount) || 0));
+  return { amount, netAmount, platformFee: amount - netAmount };
+};
+
+/**
+ * Posts payout_completion when a held payout is marked completed:
+ * payout_clearing:{uid} -> payouts_settled for the amount sent and
+ * platform_fees for the fee kept (amount - netAmount).
+ * Payouts without a withdrawal_hold journal (legacy or ODHex) are skipped.
+ */
+export const postPayoutCompletionLedger = onDocumentUpdated('payout_queue/{payoutId}', async (event) => {
+  const before = event.data?.before?.data();
+  const after = event.data?.after?.data();
+
+  if (!after || !after.ledgerJournalId || !after.userId) {
+    return;
+  }
+
+  if (getAppliedPayoutTransition(before, after)?.to !== 'completed') {
+    return;
+  }
+
+  const payoutId = event.params.payoutId;
+  const journalId = getLedgerJournalId('payout_completion', payoutId);
+  const { amount, netAmount, platformFee } = getPayoutSettlement(after);
+
+  if (!Number.isFinite(amount) || amount <= 0) {
+    return;
+  }
+
+  await db.runTransaction(async (transaction) => {
+    const existing = await transaction.get(getLedgerEntryRef(journalId, 0));
+    if (existing.exists) {
+      return;
+    }
+
+    postLedgerJournal(transaction, {
+      journalId,
+      movementType: 'payout_completion',
+      userId: after.userId,
+      sourceCollection: 'payout_queue',
+      sourceId: payoutId,
+      memo: `Payout completed by ${after.processedBy || 'finance'}`,
+      lines: [
+        { account: LedgerAccounts.payoutClearing(after.userId), debit: amount },
+        { account: LedgerAccounts.payoutsSettled, credit: netAmount },
+        { account: LedgerAccounts.platformFees, credit: platformFee },
+      ],
+    });
+  });
+});
+
+/**
+ * Admin endpoint: reconstruct a member's ledger balances as of a date and,
+ * for the current date, compare them with the stored projections
+ * (members.balance and each contract's totalWithdrawn).
+ */
+export const reconstructLedgerBalance = onRequest(async (req, res) => {
+  setAdminCorsHeaders(res);
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).send('');
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    await ensureAdminUser(req);
+  } catch (error) {
+    res.status(401).json({ success: false, error: error?.message || 'Unauthorized' });
+    return;
+  }
+
+  try {
+    const { userId, asOf } = req.body || {};
+
+    if (typeof userId !== 'string' || !userId.trim()) {
+      res.status(400).json({ error: 'userId is required' });
+      return;
+    }
+
+    const asOfDate = asOf ? new Date(asOf) : null;
+    if (asOfDate && Number.isNaN(asOfDate.getTime())) {
+      res.status(400).json({ error: 'asOf must be an ISO date' });
+      return;
+    }
+
+    const entriesSnapshot = await db.collection(LEDGER_COLLECTION).where('userId', '==', userId).get();
+    const entries = entriesSnapshot.docs
+      .map((docSnap) => docSnap.data())
+      .filter((entry) => !asOfDate || new Date(entry.effectiveAt).getTime() <= asOfDate.getTime());
+
+    const balances = sumLedgerEntries(entries);
+    const manaAccount = LedgerAccounts.memberMana(userId);
+    const response = {
+      success: true,
+      userId,
+      asOf: asOfDate ? asOfDate.toISOString() : new Date().toISOString(),
+      entryCount: entries.length,
+      manaBalance: Number((balances[manaAccount] || 0).toFixed(2)),
+      payoutClearing: Number((balances[LedgerAccounts.payoutClearing(userId)] || 0).toFixed(2)),
+      balances,
+    };
+
+    // Projections can only be compared against today's ledger
+    if (!asOfDate) {
+      const [memberSnap, contractsSnap] = await Promise.all([
+        db.collection('members').doc(userId).get(),
+        db.collection('donationContracts').where('userId', '==', userId).get(),
+        loadContractPlanCatalog(db),
+      ]);
+
+      response.projections = {
+        storedManaBalance: Number(memberSnap.data()?.balance || 0),
+        contracts: contractsSnap.docs.map((docSnap) => {
+          const contract = { id: docSnap.id, ...docSnap.data() };
+          return {
+            contractId: docSnap.id,
+            storedTotalWithdrawn: getContractTotalWithdrawn(contract),
+            ledgerTotalWithdrawn: -(balances[LedgerAccounts.contract(docSnap.id)] || 0),
+          };
+        }),
+      };
+    }
+
+    res.status(200).json(response);
+  } catch (error) {
+    console.error('reconstructLedgerBalance error:', error);
+    res.status(500).json({
+      success: false,
+      error: error?.message || 'Failed to reconstruct ledger balance',
+    });
+  }
+});
@@ -0,0 +1,183 @@
+/**
+ * Payout queue lifecycle
+ *
+ *   pending_review ──> pending ──> approved ──> processing ──> completed ──> returned
+ *        │                │           │             │
+ *        └────────────────┴───────────┴─────────────┴──> rejected | failed
+ *
+ * (pending and approved can also go straight to processing or completed.
+ * pending_review is where withdrawalRisk.js routes flagged payouts; an admin
+ * clears it to pending or rejects it.)
+ * rejected, failed and returned are terminal and refund the held amount (see
+ * handlePayoutRejection.js / earlyTermination.js). Moving into one of them
+ * sets refundPending, which the refund clears; backfillRejectedOdhexRefunds
+ * only looks at payouts still flagged.
+ *
+ * Every change appends a statusHistory entry { from, to, actor, actorRole,
+ * note, at }; the first entry (from: null) is written with the payout by
+ * buildCreatedPayoutHistory. Callables apply changes with transitionPayout. Direct writes to
+ * payout_queue are checked by enforcePayoutTransitions: legacy spellings
+ * ('reject', 'declined', 'Completed'…) are rewritten to the canonical status
+ * and recorded, and invalid changes are reverted with a refused entry.
+ *
+ * The payout triggers act on getAppliedPayoutTransition(before, after), so a
+ * refused change or its revert never posts ledger entries or refunds.
+ * Keep in sync with src/lib/payoutStatus.ts
+ */
+
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { FieldValue } from 'firebase-admin/firestore';
+
+export const PAYOUT_TRANSITIONS = {
+  pending_review: ['pending', 'rejected'],
+  pending: ['approved', 'processing', 'completed', 'rejected', 'failed'],
+  approved: ['processing', 'completed', 'rejected', 'failed'],
+  processing: ['completed', 'rejected', 'failed'],
+  completed: ['returned'],
+  rejected: [],
+  failed: [],
+  returned: [],
+};
+
+export const REFUND_PAYOUT_STATUSES = new Set(['rejected', 'failed', 'returned']);
+
+const STATUS_ALIASES = {
+  reject: 'rejected',
+  declined: 'rejected',
+};
+
+/**
+ * Canonical status for a stored value, or null when it is not a payout status
+ */
+export const normalizePayoutStatus = (status) => {
+  const value = String(status || '').trim().toLowerCase();
+  if (Object.hasOwn(PAYOUT_TRANSITIONS, value)) return value;
+  return STATUS_ALIASES[value] || null;
+};
+
+export const canTransitionPayout = (from, to) => Boolean(PAYOUT_TRANSITIONS[from]?.includes(to));
+
+const getLastHistoryEntry = (before, after) => {
+  const history = Array.isArray(after?.statusHistory) ? after.statusHistory : [];
+  const previousLength = Array.isArray(before?.statusHistory) ? before.statusHistory.length : 0;
+  return history.length > previousLength ? history[history.length - 1] : null;
+};
+
+/**
+ * The status change an update applied, or null when the status did not
+ * change, the change is not allowed, or the update reverts a refused change.
+ * @returns { from, to } with canonical statuses
+ */
+export const getAppliedPayoutTransition = (before, after) => {
+  const from = normalizePayoutStatus(before?.status);
+  const to = normalizePayoutStatus(after?.status);
+
+  if (!from || !to || from === to) return null;
+  if (getLastHistoryEntry(before, after)?.refused) return null;
+  if (!canTransitionPayout(from, to)) return null;
+
+  return { from, to };
+};
+
+// Flags a move into a refund status for backfillRejectedOdhexRefunds
+const getRefundFields = (to) => (REFUND_PAYOUT_STATUSES.has(to) ? { refundPending: true } : {});
+
+const buildHistoryEntry = ({ from, to, actor, actorRole, note, at, refused = false }) => ({
+  from: from || null,
+  to,
+  actor: actor || null,
+  actorRole: actorRole || 'system',
+  note: note || null,
+  at: at || new Date().toISOString(),
+  ...(refused ? { refused: true } : {}),
+});
+
+/**
+ * statusHistory for a new payout, so the timeline starts at the request
+ * @param status - pending, or pending_review when withdrawal risk flagged it
+ * @param at - ISO time of the request (the payout's requestedAt)
+ */
+export const buildCreatedPayoutHistory = ({ status, actor, at }) => [
+  buildHistoryEntry({ from: null, to: status, actor, actorRole: 'member', at }),
+];
+
+/**
+ * Applies a status change inside a transaction, or throws
+ * failed-precondition when the lifecycle does not allow it.
+ * @param payout - current payout data (already read in the transaction)
+ * @param change - { to, actor, actorRole, note, fields } where fields are
+ *   extra payout fields to write with the change
+ */
+export const transitionPayout = (transaction, payoutRef, payout, { to, actor, actorRole, note, fields = {} }) => {
+  const from = normalizePayoutStatus(payout.status);
+
+  if (!canTransitionPayout(from, to)) {
+    throw new HttpsError('failed-precondition', `Payout cannot move from ${payout.status || 'unknown'} to ${to}`);
+  }
+
+  transaction.update(payoutRef, {
+    ...fields,
+    ...getRefundFields(to),
+    status: to,
+    statusHistory: FieldValue.arrayUnion(buildHistoryEntry({ from, to, actor, actorRole, note })),
+  });
+
+  return { from, to };
+};
+
+export const enforcePayoutTransitions = onDocumentUpdated('payout_queue/{payoutId}', async (event) => {
+  const before = event.data?.before?.data();
+  const after = event.data?.after?.data();
+
+  if (!before || !after || before.status === after.status) {
+    return;
+  }
+
+  // Written by transitionPayout or by a previous run of this trigger
+  const recorded = getLastHistoryEntry(before, after);
+  if (recorded && recorded.to === (normalizePayoutStatus(after.status) || after.status)) {
+    return;
+  }
+
+  const payoutRef = event.data.after.ref;
+  const from = normalizePayoutStatus(before.status);
+  const to = normalizePayoutStatus(after.status);
+
+  if (to && to === from) {
+    if (after.status !== to) await payoutRef.update({ status: to });
+    return;
+  }
+
+  // Payouts still on a status this lifecycle does not know may move to any known one
+  if (to && (!from || canTransitionPayout(from, to))) {
+    await payoutRef.update({
+      ...getRefundFields(to),
+      status: to,
+      statusHistory: FieldValue.arrayUnion(
+        buildHistoryEntry({
+          from: from || before.status,
+          to,
+          actor: after.processedBy,
+          actorRole: 'admin',
+          note: after.rejectionReason || after.financeNote || null,
+        })
+      ),
+    });
+    return;
+  }
+
+  console.warn(`Refused payout ${event.params.payoutId} status change ${before.status} -> ${after.status}`);
+  await payoutRef.update({
+    status: before.status,
+    statusHistory: FieldValue.arrayUnion(
+      buildHistoryEntry({
+        from: to || String(after.status || ''),
+        to: from || before.status,
+        actorRole: 'system',
+        note: `Refused status change from ${before.status} to ${after.status}`,
+        refused: true,
+      })
+    ),
+  });
+});
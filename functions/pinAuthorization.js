@@ -0,0 +1,175 @@
+/**
+ * PIN authorization tokens (step-up auth for money-moving actions)
+ *
+ * The funding PIN is checked once, by authorizePinAction, which mints a
+ * single-use token scoped to one action and an amount ceiling
+ * ("withdraw up to X"). Members who turned on passkeyFunding can get the same
+ * token from a passkey assertion instead (finishPasskeyAuthentication in
+ * passkeys.js):
+ *
+ *   withdraw          - withdrawWithPin, processPooledWithdrawal
+ *   early_termination - requestEarlyTermination
+ *   external_withdraw - the token service's /kash/withdraw, which redeems the
+ *                       token through redeemPinAuthorization with the member's
+ *                       ID token
+ *
+ * Tokens expire after PIN_AUTHORIZATION_TTL_MINUTES. Only the SHA-256 of a
+ * token is stored, in pinAuthorizations/{hash} (Cloud Functions only), so the
+ * raw PIN never travels past the PIN step and a leaked doc cannot be replayed.
+ *
+ * Callables read the token with loadPinAuthorization among their transaction
+ * reads, check it with assertPinAuthorization and mark it used with
+ * consumePinAuthorization among their writes, so a failed request leaves the
+ * token usable for a retry.
+ * Keep in sync with src/lib/pinSecurity.ts
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import { verifyMemberPin } from './pinVerification.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const PIN_AUTHORIZATIONS_COLLECTION = 'pinAuthorizations';
+const PIN_AUTHORIZATION_TTL_MINUTES = 5;
+
+export const PIN_AUTHORIZATION_SCOPES = new Set(['withdraw', 'early_termination', 'external_withdraw']);
+
+const hashToken = (token) => createHash('sha256').update(token).digest('hex');
+
+const requireUser = (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'Sign in to authorize this action');
+  }
+  return userId;
+};
+
+const requireScope = (value) => {
+  const scope = String(value || '');
+  if (!PIN_AUTHORIZATION_SCOPES.has(scope)) {
+    throw new HttpsError('invalid-argument', `Unknown PIN authorization scope: ${scope}`);
+  }
+  return scope;
+};
+
+const requireAmount = (value, field) => {
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new HttpsError('invalid-argument', `${field} must be greater than zero`);
+  }
+  return amount;
+};
+
+/**
+ * Reads a token inside a transaction; call before any transaction writes
+ */
+export const loadPinAuthorization = async (transaction, token) => {
+  if (typeof token !== 'string' || !/^[a-f0-9]{64}$/.test(token)) {
+    throw new HttpsError('unauthenticated', 'Enter your PIN to authorize this action');
+  }
+
+  const ref = db.collection(PIN_AUTHORIZATIONS_COLLECTION).doc(hashToken(token));
+  const snapshot = await transaction.get(ref);
+  return { ref, data: snapshot.exists ? snapshot.data() : null };
+};
+
+/**
+ * Throws unless the token belongs to userId, covers scope and amount, and is
+ * unused and unexpired
+ */
+export const assertPinAuthorization = (authorization, { userId, scope, amount }) => {
+  const data = authorization.data;
+
+  if (!data || data.userId !== userId || data.usedAt) {
+    throw new HttpsError('unauthenticated', 'PIN authorization is invalid or was already used. Enter your PIN again.');
+  }
+
+  if (data.expiresAt.toMillis() <= Date.now()) {
+    throw new HttpsError('unauthenticated', 'PIN authorization expired. Enter your PIN again.');
+  }
+
+  if (data.scope !== scope) {
+    throw new HttpsError('permission-denied', `PIN authorization does not cover ${scope}`);
+  }
+
+  if (amount > data.maxAmount) {
+    throw new HttpsError(
+      'permission-denied',
+      `PIN authorization covers up to ${data.maxAmount} KOLI; this request needs ${amount} KOLI`
+    );
+  }
+};
+
+export const consumePinAuthorization = (transaction, authorization, sourceId = null) => {
+  transaction.update(authorization.ref, {
+    usedAt: new Date().toISOString(),
+    usedFor: sourceId,
+  });
+};
+
+/**
+ * Mints a token once the member proved it with their PIN or a passkey
+ * (method: 'pin' | 'passkey')
+ * @returns { token, scope, maxAmount, expiresAt }
+ */
+export const mintPinAuthorization = async (userId, payload, method) => {
+  const scope = requireScope(payload.scope);
+  const maxAmount = requireAmount(payload.maxAmount, 'maxAmount');
+  const token = randomBytes(32).toString('hex');
+  const now = Date.now();
+  const expiresAt = new Date(now + PIN_AUTHORIZATION_TTL_MINUTES * 60 * 1000);
+
+  await db.collection(PIN_AUTHORIZATIONS_COLLECTION).doc(hashToken(token)).set({
+    userId,
+    scope,
+    maxAmount,
+    method,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: Timestamp.fromDate(expiresAt),
+    usedAt: null,
+    usedFor: null,
+  });
+
+  return { token, scope, maxAmount, expiresAt: expiresAt.toISOString() };
+};
+
+export const authorizePinAction = onCall(async (request) => {
+  const userId = requireUser(request);
+  const payload = request.data || {};
+
+  // Reject a bad scope or amount before the PIN attempt is counted
+  requireScope(payload.scope);
+  requireAmount(payload.maxAmount, 'maxAmount');
+
+  await verifyMemberPin(userId, String(payload.pin || ''));
+  return mintPinAuthorization(userId, payload, 'pin');
+});
+
+/**
+ * For services outside Cloud Functions (the K-Kash token service): called
+ * with the member's ID token, uses up an external_withdraw token for amount
+ */
+export const redeemPinAuthorization = onCall(async (request) => {
+  const userId = requireUser(request);
+  const payload = request.data || {};
+  const scope = requireScope(payload.scope || 'external_withdraw');
+  const amount = requireAmount(payload.amount, 'amount');
+
+  if (scope !== 'external_withdraw') {
+    throw new HttpsError('permission-denied', `${scope} tokens are redeemed by their own callables`);
+  }
+
+  return db.runTransaction(async (transaction) => {
+    const authorization = await loadPinAuthorization(transaction, payload.token);
+    assertPinAuthorization(authorization, { userId, scope, amount });
+    consumePinAuthorization(transaction, authorization, typeof payload.reference === 'string' ? payload.reference : null);
+    return { userId, scope, amount };
+  });
+});
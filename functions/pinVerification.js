@@ -0,0 +1,280 @@
+/**
+ * Funding PIN
+ *
+ * PIN hashes and lockout counters live in memberPins/{userId}, which only
+ * Cloud Functions can read or write:
+ *   { algorithm, hash, salt, params, failedAttempts, lockUntil, lastPinLockAt,
+ *     lastSuccessfulPinVerification, updatedAt }
+ *
+ * setupPin  - first PIN for a member (also sets members.hasPinSetup)
+ * verifyPin - check a PIN for the app unlock screen and funding dialogs
+ * changePin - replace the PIN after checking the current one
+ *
+ * New hashes use scrypt with a per-user salt. Members from before these
+ * callables kept an unsalted SHA-256 (or simpleHash) pinHash on their public
+ * members doc; the first PIN check moves it here as algorithm 'legacy' and
+ * the next successful verify rehashes it with scrypt.
+ *
+ * Every check reserves an attempt before comparing, so parallel guesses
+ * cannot share one attempt. authorizePinAction (pinAuthorization.js) uses
+ * verifyMemberPin to mint the tokens that money-moving callables require.
+ * Keep in sync with src/lib/pinSecurity.ts
+ */
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+export const MEMBER_PINS_COLLECTION = 'memberPins';
+
+const MAX_PIN_ATTEMPTS = 3;
+const LOCKOUT_DURATION_MS = 30 * 60 * 1000;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1, keyLength: 32 };
+const SALT_BYTES = 16;
+
+const scryptAsync = promisify(scrypt);
+
+const sha256Hex = (value) => createHash('sha256').update(value).digest('hex');
+
+// Port of the old client fallback hash used on non-HTTPS origins
+const simpleHash = (str) => {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  const mixed = Math.abs(hash * 31 + str.length * 17);
+  return mixed.toString(16).padStart(8, '0');
+};
+
+const safeEqual = (left, right) => {
+  const a = Buffer.from(String(left || ''));
+  const b = Buffer.from(String(right || ''));
+  return a.length > 0 && a.length === b.length && timingSafeEqual(a, b);
+};
+
+export const isValidPinFormat = (pin) => typeof pin === 'string' && /^\d{6}$/.test(pin);
+
+const requireUser = (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'Sign in to manage your PIN');
+  }
+  return userId;
+};
+
+const requirePinFormat = (pin) => {
+  if (!isValidPinFormat(pin)) {
+    throw new HttpsError('invalid-argument', 'PIN must be exactly 6 digits');
+  }
+  return pin;
+};
+
+const hashWithScrypt = async (pin, salt, params) => {
+  const key = await scryptAsync(pin, salt, params.keyLength, { N: params.N, r: params.r, p: params.p });
+  return key.toString('hex');
+};
+
+/**
+ * Fresh scrypt hash fields for memberPins
+ */
+const createPinHash = async (pin) => {
+  const salt = randomBytes(SALT_BYTES).toString('hex');
+  return {
+    algorithm: 'scrypt',
+    salt,
+    params: SCRYPT_PARAMS,
+    hash: await hashWithScrypt(pin, salt, SCRYPT_PARAMS),
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+const matchesPinRecord = async (record, pin) => {
+  if (record.algorithm === 'scrypt') {
+    return safeEqual(await hashWithScrypt(pin, record.salt, record.params), record.hash);
+  }
+
+  // Unsalted hashes written by the old browser-side setupPin
+  return safeEqual(sha256Hex(pin), record.hash) || safeEqual(simpleHash(pin), record.hash);
+};
+
+/**
+ * Throws while the PIN is locked; the lockout message is shown as-is
+ */
+const assertNotLocked = (record, nowMs) => {
+  const lockUntil = record.lockUntil ? new Date(record.lockUntil).getTime() : 0;
+  if (lockUntil > nowMs) {
+    const minutesRemaining = Math.ceil((lockUntil - nowMs) / 60000);
+    throw new HttpsError(
+      'permission-denied',
+      `Account locked due to failed PIN attempts. Try again in ${minutesRemaining} minutes.`
+    );
+  }
+};
+
+/**
+ * Counts one PIN attempt before the hash is compared, moving a legacy pinHash
+ * off the members doc on the way
+ * @returns the memberPins record including the new failedAttempts
+ */
+const reservePinAttempt = (userId) => {
+  const memberRef = db.collection('members').doc(userId);
+  const pinRef = db.collection(MEMBER_PINS_COLLECTION).doc(userId);
+
+  return db.runTransaction(async (transaction) => {
+    // === ALL READS FIRST ===
+    const [memberSnap, pinSnap] = await Promise.all([transaction.get(memberRef), transaction.get(pinRef)]);
+
+    // === VALIDATIONS ===
+    if (!memberSnap.exists) {
+      throw new HttpsError('not-found', 'User not found');
+    }
+
+    const member = memberSnap.data();
+    const isLegacy = !pinSnap.exists && Boolean(member.pinHash);
+    const now = new Date();
+
+    if (!pinSnap.exists && !isLegacy) {
+      throw new HttpsError('failed-precondition', 'Set up your PIN first');
+    }
+
+    const record = isLegacy
+      ? {
+          algorithm: 'legacy',
+          hash: member.pinHash,
+          salt: null,
+          params: null,
+          failedAttempts: Number(member.failedPinAttempts || 0),
+          lockUntil: member.pinLockUntil || null,
+          lastPinLockAt: member.lastPinLockAt || null,
+          updatedAt: now.toISOString(),
+        }
+      : pinSnap.data();
+
+    assertNotLocked(record, now.getTime());
+
+    // === ALL WRITES LAST ===
+    const failedAttempts = (record.lockUntil ? 0 : Number(record.failedAttempts || 0)) + 1;
+    const attempt = { failedAttempts, lockUntil: null };
+    if (failedAttempts >= MAX_PIN_ATTEMPTS) {
+      attempt.lockUntil = new Date(now.getTime() + LOCKOUT_DURATION_MS).toISOString();
+      attempt.lastPinLockAt = now.toISOString();
+    }
+
+    if (isLegacy) {
+      transaction.set(pinRef, { ...record, ...attempt });
+      transaction.update(memberRef, {
+        pinHash: FieldValue.delete(),
+        failedPinAttempts: FieldValue.delete(),
+        pinLockUntil: FieldValue.delete(),
+        lastPinLockAt: FieldValue.delete(),
+      });
+    } else {
+      transaction.update(pinRef, attempt);
+    }
+
+    return { ...record, ...attempt };
+  });
+};
+
+/**
+ * Checks a member's PIN; a wrong PIN uses up one of MAX_PIN_ATTEMPTS
+ * @returns { verified, attemptsRemaining }
+ */
+export const checkMemberPin = async (userId, pin) => {
+  const record = await reservePinAttempt(userId);
+  const verified = isValidPinFormat(pin) && (await matchesPinRecord(record, pin));
+
+  if (!verified) {
+    return { verified: false, attemptsRemaining: Math.max(0, MAX_PIN_ATTEMPTS - record.failedAttempts) };
+  }
+
+  const update = {
+    failedAttempts: 0,
+    lockUntil: null,
+    lastSuccessfulPinVerification: new Date().toISOString(),
+  };
+  if (record.algorithm !== 'scrypt') {
+    Object.assign(update, await createPinHash(pin));
+  }
+
+  await db.collection(MEMBER_PINS_COLLECTION).doc(userId).update(update);
+  return { verified: true, attemptsRemaining: MAX_PIN_ATTEMPTS };
+};
+
+/**
+ * Verifies a member's funding PIN before a PIN authorization is minted.
+ * Throws an HttpsError when the PIN is wrong or the account is locked.
+ */
+export const verifyMemberPin = async (userId, pin) => {
+  const { verified } = await checkMemberPin(userId, pin);
+  if (!verified) {
+    throw new HttpsError('permission-denied', 'Incorrect PIN. Please try again.');
+  }
+};
+
+export const setupPin = onCall(async (request) => {
+  const userId = requireUser(request);
+  const pin = requirePinFormat(request.data?.pin);
+  const pinHash = await createPinHash(pin);
+
+  const memberRef = db.collection('members').doc(userId);
+  const pinRef = db.collection(MEMBER_PINS_COLLECTION).doc(userId);
+
+  await db.runTransaction(async (transaction) => {
+    const [memberSnap, pinSnap] = await Promise.all([transaction.get(memberRef), transaction.get(pinRef)]);
+
+    if (!memberSnap.exists) {
+      throw new HttpsError('not-found', 'User not found');
+    }
+
+    // hasPinSetup is on the member-editable doc, so check the hashes instead
+    if (pinSnap.exists || memberSnap.data().pinHash) {
+      throw new HttpsError('already-exists', 'A PIN is already set up for this account');
+    }
+
+    transaction.set(pinRef, { ...pinHash, failedAttempts: 0, lockUntil: null, lastPinLockAt: null });
+    transaction.update(memberRef, {
+      hasPinSetup: true,
+      lastAppUnlockAt: new Date().toISOString(),
+    });
+  });
+
+  return { hasPinSetup: true };
+});
+
+export const verifyPin = onCall(async (request) => {
+  const userId = requireUser(request);
+  return checkMemberPin(userId, String(request.data?.pin || ''));
+});
+
+export const changePin = onCall(async (request) => {
+  const userId = requireUser(request);
+  const currentPin = String(request.data?.currentPin || '');
+  const newPin = requirePinFormat(request.data?.newPin);
+
+  const { verified } = await checkMemberPin(userId, currentPin);
+  if (!verified) {
+    throw new HttpsError('permission-denied', 'Current PIN is incorrect');
+  }
+
+  const now = new Date().toISOString();
+  const batch = db.batch();
+  batch.update(db.collection(MEMBER_PINS_COLLECTION).doc(userId), await createPinHash(newPin));
+  batch.update(db.collection('members').doc(userId), {
+    pinResetAt: now, // Starts the pinResetHold withdrawal rule
+    lastAppUnlockAt: now,
+  });
+  await batch.commit();
+
+  return { changedAt: now };
+});
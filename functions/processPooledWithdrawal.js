@@ -0,0 +1,311 @@
+/**
+ * Firebase Cloud Function: Process Pooled Withdrawal
+ *
+ * Callable that replaces the old browser-side processPooledWithdrawal:
+ * 1. Uses up a 'withdraw' PIN authorization covering requestedAmount
+ *    (pinAuthorization.js)
+ * 2. Re-reads the selected contracts and MANA balance inside a transaction
+ * 3. Recomputes the withdrawable pool on the server
+ * 4. Commits contract drawdowns, balance deduction and payout_queue docs atomically
+ * 5. Posts a withdrawal_hold ledger journal for every payout line
+ *
+ * The withdrawal risk rules (withdrawalRisk.js) run before anything is
+ * written: a blocking rule fails the request and a review rule queues every
+ * payout line as pending_review instead of pending.
+ *
+ * The platform fee of every payout line is computed here from
+ * systemSettings/feeSchedule (see feeSchedule.js) and deducted from the line;
+ * fee figures sent by the client are ignored.
+ *
+ * The payout goes to the saved destination picked by the member (see
+ * payoutDestinations.js). Older clients that send no destinationId fall back
+ * to the member's preferredPayoutMethod / gcashNumber.
+ *
+ * An optional idempotencyKey makes retries safe: a replay returns the
+ * original payout IDs instead of queueing the withdrawal again.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import {
+  applyContractDrawdown,
+  calculateTotalWithdrawable,
+  distributeWithdrawalAmount,
+  getContractMaxTotalWithdrawal,
+  getContractPrincipal,
+  getContractWithdrawalSlots,
+  loadContractPlanCatalog,
+} from './contractMath.js';
+import { calculatePayoutFee, getPayoutMethod, loadFeeSchedule } from './feeSchedule.js';
+import { LedgerAccounts, postLedgerJournal } from './ledger.js';
+import { getReplayedResult, normalizeIdempotencyKey, recordIdempotentResult } from './idempotency.js';
+import { resolvePayoutDestination } from './payoutDestinations.js';
+import { buildCreatedPayoutHistory } from './payoutStateMachine.js';
+import { assertPinAuthorization, consumePinAuthorization, loadPinAuthorization } from './pinAuthorization.js';
+import { applyWithdrawalRisk, evaluateWithdrawalRisk, loadWithdrawalRiskContext } from './withdrawalRisk.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const isKycApproved = (userData) => userData?.kycStatus === 'VERIFIED' || userData?.kycStatus === 'APPROVED';
+
+const toPositiveNumber = (value) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+};
+
+export const processPooledWithdrawal = onCall(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'Sign in to request a withdrawal');
+  }
+
+  const payload = request.data || {};
+  const requestedAmount = toPositiveNumber(payload.requestedAmount);
+  const manaToWithdraw = toPositiveNumber(payload.manaToWithdraw);
+  const contractIds = Array.isArray(payload.contractIds)
+    ? Array.from(new Set(payload.contractIds.filter((value) => typeof value === 'string' && value.trim().length > 0)))
+    : [];
+  const idempotencyKey = normalizeIdempotencyKey(payload.idempotencyKey);
+  const destinationId = typeof payload.destinationId === 'string' ? payload.destinationId.trim() : '';
+
+  if (requestedAmount <= 0) {
+    throw new HttpsError('invalid-argument', 'Withdrawal amount must be greater than zero');
+  }
+
+  if (contractIds.length === 0 && manaToWithdraw === 0) {
+    throw new HttpsError('invalid-argument', 'No contracts or MANA rewards selected for withdrawal');
+  }
+
+  await loadContractPlanCatalog(db);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      // === ALL READS FIRST ===
+      const replayed = await getReplayedResult(transaction, userId, idempotencyKey, 'pooled_withdrawal');
+      if (replayed) {
+        return replayed;
+      }
+
+      const userRef = db.collection('members').doc(userId);
+      const userSnap = await transaction.get(userRef);
+
+      if (!userSnap.exists) {
+        throw new HttpsError('not-found', 'User not found');
+      }
+
+      const userData = userSnap.data();
+
+      if (!isKycApproved(userData)) {
+        throw new HttpsError(
+          'failed-precondition',
+          `KYC verification required. Status: ${userData.kycStatus || 'NOT_SUBMITTED'}`
+        );
+      }
+
+      const contractRefs = contractIds.map((contractId) => db.collection('donationContracts').doc(contractId));
+      const contractSnaps = contractRefs.length > 0 ? await transaction.getAll(...contractRefs) : [];
+      const contracts = [];
+
+      for (const contractSnap of contractSnaps) {
+        if (!contractSnap.exists) {
+          throw new HttpsError('not-found', `Contract ${contractSnap.id} not found`);
+        }
+
+        const contract = { id: contractSnap.id, ...contractSnap.data() };
+        if (contract.userId !== userId) {
+          throw new HttpsError('permission-denied', 'Unauthorized: Contract does not belong to this user');
+        }
+
+        contracts.push(contract);
+      }
+
+      const savedDestination = destinationId
+        ? await resolvePayoutDestination(transaction, userId, destinationId)
+        : null;
+      const feeSchedule = await loadFeeSchedule(db, transaction);
+      const riskContext = await loadWithdrawalRiskContext(db, transaction, userId);
+      const authorization = await loadPinAuthorization(transaction, payload.pinAuthorization);
+
+      // === VALIDATIONS ===
+      const liveBalance = Number(userData.balance || 0);
+
+      if (manaToWithdraw > liveBalance) {
+        throw new HttpsError(
+          'failed-precondition',
+          `MANA amount ${manaToWithdraw.toFixed(2)} KOLI exceeds balance ${liveBalance.toFixed(2)} KOLI`
+        );
+      }
+
+      const { totalAmount: contractTotal, eligibleContracts } = calculateTotalWithdrawable(contracts, 0);
+      const totalAvailable = contractTotal + manaToWithdraw;
+
+      if (eligibleContracts.length === 0 && manaToWithdraw === 0) {
+        throw new HttpsError('failed-precondition', 'None of the selected contracts are withdrawable');
+      }
+
+      if (requestedAmount > totalAvailable) {
+        throw new HttpsError(
+          'failed-precondition',
+          `Requested amount ${requestedAmount.toFixed(2)} KOLI exceeds selected available ${totalAvailable.toFixed(2)} KOLI`
+        );
+      }
+
+      assertPinAuthorization(authorization, { userId, scope: 'withdraw', amount: requestedAmount });
+
+      const risk = applyWithdrawalRisk(
+        evaluateWithdrawalRisk({ ...riskContext, member: userData, amount: requestedAmount })
+      );
+
+      // === CALCULATIONS ===
+      const now = new Date().toISOString();
+      const withdrawalSessionId = `session_${Date.now()}_${userId.substring(0, 8)}`;
+      const { totalAmount: currentTotalWithdrawable } = calculateTotalWithdrawable(contracts, liveBalance);
+      const totalWithdrawableAfterWithdrawal = currentTotalWithdrawable - requestedAmount;
+      const memberFields = {
+        userId,
+        userName: userData.fullName || userData.email || 'Unknown',
+        userEmail: userData.email || '',
+        userPhone: userData.phoneNumber || '',
+      };
+      const payoutDestination = savedDestination || {
+        paymentMethod: userData.preferredPayoutMethod || 'GCash',
+        gcashNumber: userData.gcashNumber || '',
+      };
+      const payoutMethod = getPayoutMethod(payoutDestination);
+      const statusHistory = buildCreatedPayoutHistory({ status: risk.status, actor: userId, at: now });
+
+      const payoutIds = [];
+      let remainingAmount = requestedAmount;
+      let totalPlatformFee = 0;
+
+      // === ALL WRITES LAST ===
+      consumePinAuthorization(transaction, authorization, withdrawalSessionId);
+
+      // First, withdraw from MANA if selected
+      if (manaToWithdraw > 0) {
+        const manaAmount = Math.min(remainingAmount, manaToWithdraw);
+
+        transaction.update(userRef, {
+          balance: Math.max(0, liveBalance - manaAmount),
+        });
+
+        const manaFee = calculatePayoutFee(manaAmount, payoutMethod, feeSchedule);
+        totalPlatformFee += manaFee.platformFee;
+
+        const manaPayoutRef = db.collection('payout_queue').doc();
+        const manaJournalId = postLedgerJournal(transaction, {
+          movementType: 'withdrawal_hold',
+          userId,
+          sourceCollection: 'payout_queue',
+          sourceId: manaPayoutRef.id,
+          memo: `MANA withdrawal held for payout (${withdrawalSessionId})`,
+          lines: [
+            { account: LedgerAccounts.memberMana(userId), debit: manaAmount },
+            { account: LedgerAccounts.payoutClearing(userId), credit: manaAmount },
+          ],
+        });
+
+        transaction.set(manaPayoutRef, {
+          ...memberFields,
+          amount: manaAmount,
+          ...manaFee,
+          withdrawalType: 'MANA_REWARDS',
+          isPooled: true,
+          withdrawalSessionId,
+          totalWithdrawableBalance: totalWithdrawableAfterWithdrawal,
+          ...risk,
+          ...payoutDestination,
+          requestedAt: now,
+          statusHistory,
+          processedAt: null,
+          processedBy: null,
+          transactionProof: null,
+          notes: `MANA Rewards withdrawal: ${manaAmount.toFixed(2)} KOLI`,
+          ledgerJournalId: manaJournalId,
+        });
+        payoutIds.push(manaPayoutRef.id);
+
+        remainingAmount -= manaAmount;
+      }
+
+      // Then, withdraw from contracts for whatever remains
+      if (eligibleContracts.length > 0 && remainingAmount > 0) {
+        const amountFromContracts = Math.min(remainingAmount, contractTotal);
+        const distribution = distributeWithdrawalAmount(amountFromContracts, eligibleContracts);
+
+        for (const { contractId, amount, contract } of distribution) {
+          const drawdown = applyContractDrawdown(contract, amount, now);
+          const maxTotalWithdrawal = getContractMaxTotalWithdrawal(contract);
+          const remainingBalance = maxTotalWithdrawal - drawdown.totalWithdrawn;
+
+          transaction.update(db.collection('donationContracts').doc(contractId), drawdown);
+
+          const fee = calculatePayoutFee(amount, payoutMethod, feeSchedule);
+          totalPlatformFee += fee.platformFee;
+
+          const payoutRef = db.collection('payout_queue').doc();
+          const journalId = postLedgerJournal(transaction, {
+            movementType: 'withdrawal_hold',
+            userId,
+            sourceCollection: 'payout_queue',
+            sourceId: payoutRef.id,
+            memo: `Contract ${contractId} drawdown held for payout (${withdrawalSessionId})`,
+            lines: [
+              { account: LedgerAccounts.contract(contractId), debit: amount },
+              { account: LedgerAccounts.payoutClearing(userId), credit: amount },
+            ],
+          });
+
+          transaction.set(payoutRef, {
+            ...memberFields,
+            contractId,
+            amount,
+            ...fee,
+            isPooled: true,
+            withdrawalSessionId,
+            totalWithdrawableBalance: totalWithdrawableAfterWithdrawal,
+            withdrawalNumber: drawdown.withdrawalsCount,
+            totalWithdrawals: getContractWithdrawalSlots(contract),
+            contractPrincipal: getContractPrincipal(contract),
+            actualAmountWithdrawn: amount,
+            totalWithdrawnSoFar: drawdown.totalWithdrawn,
+            remainingBalance,
+            ...risk,
+            ...payoutDestination,
+            requestedAt: now,
+            statusHistory,
+            processedAt: null,
+            processedBy: null,
+            transactionProof: null,
+            notes: `Withdrawal: ${amount.toFixed(2)} KOLI (${remainingBalance.toFixed(2)} KOLI remaining) from contract ${contractId}`,
+            ledgerJournalId: journalId,
+          });
+          payoutIds.push(payoutRef.id);
+        }
+      }
+
+      const result = {
+        payoutIds,
+        totalAmount: requestedAmount,
+        platformFee: totalPlatformFee,
+        netAmount: requestedAmount - totalPlatformFee,
+        status: risk.status,
+        withdrawalSessionId,
+      };
+      recordIdempotentResult(transaction, userId, idempotencyKey, 'pooled_withdrawal', result);
+      return result;
+    });
+  } catch (error) {
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    console.error('processPooledWithdrawal error:', error);
+    throw new HttpsError('internal', error?.message || 'Failed to process withdrawal');
+  }
+});
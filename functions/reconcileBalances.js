@@ -0,0 +1,282 @@
+/**
+ * Balance reconciliation
+ *
+ * Recomputes what each member's MANA balance and each contract's
+ * totalWithdrawn should be from source records, and reports every mismatch:
+ *
+ *   expected MANA balance = MANA claims (rewardsHistory)
+ *                         - MANA payouts (payout_queue, withdrawalType MANA_REWARDS)
+ *                         - MANA used for re-donations (ledgerEntries)
+ *                         + contract payouts refunded to the MANA balance
+ *   expected totalWithdrawn = contract payouts (payout_queue by contractId)
+ *                           + amounts re-donated from the contract (ledgerEntries)
+ *
+ * Payouts whose drawdown was refunded (drawdownRefundedAt) are left out,
+ * except a contract payout refunded to the MANA balance (drawdownRefundedTo
+ * 'mana_balance'): it still counts against the contract and credits MANA.
+ *
+ * A member's MANA cleanup (manaBalanceCleanupAt) resets the balance to zero,
+ * so only MANA records after the last cleanup are counted.
+ *
+ * Runs daily and can be triggered by an admin (dry run by default, like cleanupManaBalances).
+ */
+
+import { onRequest } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { ensureAdminUser, setAdminCorsHeaders } from './adminAuth.js';
+import { LEDGER_COLLECTION, LedgerAccounts } from './ledger.js';
+import { getContractTotalWithdrawn, loadContractPlanCatalog } from './contractMath.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const MISMATCH_TOLERANCE = 0.01;
+const MAX_SOURCE_REFS = 50;
+const MAX_MISMATCHES_PER_BATCH = 400;
+
+const toMillis = (value) => {
+  if (!value) return 0;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  const parsed = new Date(value).getTime();
+  return Number.isNaN(parsed) ? 0 : parsed;
+};
+
+const toAmount = (value) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+const getPayoutAmount = (payout) => toAmount(payout.actualAmountWithdrawn ?? payout.amount);
+
+const pushTo = (map, key, item) => {
+  if (!map.has(key)) map.set(key, []);
+  map.get(key).push(item);
+};
+
+const loadSourceRecords = async () => {
+  const [membersSnap, contractsSnap, payoutsSnap, claimsSnap, ledgerSnap] = await Promise.all([
+    db.collection('members').get(),
+    db.collection('donationContracts').get(),
+    db.collection('payout_queue').get(),
+    db.collection('rewardsHistory').where('type', '==', 'mana').get(),
+    db.collection(LEDGER_COLLECTION).where('movementType', '==', 'redonation').get(),
+  ]);
+
+  const claimsByUser = new Map();
+  claimsSnap.docs.forEach((docSnap) => {
+    const data = docSnap.data();
+    pushTo(claimsByUser, data.userId, { id: docSnap.id, amount: toAmount(data.amount), at: toMillis(data.claimedAt) });
+  });
+
+  const manaPayoutsByUser = new Map();
+  const manaRefundsByUser = new Map();
+  const payoutsByContract = new Map();
+  payoutsSnap.docs.forEach((docSnap) => {
+    const data = docSnap.data();
+    const record = { id: docSnap.id, amount: getPayoutAmount(data), at: toMillis(data.requestedAt) };
+
+    if (data.drawdownRefundedAt) {
+      // A contract that could no longer take the refund stays drawn down
+      if (data.drawdownRefundedTo === 'mana_balance' && data.withdrawalType !== 'MANA_REWARDS' && data.contractId) {
+        pushTo(payoutsByContract, data.contractId, record);
+        pushTo(manaRefundsByUser, data.userId, { ...record, at: toMillis(data.drawdownRefundedAt) });
+      }
+      // Otherwise the drawdown was put back on its source, so it no longer counts
+      return;
+    }
+
+    if (data.withdrawalType === 'MANA_REWARDS') {
+      pushTo(manaPayoutsByUser, data.userId, record);
+    } else if (data.contractId) {
+      pushTo(payoutsByContract, data.contractId, record);
+    }
+  });
+
+  const manaRedonationsByUser = new Map();
+  const redonationsByContract = new Map();
+  ledgerSnap.docs.forEach((docSnap) => {
+    const entry = docSnap.data();
+    if (entry.side !== 'debit') return;
+
+    const record = { id: docSnap.id, amount: toAmount(entry.amount), at: toMillis(entry.effectiveAt) };
+    if (entry.account === LedgerAccounts.memberMana(entry.userId)) {
+      pushTo(manaRedonationsByUser, entry.userId, record);
+    } else if (entry.account.startsWith('contract:')) {
+      pushTo(redonationsByContract, entry.account.slice('contract:'.length), record);
+    }
+  });
+
+  return {
+    members: membersSnap.docs,
+    contracts: contractsSnap.docs,
+    claimsByUser,
+    manaPayoutsByUser,
+    manaRefundsByUser,
+    manaRedonationsByUser,
+    payoutsByContract,
+    redonationsByContract,
+  };
+};
+
+const sumRecords = (records) => records.reduce((sum, record) => sum + record.amount, 0);
+const refIds = (records) => records.slice(0, MAX_SOURCE_REFS).map((record) => record.id);
+
+export const reconcileBalances = async () => {
+  await loadContractPlanCatalog(db, { force: true });
+  const sources = await loadSourceRecords();
+  const mismatches = [];
+
+  for (const memberDoc of sources.members) {
+    const member = memberDoc.data();
+    const cleanupAt = toMillis(member.manaBalanceCleanupAt);
+    const afterCleanup = (records) => (records || []).filter((record) => record.at > cleanupAt);
+
+    const claims = afterCleanup(sources.claimsByUser.get(memberDoc.id));
+    const payouts = afterCleanup(sources.manaPayoutsByUser.get(memberDoc.id));
+    const redonations = afterCleanup(sources.manaRedonationsByUser.get(memberDoc.id));
+    const refunds = afterCleanup(sources.manaRefundsByUser.get(memberDoc.id));
+
+    const expectedAmount = round2(
+      sumRecords(claims) - sumRecords(payouts) - sumRecords(redonations) + sumRecords(refunds)
+    );
+    const storedAmount = round2(toAmount(member.balance));
+
+    if (Math.abs(storedAmount - expectedAmount) > MISMATCH_TOLERANCE) {
+      mismatches.push({
+        kind: 'member_balance',
+        userId: memberDoc.id,
+        contractId: null,
+        storedAmount,
+        expectedAmount,
+        difference: round2(storedAmount - expectedAmount),
+        sourceDocs: {
+          members: [memberDoc.id],
+          rewardsHistory: refIds(claims),
+          payout_queue: refIds([...payouts, ...refunds]),
+          ledgerEntries: refIds(redonations),
+        },
+      });
+    }
+  }
+
+  for (const contractDoc of sources.contracts) {
+    const contract = { id: contractDoc.id, ...contractDoc.data() };
+    const payouts = sources.payoutsByContract.get(contractDoc.id) || [];
+    const redonations = sources.redonationsByContract.get(contractDoc.id) || [];
+
+    const expectedAmount = round2(sumRecords(payouts) + sumRecords(redonations));
+    const storedAmount = round2(getContractTotalWithdrawn(contract));
+
+    if (Math.abs(storedAmount - expectedAmount) > MISMATCH_TOLERANCE) {
+      mismatches.push({
+        kind: 'contract_total_withdrawn',
+        userId: contract.userId || null,
+        contractId: contractDoc.id,
+        storedAmount,
+        expectedAmount,
+        difference: round2(storedAmount - expectedAmount),
+        sourceDocs: {
+          donationContracts: [contractDoc.id],
+          payout_queue: refIds(payouts),
+          ledgerEntries: refIds(redonations),
+        },
+      });
+    }
+  }
+
+  return {
+    membersChecked: sources.members.length,
+    contractsChecked: sources.contracts.length,
+    mismatches,
+  };
+};
+
+/**
+ * Writes the report summary to reconciliationReports/{id} and one doc per
+ * mismatch in its `mismatches` subcollection.
+ */
+const writeReconciliationReport = async (result, trigger) => {
+  const reportRef = db.collection('reconciliationReports').doc();
+  const memberMismatches = result.mismatches.filter((item) => item.kind === 'member_balance').length;
+
+  await reportRef.set({
+    trigger,
+    status: result.mismatches.length === 0 ? 'clean' : 'mismatches_found',
+    membersChecked: result.membersChecked,
+    contractsChecked: result.contractsChecked,
+    mismatchCount: result.mismatches.length,
+    memberBalanceMismatches: memberMismatches,
+    contractMismatches: result.mismatches.length - memberMismatches,
+    totalAbsoluteDifference: round2(result.mismatches.reduce((sum, item) => sum + Math.abs(item.difference), 0)),
+    createdAt: FieldValue.serverTimestamp(),
+  });
+
+  for (let i = 0; i < result.mismatches.length; i += MAX_MISMATCHES_PER_BATCH) {
+    const batch = db.batch();
+    result.mismatches.slice(i, i + MAX_MISMATCHES_PER_BATCH).forEach((mismatch) => {
+      batch.set(reportRef.collection('mismatches').doc(), mismatch);
+    });
+    await batch.commit();
+  }
+
+  return reportRef.id;
+};
+
+export const scheduledBalanceReconciliation = onSchedule(
+  { schedule: 'every day 03:00', timeZone: 'Asia/Manila' },
+  async () => {
+    const result = await reconcileBalances();
+    const reportId = await writeReconciliationReport(result, { type: 'schedule' });
+    console.log(`Reconciliation ${reportId}: ${result.mismatches.length} mismatches`);
+  }
+);
+
+export const runBalanceReconciliation = onRequest(async (req, res) => {
+  setAdminCorsHeaders(res);
+
+  if (req.method === 'OPTIONS') {
+    res.status(204).send('');
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  try {
+    const adminUser = await ensureAdminUser(req);
+    const { dryRun = true } = req.body || {};
+
+    const result = await reconcileBalances();
+    const reportId = dryRun
+      ? null
+      : await writeReconciliationReport(result, { type: 'admin', adminUid: adminUser.uid });
+
+    res.status(200).json({
+      success: true,
+      dryRun: Boolean(dryRun),
+      reportId,
+      membersChecked: result.membersChecked,
+      contractsChecked: result.contractsChecked,
+      mismatchCount: result.mismatches.length,
+      sample: result.mismatches.slice(0, 20),
+      message: dryRun
+        ? 'Dry run complete. Re-run with dryRun: false to save the report.'
+        : 'Reconciliation report saved.',
+    });
+  } catch (error) {
+    console.error('runBalanceReconciliation error:', error);
+    res.status(401).json({
+      success: false,
+      error: error?.message || 'Unauthorized or failed reconciliation',
+    });
+  }
+});
@@ -0,0 +1,180 @@
+/**
+ * Admin review of pending donation contracts
+ *
+ * reviewDonationContract - admin-only callable with three decisions:
+ *   'approve'          - start the contract at the submitted amount
+ *   'approve_adjusted' - start it at the verifiedAmount read off the receipt
+ *                        (requires a note for the member)
+ *   'reject'           - close it as rejected with a reason
+ *
+ * Approvals set donationStartDate / contractEndDate and the review fields
+ * getContractAdjustmentDetails reads, and write the donation_approved or
+ * donation_adjusted notification (same IDs NotificationSync uses, so the
+ * client does not post a second one). Every decision is kept in
+ * donationContractReviews as an audit record.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import { ensureAdminCaller } from './adminAuth.js';
+import { calculateContractEndDate, getContractPlanConfig, loadContractPlanCatalog } from './contractMath.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const REVIEW_DECISIONS = ['approve', 'approve_adjusted', 'reject'];
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+const toCurrency = (value) =>
+  value.toLocaleString('en-PH', { minimumFractionDigits: 0, maximumFractionDigits: 2 });
+
+const toOptionalString = (value) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+const buildApprovalNotification = (userId, contractId, submittedAmount, approvedAmount, isAdjusted) => ({
+  id: isAdjusted
+    ? `${userId}_donation_adjusted_${contractId}_${approvedAmount}`
+    : `${userId}_donation_approved_${contractId}`,
+  data: {
+    userId,
+    type: isAdjusted ? 'donation_adjusted' : 'donation_approved',
+    title: isAdjusted ? 'Donation Contract Approved (Adjusted)' : 'Donation Contract Approved',
+    message: isAdjusted
+      ? `Your donation was approved with adjustment: ${toCurrency(approvedAmount)} KOLI verified ` +
+        `from ${toCurrency(submittedAmount)} KOLI submitted.`
+      : `Your donation contract of ${toCurrency(approvedAmount)} KOLI is now active.`,
+    relatedId: contractId,
+    isRead: false,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp(),
+  },
+});
+
+export const reviewDonationContract = onCall(async (request) => {
+  const admin = await ensureAdminCaller(request);
+
+  const payload = request.data || {};
+  const contractId = typeof payload.contractId === 'string' ? payload.contractId.trim() : '';
+  const decision = String(payload.decision || '');
+  const note = toOptionalString(payload.note);
+  const rejectionReason = toOptionalString(payload.rejectionReason);
+  const verifiedAmount = round2(Number(payload.verifiedAmount));
+
+  if (!contractId) {
+    throw new HttpsError('invalid-argument', 'contractId is required');
+  }
+
+  if (!REVIEW_DECISIONS.includes(decision)) {
+    throw new HttpsError('invalid-argument', `Unknown review decision: ${decision}`);
+  }
+
+  if (decision === 'approve_adjusted') {
+    if (!Number.isFinite(verifiedAmount) || verifiedAmount <= 0) {
+      throw new HttpsError('invalid-argument', 'Verified amount must be greater than zero');
+    }
+    if (!note) {
+      throw new HttpsError('invalid-argument', 'A note is required for adjusted approvals');
+    }
+  }
+
+  if (decision === 'reject' && !rejectionReason) {
+    throw new HttpsError('invalid-argument', 'A rejection reason is required');
+  }
+
+  await loadContractPlanCatalog(db);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      // === ALL READS FIRST ===
+      const contractRef = db.collection('donationContracts').doc(contractId);
+      const contractSnap = await transaction.get(contractRef);
+
+      if (!contractSnap.exists) {
+        throw new HttpsError('not-found', 'Contract not found');
+      }
+
+      const contract = contractSnap.data();
+      const submittedAmount = Number(contract.donationAmount || 0);
+
+      // === VALIDATIONS ===
+      if (contract.status !== 'pending') {
+        throw new HttpsError('failed-precondition', `Contract is not pending approval (status: ${contract.status})`);
+      }
+
+      if (decision === 'approve_adjusted' && verifiedAmount === submittedAmount) {
+        throw new HttpsError('invalid-argument', 'Verified amount matches the submitted amount; approve it instead');
+      }
+
+      // === ALL WRITES LAST ===
+      const now = new Date();
+      const timestamp = now.toISOString();
+      const reviewFields = {
+        reviewNote: note,
+        reviewedAt: timestamp,
+        reviewedBy: admin.uid,
+      };
+      let approvedAmount = null;
+
+      if (decision === 'reject') {
+        transaction.update(contractRef, {
+          ...reviewFields,
+          status: 'rejected',
+          rejectionReason,
+          reviewOutcome: 'rejected',
+        });
+      } else {
+        const isAdjusted = decision === 'approve_adjusted';
+        approvedAmount = isAdjusted ? verifiedAmount : submittedAmount;
+
+        transaction.update(contractRef, {
+          ...reviewFields,
+          status: 'active',
+          donationStartDate: timestamp,
+          contractEndDate: calculateContractEndDate(now, getContractPlanConfig(contract)).toISOString(),
+          approvedAt: timestamp,
+          approvedBy: admin.uid,
+          reviewOutcome: isAdjusted ? 'approved_adjusted' : 'approved',
+          verifiedAmount: isAdjusted ? verifiedAmount : null,
+          discrepancyAmount: isAdjusted ? round2(Math.abs(submittedAmount - verifiedAmount)) : null,
+          hasDiscrepancy: isAdjusted,
+        });
+
+        const notification = buildApprovalNotification(
+          contract.userId,
+          contractId,
+          submittedAmount,
+          approvedAmount,
+          isAdjusted
+        );
+        transaction.set(db.collection('notifications').doc(notification.id), notification.data);
+      }
+
+      const reviewRef = db.collection('donationContractReviews').doc();
+      transaction.set(reviewRef, {
+        contractId,
+        userId: contract.userId,
+        decision,
+        previousStatus: contract.status,
+        submittedAmount,
+        approvedAmount,
+        note,
+        rejectionReason: decision === 'reject' ? rejectionReason : null,
+        reviewedBy: admin.uid,
+        reviewedAt: timestamp,
+      });
+
+      return { contractId, decision, approvedAmount, reviewId: reviewRef.id };
+    });
+  } catch (error) {
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    console.error('reviewDonationContract error:', error);
+    throw new HttpsError('internal', error?.message || 'Failed to review donation contract');
+  }
+});
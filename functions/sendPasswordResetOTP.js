@@ -269,6 +269,12 @@ export const resetPasswordWithOTP = functions.https.onCall(
     // Update password
     await auth.updateUser(userRecord.uid, { password: newPassword });
 
+    // Starts the passwordResetHold withdrawal rule (see withdrawalRisk.js)
+    await db.collection("members").doc(userRecord.uid).set(
+      { passwordResetAt: new Date().toISOString() },
+      { merge: true }
+    );
+
     // Optionally, sign in user (handled client-side)
     return;
   }
@@ -0,0 +1,269 @@
+/**
+ * Signup email OTPs
+ *
+ * Signup runs before the Auth user exists, so these callables take no auth:
+ *
+ * sendSignupOTP    - generate a 6-digit code, store its hash in
+ *                    pendingOTPs/{otpId} and queue the email (60s cooldown per
+ *                    address; a new code replaces the address's older ones)
+ * verifySignupOTP  - check a code against its pendingOTPs doc; three wrong
+ *                    codes or an expired code delete it
+ *
+ * pendingOTPs and emailQueue are closed to clients, so a stored hash can
+ * never be read and brute-forced offline. Expired docs are removed by the
+ * TTL policy on expiresAt (firestore.indexes.json).
+ * Keep in sync with src/services/emailOTPService.ts
+ */
+
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'node:crypto';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const PENDING_OTPS_COLLECTION = 'pendingOTPs';
+const OTP_EXPIRY_MS = 5 * 60 * 1000;
+const RESEND_COOLDOWN_MS = 60 * 1000;
+const MAX_ATTEMPTS = 3;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const hashOtp = (otpId, email, otp) => createHash('sha256').update(`${otpId}:${email}:${otp}`).digest('hex');
+
+const safeEqual = (left, right) => {
+  const a = Buffer.from(String(left || ''));
+  const b = Buffer.from(String(right || ''));
+  return a.length > 0 && a.length === b.length && timingSafeEqual(a, b);
+};
+
+const requireEmail = (value) => {
+  const email = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (!email || email.length > 254 || !EMAIL_PATTERN.test(email)) {
+    throw new HttpsError('invalid-argument', 'Invalid email format');
+  }
+  return email;
+};
+
+const generateEmailHTML = (otp) => `
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <meta charset="UTF-8" />
+      <title>KOLI Email Verification</title>
+      <link href="https://fonts.googleapis.com/css?family=Montserrat:400,500,700&display=swap" rel="stylesheet" />
+      <style>
+        body {
+          background: #f8fafc;
+          font-family: 'Montserrat', 'Segoe UI', Arial, sans-serif;
+          color: #1e293b;
+          margin: 0;
+          padding: 0;
+        }
+        .container {
+          max-width: 480px;
+          margin: 40px auto;
+          background: #fff;
+          border-radius: 16px;
+          box-shadow: 0 4px 24px rgba(30,41,59,0.08);
+          padding: 32px 24px;
+          text-align: center;
+        }
+        .logo {
+          width: 64px;
+          margin-bottom: 16px;
+        }
+        .title {
+          color: #6366f1;
+          font-size: 2rem;
+          font-weight: 700;
+          margin-bottom: 8px;
+          letter-spacing: 1px;
+          font-family: 'Montserrat', 'Segoe UI', Arial, sans-serif;
+        }
+        .subtitle {
+          font-size: 1.25rem;
+          font-weight: 500;
+          margin-bottom: 24px;
+          font-family: 'Montserrat', 'Segoe UI', Arial, sans-serif;
+        }
+        .code-box {
+          border: 2px solid #6366f1;
+          border-radius: 12px;
+          padding: 24px 0;
+          margin: 24px 0;
+          font-size: 2.5rem;
+          font-weight: 700;
+          color: #6366f1;
+          letter-spacing: 0.3em;
+          background: #f1f5ff;
+          font-family: 'Montserrat', 'Segoe UI', Arial, sans-serif;
+        }
+        .expires {
+          font-size: 0.95rem;
+          color: #64748b;
+          margin-top: 8px;
+          font-family: 'Montserrat', 'Segoe UI', Arial, sans-serif;
+        }
+        .security {
+          background: #fef2f2;
+          border-left: 4px solid #ef4444;
+          color: #b91c1c;
+          padding: 16px;
+          margin: 24px 0 0 0;
+          border-radius: 8px;
+          text-align: left;
+          font-family: 'Montserrat', 'Segoe UI', Arial, sans-serif;
+        }
+        .footer {
+          margin-top: 32px;
+          font-size: 0.95rem;
+          color: #64748b;
+          font-family: 'Montserrat', 'Segoe UI', Arial, sans-serif;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <img src="https://koli-2bad9.web.app/koli-logo.png" alt="KOLI Logo" class="logo" />
+        <div class="title">KOLI</div>
+        <div class="subtitle">Email Verification</div>
+        <p>Hello,<br>Thank you for signing up for KOLI! Please use the verification code below to complete your registration:</p>
+        <div class="code-box">${otp}</div>
+        <div class="expires">This code expires in 5 minutes</div>
+        <div class="security">
+          <strong>Security Notice:</strong>
+          <ul>
+            <li>Never share this code with anyone</li>
+            <li>KOLI will never ask for this code via phone or email</li>
+            <li>If you didn't request this code, please ignore this email</li>
+          </ul>
+        </div>
+        <div class="footer">
+          If you have any questions, please contact our support team.<br>
+          <br>
+          &copy; 2026 KOLI. All rights reserved.<br>
+          <span style="font-size:0.85em;">This is an automated email, please do not reply.</span>
+        </div>
+      </div>
+    </body>
+  </html>
+`;
+
+export const sendSignupOTP = onCall(async (request) => {
+  const email = requireEmail(request.data?.email);
+  const existing = await db.collection(PENDING_OTPS_COLLECTION).where('email', '==', email).get();
+  const now = Date.now();
+
+  const lastSentAt = existing.docs.reduce(
+    (latest, docSnap) => Math.max(latest, docSnap.data().lastSentAt?.toMillis?.() || 0),
+    0
+  );
+  if (now - lastSentAt < RESEND_COOLDOWN_MS) {
+    const cooldownRemaining = Math.ceil((RESEND_COOLDOWN_MS - (now - lastSentAt)) / 1000);
+    throw new HttpsError('resource-exhausted', 'Please wait before requesting another OTP', { cooldownRemaining });
+  }
+
+  const otpId = randomBytes(32).toString('hex');
+  const otp = randomInt(100000, 1000000).toString();
+  const batch = db.batch();
+
+  // Only the newest code for an address can be used
+  existing.docs.forEach((docSnap) => batch.delete(docSnap.ref));
+
+  batch.set(db.collection(PENDING_OTPS_COLLECTION).doc(otpId), {
+    email,
+    hashedOTP: hashOtp(otpId, email, otp),
+    attempts: 0,
+    maxAttempts: MAX_ATTEMPTS,
+    createdAt: Timestamp.fromMillis(now),
+    expiresAt: Timestamp.fromMillis(now + OTP_EXPIRY_MS),
+    lastSentAt: Timestamp.fromMillis(now),
+  });
+  batch.set(db.collection('emailQueue').doc(`signup-otp-${otpId}`), {
+    to: email,
+    subject: 'Your KOLI Verification Code',
+    html: generateEmailHTML(otp),
+    text: `Your KOLI verification code is: ${otp}. This code expires in 5 minutes.`,
+    createdAt: Timestamp.fromMillis(now),
+    processed: false,
+  });
+
+  await batch.commit();
+
+  return { otpId, expiresAt: new Date(now + OTP_EXPIRY_MS).toISOString() };
+});
+
+export const verifySignupOTP = onCall(async (request) => {
+  const payload = request.data || {};
+  const email = requireEmail(payload.email);
+  const code = typeof payload.code === 'string' ? payload.code.trim() : '';
+
+  if (typeof payload.otpId !== 'string' || !/^[a-f0-9]{64}$/.test(payload.otpId)) {
+    throw new HttpsError('invalid-argument', 'Invalid verification session');
+  }
+  if (!/^\d{6}$/.test(code)) {
+    throw new HttpsError('invalid-argument', 'Please enter a valid 6-digit verification code');
+  }
+
+  const otpRef = db.collection(PENDING_OTPS_COLLECTION).doc(payload.otpId);
+
+  // Failed attempts must be saved, so the transaction returns the outcome
+  // and errors are thrown after it commits
+  const outcome = await db.runTransaction(async (transaction) => {
+    // === ALL READS FIRST ===
+    const otpSnap = await transaction.get(otpRef);
+
+    // === VALIDATIONS ===
+    if (!otpSnap.exists) {
+      return { error: 'not-found' };
+    }
+
+    const otpData = otpSnap.data();
+    if (otpData.email !== email) {
+      return { error: 'email-mismatch' };
+    }
+
+    // === ALL WRITES LAST ===
+    if (otpData.expiresAt.toMillis() < Date.now()) {
+      transaction.delete(otpRef);
+      return { error: 'expired' };
+    }
+
+    if (!safeEqual(hashOtp(otpRef.id, email, code), otpData.hashedOTP)) {
+      const attempts = Number(otpData.attempts || 0) + 1;
+      if (attempts >= MAX_ATTEMPTS) {
+        transaction.delete(otpRef);
+      } else {
+        transaction.update(otpRef, { attempts });
+      }
+      return { error: 'invalid', attemptsRemaining: Math.max(0, MAX_ATTEMPTS - attempts) };
+    }
+
+    transaction.delete(otpRef);
+    return { verified: true };
+  });
+
+  switch (outcome.error) {
+    case 'not-found':
+      throw new HttpsError('not-found', 'Verification session not found or expired');
+    case 'email-mismatch':
+      throw new HttpsError('invalid-argument', 'Email does not match verification session');
+    case 'expired':
+      throw new HttpsError('deadline-exceeded', 'Verification code has expired');
+    case 'invalid':
+      throw new HttpsError(
+        'permission-denied',
+        outcome.attemptsRemaining > 0
+          ? 'Invalid verification code'
+          : 'Too many incorrect codes. Please request a new one.',
+        { attemptsRemaining: outcome.attemptsRemaining }
+      );
+    default:
+      return { verified: true };
+  }
+});
@@ -0,0 +1,73 @@
+/**
+ * Signup referrals
+ *
+ * recordSignupReferral - called by the new member right after signup; looks
+ *                        up the owner of the referral code saved on their
+ *                        members doc and records referrals/{referrerId}_{uid}
+ *
+ * users and referrals are closed to other members, so the lookup that used to
+ * run in the browser (emailVerificationService) happens here. The code is
+ * read from the caller's own members doc, never from the request, and a
+ * member can be referred only once.
+ * Keep in sync with src/services/emailVerificationService.ts
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const MAX_REFERRAL_CODE_LENGTH = 64;
+
+export const recordSignupReferral = onCall(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'Sign in to record a referral');
+  }
+
+  const memberSnap = await db.collection('members').doc(userId).get();
+  if (!memberSnap.exists) {
+    throw new HttpsError('not-found', 'Member not found');
+  }
+
+  const referralCode = typeof memberSnap.data().referralCode === 'string' ? memberSnap.data().referralCode.trim() : '';
+  if (!referralCode || referralCode.length > MAX_REFERRAL_CODE_LENGTH) {
+    return { recorded: false };
+  }
+
+  const referrerSnap = await db.collection('users').where('referralCode', '==', referralCode).limit(1).get();
+  if (referrerSnap.empty || referrerSnap.docs[0].id === userId) {
+    return { recorded: false };
+  }
+
+  const referrerId = referrerSnap.docs[0].id;
+
+  return db.runTransaction(async (transaction) => {
+    // === ALL READS FIRST ===
+    const existing = await transaction.get(
+      db.collection('referrals').where('referredUserId', '==', userId).limit(1)
+    );
+
+    // === VALIDATIONS ===
+    if (!existing.empty) {
+      return { recorded: existing.docs[0].data().referrerId === referrerId };
+    }
+
+    // === ALL WRITES LAST ===
+    transaction.create(db.collection('referrals').doc(`${referrerId}_${userId}`), {
+      referrerId,
+      referredUserId: userId,
+      referralCode,
+      status: 'completed',
+      createdAt: FieldValue.serverTimestamp(),
+      bonusAwarded: false,
+    });
+
+    return { recorded: true };
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Firebase Cloud Function: Withdraw With PIN
+ *
+ * Callable that replaces the old browser-side withdrawWithPin (single
+ * contract, one period's share or the matured lock-in balance):
+ * 1. Uses up a 'withdraw' PIN authorization covering the amount
+ *    (pinAuthorization.js)
+ * 2. Re-reads the contract, member and saved destination inside a transaction
+ * 3. Checks the withdrawal risk rules (withdrawalRisk.js); a review rule
+ *    queues the payout as pending_review
+ * 4. Computes the platform fee from the fee schedule (feeSchedule.js)
+ * 5. Commits the contract drawdown, payout_queue doc and withdrawal_hold
+ *    ledger journal atomically
+ *
+ * An optional idempotencyKey makes retries safe: a replay returns the
+ * original payout instead of queueing the withdrawal again.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import {
+  applyContractDrawdown,
+  getContractMaxTotalWithdrawal,
+  getContractPrincipal,
+  getContractWithdrawalAmount,
+  getContractWithdrawalSlots,
+  loadContractPlanCatalog,
+} from './contractMath.js';
+import { calculatePayoutFee, getPayoutMethod, loadFeeSchedule } from './feeSchedule.js';
+import { LedgerAccounts, postLedgerJournal } from './ledger.js';
+import { getReplayedResult, normalizeIdempotencyKey, recordIdempotentResult } from './idempotency.js';
+import { resolvePayoutDestination } from './payoutDestinations.js';
+import { buildCreatedPayoutHistory } from './payoutStateMachine.js';
+import { assertPinAuthorization, consumePinAuthorization, loadPinAuthorization } from './pinAuthorization.js';
+import { applyWithdrawalRisk, evaluateWithdrawalRisk, loadWithdrawalRiskContext } from './withdrawalRisk.js';
+
+if (getApps().length === 0) {
+  initializeApp();
+}
+
+const db = getFirestore();
+
+const isKycApproved = (userData) => userData?.kycStatus === 'VERIFIED' || userData?.kycStatus === 'APPROVED';
+
+export const withdrawWithPin = onCall(async (request) => {
+  const userId = request.auth?.uid;
+  if (!userId) {
+    throw new HttpsError('unauthenticated', 'Sign in to request a withdrawal');
+  }
+
+  const payload = request.data || {};
+  const contractId = typeof payload.contractId === 'string' ? payload.contractId.trim() : '';
+  const idempotencyKey = normalizeIdempotencyKey(payload.idempotencyKey);
+  const destinationId = typeof payload.destinationId === 'string' ? payload.destinationId.trim() : '';
+
+  if (!contractId) {
+    throw new HttpsError('invalid-argument', 'contractId is required');
+  }
+
+  await loadContractPlanCatalog(db);
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      // === ALL READS FIRST ===
+      const replayed = await getReplayedResult(transaction, userId, idempotencyKey, 'withdraw_with_pin');
+      if (replayed) {
+        return replayed;
+      }
+
+      const userRef = db.collection('members').doc(userId);
+      const contractRef = db.collection('donationContracts').doc(contractId);
+      const [userSnap, contractSnap] = await Promise.all([transaction.get(userRef), transaction.get(contractRef)]);
+
+      if (!contractSnap.exists) {
+        throw new HttpsError('not-found', 'Contract not found');
+      }
+
+      if (!userSnap.exists) {
+        throw new HttpsError('not-found', 'User not found');
+      }
+
+      const userData = userSnap.data();
+      const contract = { id: contractSnap.id, ...contractSnap.data() };
+
+      if (contract.userId !== userId) {
+        throw new HttpsError('permission-denied', 'Unauthorized: Contract does not belong to this user');
+      }
+
+      const savedDestination = destinationId
+        ? await resolvePayoutDestination(transaction, userId, destinationId)
+        : null;
+      const feeSchedule = await loadFeeSchedule(db, transaction);
+      const riskContext = await loadWithdrawalRiskContext(db, transaction, userId);
+      const authorization = await loadPinAuthorization(transaction, payload.pinAuthorization);
+
+      // === VALIDATIONS ===
+      if (!isKycApproved(userData)) {
+        throw new HttpsError('failed-precondition', 'KYC verification required for withdrawals');
+      }
+
+      const withdrawalAmount = getContractWithdrawalAmount(contract);
+
+      if (withdrawalAmount <= 0) {
+        throw new HttpsError('failed-precondition', 'Nothing is available to withdraw from this contract yet');
+      }
+
+      assertPinAuthorization(authorization, { userId, scope: 'withdraw', amount: withdrawalAmount });
+
+      const risk = applyWithdrawalRisk(
+        evaluateWithdrawalRisk({ ...riskContext, member: userData, amount: withdrawalAmount })
+      );
+
+      // === CALCULATIONS ===
+      const now = new Date().toISOString();
+      const drawdown = applyContractDrawdown(contract, withdrawalAmount, now);
+      const totalSlots = getContractWithdrawalSlots(contract);
+      const remainingBalance = getContractMaxTotalWithdrawal(contract) - drawdown.totalWithdrawn;
+      const payoutDestination = savedDestination || {
+        paymentMethod: userData.preferredPayoutMethod || 'GCash',
+        gcashNumber: userData.gcashNumber || '',
+      };
+      const fee = calculatePayoutFee(withdrawalAmount, getPayoutMethod(payoutDestination), feeSchedule);
+
+      // === ALL WRITES LAST ===
+      const payoutRef = db.collection('payout_queue').doc();
+      const ledgerJournalId = postLedgerJournal(transaction, {
+        movementType: 'withdrawal_hold',
+        userId,
+        sourceCollection: 'payout_queue',
+        sourceId: payoutRef.id,
+        memo: `P2P withdrawal from contract ${contractId}`,
+        lines: [
+          { account: LedgerAccounts.contract(contractId), debit: withdrawalAmount },
+          { account: LedgerAccounts.payoutClearing(userId), credit: withdrawalAmount },
+        ],
+      });
+
+      transaction.set(payoutRef, {
+        userId,
+        contractId,
+        amount: withdrawalAmount,
+        ...fee,
+        ...risk,
+        userFullName: userData.name || `${userData.firstName || ''} ${userData.lastName || ''}`.trim(),
+        userPhoneNumber: userData.phoneNumber || 'N/A',
+        userEmail: userData.email || 'N/A',
+        withdrawalNumber: drawdown.withdrawalsCount,
+        totalWithdrawals: totalSlots,
+        contractPrincipal: getContractPrincipal(contract),
+        actualAmountWithdrawn: withdrawalAmount,
+        totalWithdrawnSoFar: drawdown.totalWithdrawn,
+        remainingBalance,
+        ...payoutDestination,
+        requestedAt: now,
+        statusHistory: buildCreatedPayoutHistory({ status: risk.status, actor: userId, at: now }),
+        processedAt: null,
+        processedBy: null,
+        notes: `P2P Withdrawal ${drawdown.withdrawalsCount}/${totalSlots} from contract ${contractId}`,
+        ledgerJournalId,
+        createdAt: FieldValue.serverTimestamp(),
+      });
+
+      consumePinAuthorization(transaction, authorization, payoutRef.id);
+
+      transaction.update(contractRef, {
+        ...drawdown,
+        status: drawdown.status === 'completed' ? 'completed' : 'active',
+      });
+
+      const result = {
+        payoutId: payoutRef.id,
+        amount: withdrawalAmount,
+        platformFee: fee.platformFee,
+        netAmount: fee.netAmount,
+        status: risk.status,
+      };
+      recordIdempotentResult(transaction, userId, idempotencyKey, 'withdraw_with_pin', result);
+      return result;
+    });
+  } catch (error) {
+    if (error instanceof HttpsError) {
+      throw error;
+    }
+
+    console.error('withdrawWithPin error:', error);
+    throw new HttpsError('internal', error?.message || 'Failed to process withdrawal');
+  }
+});
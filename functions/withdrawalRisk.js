@@ -0,0 +1,194 @@
+/**
+ * Withdrawal risk rules
+ *
+ * Checked by the withdrawal callables before any payout is queued. Rules live
+ * in systemSettings/withdrawalRisk and each one either blocks the request
+ * ('block') or lets it through as pending_review ('review'):
+ *
+ *   dailyCap              - KOLI requested per day (platform timezone)
+ *   monthlyCap            - KOLI requested per calendar month
+ *   maxPayoutsPerDay      - withdrawal requests per day
+ *   pinResetHold          - hours after the PIN was reset or changed
+ *   passwordResetHold     - hours after a password reset
+ *   destinationChangeHold - hours after a payout destination was confirmed or removed
+ *   firstWithdrawal       - members without a completed payout yet
+ *
+ * A limit or hours of null (or enabled: false) turns a rule off. Payouts that
+ * were rejected, failed or returned do not count toward the caps.
+ */
+
+import { HttpsError } from 'firebase-functions/v2/https';
+import { getPlatformPeriodStart } from './accrualCalendar.js';
+import { REFUND_PAYOUT_STATUSES, normalizePayoutStatus } from './payoutStateMachine.js';
+
+export const WITHDRAWAL_RISK_DOC = 'withdrawalRisk';
+
+export const DEFAULT_WITHDRAWAL_RISK_RULES = {
+  dailyCap: { limit: null, action: 'block' },
+  monthlyCap: { limit: null, action: 'block' },
+  maxPayoutsPerDay: { limit: null, action: 'block' },
+  pinResetHold: { hours: 24, action: 'block' },
+  passwordResetHold: { hours: 24, action: 'block' },
+  destinationChangeHold: { hours: 24, action: 'review' },
+  firstWithdrawal: { enabled: true, action: 'review' },
+};
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+// Member timestamp that starts each hold
+const HOLD_FIELDS = {
+  pinResetHold: { field: 'pinResetAt', event: 'your PIN was reset' },
+  passwordResetHold: { field: 'passwordResetAt', event: 'your password was reset' },
+  destinationChangeHold: { field: 'payoutDestinationChangedAt', event: 'your payout destinations changed' },
+};
+
+const toLimit = (value, fallback) => {
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const toAction = (value, fallback) => (value === 'block' || value === 'review' ? value : fallback);
+
+const formatKoli = (value) => `${Number(value).toLocaleString('en-US', { maximumFractionDigits: 2 })} KOLI`;
+
+/**
+ * Merge the systemSettings/withdrawalRisk document over the defaults
+ */
+export const resolveWithdrawalRiskRules = (data = {}) => {
+  const rules = {};
+
+  for (const [name, defaults] of Object.entries(DEFAULT_WITHDRAWAL_RISK_RULES)) {
+    const stored = data?.[name] || {};
+    rules[name] = { action: toAction(stored.action, defaults.action) };
+
+    if ('limit' in defaults) rules[name].limit = toLimit(stored.limit, defaults.limit);
+    if ('hours' in defaults) rules[name].hours = toLimit(stored.hours, defaults.hours);
+    if ('enabled' in defaults) rules[name].enabled = typeof stored.enabled === 'boolean' ? stored.enabled : defaults.enabled;
+  }
+
+  return rules;
+};
+
+/**
+ * Reads the rules and the member's payouts inside a withdrawal transaction
+ */
+export const loadWithdrawalRiskContext = async (db, transaction, userId) => {
+  const [rulesSnap, payoutsSnap] = await Promise.all([
+    transaction.get(db.collection('systemSettings').doc(WITHDRAWAL_RISK_DOC)),
+    transaction.get(db.collection('payout_queue').where('userId', '==', userId)),
+  ]);
+
+  return {
+    rules: resolveWithdrawalRiskRules(rulesSnap.exists ? rulesSnap.data() : {}),
+    payouts: payoutsSnap.docs.map((docSnap) => ({ id: docSnap.id, ...docSnap.data() })),
+  };
+};
+
+const isCountedPayout = (payout) => !REFUND_PAYOUT_STATUSES.has(normalizePayoutStatus(payout.status));
+
+const getRequestedAt = (payout) => new Date(payout.requestedAt || 0).getTime();
+
+/**
+ * Every rule a new withdrawal of `amount` would hit
+ * @returns [{ rule, action, message }]
+ */
+export const evaluateWithdrawalRisk = ({ rules, member, payouts, amount, now = new Date() }) => {
+  const hits = [];
+  const counted = payouts.filter(isCountedPayout);
+  const dayStart = getPlatformPeriodStart(now, 'day').getTime();
+  const monthStart = getPlatformPeriodStart(now, 'month').getTime();
+  const sumSince = (start) =>
+    counted.filter((payout) => getRequestedAt(payout) >= start).reduce((sum, payout) => sum + Number(payout.amount || 0), 0);
+
+  const { dailyCap, monthlyCap, maxPayoutsPerDay, firstWithdrawal } = rules;
+
+  if (dailyCap.limit !== null) {
+    const requestedToday = sumSince(dayStart);
+    if (requestedToday + amount > dailyCap.limit) {
+      hits.push({
+        rule: 'dailyCap',
+        action: dailyCap.action,
+        message:
+          `Daily withdrawal limit is ${formatKoli(dailyCap.limit)} ` +
+          `(${formatKoli(Math.max(0, dailyCap.limit - requestedToday))} left today)`,
+      });
+    }
+  }
+
+  if (monthlyCap.limit !== null) {
+    const requestedThisMonth = sumSince(monthStart);
+    if (requestedThisMonth + amount > monthlyCap.limit) {
+      hits.push({
+        rule: 'monthlyCap',
+        action: monthlyCap.action,
+        message:
+          `Monthly withdrawal limit is ${formatKoli(monthlyCap.limit)} ` +
+          `(${formatKoli(Math.max(0, monthlyCap.limit - requestedThisMonth))} left this month)`,
+      });
+    }
+  }
+
+  if (maxPayoutsPerDay.limit !== null) {
+    // A pooled withdrawal queues several payout docs under one session
+    const requestsToday = new Set(
+      counted
+        .filter((payout) => getRequestedAt(payout) >= dayStart)
+        .map((payout) => payout.withdrawalSessionId || payout.id)
+    ).size;
+
+    if (requestsToday + 1 > maxPayoutsPerDay.limit) {
+      hits.push({
+        rule: 'maxPayoutsPerDay',
+        action: maxPayoutsPerDay.action,
+        message: `You can request up to ${maxPayoutsPerDay.limit} withdrawal(s) per day`,
+      });
+    }
+  }
+
+  for (const [rule, { field, event }] of Object.entries(HOLD_FIELDS)) {
+    const { hours, action } = rules[rule];
+    const changedAt = member?.[field] ? new Date(member[field]).getTime() : NaN;
+    if (hours === null || !Number.isFinite(changedAt)) continue;
+
+    const holdUntil = changedAt + hours * HOUR_IN_MS;
+    if (holdUntil > now.getTime()) {
+      hits.push({
+        rule,
+        action,
+        message: `Withdrawals are on hold for ${hours} hours after ${event} (until ${new Date(holdUntil).toISOString()})`,
+      });
+    }
+  }
+
+  if (firstWithdrawal.enabled && !payouts.some((payout) => normalizePayoutStatus(payout.status) === 'completed')) {
+    hits.push({
+      rule: 'firstWithdrawal',
+      action: firstWithdrawal.action,
+      message: 'First withdrawals are reviewed by an admin',
+    });
+  }
+
+  return hits;
+};
+
+/**
+ * Throws failed-precondition for the first blocking hit; otherwise returns the
+ * fields to spread onto the new payout docs ({ status } or
+ * { status: 'pending_review', reviewReasons }).
+ */
+export const applyWithdrawalRisk = (hits) => {
+  const blocking = hits.find((hit) => hit.action === 'block');
+  if (blocking) {
+    throw new HttpsError('failed-precondition', blocking.message, { rule: blocking.rule });
+  }
+
+  if (hits.length === 0) {
+    return { status: 'pending' };
+  }
+
+  return {
+    status: 'pending_review',
+    reviewReasons: hits.map(({ rule, message }) => ({ rule, message })),
+  };
+};
@@ -2,7 +2,7 @@ import React, { useEffect } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate, useLocation } from "react-router-dom";
 import { Toaster as SonnerToaster } from "sonner";
 import { doc, onSnapshot } from "firebase/firestore";
 import { AuthProvider, useAuth } from "./contexts/AuthContext";
@@ -31,6 +31,7 @@ import ForgotPasswordPage from "./pages/ForgotPasswordPage";
 import WalletAuth from "./pages/WalletAuth";
 import VerifyResetOTP from "./pages/VerifyResetOTP";
 import ResetPasswordPage from "./pages/ResetPasswordPage";
+import Admin from "./pages/Admin";
 
 const queryClient = new QueryClient();
 
@@ -187,12 +188,14 @@ const PublicRoute = ({ children }: { children: React.ReactNode }) => {
 function AppRoutes() {
   const { ready, isMobile, isStandalone } = useInstallGate();
   const maintenance = useMaintenanceGate();
+  const location = useLocation();
 
   if (maintenance.loading) {
     return null;
   }
 
-  if (maintenance.enabled) {
+  // The admin console stays reachable so maintenance can be switched off (it checks admin access itself)
+  if (maintenance.enabled && !location.pathname.startsWith("/admin")) {
     return <MaintenanceMode message={maintenance.message} endAtText={maintenance.endAtText} />;
   }
 
@@ -247,6 +250,9 @@ function AppRoutes() {
         {/* Transaction History */}
         <Route path="/transaction-history" element={<TransactionHistory />} />
         <Route path="/notifications" element={<Notifications />} />
+
+        {/* Admin Console (admins collection only) */}
+        <Route path="/admin" element={<Admin />} />
         
         {/* Catch-all */}
         <Route path="*" element={<NotFound />} />
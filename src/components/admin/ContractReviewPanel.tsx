@@ -0,0 +1,157 @@
+import React, { useState } from "react";
+import { IconCheck, IconReceipt, IconRefresh, IconX } from "@tabler/icons-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { SkeletonList } from "@/components/ui/skeleton";
+import { useAdminQueue } from "@/hooks/useAdminQueue";
+import { listPendingContracts } from "@/lib/adminConsole";
+import {
+  DonationContract,
+  approveContract,
+  approveContractAdjusted,
+  getContractPlanLabel,
+  rejectContract,
+} from "@/lib/donationContract";
+import { toast } from "sonner";
+
+const formatKoli = (value: number) =>
+  `${value.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} KOLI`;
+
+const ContractReviewCard: React.FC<{ contract: DonationContract; onReviewed: () => void }> = ({
+  contract,
+  onReviewed,
+}) => {
+  const [verifiedAmount, setVerifiedAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const runReview = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setIsSubmitting(true);
+      await action();
+      toast.success(successMessage);
+      onReviewed();
+    } catch (error) {
+      console.error("Contract review failed:", error);
+      toast.error("Review failed", {
+        description: error instanceof Error ? error.message : "Please try again later",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const contractId = contract.id!;
+  const adjustedAmount = Number(verifiedAmount);
+  const canAdjust = verifiedAmount.trim() !== "" && adjustedAmount > 0 && note.trim() !== "";
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="font-semibold">{formatKoli(contract.donationAmount)}</p>
+            <p className="text-xs text-muted-foreground">
+              {getContractPlanLabel(contract)} · {contract.paymentMethod || "Unknown method"}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              #{contractId.slice(0, 8)} · member {contract.userId.slice(0, 8)} ·{" "}
+              {new Date(contract.createdAt).toLocaleString()}
+            </p>
+          </div>
+          {contract.receiptURL ? (
+            <a href={contract.receiptURL} target="_blank" rel="noreferrer" className="flex-shrink-0">
+              <img
+                src={contract.receiptURL}
+                alt="Deposit receipt"
+                className="h-20 w-20 rounded border border-border object-cover"
+              />
+            </a>
+          ) : (
+            <span className="text-xs text-orange-400 flex items-center gap-1">
+              <IconReceipt size={12} />
+              No receipt
+            </span>
+          )}
+        </div>
+
+        <div className="grid gap-2 sm:grid-cols-2">
+          <Input
+            type="number"
+            inputMode="decimal"
+            placeholder="Verified amount (for adjusted approval)"
+            value={verifiedAmount}
+            onChange={(e) => setVerifiedAmount(e.target.value)}
+            disabled={isSubmitting}
+          />
+          <Textarea
+            placeholder="Note to member / rejection reason"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            disabled={isSubmitting}
+            className="min-h-9"
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            disabled={isSubmitting}
+            onClick={() => runReview(() => approveContract(contractId), "Contract approved")}
+          >
+            <IconCheck size={14} className="mr-1" />
+            Approve
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isSubmitting || !canAdjust}
+            onClick={() =>
+              runReview(
+                () => approveContractAdjusted(contractId, adjustedAmount, note.trim()),
+                `Contract approved at ${formatKoli(adjustedAmount)}`
+              )
+            }
+          >
+            Approve Adjusted
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            disabled={isSubmitting || note.trim() === ""}
+            onClick={() => runReview(() => rejectContract(contractId, note.trim()), "Contract rejected")}
+          >
+            <IconX size={14} className="mr-1" />
+            Reject
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const ContractReviewPanel: React.FC = () => {
+  const { data: contracts, loading, error, refresh } = useAdminQueue(listPendingContracts);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">{contracts.length} pending contract(s)</p>
+        <Button size="sm" variant="ghost" onClick={() => void refresh()} disabled={loading}>
+          <IconRefresh size={14} className="mr-1" />
+          Refresh
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-400">{error.message}</p>}
+      {loading ? (
+        <SkeletonList count={3} />
+      ) : (
+        contracts.map((contract) => (
+          <ContractReviewCard key={contract.id} contract={contract} onReviewed={() => void refresh()} />
+        ))
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState } from "react";
+import { IconCheck, IconRefresh, IconX } from "@tabler/icons-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SkeletonList } from "@/components/ui/skeleton";
+import { useAdminQueue } from "@/hooks/useAdminQueue";
+import { KycDecision, KycQueueItem, listPendingKyc, reviewKycSubmission } from "@/lib/adminConsole";
+import { KYCManualData } from "@/lib/kycService";
+import { toast } from "sonner";
+
+const MANUAL_FIELD_LABELS: Array<[keyof KYCManualData, string]> = [
+  ["fullLegalName", "Full legal name"],
+  ["dateOfBirth", "Date of birth"],
+  ["idType", "ID type"],
+  ["idNumber", "ID number"],
+  ["idExpirationDate", "ID expiry"],
+  ["nationality", "Nationality"],
+  ["address", "Address"],
+  ["phoneNumber", "Phone"],
+  ["emergencyContact", "Emergency contact"],
+  ["emergencyContactPhone", "Emergency phone"],
+];
+
+const KycCard: React.FC<{ member: KycQueueItem; onReviewed: () => void }> = ({ member, onReviewed }) => {
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const runDecision = async (decision: KycDecision) => {
+    try {
+      setIsSubmitting(true);
+      await reviewKycSubmission(member.userId, decision, reason.trim());
+      toast.success(decision === "approve" ? "KYC verified" : "KYC rejected");
+      onReviewed();
+    } catch (error) {
+      console.error("KYC review failed:", error);
+      toast.error("KYC review failed", {
+        description: error instanceof Error ? error.message : "Please try again later",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const manualFields = MANUAL_FIELD_LABELS.filter(([key]) => member.kycManualData?.[key]);
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <p className="font-semibold">{member.fullName || member.email || member.userId}</p>
+          <p className="text-xs text-muted-foreground">
+            {member.email} · submitted{" "}
+            {member.kycSubmittedAt ? new Date(member.kycSubmittedAt).toLocaleString() : "unknown"}
+          </p>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          {member.kycIdImageURL ? (
+            <a href={member.kycIdImageURL} target="_blank" rel="noreferrer">
+              <img
+                src={member.kycIdImageURL}
+                alt="KYC ID"
+                className="w-full max-h-48 rounded border border-border object-contain bg-muted/20"
+              />
+            </a>
+          ) : (
+            <p className="text-xs text-orange-400">No ID image uploaded</p>
+          )}
+          <dl className="text-xs space-y-1">
+            {manualFields.length === 0 && <p className="text-muted-foreground">No manual data</p>}
+            {manualFields.map(([key, label]) => (
+              <div key={key} className="flex justify-between gap-2">
+                <dt className="text-muted-foreground">{label}</dt>
+                <dd className="text-right">{member.kycManualData?.[key]}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+
+        <Input
+          placeholder="Rejection reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          disabled={isSubmitting}
+        />
+
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" disabled={isSubmitting} onClick={() => runDecision("approve")}>
+            <IconCheck size={14} className="mr-1" />
+            Verify
+          </Button>
+          <Button
+            size="sm"
+            variant="destructive"
+            disabled={isSubmitting || reason.trim() === ""}
+            onClick={() => runDecision("reject")}
+          >
+            <IconX size={14} className="mr-1" />
+            Reject
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const KycQueuePanel: React.FC = () => {
+  const { data: members, loading, error, refresh } = useAdminQueue(listPendingKyc);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">{members.length} pending submission(s)</p>
+        <Button size="sm" variant="ghost" onClick={() => void refresh()} disabled={loading}>
+          <IconRefresh size={14} className="mr-1" />
+          Refresh
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-400">{error.message}</p>}
+      {loading ? (
+        <SkeletonList count={3} />
+      ) : (
+        members.map((member) => <KycCard key={member.userId} member={member} onReviewed={() => void refresh()} />)
+      )}
+    </div>
+  );
+};
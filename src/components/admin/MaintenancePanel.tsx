@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from "react";
+import { IconTool } from "@tabler/icons-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { useRealtimeDocument } from "@/hooks/useRealtimeDocument";
+import { setMaintenanceSchedule } from "@/lib/adminConsole";
+import { toast } from "sonner";
+
+interface MaintenanceScheduler {
+  enabled?: boolean;
+  message?: string;
+  startAt?: string | null;
+  endAt?: string | null;
+}
+
+// <input type="datetime-local"> works in the browser's local time without a zone
+const toLocalInputValue = (iso?: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return "";
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+const fromLocalInputValue = (value: string) => (value ? new Date(value).toISOString() : null);
+
+export const MaintenancePanel: React.FC = () => {
+  const { data: current, loading } = useRealtimeDocument<MaintenanceScheduler>(
+    "systemSettings",
+    "maintenanceScheduler"
+  );
+  const [enabled, setEnabled] = useState(false);
+  const [message, setMessage] = useState("");
+  const [startAt, setStartAt] = useState("");
+  const [endAt, setEndAt] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (loading) return;
+    setEnabled(!!current?.enabled);
+    setMessage(current?.message || "");
+    setStartAt(toLocalInputValue(current?.startAt));
+    setEndAt(toLocalInputValue(current?.endAt));
+  }, [loading, current?.enabled, current?.message, current?.startAt, current?.endAt]);
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await setMaintenanceSchedule({
+        enabled,
+        message,
+        startAt: fromLocalInputValue(startAt),
+        endAt: fromLocalInputValue(endAt),
+      });
+      toast.success("Maintenance schedule saved");
+    } catch (error) {
+      console.error("Failed to save maintenance schedule:", error);
+      toast.error("Could not save maintenance schedule", {
+        description: error instanceof Error ? error.message : "Please try again later",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <Label htmlFor="maintenance-enabled" className="text-sm">Maintenance mode</Label>
+          <p className="text-xs text-muted-foreground">
+            While on, members see the maintenance page until the end time. The admin console stays available.
+          </p>
+        </div>
+        <Switch id="maintenance-enabled" checked={enabled} onCheckedChange={setEnabled} disabled={isSaving} />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="maintenance-message" className="text-xs">Message</Label>
+        <Textarea
+          id="maintenance-message"
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          disabled={isSaving}
+        />
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-1">
+          <Label htmlFor="maintenance-start" className="text-xs">Starts (shown in the banner)</Label>
+          <Input
+            id="maintenance-start"
+            type="datetime-local"
+            value={startAt}
+            onChange={(e) => setStartAt(e.target.value)}
+            disabled={isSaving}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="maintenance-end" className="text-xs">Ends</Label>
+          <Input
+            id="maintenance-end"
+            type="datetime-local"
+            value={endAt}
+            onChange={(e) => setEndAt(e.target.value)}
+            disabled={isSaving}
+          />
+        </div>
+      </div>
+
+      <Button onClick={handleSave} disabled={isSaving}>
+        <IconTool size={16} className="mr-2" />
+        Save Schedule
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from "react";
+import { IconGift } from "@tabler/icons-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useRealtimeDocument } from "@/hooks/useRealtimeDocument";
+import { postManaReward } from "@/lib/adminConsole";
+import { toast } from "sonner";
+
+interface GlobalRewardDocument {
+  activeCode?: string;
+  totalPool?: number;
+  remainingPool?: number;
+  expiresAt?: string;
+}
+
+export const ManaRewardPanel: React.FC = () => {
+  const { data: reward } = useRealtimeDocument<GlobalRewardDocument>("globalRewards", "currentActiveReward");
+  const [code, setCode] = useState("");
+  const [totalPool, setTotalPool] = useState("1500");
+  const [expiresInHours, setExpiresInHours] = useState("24");
+  const [isPosting, setIsPosting] = useState(false);
+
+  const handlePost = async () => {
+    try {
+      setIsPosting(true);
+      const posted = await postManaReward(code.trim(), Number(totalPool), Number(expiresInHours));
+      toast.success(`Reward ${posted.activeCode} posted`, {
+        description: `Expires ${new Date(posted.expiresAt).toLocaleString()}`,
+      });
+      setCode("");
+    } catch (error) {
+      console.error("Failed to post MANA reward:", error);
+      toast.error("Could not post reward", {
+        description: error instanceof Error ? error.message : "Please try again later",
+      });
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {reward?.activeCode && (
+        <Card>
+          <CardContent className="p-4 text-xs space-y-1">
+            <p className="text-sm font-semibold">Current: {reward.activeCode}</p>
+            <p>
+              Remaining {Number(reward.remainingPool || 0).toLocaleString()} of{" "}
+              {Number(reward.totalPool || 0).toLocaleString()}
+            </p>
+            {reward.expiresAt && <p>Expires {new Date(reward.expiresAt).toLocaleString()}</p>}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div className="space-y-1">
+          <Label htmlFor="reward-code" className="text-xs">Secret code</Label>
+          <Input id="reward-code" value={code} onChange={(e) => setCode(e.target.value)} disabled={isPosting} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="reward-pool" className="text-xs">Total pool</Label>
+          <Input
+            id="reward-pool"
+            type="number"
+            value={totalPool}
+            onChange={(e) => setTotalPool(e.target.value)}
+            disabled={isPosting}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="reward-expiry" className="text-xs">Expires in (hours)</Label>
+          <Input
+            id="reward-expiry"
+            type="number"
+            value={expiresInHours}
+            onChange={(e) => setExpiresInHours(e.target.value)}
+            disabled={isPosting}
+          />
+        </div>
+      </div>
+
+      <Button onClick={handlePost} disabled={isPosting || !code.trim()}>
+        <IconGift size={16} className="mr-2" />
+        Post Reward
+      </Button>
+      <p className="text-xs text-muted-foreground">Posting replaces the current code and pool.</p>
+    </div>
+  );
+};
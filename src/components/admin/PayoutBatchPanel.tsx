@@ -0,0 +1,180 @@
+import React, { useState } from "react";
+import { IconDownload, IconRefresh, IconUpload } from "@tabler/icons-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { SkeletonList } from "@/components/ui/skeleton";
+import { useAdminQueue } from "@/hooks/useAdminQueue";
+import {
+  PayoutBatch,
+  exportPayoutBatch,
+  importPayoutSettlement,
+  listOpenPayoutBatches,
+  listOpenPayouts,
+} from "@/lib/adminConsole";
+import { toast } from "sonner";
+
+const formatKoli = (value: number) =>
+  `${value.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} KOLI`;
+
+const downloadCsv = (fileName: string, csv: string) => {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const BatchCard: React.FC<{ batch: PayoutBatch; onUpdated: () => void }> = ({ batch, onUpdated }) => {
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      const result = await importPayoutSettlement(batch.id, await file.text());
+      const skippedRows = result.skipped.slice(0, 3).map((row) => `line ${row.line}: ${row.reason}`);
+      toast.success(`${result.completed.length} completed, ${result.failed.length} failed`, {
+        description:
+          skippedRows.length > 0
+            ? `${result.skipped.length} row(s) skipped (${skippedRows.join("; ")})`
+            : `${result.stillProcessing} payout(s) still processing`,
+      });
+      onUpdated();
+    } catch (error) {
+      console.error("Settlement import failed:", error);
+      toast.error("Settlement import failed", {
+        description: error instanceof Error ? error.message : "Please try again later",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 flex items-start justify-between gap-3">
+        <div>
+          <p className="font-semibold">
+            {batch.paymentMethod} · {formatKoli(batch.totalAmount)}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {batch.payoutCount} payout(s) · exported {new Date(batch.createdAt).toLocaleString()}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {batch.completedCount} completed · {batch.failedCount} failed · {batch.fileName}
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <Badge variant="outline">{batch.status === "exported" ? "Awaiting settlement" : "Partially settled"}</Badge>
+          <Button size="sm" variant="outline" disabled={isImporting} asChild>
+            <label className="cursor-pointer">
+              <IconUpload size={14} className="mr-1" />
+              {isImporting ? "Importing..." : "Import Result File"}
+              <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} disabled={isImporting} />
+            </label>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const PayoutBatchPanel: React.FC = () => {
+  const payoutsQueue = useAdminQueue(listOpenPayouts);
+  const batchesQueue = useAdminQueue(listOpenPayoutBatches);
+  const [exportingMethod, setExportingMethod] = useState<string | null>(null);
+
+  // Payouts finance has not started sending yet, by payment method
+  const waitingByMethod = payoutsQueue.data
+    .filter((payout) => payout.status === "pending" || payout.status === "approved")
+    .reduce<Record<string, { count: number; total: number }>>((groups, payout) => {
+      const method = payout.paymentMethod || "GCash";
+      const group = groups[method] || { count: 0, total: 0 };
+      group.count += 1;
+      group.total += Number(payout.netAmount ?? payout.amount ?? 0);
+      groups[method] = group;
+      return groups;
+    }, {});
+
+  const refreshAll = () => {
+    void payoutsQueue.refresh();
+    void batchesQueue.refresh();
+  };
+
+  const handleExport = async (paymentMethod: string) => {
+    try {
+      setExportingMethod(paymentMethod);
+      const batch = await exportPayoutBatch(paymentMethod);
+      downloadCsv(batch.fileName, batch.csv);
+      toast.success(`Exported ${batch.payoutCount} ${batch.paymentMethod} payout(s)`, {
+        description: `${formatKoli(batch.totalAmount)} moved to processing`,
+      });
+      refreshAll();
+    } catch (error) {
+      console.error("Batch export failed:", error);
+      toast.error("Batch export failed", {
+        description: error instanceof Error ? error.message : "Please try again later",
+      });
+    } finally {
+      setExportingMethod(null);
+    }
+  };
+
+  const loading = payoutsQueue.loading || batchesQueue.loading;
+  const error = payoutsQueue.error || batchesQueue.error;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">Bulk transfer files for GCash and bank payouts</p>
+        <Button size="sm" variant="ghost" onClick={refreshAll} disabled={loading}>
+          <IconRefresh size={14} className="mr-1" />
+          Refresh
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-400">{error.message}</p>}
+
+      {loading ? (
+        <SkeletonList count={3} />
+      ) : (
+        <>
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">Ready to export</p>
+            {Object.keys(waitingByMethod).length === 0 && (
+              <p className="text-xs text-muted-foreground">No pending or approved payouts.</p>
+            )}
+            {Object.entries(waitingByMethod).map(([method, group]) => (
+              <Card key={method}>
+                <CardContent className="p-4 flex items-center justify-between gap-3">
+                  <div>
+                    <p className="font-semibold">{method}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {group.count} payout(s) · {formatKoli(group.total)}
+                    </p>
+                  </div>
+                  <Button size="sm" disabled={exportingMethod !== null} onClick={() => handleExport(method)}>
+                    <IconDownload size={14} className="mr-1" />
+                    {exportingMethod === method ? "Exporting..." : "Export Batch"}
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">Awaiting settlement</p>
+            {batchesQueue.data.length === 0 && <p className="text-xs text-muted-foreground">No open batches.</p>}
+            {batchesQueue.data.map((batch) => (
+              <BatchCard key={batch.id} batch={batch} onUpdated={refreshAll} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
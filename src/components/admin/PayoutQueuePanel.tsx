@@ -0,0 +1,137 @@
+import React, { useState } from "react";
+import { IconRefresh } from "@tabler/icons-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SkeletonList } from "@/components/ui/skeleton";
+import { useAdminQueue } from "@/hooks/useAdminQueue";
+import {
+  AdminPayout,
+  PAYOUT_ACTION_TARGETS,
+  PayoutAction,
+  listOpenPayouts,
+  updatePayoutStatus,
+} from "@/lib/adminConsole";
+import { REFUND_PAYOUT_STATUSES, canTransitionPayout, getPayoutStatusLabel } from "@/lib/payoutStatus";
+import { toast } from "sonner";
+
+const formatKoli = (value: number) =>
+  `${value.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} KOLI`;
+
+const ACTIONS: Array<{ action: PayoutAction; label: string; variant: "default" | "outline" | "destructive" }> = [
+  { action: "clear", label: "Clear Review", variant: "default" },
+  { action: "approve", label: "Approve", variant: "outline" },
+  { action: "process", label: "Mark Processing", variant: "outline" },
+  { action: "complete", label: "Complete", variant: "default" },
+  { action: "reject", label: "Reject", variant: "destructive" },
+  { action: "fail", label: "Mark Failed", variant: "destructive" },
+];
+
+const needsReason = (action: PayoutAction) => REFUND_PAYOUT_STATUSES.includes(PAYOUT_ACTION_TARGETS[action]);
+
+const PayoutCard: React.FC<{ payout: AdminPayout; onUpdated: () => void }> = ({ payout, onUpdated }) => {
+  const [reference, setReference] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const runAction = async (action: PayoutAction) => {
+    try {
+      setIsSubmitting(true);
+      await updatePayoutStatus(payout.id, action, {
+        reason: needsReason(action) ? reference.trim() : undefined,
+        reference: action === "complete" ? reference.trim() || undefined : undefined,
+      });
+      toast.success(`Payout moved to ${getPayoutStatusLabel(PAYOUT_ACTION_TARGETS[action])}`);
+      onUpdated();
+    } catch (error) {
+      console.error("Payout update failed:", error);
+      toast.error("Payout update failed", {
+        description: error instanceof Error ? error.message : "Please try again later",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const memberName = payout.userFullName || payout.userName || payout.userEmail || payout.userId;
+  const phone = payout.gcashNumber || payout.userPhoneNumber || payout.userPhone;
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="font-semibold">{formatKoli(payout.netAmount ?? payout.amount)}</p>
+            <p className="text-xs text-muted-foreground">
+              {memberName} · {payout.paymentMethod || "GCash"} {phone || ""}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {payout.withdrawalType || "CONTRACT"} · requested {new Date(payout.requestedAt).toLocaleString()}
+            </p>
+            {payout.notes && <p className="text-xs text-muted-foreground mt-1">{payout.notes}</p>}
+            {payout.status === "pending_review" &&
+              payout.reviewReasons?.map((reason) => (
+                <p key={reason.rule} className="text-xs text-orange-400 mt-1">
+                  {reason.message}
+                </p>
+              ))}
+          </div>
+          <Badge variant="outline">{getPayoutStatusLabel(payout.status)}</Badge>
+        </div>
+
+        <Input
+          placeholder="Transfer reference (complete) or reason (reject / failed)"
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+          disabled={isSubmitting}
+        />
+
+        <div className="flex flex-wrap gap-2">
+          {ACTIONS.filter(({ action }) => canTransitionPayout(payout.status, PAYOUT_ACTION_TARGETS[action])).map(
+            ({ action, label, variant }) => (
+              <Button
+                key={action}
+                size="sm"
+                variant={variant}
+                disabled={isSubmitting || (needsReason(action) && reference.trim() === "")}
+                onClick={() => runAction(action)}
+              >
+                {label}
+              </Button>
+            )
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export const PayoutQueuePanel: React.FC = () => {
+  const { data: payouts, loading, error, refresh } = useAdminQueue(listOpenPayouts);
+  const sortedPayouts = [...payouts].sort(
+    (a, b) => new Date(a.requestedAt).getTime() - new Date(b.requestedAt).getTime()
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {payouts.length} open payout(s) ·{" "}
+          {formatKoli(payouts.reduce((sum, payout) => sum + Number(payout.netAmount ?? payout.amount ?? 0), 0))}
+        </p>
+        <Button size="sm" variant="ghost" onClick={() => void refresh()} disabled={loading}>
+          <IconRefresh size={14} className="mr-1" />
+          Refresh
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-400">{error.message}</p>}
+      {loading ? (
+        <SkeletonList count={3} />
+      ) : (
+        sortedPayouts.map((payout) => (
+          <PayoutCard key={payout.id} payout={payout} onUpdated={() => void refresh()} />
+        ))
+      )}
+    </div>
+  );
+};
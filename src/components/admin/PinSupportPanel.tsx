@@ -0,0 +1,101 @@
+import React, { useState } from "react";
+import { IconLockOpen, IconRotate, IconSearch } from "@tabler/icons-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { AdminMemberSummary, PinResetMode, lookupMember, resetMemberPin } from "@/lib/adminConsole";
+import { toast } from "sonner";
+
+export const PinSupportPanel: React.FC = () => {
+  const [identifier, setIdentifier] = useState("");
+  const [member, setMember] = useState<AdminMemberSummary | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleLookup = async () => {
+    try {
+      setIsBusy(true);
+      setMember(await lookupMember(identifier));
+    } catch (error) {
+      setMember(null);
+      toast.error("Member not found", {
+        description: error instanceof Error ? error.message : "Check the ID or email",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReset = async (mode: PinResetMode) => {
+    if (!member) return;
+
+    try {
+      setIsBusy(true);
+      await resetMemberPin(member.userId, mode);
+      toast.success(mode === "unlock" ? "PIN lockout cleared" : "PIN reset; the member will set a new one");
+      setMember(await lookupMember(member.userId));
+    } catch (error) {
+      console.error("PIN support action failed:", error);
+      toast.error("PIN action failed", {
+        description: error instanceof Error ? error.message : "Please try again later",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const isLocked = !!member?.pinLockUntil && new Date(member.pinLockUntil) > new Date();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <Input
+          placeholder="Member UID or email"
+          value={identifier}
+          onChange={(e) => setIdentifier(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && identifier.trim()) void handleLookup();
+          }}
+          disabled={isBusy}
+        />
+        <Button onClick={handleLookup} disabled={isBusy || !identifier.trim()}>
+          <IconSearch size={16} />
+        </Button>
+      </div>
+
+      {member && (
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <div>
+              <p className="font-semibold">{member.fullName || member.email}</p>
+              <p className="text-xs text-muted-foreground">
+                {member.userId} · {member.email}
+              </p>
+            </div>
+            <div className="text-xs space-y-1">
+              <p>PIN set up: {member.hasPinSetup ? "Yes" : "No"}</p>
+              <p>Failed attempts: {member.failedPinAttempts}</p>
+              <p className={isLocked ? "text-red-400" : undefined}>
+                {isLocked ? `Locked until ${new Date(member.pinLockUntil!).toLocaleString()}` : "Not locked"}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" disabled={isBusy} onClick={() => handleReset("unlock")}>
+                <IconLockOpen size={14} className="mr-1" />
+                Clear Lockout
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                disabled={isBusy || !member.hasPinSetup}
+                onClick={() => handleReset("reset")}
+              >
+                <IconRotate size={14} className="mr-1" />
+                Reset PIN
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
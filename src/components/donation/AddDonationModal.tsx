@@ -14,9 +14,21 @@ import {
   DonationContract,
   DonationContractType,
   calculateCompoundedContractValue,
+  calculateContractEndDate,
   donate,
   donateFromWithdrawablePool,
 } from "@/lib/donationContract";
+import { createIdempotencyKey } from "@/lib/idempotency";
+import { DEFAULT_CONTRACT_PLAN_TYPE, resolveContractPlan } from "@/lib/contractPlans";
+import { useContractPlans } from "@/hooks/useContractPlans";
+import { PLATFORM_TIMEZONE, getPeriodUnlockDate } from "@/lib/accrualCalendar";
+import { useRealtimeDocument } from "@/hooks/useRealtimeDocument";
+import {
+  DONATION_LIMITS_DOC,
+  DonationLimits,
+  getDonationLimitViolation,
+  resolveDonationLimits,
+} from "@/lib/donationLimits";
 
 interface AddDonationModalProps {
   open: boolean;
@@ -56,38 +68,6 @@ const donationAccounts: Record<string, DonationAccount[]> = {
   ],
 };
 
-type ContractOption = {
-  value: DonationContractType;
-  title: string;
-  description: string;
-  lockInMonths: number;
-  compoundLockIn: boolean;
-};
-
-const contractOptions: ContractOption[] = [
-  {
-    value: "monthly_12_no_principal",
-    title: "30% Monthly for 1 Year",
-    description: "Withdraw every 30 days; principal remains unchanged.",
-    lockInMonths: 12,
-    compoundLockIn: false,
-  },
-  {
-    value: "lockin_6_compound",
-    title: "6-Month Lock-In (Compounded)",
-    description: "No withdrawals for 6 months; returns are compounded monthly.",
-    lockInMonths: 6,
-    compoundLockIn: true,
-  },
-  {
-    value: "lockin_12_compound",
-    title: "12-Month Lock-In (Compounded)",
-    description: "No withdrawals for 12 months; returns are compounded monthly.",
-    lockInMonths: 12,
-    compoundLockIn: true,
-  },
-];
-
 export const AddDonationModal: React.FC<AddDonationModalProps> = ({
   open,
   onClose,
@@ -95,17 +75,21 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
   userBalance,
   withdrawablePoolAmount,
 }) => {
-  const { user } = useAuth();
+  const { user, userData } = useAuth();
+  const { availablePlans } = useContractPlans();
+  const { data: donationLimitsDoc } = useRealtimeDocument<Partial<DonationLimits>>("systemSettings", DONATION_LIMITS_DOC);
   const eWalletOptions = ["GoTyme"];
   const bankOptions = ["BPI", "BDO", "GoTyme"];
   const [step, setStep] = useState(1);
   const [amount, setAmount] = useState("");
-  const [contractType, setContractType] = useState<DonationContractType>("monthly_12_no_principal");
+  const [contractType, setContractType] = useState<DonationContractType>(DEFAULT_CONTRACT_PLAN_TYPE);
   const [paymentMethod, setPaymentMethod] = useState("");
   const [paymentService, setPaymentService] = useState("");
   const [receipt, setReceipt] = useState<File | null>(null);
   const [loading, setLoading] = useState(false);
   const [copiedAccount, setCopiedAccount] = useState("");
+  // One key per confirmed submission so double taps and retries don't create duplicate contracts
+  const [idempotencyKey, setIdempotencyKey] = useState(createIdempotencyKey);
 
   const selectedAccounts = donationAccounts[paymentService] || [];
   const availableServices =
@@ -120,8 +104,10 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
   const isKashMethod = paymentMethod === "kash";
   const requiresPaymentService = paymentMethod === "gcash" || paymentMethod === "bank";
   const requiresReceiptUpload = !isPoolRedonation;
-  const selectedContractOption =
-    contractOptions.find((option) => option.value === contractType) || contractOptions[0];
+  const selectedPlan =
+    availablePlans.find((plan) => plan.type === contractType) ||
+    availablePlans[0] ||
+    resolveContractPlan(DEFAULT_CONTRACT_PLAN_TYPE);
 
   const withTimeout = <T,>(promise: Promise<T>, timeoutMs: number, message: string): Promise<T> => {
     return new Promise((resolve, reject) => {
@@ -139,58 +125,52 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
   };
 
   const formatDate = (date: Date) =>
-    date.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric" });
+    date.toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric", timeZone: PLATFORM_TIMEZONE });
 
   // Calculate first unlock date
   const calculateFirstUnlockDate = () => {
-    const date = new Date();
-    if (selectedContractOption.compoundLockIn) {
-      date.setMonth(date.getMonth() + selectedContractOption.lockInMonths);
-      return formatDate(date);
+    const now = new Date();
+    if (selectedPlan.compoundLockIn) {
+      return formatDate(calculateContractEndDate(now, selectedPlan));
     }
-    date.setDate(date.getDate() + 30);
-    return formatDate(date);
+    return formatDate(getPeriodUnlockDate(now, 1, selectedPlan.accrualCalendar));
   };
 
   // Calculate contract end date
-  const calculateContractEndDate = () => {
-    const date = new Date();
-    date.setMonth(date.getMonth() + selectedContractOption.lockInMonths);
-    return formatDate(date);
-  };
+  const getContractEndDateLabel = () => formatDate(calculateContractEndDate(new Date(), selectedPlan));
 
-  // Calculate 30% payout per withdrawal period
+  // Calculate payout per withdrawal period
   const getWithdrawableAmount = () => {
     const numAmount = parseFloat(amount) || 0;
-    return (numAmount * 0.3).toLocaleString();
+    return (numAmount * selectedPlan.periodicRate).toLocaleString();
   };
 
   // Calculate total withdrawable estimate based on selected contract option
   const getTotalWithdrawable = () => {
     const numAmount = parseFloat(amount) || 0;
-    if (selectedContractOption.compoundLockIn) {
+    if (selectedPlan.compoundLockIn) {
       return calculateCompoundedContractValue(
         numAmount,
-        selectedContractOption.lockInMonths,
-        0.3
+        selectedPlan.durationMonths,
+        selectedPlan.periodicRate
       ).toLocaleString();
     }
 
-    return (numAmount * 0.3 * 12).toLocaleString();
+    return (numAmount * selectedPlan.periodicRate * selectedPlan.withdrawalSlots).toLocaleString();
   };
 
   const getCompoundProjection = () => {
     const numAmount = parseFloat(amount) || 0;
-    if (!selectedContractOption.compoundLockIn || numAmount <= 0) {
+    if (!selectedPlan.compoundLockIn || numAmount <= 0) {
       return [] as Array<{ month: number; principalStart: number; interest: number; principalEnd: number }>;
     }
 
     const rows: Array<{ month: number; principalStart: number; interest: number; principalEnd: number }> = [];
     let runningPrincipal = numAmount;
 
-    for (let month = 1; month <= selectedContractOption.lockInMonths; month += 1) {
+    for (let month = 1; month <= selectedPlan.durationMonths; month += 1) {
       const principalStart = runningPrincipal;
-      const interest = principalStart * 0.3;
+      const interest = principalStart * selectedPlan.periodicRate;
       const principalEnd = principalStart + interest;
 
       rows.push({
@@ -273,6 +253,18 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
       return;
     }
 
+    const limitViolation = getDonationLimitViolation({
+      amount: parsedAmount,
+      plan: selectedPlan,
+      contracts,
+      kycStatus: userData?.kycStatus,
+      limits: resolveDonationLimits(donationLimitsDoc),
+    });
+    if (limitViolation) {
+      toast.error(limitViolation.message);
+      return;
+    }
+
     if (!paymentMethod) {
       toast.error("Please select a payment method");
       return;
@@ -288,6 +280,7 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
       return;
     }
 
+    setIdempotencyKey(createIdempotencyKey());
     setStep(2);
   };
 
@@ -312,11 +305,11 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
     try {
       if (isPoolRedonation) {
         await donateFromWithdrawablePool(
-          user.uid,
           parseFloat(amount),
           contractType,
           contracts,
-          userBalance
+          userBalance,
+          idempotencyKey
         );
 
         toast.success("Re-donation submitted from withdrawable pool!", {
@@ -324,7 +317,7 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
         });
 
         setAmount("");
-        setContractType("monthly_12_no_principal");
+        setContractType(DEFAULT_CONTRACT_PLAN_TYPE);
         setPaymentMethod("");
         setPaymentService("");
         setReceipt(null);
@@ -353,12 +346,12 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
 
       // Create donation contract using the new contract system
       await donate(
-        user.uid,
         parseFloat(amount),
         paymentDetails,
         contractType,
         receiptURL,
-        fileName
+        fileName,
+        idempotencyKey
       );
 
       toast.success("Donation contract submitted!", {
@@ -367,7 +360,7 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
 
       // Reset form
       setAmount("");
-      setContractType("monthly_12_no_principal");
+      setContractType(DEFAULT_CONTRACT_PLAN_TYPE);
       setPaymentMethod("");
       setPaymentService("");
       setReceipt(null);
@@ -410,7 +403,7 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
   const handleClose = () => {
     setStep(1);
     setAmount("");
-    setContractType("monthly_12_no_principal");
+    setContractType(DEFAULT_CONTRACT_PLAN_TYPE);
     setPaymentMethod("");
     setPaymentService("");
     setReceipt(null);
@@ -461,14 +454,21 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
                     <SelectValue placeholder="Select contract option" />
                   </SelectTrigger>
                   <SelectContent>
-                    {contractOptions.map((option) => (
-                      <SelectItem key={option.value} value={option.value}>
-                        {option.title}
+                    {availablePlans.map((plan) => (
+                      <SelectItem key={plan.type} value={plan.type}>
+                        {plan.title}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
-                <p className="text-xs text-muted-foreground">{selectedContractOption.description}</p>
+                <p className="text-xs text-muted-foreground">{selectedPlan.description}</p>
+                {(selectedPlan.minAmount > 0 || selectedPlan.maxAmount !== null) && (
+                  <p className="text-xs text-muted-foreground">
+                    {selectedPlan.minAmount > 0 && `Minimum ₱${selectedPlan.minAmount.toLocaleString()}`}
+                    {selectedPlan.minAmount > 0 && selectedPlan.maxAmount !== null && " · "}
+                    {selectedPlan.maxAmount !== null && `Maximum ₱${selectedPlan.maxAmount.toLocaleString()}`}
+                  </p>
+                )}
               </div>
 
               {/* Payment Method */}
@@ -562,7 +562,7 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
                     <div className="flex items-center justify-between text-xs">
                       <span className="text-muted-foreground">Selected Plan:</span>
                       <span className="font-semibold text-foreground text-right">
-                        {selectedContractOption.title}
+                        {selectedPlan.title}
                       </span>
                     </div>
 
@@ -570,20 +570,20 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
                     <div className="flex items-center justify-between text-xs">
                       <div className="flex items-center gap-2 text-muted-foreground">
                         <IconCalendar size={14} />
-                        <span>{selectedContractOption.compoundLockIn ? "Unlock Date:" : "First Withdrawal:"}</span>
+                        <span>{selectedPlan.compoundLockIn ? "Unlock Date:" : "First Withdrawal:"}</span>
                       </div>
                       <span className="font-semibold text-foreground">
                         {calculateFirstUnlockDate()}
                       </span>
                     </div>
 
-                    {!selectedContractOption.compoundLockIn ? (
+                    {!selectedPlan.compoundLockIn ? (
                       <>
                         {/* Per-Period Withdrawal */}
                         <div className="flex items-center justify-between text-xs">
                           <div className="flex items-center gap-2 text-muted-foreground">
                             <IconWallet size={14} />
-                            <span>Per Withdrawal (30%):</span>
+                            <span>Per Withdrawal ({selectedPlan.periodicRate * 100}%):</span>
                           </div>
                           <span className="font-bold text-green-500">
                             {getWithdrawableAmount()} KOLI
@@ -593,7 +593,9 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
                         {/* Total Withdrawals */}
                         <div className="flex items-center justify-between text-xs">
                           <span className="text-muted-foreground">Total Withdrawals:</span>
-                          <span className="font-semibold text-foreground">12 (Once per 30 days)</span>
+                          <span className="font-semibold text-foreground">
+                            {selectedPlan.withdrawalSlots} (Once {selectedPlan.accrualCalendar === "calendar_month" ? "a month" : "per 30 days"})
+                          </span>
                         </div>
                       </>
                     ) : (
@@ -601,13 +603,13 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
                         <div className="flex items-center justify-between text-xs">
                           <span className="text-muted-foreground">Lock-In:</span>
                           <span className="font-semibold text-foreground">
-                            {selectedContractOption.lockInMonths} months (no withdrawals)
+                            {selectedPlan.durationMonths} months (no withdrawals)
                           </span>
                         </div>
                         <div className="flex items-center justify-between text-xs">
                           <span className="text-muted-foreground">Compounding:</span>
                           <span className="font-semibold text-green-500">
-                            30% monthly (principal grows)
+                            {selectedPlan.periodicRate * 100}% monthly (principal grows)
                           </span>
                         </div>
                       </>
@@ -616,7 +618,7 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
                     {/* Max Total Withdrawal */}
                     <div className="flex items-center justify-between text-xs pt-2 border-t border-border">
                       <span className="text-muted-foreground">
-                        {selectedContractOption.compoundLockIn ? "Est. Unlock Amount:" : "Max Total Withdrawal:"}
+                        {selectedPlan.compoundLockIn ? "Est. Unlock Amount:" : "Max Total Withdrawal:"}
                       </span>
                       <span className="font-bold text-primary">
                         {getTotalWithdrawable()} KOLI
@@ -627,11 +629,11 @@ export const AddDonationModal: React.FC<AddDonationModalProps> = ({
                     <div className="flex items-center justify-between text-xs">
                       <span className="text-muted-foreground">Contract Ends:</span>
                       <span className="font-semibold text-foreground">
-                        {calculateContractEndDate()}
+                        {getContractEndDateLabel()}
                       </span>
                     </div>
 
-                    {selectedContractOption.compoundLockIn && (
+                    {selectedPlan.compoundLockIn && (
                       <div className="pt-2 border-t border-border space-y-2">
                         <p className="text-xs font-semibold text-muted-foreground">
                           LOCK-IN BREAKDOWN (ESTIMATED)
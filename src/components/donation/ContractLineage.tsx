@@ -0,0 +1,66 @@
+import React from "react";
+import { IconCoins, IconGitBranch, IconReceipt } from "@tabler/icons-react";
+import { ContractLineageNode, getContractPlanLabel } from "@/lib/donationContract";
+
+interface ContractLineageProps {
+  lineage: ContractLineageNode;
+}
+
+const formatKoli = (value: number) =>
+  `${value.toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} KOLI`;
+
+const LineageSource: React.FC<{ node: ContractLineageNode; depth: number }> = ({ node, depth }) => {
+  const shortId = node.contractId ? `#${node.contractId.slice(0, 8)}` : null;
+
+  let icon = <IconGitBranch size={12} className="text-blue-400 flex-shrink-0" />;
+  let label = `Re-donation ${shortId}`;
+  let note: string | null = null;
+
+  if (!node.contractId) {
+    icon = <IconCoins size={12} className="text-yellow-500 flex-shrink-0" />;
+    label = "MANA balance";
+  } else if (!node.contract) {
+    label = `Contract ${shortId}`;
+    note = "not found";
+  } else if (node.isReceiptBacked) {
+    icon = <IconReceipt size={12} className="text-green-400 flex-shrink-0" />;
+    label = `Deposit ${shortId}`;
+    note = `${getContractPlanLabel(node.contract)}, ${node.contract.paymentMethod || "receipt"}`;
+  } else if (node.isUntracked) {
+    note = "sources not recorded";
+  }
+
+  return (
+    <div style={{ marginLeft: depth * 12 }}>
+      <div className="flex items-center justify-between gap-2 text-xs py-0.5">
+        <span className="flex items-center gap-1 min-w-0">
+          {icon}
+          <span className="truncate">{label}</span>
+          {note && <span className="text-muted-foreground truncate">({note})</span>}
+        </span>
+        <span className="font-medium whitespace-nowrap">{formatKoli(node.amount)}</span>
+      </div>
+      {node.sources.map((source, index) => (
+        <LineageSource key={`${source.contractId || "mana"}-${index}`} node={source} depth={depth + 1} />
+      ))}
+    </div>
+  );
+};
+
+export const ContractLineage: React.FC<ContractLineageProps> = ({ lineage }) => {
+  if (lineage.isUntracked) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        This re-donation was made before funding sources were recorded.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-0.5">
+      {lineage.sources.map((source, index) => (
+        <LineageSource key={`${source.contractId || "mana"}-${index}`} node={source} depth={0} />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import React, { useMemo, useState } from "react";
+import { motion, AnimatePresence } from "motion/react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import {
+  IconAlertCircle,
+  IconAlertTriangle,
+  IconFingerprint,
+  IconLock,
+  IconShield,
+  IconWallet,
+} from "@tabler/icons-react";
+import {
+  DonationContract,
+  canTerminateEarly,
+  getContractPlanLabel,
+  getEarlyTerminationQuote,
+  requestEarlyTermination,
+} from "@/lib/donationContract";
+import { useAuth } from "@/contexts/AuthContext";
+import { isUserFullyVerified } from "@/lib/kycService";
+import { createIdempotencyKey } from "@/lib/idempotency";
+import { getPayoutDestinationLabel, isPayoutDestinationAvailable } from "@/lib/payoutDestinations";
+import { usePayoutDestinations } from "@/hooks/usePayoutDestinations";
+import { PinAuthorization, authorizePinAction } from "@/lib/pinSecurity";
+import { authorizeWithPasskey } from "@/lib/passkeys";
+import { useDevicePasskey } from "@/hooks/usePasskeys";
+import { toast } from "sonner";
+
+interface EarlyTerminationModalProps {
+  open: boolean;
+  onClose: () => void;
+  contract: DonationContract | null;
+}
+
+const formatKoli = (value: number) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} KOLI`;
+
+export const EarlyTerminationModal: React.FC<EarlyTerminationModalProps> = ({
+  open,
+  onClose,
+  contract,
+}) => {
+  const { user, userData } = useAuth();
+  const { isEnrolled: hasDevicePasskey } = useDevicePasskey(user?.uid || null);
+  const [pin, setPin] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [idempotencyKey, setIdempotencyKey] = useState(createIdempotencyKey);
+  const [destinationId, setDestinationId] = useState("");
+  const { data: destinations } = usePayoutDestinations(open ? user?.uid || null : null);
+  const availableDestinations = destinations.filter((destination) => isPayoutDestinationAvailable(destination));
+  const selectedDestination = availableDestinations.find((destination) => destination.id === destinationId);
+
+  // Reset state when modal opens
+  React.useEffect(() => {
+    if (open) {
+      setPin("");
+      setError(null);
+      setIsProcessing(false);
+      setIdempotencyKey(createIdempotencyKey());
+      setDestinationId("");
+    }
+  }, [open]);
+
+  // Preselect the first usable destination
+  React.useEffect(() => {
+    if (open && !destinationId && availableDestinations.length > 0) {
+      setDestinationId(availableDestinations[0].id);
+    }
+  }, [open, destinationId, availableDestinations]);
+
+  const quote = useMemo(() => (contract ? getEarlyTerminationQuote(contract) : null), [contract]);
+
+  if (!contract || !quote) return null;
+
+  const isVerified = isUserFullyVerified(userData);
+  const eligibility = canTerminateEarly(contract);
+
+  const handlePinChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setPin(e.target.value.replace(/\D/g, "").slice(0, 6));
+    setError(null);
+  };
+
+  const canUsePasskey = Boolean(userData?.passkeyFunding) && hasDevicePasskey;
+
+  const handleConfirm = async (usePasskey = false) => {
+    try {
+      setError(null);
+      setIsProcessing(true);
+
+      // The server rounds the payout to centavos
+      const maxAmount = Math.ceil(quote.payoutAmount * 100) / 100;
+      const authorization: PinAuthorization = usePasskey
+        ? await authorizeWithPasskey("early_termination", maxAmount)
+        : await authorizePinAction(pin, "early_termination", maxAmount);
+      setPin("");
+
+      const result = await requestEarlyTermination(contract.id!, authorization.token, idempotencyKey, destinationId);
+      const destinationLabel = selectedDestination ? getPayoutDestinationLabel(selectedDestination) : "your account";
+
+      toast.success("Early Termination Requested", {
+        description: `${formatKoli(result.amount)} will be sent to ${destinationLabel} once an admin approves the request.`,
+      });
+      onClose();
+    } catch (err) {
+      console.error("Early termination error:", err);
+      setError(err instanceof Error ? err.message : "Failed to request early termination");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <IconAlertTriangle size={24} className="text-orange-500" />
+            Early Termination
+          </DialogTitle>
+          <DialogDescription>{getContractPlanLabel(contract)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {!eligibility.canTerminate && (
+            <Alert variant="destructive">
+              <IconAlertCircle className="h-4 w-4" />
+              <AlertDescription>{eligibility.reason}</AlertDescription>
+            </Alert>
+          )}
+
+          {/* Quote */}
+          <Card className="p-4 bg-secondary/50 border-border">
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Principal</span>
+                <span className="font-medium text-foreground">{formatKoli(quote.principal)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  Returns accrued ({quote.monthsElapsed} month{quote.monthsElapsed === 1 ? "" : "s"})
+                </span>
+                <span className="font-medium text-green-400">+{formatKoli(quote.accruedReturns)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  Early exit penalty ({Math.round(quote.penaltyRate * 100)}%)
+                </span>
+                <span className="font-medium text-red-400">-{formatKoli(quote.penaltyAmount)}</span>
+              </div>
+              {quote.totalWithdrawn > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Already withdrawn</span>
+                  <span className="font-medium text-blue-400">-{formatKoli(quote.totalWithdrawn)}</span>
+                </div>
+              )}
+              <Separator />
+              <div className="flex justify-between items-end">
+                <span className="text-xs text-muted-foreground">You will receive</span>
+                <span className="text-2xl font-bold text-green-400">{formatKoli(quote.payoutAmount)}</span>
+              </div>
+            </div>
+          </Card>
+
+          <Alert className="bg-orange-500/10 border-orange-500/30 text-orange-400">
+            <IconAlertTriangle className="h-4 w-4" />
+            <AlertDescription className="text-xs">
+              The contract closes once the payout is approved, and its remaining lock-in returns are given
+              up. The final amount is recalculated when you confirm.
+            </AlertDescription>
+          </Alert>
+
+          {/* Payout Destination */}
+          {isVerified && eligibility.canTerminate && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2 text-sm font-semibold">
+                <IconWallet size={16} className="text-primary" />
+                Send To
+              </Label>
+              {availableDestinations.length > 0 ? (
+                <Select value={destinationId} onValueChange={setDestinationId} disabled={isProcessing}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a payout destination" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableDestinations.map((destination) => (
+                      <SelectItem key={destination.id} value={destination.id}>
+                        {getPayoutDestinationLabel(destination)} · {destination.accountName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <p className="text-xs text-orange-400">
+                  {destinations.length > 0
+                    ? "Your saved destinations are still being confirmed or cooling off."
+                    : "Add a payout destination in your Profile first."}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* PIN Input */}
+          {isVerified && eligibility.canTerminate && (
+            <div className="space-y-2">
+              <Label htmlFor="termination-pin" className="flex items-center gap-2 text-sm font-semibold">
+                <IconShield size={16} className="text-primary" />
+                Enter Your 6-Digit Funding PIN
+              </Label>
+              <Input
+                id="termination-pin"
+                type="password"
+                inputMode="numeric"
+                maxLength={6}
+                value={pin}
+                onChange={handlePinChange}
+                placeholder="••••••"
+                className="text-center text-2xl tracking-widest font-mono"
+                disabled={isProcessing}
+              />
+              {canUsePasskey && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleConfirm(true)}
+                  disabled={!selectedDestination || isProcessing}
+                  className="w-full"
+                >
+                  <IconFingerprint size={16} className="mr-2" />
+                  Confirm with Passkey Instead
+                </Button>
+              )}
+            </div>
+          )}
+
+          {!isVerified && (
+            <Alert variant="destructive">
+              <IconAlertCircle className="h-4 w-4" />
+              <AlertDescription>Complete KYC verification to terminate a contract early.</AlertDescription>
+            </Alert>
+          )}
+
+          <AnimatePresence>
+            {error && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+              >
+                <Alert variant="destructive">
+                  <IconAlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isProcessing} className="w-full sm:w-auto">
+            Keep Contract
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => handleConfirm()}
+            disabled={
+              !isVerified || !eligibility.canTerminate || !selectedDestination || pin.length !== 6 || isProcessing
+            }
+            className="w-full sm:w-auto"
+          >
+            {isProcessing ? (
+              <>
+                <IconLock size={16} className="mr-2 animate-pulse" />
+                Processing...
+              </>
+            ) : (
+              "Confirm Early Termination"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -10,11 +10,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { IconLoader, IconLock } from "@tabler/icons-react";
+import { IconFingerprint, IconLoader, IconLock } from "@tabler/icons-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 import { canUserWithdraw } from "@/lib/kycService";
-import { validatePinFormat, verifyPin } from "@/lib/pinSecurity";
+import { PinAuthorization, authorizePinAction, validatePinFormat } from "@/lib/pinSecurity";
+import { authorizeWithPasskey } from "@/lib/passkeys";
+import { useDevicePasskey } from "@/hooks/usePasskeys";
 
 interface ExternalWithdrawModalProps {
   open: boolean;
@@ -30,10 +32,12 @@ export const ExternalWithdrawModal: React.FC<ExternalWithdrawModalProps> = ({
   const { user, userData } = useAuth();
   const [checking, setChecking] = useState(false);
   const [pin, setPin] = useState("");
-  const [isPinVerified, setIsPinVerified] = useState(false);
+  const [authorization, setAuthorization] = useState<PinAuthorization | null>(null);
   const [pinError, setPinError] = useState<string | null>(null);
   const [amount, setAmount] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const { isEnrolled: hasDevicePasskey } = useDevicePasskey(user?.uid || null);
+  const canUsePasskey = Boolean(userData?.passkeyFunding) && hasDevicePasskey;
 
   const tokenServiceUrl =
     import.meta.env.VITE_TOKEN_SERVICE_URL || "http://localhost:3000/api";
@@ -42,7 +46,7 @@ export const ExternalWithdrawModal: React.FC<ExternalWithdrawModalProps> = ({
     if (open) {
       setPin("");
       setPinError(null);
-      setIsPinVerified(false);
+      setAuthorization(null);
       setChecking(false);
       setAmount(withdrawableAmount ? withdrawableAmount.toFixed(2) : "");
       setIsSubmitting(false);
@@ -74,14 +78,10 @@ export const ExternalWithdrawModal: React.FC<ExternalWithdrawModalProps> = ({
 
     try {
       setChecking(true);
-      const valid = await verifyPin(user.uid, pin);
-
-      if (!valid) {
-        setPinError("Incorrect PIN.");
-        return;
-      }
-
-      setIsPinVerified(true);
+      // The token service gets a single-use token for up to the withdrawable
+      // amount, never the PIN
+      setAuthorization(await authorizePinAction(pin, "external_withdraw", withdrawableAmount));
+      setPin("");
       toast.success("PIN verified");
     } catch (error: any) {
       console.error("PIN verification failed:", error);
@@ -91,6 +91,20 @@ export const ExternalWithdrawModal: React.FC<ExternalWithdrawModalProps> = ({
     }
   };
 
+  const handlePasskeyVerify = async () => {
+    try {
+      setChecking(true);
+      setPinError(null);
+      setAuthorization(await authorizeWithPasskey("external_withdraw", withdrawableAmount));
+      toast.success("Passkey verified");
+    } catch (error) {
+      console.error("Passkey verification failed:", error);
+      setPinError(error instanceof Error ? error.message : "Failed to verify passkey. Use your PIN instead.");
+    } finally {
+      setChecking(false);
+    }
+  };
+
   const handleKKashWithdrawal = async () => {
     if (!user?.email) return;
 
@@ -111,6 +125,12 @@ export const ExternalWithdrawModal: React.FC<ExternalWithdrawModalProps> = ({
       return;
     }
 
+    if (!authorization || new Date(authorization.expiresAt).getTime() <= Date.now()) {
+      setAuthorization(null);
+      toast.error("PIN authorization expired. Enter your PIN again.");
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       const token = await user.getIdToken(true);
@@ -121,7 +141,7 @@ export const ExternalWithdrawModal: React.FC<ExternalWithdrawModalProps> = ({
           "Content-Type": "application/json",
           Authorization: `Bearer ${token}`,
         },
-        body: JSON.stringify({ amount: requestedAmount, pin }),
+        body: JSON.stringify({ amount: requestedAmount, pinAuthorization: authorization.token }),
       });
 
       if (!res.ok) {
@@ -134,6 +154,8 @@ export const ExternalWithdrawModal: React.FC<ExternalWithdrawModalProps> = ({
     } catch (error: any) {
       console.error("K-Kash withdrawal failed:", error);
       toast.error(error?.message || "Withdrawal failed.");
+      // The token may have been used up; ask for the PIN again
+      setAuthorization(null);
     } finally {
       setIsSubmitting(false);
     }
@@ -143,15 +165,15 @@ export const ExternalWithdrawModal: React.FC<ExternalWithdrawModalProps> = ({
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>{isPinVerified ? "Withdraw to K-Kash" : "Verify PIN"}</DialogTitle>
+          <DialogTitle>{authorization ? "Withdraw to K-Kash" : "Verify PIN"}</DialogTitle>
           <DialogDescription>
-            {isPinVerified
+            {authorization
               ? `Withdraw up to ${withdrawableAmount.toFixed(2)} KOLI to your K-Kash wallet.`
               : "Enter your 6-digit PIN to continue with withdrawal."}
           </DialogDescription>
         </DialogHeader>
 
-        {!isPinVerified ? (
+        {!authorization ? (
           <div className="space-y-4 mt-4">
             <div className="space-y-2">
               <Label htmlFor="withdraw-pin" className="flex items-center gap-2">
@@ -196,6 +218,13 @@ export const ExternalWithdrawModal: React.FC<ExternalWithdrawModalProps> = ({
                 </span>
               )}
             </Button>
+
+            {canUsePasskey && (
+              <Button variant="outline" onClick={handlePasskeyVerify} disabled={checking} className="w-full">
+                <IconFingerprint className="w-4 h-4 mr-2" />
+                Use Passkey Instead
+              </Button>
+            )}
           </div>
         ) : (
           <>
@@ -0,0 +1,275 @@
+import React, { useState } from "react";
+import { IconBuildingBank, IconClock, IconPlus, IconTrash, IconWallet } from "@tabler/icons-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePayoutDestinations } from "@/hooks/usePayoutDestinations";
+import {
+  COOLING_OFF_HOURS,
+  PAYOUT_DESTINATION_TYPES,
+  PHILIPPINE_BANKS,
+  PayoutDestination,
+  PayoutDestinationType,
+  addPayoutDestination,
+  getPayoutDestinationLabel,
+  isPayoutDestinationAvailable,
+  removePayoutDestination,
+  resendPayoutDestinationCode,
+  verifyPayoutDestination,
+} from "@/lib/payoutDestinations";
+import { getPhoneValidationError } from "@/lib/phoneValidation";
+import { toast } from "sonner";
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : "Please try again later");
+
+const DestinationRow: React.FC<{ destination: PayoutDestination }> = ({ destination }) => {
+  const [code, setCode] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const isEwallet = PAYOUT_DESTINATION_TYPES[destination.type].isEwallet;
+  const isAvailable = isPayoutDestinationAvailable(destination);
+
+  const run = async (action: () => Promise<void>, failureTitle: string) => {
+    try {
+      setIsBusy(true);
+      await action();
+    } catch (error) {
+      console.error(`${failureTitle}:`, error);
+      toast.error(failureTitle, { description: getErrorMessage(error) });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleVerify = () =>
+    run(async () => {
+      const availableAt = await verifyPayoutDestination(destination.id, code);
+      setCode("");
+      toast.success("Destination confirmed", {
+        description: `You can withdraw to it from ${new Date(availableAt).toLocaleString()}`,
+      });
+    }, "Could not confirm destination");
+
+  const handleResend = () =>
+    run(async () => {
+      await resendPayoutDestinationCode(destination.id);
+      toast.success("A new code was sent to your email");
+    }, "Could not send a new code");
+
+  const handleRemove = () =>
+    run(async () => {
+      await removePayoutDestination(destination.id);
+      toast.success("Payout destination removed");
+    }, "Could not remove destination");
+
+  return (
+    <div className="rounded-lg border border-border p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="flex items-center gap-3">
+          <div className="h-9 w-9 rounded-lg bg-primary/10 flex items-center justify-center">
+            {isEwallet ? (
+              <IconWallet className="h-4 w-4 text-primary" />
+            ) : (
+              <IconBuildingBank className="h-4 w-4 text-primary" />
+            )}
+          </div>
+          <div>
+            <p className="text-sm font-semibold text-foreground">{getPayoutDestinationLabel(destination)}</p>
+            <p className="text-xs text-muted-foreground">{destination.accountName}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          {destination.status === "pending_verification" && <Badge variant="outline">Unconfirmed</Badge>}
+          {destination.status === "verified" && !isAvailable && (
+            <Badge variant="outline" className="border-orange-500/50 text-orange-400">
+              <IconClock size={12} className="mr-1" />
+              Cooling off
+            </Badge>
+          )}
+          {isAvailable && <Badge className="bg-green-500 text-white">Ready</Badge>}
+          <Button size="icon" variant="ghost" onClick={handleRemove} disabled={isBusy}>
+            <IconTrash size={16} />
+          </Button>
+        </div>
+      </div>
+
+      {destination.status === "verified" && !isAvailable && destination.availableAt && (
+        <p className="text-xs text-muted-foreground">
+          Available for withdrawals from {new Date(destination.availableAt).toLocaleString()}
+        </p>
+      )}
+
+      {destination.status === "pending_verification" && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Enter the 6-digit code we sent to your email.</p>
+          <div className="flex gap-2">
+            <Input
+              inputMode="numeric"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, "").slice(0, 6))}
+              placeholder="••••••"
+              className="font-mono tracking-widest"
+              disabled={isBusy}
+            />
+            <Button size="sm" onClick={handleVerify} disabled={isBusy || code.length !== 6}>
+              Confirm
+            </Button>
+          </div>
+          <button type="button" onClick={handleResend} disabled={isBusy} className="text-xs text-primary hover:underline">
+            Send a new code
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const AddDestinationForm: React.FC<{ onDone: () => void }> = ({ onDone }) => {
+  const [type, setType] = useState<PayoutDestinationType>("gcash");
+  const [accountNumber, setAccountNumber] = useState("");
+  const [accountName, setAccountName] = useState("");
+  const [bankName, setBankName] = useState("");
+  const [customBankName, setCustomBankName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const isEwallet = PAYOUT_DESTINATION_TYPES[type].isEwallet;
+  const resolvedBankName = bankName === "Other" ? customBankName.trim() : bankName;
+
+  const numberError = isEwallet
+    ? accountNumber && getPhoneValidationError(accountNumber)
+    : accountNumber && !/^\d{8,20}$/.test(accountNumber.replace(/[\s-]/g, ""))
+      ? "Bank account numbers are 8 to 20 digits"
+      : null;
+  const canSave =
+    accountNumber !== "" && !numberError && accountName.trim().length >= 2 && (isEwallet || resolvedBankName !== "");
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await addPayoutDestination({
+        type,
+        accountNumber,
+        accountName: accountName.trim(),
+        bankName: isEwallet ? undefined : resolvedBankName,
+      });
+      toast.success("Check your email", { description: "Enter the code to confirm the new destination." });
+      onDone();
+    } catch (error) {
+      console.error("Failed to add payout destination:", error);
+      toast.error("Could not add destination", { description: getErrorMessage(error) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-dashed border-border p-3 space-y-3">
+      <div className="space-y-1">
+        <Label className="text-xs">Type</Label>
+        <Select value={type} onValueChange={(value) => setType(value as PayoutDestinationType)} disabled={isSaving}>
+          <SelectTrigger className="h-9 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(PAYOUT_DESTINATION_TYPES).map(([value, config]) => (
+              <SelectItem key={value} value={value} className="text-xs">
+                {config.isEwallet ? config.label : "Bank account"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!isEwallet && (
+        <div className="space-y-1">
+          <Label className="text-xs">Bank</Label>
+          <Select value={bankName} onValueChange={setBankName} disabled={isSaving}>
+            <SelectTrigger className="h-9 text-xs">
+              <SelectValue placeholder="Select your bank" />
+            </SelectTrigger>
+            <SelectContent>
+              {PHILIPPINE_BANKS.map((bank) => (
+                <SelectItem key={bank} value={bank} className="text-xs">
+                  {bank}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {bankName === "Other" && (
+            <Input
+              placeholder="Bank name"
+              value={customBankName}
+              onChange={(e) => setCustomBankName(e.target.value)}
+              disabled={isSaving}
+            />
+          )}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-xs">{isEwallet ? "Mobile number" : "Account number"}</Label>
+        <Input
+          inputMode={isEwallet ? "tel" : "numeric"}
+          placeholder={isEwallet ? "09XXXXXXXXX" : "Account number"}
+          value={accountNumber}
+          onChange={(e) => setAccountNumber(e.target.value)}
+          disabled={isSaving}
+        />
+        {numberError && <p className="text-xs text-red-400">{numberError}</p>}
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Account name</Label>
+        <Input
+          placeholder="As registered with the provider"
+          value={accountName}
+          onChange={(e) => setAccountName(e.target.value)}
+          disabled={isSaving}
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={onDone} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={!canSave || isSaving}>
+          {isSaving ? "Saving..." : "Save & Send Code"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const PayoutDestinationsCard: React.FC<{ userId: string | null }> = ({ userId }) => {
+  const { data: destinations, loading } = usePayoutDestinations(userId);
+  const [isAdding, setIsAdding] = useState(false);
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">Payout Destinations</CardTitle>
+        <CardDescription className="text-xs">
+          New destinations are confirmed by email and can be used {COOLING_OFF_HOURS} hours later.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!loading && destinations.length === 0 && !isAdding && (
+          <p className="text-xs text-muted-foreground">No saved destinations yet.</p>
+        )}
+        {destinations.map((destination) => (
+          <DestinationRow key={destination.id} destination={destination} />
+        ))}
+        {isAdding ? (
+          <AddDestinationForm onDone={() => setIsAdding(false)} />
+        ) : (
+          <Button size="sm" variant="outline" className="w-full" onClick={() => setIsAdding(true)}>
+            <IconPlus size={16} className="mr-1" />
+            Add Destination
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
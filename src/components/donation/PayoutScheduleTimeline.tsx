@@ -0,0 +1,76 @@
+import React, { useMemo } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Timeline } from "@/components/ui/timeline";
+import { PLATFORM_TIMEZONE } from "@/lib/accrualCalendar";
+import {
+  DonationContract,
+  PayoutScheduleStatus,
+  getContractPayoutSchedule,
+} from "@/lib/donationContract";
+
+interface PayoutScheduleTimelineProps {
+  contract: DonationContract;
+}
+
+const statusStyles: Record<PayoutScheduleStatus, { label: string; className: string }> = {
+  withdrawn: { label: "Withdrawn", className: "border-blue-500/50 text-blue-400" },
+  available: { label: "Available", className: "bg-green-500 text-white border-transparent" },
+  upcoming: { label: "Upcoming", className: "border-primary text-primary" },
+  expired: { label: "Expired", className: "border-red-500/50 text-red-400" },
+};
+
+const formatKoli = (value: number) =>
+  `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} KOLI`;
+
+export const PayoutScheduleTimeline: React.FC<PayoutScheduleTimelineProps> = ({ contract }) => {
+  const schedule = useMemo(() => getContractPayoutSchedule(contract), [contract]);
+
+  const data = schedule.entries.map((entry) => ({
+    title: entry.unlockDate.toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      timeZone: PLATFORM_TIMEZONE,
+    }),
+    content: (
+      <div className="p-3 rounded-lg bg-secondary border border-border space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {schedule.entries.length > 1 ? `Period ${entry.period} of ${schedule.entries.length}` : "Maturity"}
+          </span>
+          <Badge variant="outline" className={statusStyles[entry.status].className}>
+            {statusStyles[entry.status].label}
+          </Badge>
+        </div>
+        <p className="text-lg font-bold text-green-400">+{formatKoli(entry.amount)}</p>
+        <div className="grid grid-cols-3 gap-2 text-xs">
+          <div>
+            <p className="text-muted-foreground">Unlocked total</p>
+            <p className="font-semibold text-foreground">{formatKoli(entry.cumulativeUnlocked)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Withdrawn</p>
+            <p className="font-semibold text-blue-400">{formatKoli(entry.withdrawn)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Remaining</p>
+            <p className="font-semibold text-foreground">{formatKoli(entry.remaining)}</p>
+          </div>
+        </div>
+      </div>
+    ),
+  }));
+
+  return (
+    <Timeline
+      compact
+      data={data}
+      title="Payout Schedule"
+      description={
+        schedule.isProjected
+          ? `Projected from approval today. Total payout ${formatKoli(schedule.totalPayout)}.`
+          : `${formatKoli(schedule.totalWithdrawn)} withdrawn of ${formatKoli(schedule.totalPayout)} · ${formatKoli(schedule.totalRemaining)} remaining`
+      }
+    />
+  );
+};
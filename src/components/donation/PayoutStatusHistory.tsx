@@ -0,0 +1,48 @@
+import React from "react";
+import { PayoutStatusHistoryEntry, getPayoutStatusLabel } from "@/lib/payoutStatus";
+
+interface PayoutStatusHistoryProps {
+  requestedAt: string;
+  history?: PayoutStatusHistoryEntry[];
+}
+
+const ACTOR_LABELS: Record<PayoutStatusHistoryEntry["actorRole"], string> = {
+  admin: "Finance team",
+  member: "You",
+  system: "System",
+};
+
+const getEntryLabel = (entry: PayoutStatusHistoryEntry, index: number) => {
+  if (index > 0 || entry.from !== null) {
+    return getPayoutStatusLabel(entry.to);
+  }
+  return entry.to === "pending" ? "Requested" : `Requested · ${getPayoutStatusLabel(entry.to)}`;
+};
+
+export const PayoutStatusHistory: React.FC<PayoutStatusHistoryProps> = ({ requestedAt, history = [] }) => {
+  // Refused changes were reverted and never took effect
+  const entries = history.filter((entry) => !entry.refused);
+  // Payouts queued before the creation entry was recorded start at requestedAt
+  const hasCreatedEntry = entries[0]?.from === null;
+
+  return (
+    <ol className="space-y-1.5 border-l border-border pl-3">
+      {!hasCreatedEntry && (
+        <li className="text-xs">
+          <span className="font-medium">Requested</span>
+          <span className="text-muted-foreground"> · {new Date(requestedAt).toLocaleString()}</span>
+        </li>
+      )}
+      {entries.map((entry, index) => (
+        <li key={`${entry.at}-${index}`} className="text-xs">
+          <span className="font-medium">{getEntryLabel(entry, index)}</span>
+          <span className="text-muted-foreground">
+            {" "}
+            · {new Date(entry.at).toLocaleString()} · {ACTOR_LABELS[entry.actorRole] || ACTOR_LABELS.system}
+          </span>
+          {entry.note && <p className="text-muted-foreground">{entry.note}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
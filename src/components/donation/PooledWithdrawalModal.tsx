@@ -0,0 +1,397 @@
+import React, { useState } from "react";
+import { motion, AnimatePresence } from "motion/react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  IconAlertCircle,
+  IconCircleCheck,
+  IconFingerprint,
+  IconLock,
+  IconWallet,
+  IconShield,
+} from "@tabler/icons-react";
+import {
+  DonationContract,
+  calculateTotalWithdrawable,
+  getPooledWithdrawalLines,
+  processPooledWithdrawal,
+} from "@/lib/donationContract";
+import { useAuth } from "@/contexts/AuthContext";
+import { canUserWithdraw, isUserFullyVerified } from "@/lib/kycService";
+import { PinAuthorization, authorizePinAction, validatePinFormat } from "@/lib/pinSecurity";
+import { authorizeWithPasskey } from "@/lib/passkeys";
+import { createIdempotencyKey } from "@/lib/idempotency";
+import { FEE_SCHEDULE_DOC, FeeSchedule, calculatePayoutFee, resolveFeeSchedule } from "@/lib/feeSchedule";
+import { getPayoutDestinationLabel, isPayoutDestinationAvailable } from "@/lib/payoutDestinations";
+import { usePayoutDestinations } from "@/hooks/usePayoutDestinations";
+import { useDevicePasskey } from "@/hooks/usePasskeys";
+import { useRealtimeDocument } from "@/hooks/useRealtimeDocument";
+import { toast } from "sonner";
+
+interface PooledWithdrawalModalProps {
+  open: boolean;
+  onClose: () => void;
+  contracts: DonationContract[];
+}
+
+/**
+ * P2P withdrawal of any amount up to everything withdrawable: the MANA
+ * balance (optional) and every contract that is ready, queued in one
+ * processPooledWithdrawal call.
+ */
+export const PooledWithdrawalModal: React.FC<PooledWithdrawalModalProps> = ({
+  open,
+  onClose,
+  contracts,
+}) => {
+  const { user, userData } = useAuth();
+  const userId = user?.uid || null;
+  const [amount, setAmount] = useState("");
+  const [includeMana, setIncludeMana] = useState(true);
+  const [pin, setPin] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [idempotencyKey, setIdempotencyKey] = useState(createIdempotencyKey);
+  const [destinationId, setDestinationId] = useState("");
+  const { data: destinations } = usePayoutDestinations(open ? userId : null);
+  const availableDestinations = destinations.filter((destination) => isPayoutDestinationAvailable(destination));
+  const selectedDestination = availableDestinations.find((destination) => destination.id === destinationId);
+  const { data: feeScheduleDoc } = useRealtimeDocument<Partial<FeeSchedule>>("systemSettings", FEE_SCHEDULE_DOC);
+  const { isEnrolled: hasDevicePasskey } = useDevicePasskey(open ? userId : null);
+
+  const { contractWithdrawals, manaBalance, eligibleContracts } = calculateTotalWithdrawable(
+    contracts,
+    userData?.balance || 0
+  );
+  const manaToWithdraw = includeMana ? manaBalance : 0;
+  const maxAmount = Math.floor((contractWithdrawals + manaToWithdraw) * 100) / 100;
+
+  // Reset state when modal opens/closes
+  React.useEffect(() => {
+    if (open) {
+      setAmount("");
+      setIncludeMana(true);
+      setPin("");
+      setError(null);
+      setIsProcessing(false);
+      setIdempotencyKey(createIdempotencyKey());
+      setDestinationId("");
+    }
+  }, [open]);
+
+  // Preselect the first usable destination
+  React.useEffect(() => {
+    if (open && !destinationId && availableDestinations.length > 0) {
+      setDestinationId(availableDestinations[0].id);
+    }
+  }, [open, destinationId, availableDestinations]);
+
+  const requestedAmount = Number(amount);
+  const isAmountValid = Number.isFinite(requestedAmount) && requestedAmount > 0 && requestedAmount <= maxAmount;
+
+  // The callable charges the fee per payout line, so preview it the same way
+  const feeSchedule = resolveFeeSchedule(feeScheduleDoc);
+  const lines = isAmountValid ? getPooledWithdrawalLines(requestedAmount, eligibleContracts, manaToWithdraw) : [];
+  const platformFee =
+    selectedDestination && isAmountValid
+      ? lines.reduce(
+          (sum, line) => sum + calculatePayoutFee(line.amount, selectedDestination.type, feeSchedule).platformFee,
+          0
+        )
+      : 0;
+  const netAmount = isAmountValid ? requestedAmount - platformFee : 0;
+
+  const { reason: kycReason } = canUserWithdraw(userData);
+  const isVerified = isUserFullyVerified(userData);
+  const canUsePasskey = Boolean(userData?.passkeyFunding) && hasDevicePasskey;
+  const canSubmit = isVerified && Boolean(selectedDestination) && isAmountValid && !isProcessing;
+
+  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setAmount(e.target.value.replace(/[^\d.]/g, ""));
+    setError(null);
+  };
+
+  const handlePinChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value.replace(/\D/g, "").slice(0, 6);
+    setPin(value);
+    setError(null);
+  };
+
+  const handleWithdraw = async (usePasskey = false) => {
+    try {
+      setError(null);
+      setIsProcessing(true);
+
+      const pinValidation = validatePinFormat(pin);
+      if (!usePasskey && !pinValidation.valid) {
+        setError(pinValidation.error || "Invalid PIN format");
+        setIsProcessing(false);
+        return;
+      }
+
+      // Exchange the PIN (or passkey) for a single-use token; the PIN itself goes no further
+      const authorization: PinAuthorization = usePasskey
+        ? await authorizeWithPasskey("withdraw", requestedAmount)
+        : await authorizePinAction(pin, "withdraw", requestedAmount);
+      setPin("");
+
+      const result = await processPooledWithdrawal(
+        authorization.token,
+        requestedAmount,
+        eligibleContracts.map(({ contract }) => contract.id),
+        manaToWithdraw,
+        idempotencyKey,
+        destinationId
+      );
+      const destinationLabel = selectedDestination ? getPayoutDestinationLabel(selectedDestination) : "your account";
+
+      if (result.status === "pending_review") {
+        toast.success("Withdrawal Submitted for Review", {
+          description: `${result.netAmount.toLocaleString()} KOLI will be sent to ${destinationLabel} once an admin reviews the request.`,
+        });
+      } else {
+        toast.success("Withdrawal Request Submitted!", {
+          description: `${result.netAmount.toLocaleString()} KOLI will be sent to ${destinationLabel} within 24 hours.`,
+        });
+      }
+
+      onClose();
+    } catch (err) {
+      console.error("Pooled withdrawal error:", err);
+      const message = err instanceof Error ? err.message : "";
+      setError(message || "Failed to process withdrawal");
+      toast.error("Withdrawal Failed", {
+        description: message || "Please try again later",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <IconWallet size={24} className="text-primary" />
+            P2P Withdrawal
+          </DialogTitle>
+          <DialogDescription>
+            Withdraw from your MANA rewards and ready contracts in one request
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {!isVerified && (
+            <Alert variant="destructive">
+              <IconAlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                <span className="font-semibold">KYC Verification Required</span>
+                <p className="text-xs mt-1">{kycReason}</p>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Available Breakdown */}
+          <Card className="p-4 bg-secondary/50 border-border">
+            <div className="space-y-2">
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Contracts ({eligibleContracts.length} ready)</span>
+                <span className="font-medium text-foreground">{contractWithdrawals.toLocaleString()} KOLI</span>
+              </div>
+              {manaBalance > 0 && (
+                <div className="flex items-center justify-between text-xs">
+                  <label className="flex items-center gap-2 text-muted-foreground">
+                    <Checkbox
+                      checked={includeMana}
+                      onCheckedChange={(checked) => setIncludeMana(checked === true)}
+                      disabled={isProcessing}
+                    />
+                    Include MANA Rewards
+                  </label>
+                  <span className="font-medium text-yellow-500">{manaBalance.toLocaleString()} KOLI</span>
+                </div>
+              )}
+              <Separator />
+              <div className="flex justify-between items-end">
+                <span className="text-xs text-muted-foreground">Available</span>
+                <span className="text-lg font-bold text-green-400">{maxAmount.toLocaleString()} KOLI</span>
+              </div>
+            </div>
+          </Card>
+
+          {/* Amount */}
+          {isVerified && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="pooled-amount" className="text-sm font-semibold">
+                  Amount
+                </Label>
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0 text-xs"
+                  onClick={() => setAmount(String(maxAmount))}
+                  disabled={isProcessing || maxAmount <= 0}
+                >
+                  Max
+                </Button>
+              </div>
+              <Input
+                id="pooled-amount"
+                inputMode="decimal"
+                value={amount}
+                onChange={handleAmountChange}
+                placeholder="0.00"
+                disabled={isProcessing}
+              />
+              {amount && !isAmountValid && (
+                <p className="text-xs text-destructive">
+                  Enter an amount between 0 and {maxAmount.toLocaleString()} KOLI
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Payout Destination */}
+          {isVerified && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2 text-sm font-semibold">
+                <IconWallet size={16} className="text-primary" />
+                Send To
+              </Label>
+              {availableDestinations.length > 0 ? (
+                <Select value={destinationId} onValueChange={setDestinationId} disabled={isProcessing}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a payout destination" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableDestinations.map((destination) => (
+                      <SelectItem key={destination.id} value={destination.id}>
+                        {getPayoutDestinationLabel(destination)} · {destination.accountName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <p className="text-xs text-orange-400">
+                  {destinations.length > 0
+                    ? "Your saved destinations are still being confirmed or cooling off."
+                    : "Add a payout destination in your Profile first."}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Fee Breakdown */}
+          {isVerified && selectedDestination && isAmountValid && (
+            <div className="rounded-lg border border-border p-3 space-y-1">
+              <p className="text-xs font-semibold text-foreground">
+                Fee Breakdown ({lines.length} payout{lines.length === 1 ? "" : "s"})
+              </p>
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Withdrawal</span>
+                <span className="font-medium text-foreground">{requestedAmount.toLocaleString()} KOLI</span>
+              </div>
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Platform fee</span>
+                <span className={platformFee > 0 ? "font-medium text-red-400" : "font-medium text-foreground"}>
+                  {platformFee > 0 ? `-${platformFee.toLocaleString()} KOLI` : "None"}
+                </span>
+              </div>
+              <Separator />
+              <div className="flex justify-between text-xs">
+                <span className="font-semibold text-foreground">Sent to you</span>
+                <span className="font-semibold text-green-400">{netAmount.toLocaleString()} KOLI</span>
+              </div>
+            </div>
+          )}
+
+          {/* PIN Input */}
+          {isVerified && (
+            <div className="space-y-2">
+              <Label htmlFor="pooled-pin" className="flex items-center gap-2 text-sm font-semibold">
+                <IconShield size={16} className="text-primary" />
+                Enter Your 6-Digit Funding PIN
+              </Label>
+              <Input
+                id="pooled-pin"
+                type="password"
+                inputMode="numeric"
+                maxLength={6}
+                value={pin}
+                onChange={handlePinChange}
+                placeholder="••••••"
+                className="text-center text-2xl tracking-widest font-mono"
+                disabled={isProcessing}
+              />
+              {canUsePasskey && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleWithdraw(true)}
+                  disabled={!canSubmit}
+                  className="w-full"
+                >
+                  <IconFingerprint size={16} className="mr-2" />
+                  Confirm with Passkey Instead
+                </Button>
+              )}
+            </div>
+          )}
+
+          <AnimatePresence>
+            {error && (
+              <motion.div
+                initial={{ opacity: 0, y: -10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -10 }}
+              >
+                <Alert variant="destructive">
+                  <IconAlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              </motion.div>
+            )}
+          </AnimatePresence>
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={onClose} disabled={isProcessing} className="w-full sm:w-auto">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => handleWithdraw()}
+            disabled={!canSubmit || pin.length !== 6}
+            className="w-full sm:w-auto"
+          >
+            {isProcessing ? (
+              <>
+                <IconLock size={16} className="mr-2 animate-pulse" />
+                Processing...
+              </>
+            ) : (
+              <>
+                <IconCircleCheck size={16} className="mr-2" />
+                Confirm Withdrawal
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
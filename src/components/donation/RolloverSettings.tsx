@@ -0,0 +1,74 @@
+import React, { useState } from "react";
+import { IconRefresh } from "@tabler/icons-react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ContractRolloverMode,
+  DonationContract,
+  getContractPlanConfig,
+  setContractRollover,
+} from "@/lib/donationContract";
+import { toast } from "sonner";
+
+interface RolloverSettingsProps {
+  contract: DonationContract;
+}
+
+export const RolloverSettings: React.FC<RolloverSettingsProps> = ({ contract }) => {
+  const [isSaving, setIsSaving] = useState(false);
+  const isLockIn = getContractPlanConfig(contract).compoundLockIn;
+  const mode: ContractRolloverMode = contract.rolloverMode || "none";
+
+  // Monthly unlocks are all returns, so only lock-in plans offer both options
+  const options: Array<{ value: ContractRolloverMode; label: string }> = isLockIn
+    ? [
+        { value: "none", label: "Off - withdraw manually" },
+        { value: "principal_and_returns", label: "Reinvest principal + returns at maturity" },
+        { value: "returns_only", label: "Reinvest returns only at maturity" },
+      ]
+    : [
+        { value: "none", label: "Off - withdraw manually" },
+        { value: "principal_and_returns", label: "Reinvest every unlock" },
+      ];
+
+  const handleChange = async (value: string) => {
+    if (!contract.id || value === mode) return;
+
+    try {
+      setIsSaving(true);
+      await setContractRollover(contract.id, value as ContractRolloverMode);
+      toast.success(value === "none" ? "Auto-rollover turned off" : "Auto-rollover updated");
+    } catch (error) {
+      console.error("Failed to update rollover setting:", error);
+      toast.error("Could not update auto-rollover", {
+        description: error instanceof Error ? error.message : "Please try again later",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs text-muted-foreground flex items-center gap-1">
+        <IconRefresh size={14} />
+        Auto-Rollover
+      </Label>
+      <Select value={mode} onValueChange={handleChange} disabled={isSaving}>
+        <SelectTrigger className="w-full h-9 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value} className="text-xs">
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {mode !== "none" && contract.rolloverSkippedReason && (
+        <p className="text-xs text-orange-400">Last rollover skipped: {contract.rolloverSkippedReason}</p>
+      )}
+    </div>
+  );
+};
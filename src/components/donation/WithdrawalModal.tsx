@@ -14,9 +14,11 @@ import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   IconAlertCircle,
   IconCircleCheck,
+  IconFingerprint,
   IconLock,
   IconWallet,
   IconClock,
@@ -26,11 +28,19 @@ import {
   DonationContract,
   getWithdrawalDetails,
   getContractAdjustmentDetails,
+  getContractWithdrawalAmount,
   getContractWithdrawalSlots,
-  getContractType,
+  getContractPlanConfig,
 } from "@/lib/donationContract";
 import { canUserWithdraw, isUserFullyVerified } from "@/lib/kycService";
-import { validatePinFormat, verifyPin } from "@/lib/pinSecurity";
+import { PinAuthorization, authorizePinAction, validatePinFormat } from "@/lib/pinSecurity";
+import { authorizeWithPasskey } from "@/lib/passkeys";
+import { createIdempotencyKey } from "@/lib/idempotency";
+import { FEE_SCHEDULE_DOC, FeeSchedule, calculatePayoutFee, resolveFeeSchedule } from "@/lib/feeSchedule";
+import { getPayoutDestinationLabel, isPayoutDestinationAvailable } from "@/lib/payoutDestinations";
+import { usePayoutDestinations } from "@/hooks/usePayoutDestinations";
+import { useDevicePasskey } from "@/hooks/usePasskeys";
+import { useRealtimeDocument } from "@/hooks/useRealtimeDocument";
 import { toast } from "sonner";
 
 interface WithdrawalModalProps {
@@ -53,6 +63,13 @@ export const WithdrawalModal: React.FC<WithdrawalModalProps> = ({
   const [pin, setPin] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [idempotencyKey, setIdempotencyKey] = useState(createIdempotencyKey);
+  const [destinationId, setDestinationId] = useState("");
+  const { data: destinations } = usePayoutDestinations(open ? userId : null);
+  const availableDestinations = destinations.filter((destination) => isPayoutDestinationAvailable(destination));
+  const selectedDestination = availableDestinations.find((destination) => destination.id === destinationId);
+  const { data: feeScheduleDoc } = useRealtimeDocument<Partial<FeeSchedule>>("systemSettings", FEE_SCHEDULE_DOC);
+  const { isEnrolled: hasDevicePasskey } = useDevicePasskey(open ? userId : null);
 
   // Reset state when modal opens/closes
   React.useEffect(() => {
@@ -60,20 +77,34 @@ export const WithdrawalModal: React.FC<WithdrawalModalProps> = ({
       setPin("");
       setError(null);
       setIsProcessing(false);
+      setIdempotencyKey(createIdempotencyKey());
+      setDestinationId("");
     }
   }, [open]);
 
+  // Preselect the first usable destination
+  React.useEffect(() => {
+    if (open && !destinationId && availableDestinations.length > 0) {
+      setDestinationId(availableDestinations[0].id);
+    }
+  }, [open, destinationId, availableDestinations]);
+
   if (!contract) return null;
 
   const details = getWithdrawalDetails(contract);
   const adjustment = getContractAdjustmentDetails(contract);
-  const isMonthlyPlan = getContractType(contract) === "monthly_12_no_principal";
+  const isMonthlyPlan = !getContractPlanConfig(contract).compoundLockIn;
   const totalSlots = getContractWithdrawalSlots(contract);
-  const withdrawalAmount = isMonthlyPlan ? details.withdrawalPerPeriod : details.totalRemaining;
+  // Same rounding as the withdrawWithPin callable, so the fee and net shown are what gets charged
+  const withdrawalAmount = getContractWithdrawalAmount(contract);
+  const fee = selectedDestination
+    ? calculatePayoutFee(withdrawalAmount, selectedDestination.type, resolveFeeSchedule(feeScheduleDoc))
+    : null;
 
   // Check KYC status
   const { canWithdraw: kycAllowed, reason: kycReason } = canUserWithdraw(userData);
   const isVerified = isUserFullyVerified(userData);
+  const canUsePasskey = Boolean(userData?.passkeyFunding) && hasDevicePasskey;
 
   const handlePinChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value.replace(/\D/g, "").slice(0, 6);
@@ -81,36 +112,41 @@ export const WithdrawalModal: React.FC<WithdrawalModalProps> = ({
     setError(null);
   };
 
-  const handleWithdraw = async () => {
+  const handleWithdraw = async (usePasskey = false) => {
     try {
       setError(null);
       setIsProcessing(true);
 
       // Validate PIN format
       const pinValidation = validatePinFormat(pin);
-      if (!pinValidation.valid) {
+      if (!usePasskey && !pinValidation.valid) {
         setError(pinValidation.error || "Invalid PIN format");
         setIsProcessing(false);
         return;
       }
 
-      // Verify PIN
-      const isPinValid = await verifyPin(userId, pin);
-      if (!isPinValid) {
-        setError("Incorrect PIN. Please try again.");
-        setIsProcessing(false);
-        return;
-      }
+      // Exchange the PIN (or passkey) for a single-use token; the PIN itself goes no further
+      const authorization: PinAuthorization = usePasskey
+        ? await authorizeWithPasskey("withdraw", withdrawalAmount)
+        : await authorizePinAction(pin, "withdraw", withdrawalAmount);
+      setPin("");
 
       // Import withdraw function dynamically to avoid circular deps
       const { withdrawWithPin } = await import("@/lib/donationContract");
       
-      // Process withdrawal with PIN verification
-      await withdrawWithPin(contract.id!, userId, pin);
+      // Process withdrawal with the PIN authorization
+      const payout = await withdrawWithPin(contract.id!, authorization.token, idempotencyKey, destinationId);
+      const destinationLabel = selectedDestination ? getPayoutDestinationLabel(selectedDestination) : "your account";
 
-      toast.success("Withdrawal Request Submitted!", {
-        description: `${withdrawalAmount.toLocaleString()} KOLI will be sent to your registered account within 24 hours.`,
-      });
+      if (payout.status === "pending_review") {
+        toast.success("Withdrawal Submitted for Review", {
+          description: `${payout.netAmount.toLocaleString()} KOLI will be sent to ${destinationLabel} once an admin reviews the request.`,
+        });
+      } else {
+        toast.success("Withdrawal Request Submitted!", {
+          description: `${payout.netAmount.toLocaleString()} KOLI will be sent to ${destinationLabel} within 24 hours.`,
+        });
+      }
 
       // Close modal and notify parent
       onClose();
@@ -186,9 +222,11 @@ export const WithdrawalModal: React.FC<WithdrawalModalProps> = ({
                   </span>
                 </div>
                 <div className="flex justify-between items-end">
-                  <span className="text-xs text-muted-foreground">You will receive</span>
+                  <span className="text-xs text-muted-foreground">
+                    {fee && fee.platformFee > 0 ? "You will receive (after fees)" : "You will receive"}
+                  </span>
                   <span className="text-2xl font-bold text-green-400">
-                    {withdrawalAmount.toLocaleString()} KOLI
+                    {(fee?.netAmount ?? withdrawalAmount).toLocaleString()} KOLI
                   </span>
                 </div>
               </div>
@@ -226,12 +264,70 @@ export const WithdrawalModal: React.FC<WithdrawalModalProps> = ({
                 <span className="font-semibold">P2P Transaction</span>
                 <p className="mt-1">
                   Your request will be processed manually by the admin within 24 hours. 
-                  Funds will be sent to your registered E-wallet/Bank account.
+                  Funds will be sent to the payout destination you choose below.
                 </p>
               </AlertDescription>
             </Alert>
           )}
 
+          {/* Payout Destination */}
+          {isVerified && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2 text-sm font-semibold">
+                <IconWallet size={16} className="text-primary" />
+                Send To
+              </Label>
+              {availableDestinations.length > 0 ? (
+                <Select value={destinationId} onValueChange={setDestinationId} disabled={isProcessing}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a payout destination" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableDestinations.map((destination) => (
+                      <SelectItem key={destination.id} value={destination.id}>
+                        {getPayoutDestinationLabel(destination)} · {destination.accountName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <p className="text-xs text-orange-400">
+                  {destinations.length > 0
+                    ? "Your saved destinations are still being confirmed or cooling off."
+                    : "Add a payout destination in your Profile first."}
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Fee Breakdown */}
+          {isVerified && fee && (
+            <div className="rounded-lg border border-border p-3 space-y-1">
+              <p className="text-xs font-semibold text-foreground">Fee Breakdown</p>
+              <div className="flex justify-between text-xs">
+                <span className="text-muted-foreground">Withdrawal</span>
+                <span className="font-medium text-foreground">{fee.grossAmount.toLocaleString()} KOLI</span>
+              </div>
+              {fee.feeBreakdown.map((line) => (
+                <div key={line.ruleId} className="flex justify-between text-xs">
+                  <span className="text-muted-foreground">{line.label}</span>
+                  <span className="font-medium text-red-400">-{line.fee.toLocaleString()} KOLI</span>
+                </div>
+              ))}
+              {fee.feeBreakdown.length === 0 && (
+                <div className="flex justify-between text-xs">
+                  <span className="text-muted-foreground">Platform fee</span>
+                  <span className="font-medium text-foreground">None</span>
+                </div>
+              )}
+              <Separator />
+              <div className="flex justify-between text-xs">
+                <span className="font-semibold text-foreground">Sent to you</span>
+                <span className="font-semibold text-green-400">{fee.netAmount.toLocaleString()} KOLI</span>
+              </div>
+            </div>
+          )}
+
           {/* PIN Input */}
           {isVerified && (
             <div className="space-y-2">
@@ -251,8 +347,21 @@ export const WithdrawalModal: React.FC<WithdrawalModalProps> = ({
                 disabled={isProcessing}
               />
               <p className="text-xs text-muted-foreground">
-                Your PIN is required for all withdrawal transactions
+                {canUsePasskey
+                  ? "Confirm with your PIN or this device's passkey"
+                  : "Your PIN is required for all withdrawal transactions"}
               </p>
+              {canUsePasskey && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleWithdraw(true)}
+                  disabled={!selectedDestination || isProcessing}
+                  className="w-full"
+                >
+                  <IconFingerprint size={16} className="mr-2" />
+                  Confirm with Passkey Instead
+                </Button>
+              )}
             </div>
           )}
 
@@ -283,8 +392,8 @@ export const WithdrawalModal: React.FC<WithdrawalModalProps> = ({
             Cancel
           </Button>
           <Button
-            onClick={handleWithdraw}
-            disabled={!isVerified || pin.length !== 6 || isProcessing}
+            onClick={() => handleWithdraw()}
+            disabled={!isVerified || !selectedDestination || pin.length !== 6 || isProcessing}
             className="w-full sm:w-auto"
           >
             {isProcessing ? (
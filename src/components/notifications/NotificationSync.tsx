@@ -3,16 +3,18 @@ import { collection, onSnapshot, query, where } from "firebase/firestore";
 import { useAuth } from "@/contexts/AuthContext";
 import { db } from "@/lib/firebase";
 import { createNotificationIfMissing } from "@/lib/notifications";
+import { useContractPlans } from "@/hooks/useContractPlans";
+import { getCalendarDaysUntil } from "@/lib/accrualCalendar";
 import {
   DonationContract,
   canWithdraw,
   getContractAdjustmentDetails,
   getContractUnlockDate,
-  getContractType,
+  getContractPlanConfig,
 } from "@/lib/donationContract";
 
-const DAY_IN_MS = 24 * 60 * 60 * 1000;
 const NEAR_WITHDRAWAL_THRESHOLD_DAYS = 3;
+const CLAIM_EXPIRY_WARNING_DAYS = 7;
 const ACTIVE_CONTRACT_STATUSES = new Set(["active", "approved"]);
 const APPROVED_PAYOUT_STATUSES = new Set(["approved", "completed"]);
 
@@ -39,6 +41,8 @@ const hasContractStarted = (contract: DonationContract) =>
 export const NotificationSync = () => {
   const { user, userData } = useAuth();
   const userId = user?.uid || null;
+  // Contract notifications depend on plan terms from the catalog
+  useContractPlans();
 
   useEffect(() => {
     if (!userId || !isKycApprovedStatus(userData?.kycStatus)) {
@@ -107,6 +111,26 @@ export const NotificationSync = () => {
             return;
           }
 
+          const claimCheck = canWithdraw(contract);
+          if (claimCheck.claimDeadline && (claimCheck.availableAmount || 0) > 0) {
+            const daysUntilForfeit = getCalendarDaysUntil(claimCheck.claimDeadline);
+
+            if (daysUntilForfeit <= CLAIM_EXPIRY_WARNING_DAYS) {
+              void createNotificationIfMissing({
+                userId,
+                notificationId: `${userId}_contract_claim_expiring_${contractId}`,
+                type: "contract_claim_expiring",
+                title: "Unclaimed Funds Expiring",
+                message: `Your ended contract ${contractId.slice(0, 8)} has ${toCurrency(
+                  claimCheck.availableAmount || 0
+                )} KOLI unclaimed. Withdraw it within ${Math.max(0, daysUntilForfeit)} day(s) or it will be forfeited.`,
+                relatedId: contractId,
+              }).catch((error) => {
+                console.error("Failed to create claim expiry notification:", error);
+              });
+            }
+          }
+
           const totalWithdrawn = Number(contract.totalWithdrawn || 0);
           const withdrawalsCount = Number(contract.withdrawalsCount || 0);
           const hasWithdrawnAlready = totalWithdrawn > 0 || withdrawalsCount > 0;
@@ -120,8 +144,7 @@ export const NotificationSync = () => {
             return;
           }
 
-          const now = Date.now();
-          const daysUntilFirstWithdrawal = Math.ceil((unlockDate.getTime() - now) / DAY_IN_MS);
+          const daysUntilFirstWithdrawal = getCalendarDaysUntil(unlockDate);
 
           if (
             daysUntilFirstWithdrawal > 0 &&
@@ -148,7 +171,7 @@ export const NotificationSync = () => {
                 type: "contract_ready_withdrawal",
                 title: "Contract Ready To Withdraw",
                 message:
-                  getContractType(contract) === "monthly_12_no_principal"
+                  !getContractPlanConfig(contract).compoundLockIn
                     ? `Your contract ${contractId.slice(0, 8)} has reached its monthly withdrawal window and is ready.`
                     : `Your lock-in contract ${contractId.slice(0, 8)} has matured and is ready to withdraw.`,
                 relatedId: contractId,
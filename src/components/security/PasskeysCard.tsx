@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from "react";
+import { IconDeviceMobile, IconFingerprint, IconTrash } from "@tabler/icons-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { usePasskeys } from "@/hooks/usePasskeys";
+import {
+  Passkey,
+  enrollPasskey,
+  getDefaultDeviceLabel,
+  getDevicePasskeyId,
+  isPasskeySupported,
+  removePasskey,
+  setPasskeyFunding,
+} from "@/lib/passkeys";
+import { toast } from "sonner";
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : "Please try again later");
+
+const PasskeyRow: React.FC<{ passkey: Passkey; isThisDevice: boolean }> = ({ passkey, isThisDevice }) => {
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleRemove = async () => {
+    try {
+      setIsBusy(true);
+      await removePasskey(passkey.credentialId);
+      toast.success("Passkey removed", { description: `${passkey.deviceLabel} can no longer unlock the app.` });
+    } catch (error) {
+      console.error("Could not remove passkey:", error);
+      toast.error("Could not remove passkey", { description: getErrorMessage(error) });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-border p-3 flex items-start justify-between gap-2">
+      <div className="flex items-center gap-3">
+        <div className="h-9 w-9 rounded-lg bg-primary/10 flex items-center justify-center">
+          <IconDeviceMobile className="h-4 w-4 text-primary" />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-foreground">{passkey.deviceLabel}</p>
+          <p className="text-xs text-muted-foreground">
+            Added {new Date(passkey.createdAt).toLocaleDateString()}
+            {passkey.lastUsedAt ? ` · Last used ${new Date(passkey.lastUsedAt).toLocaleString()}` : " · Never used"}
+          </p>
+        </div>
+      </div>
+      <div className="flex items-center gap-1">
+        {isThisDevice && <Badge variant="outline">This device</Badge>}
+        <Button size="icon" variant="ghost" onClick={handleRemove} disabled={isBusy}>
+          <IconTrash size={16} />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const EnrollPasskeyForm: React.FC<{ onDone: () => void }> = ({ onDone }) => {
+  const [pin, setPin] = useState("");
+  const [deviceLabel, setDeviceLabel] = useState(getDefaultDeviceLabel);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleEnroll = async () => {
+    try {
+      setIsSaving(true);
+      await enrollPasskey(pin, deviceLabel.trim());
+      toast.success("Passkey added", { description: "You can unlock the app without typing your PIN on this device." });
+      onDone();
+    } catch (error) {
+      console.error("Passkey enrollment failed:", error);
+      toast.error("Could not add passkey", { description: getErrorMessage(error) });
+      setPin("");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-dashed border-border p-3 space-y-3">
+      <div className="space-y-1">
+        <Label className="text-xs">Device name</Label>
+        <Input value={deviceLabel} maxLength={60} onChange={(e) => setDeviceLabel(e.target.value)} disabled={isSaving} />
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Confirm with your PIN</Label>
+        <Input
+          type="password"
+          inputMode="numeric"
+          maxLength={6}
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, "").slice(0, 6))}
+          placeholder="••••••"
+          className="font-mono tracking-widest"
+          disabled={isSaving}
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="ghost" onClick={onDone} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleEnroll} disabled={isSaving || pin.length !== 6}>
+          {isSaving ? "Waiting for device..." : "Add Passkey"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const PasskeysCard: React.FC<{ userId: string | null; passkeyFunding: boolean }> = ({
+  userId,
+  passkeyFunding,
+}) => {
+  const { data: passkeys, loading } = usePasskeys(userId);
+  const [isSupported, setIsSupported] = useState(false);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [isSavingFunding, setIsSavingFunding] = useState(false);
+  const devicePasskeyId = getDevicePasskeyId();
+  const isDeviceEnrolled = passkeys.some((passkey) => passkey.credentialId === devicePasskeyId);
+
+  useEffect(() => {
+    void isPasskeySupported().then(setIsSupported);
+  }, []);
+
+  const handleFundingChange = async (enabled: boolean) => {
+    try {
+      setIsSavingFunding(true);
+      await setPasskeyFunding(enabled);
+      toast.success(enabled ? "Passkeys can now approve withdrawals" : "Withdrawals need your PIN again");
+    } catch (error) {
+      console.error("Could not update passkey setting:", error);
+      toast.error("Could not update setting", { description: getErrorMessage(error) });
+    } finally {
+      setIsSavingFunding(false);
+    }
+  };
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <IconFingerprint className="h-5 w-5 text-primary" />
+          Passkeys
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Unlock the app with your fingerprint or face instead of your PIN. Your PIN still works everywhere.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!loading && passkeys.length === 0 && !isEnrolling && (
+          <p className="text-xs text-muted-foreground">No passkeys yet.</p>
+        )}
+        {passkeys.map((passkey) => (
+          <PasskeyRow
+            key={passkey.credentialId}
+            passkey={passkey}
+            isThisDevice={passkey.credentialId === devicePasskeyId}
+          />
+        ))}
+
+        {isEnrolling ? (
+          <EnrollPasskeyForm onDone={() => setIsEnrolling(false)} />
+        ) : (
+          isSupported &&
+          !isDeviceEnrolled && (
+            <Button size="sm" variant="outline" className="w-full" onClick={() => setIsEnrolling(true)}>
+              <IconFingerprint size={16} className="mr-1" />
+              Set Up Passkey on This Device
+            </Button>
+          )
+        )}
+        {!isSupported && (
+          <p className="text-xs text-muted-foreground">This browser does not support passkeys.</p>
+        )}
+
+        <div className="flex items-center justify-between gap-3 rounded-lg bg-muted/50 p-3">
+          <div>
+            <p className="text-sm font-semibold text-foreground">Use passkey for withdrawals</p>
+            <p className="text-xs text-muted-foreground">Otherwise withdrawals always ask for your PIN</p>
+          </div>
+          <Switch
+            checked={passkeyFunding}
+            onCheckedChange={handleFundingChange}
+            disabled={isSavingFunding || passkeys.length === 0}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,145 @@
+import React, { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { IconDeviceDesktop, IconDeviceMobile, IconDevices, IconLogout } from "@tabler/icons-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useMemberSessions } from "@/hooks/useMemberSessions";
+import { MemberSession, getCurrentSessionId, signOutOtherSessions, signOutSession } from "@/lib/memberSessions";
+import { toast } from "sonner";
+
+const MOBILE_PLATFORMS = new Set(["iPhone", "iPad", "Android"]);
+
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : "Please try again later");
+
+const formatLocation = (location: MemberSession["location"]) =>
+  location ? [location.city, location.region, location.country].filter(Boolean).join(", ") : "Unknown location";
+
+const SessionRow: React.FC<{
+  session: MemberSession;
+  isThisDevice: boolean;
+  isSigningOut: boolean;
+  onSignOut: () => void;
+}> = ({ session, isThisDevice, isSigningOut, onSignOut }) => {
+  const DeviceIcon = MOBILE_PLATFORMS.has(session.platform) ? IconDeviceMobile : IconDeviceDesktop;
+
+  return (
+    <div className="rounded-lg border border-border p-3 flex items-start justify-between gap-2">
+      <div className="flex items-center gap-3">
+        <div className="h-9 w-9 rounded-lg bg-primary/10 flex items-center justify-center">
+          <DeviceIcon className="h-4 w-4 text-primary" />
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-foreground">{session.deviceLabel}</p>
+          <p className="text-xs text-muted-foreground">
+            {formatLocation(session.location)} · {isThisDevice ? "Active now" : `Last seen ${new Date(session.lastSeenAt).toLocaleString()}`}
+          </p>
+          <div className="flex gap-1 mt-1">
+            {isThisDevice && <Badge variant="outline">This device</Badge>}
+            <Badge variant="secondary">{session.displayMode === "pwa" ? "Installed app" : "Browser"}</Badge>
+          </div>
+        </div>
+      </div>
+      <Button size="sm" variant="ghost" onClick={onSignOut} disabled={isSigningOut}>
+        <IconLogout size={16} className="mr-1" />
+        {isSigningOut ? "Signing out..." : "Sign out"}
+      </Button>
+    </div>
+  );
+};
+
+export const SessionsCard: React.FC<{ userId: string | null }> = ({ userId }) => {
+  const navigate = useNavigate();
+  const { logout } = useAuth();
+  const { data: sessions, loading } = useMemberSessions(userId);
+  const [isSigningOutOthers, setIsSigningOutOthers] = useState(false);
+  const [signingOutSessionId, setSigningOutSessionId] = useState<string | null>(null);
+  const currentSessionId = getCurrentSessionId();
+  const otherSessions = sessions.filter((session) => session.sessionId !== currentSessionId);
+
+  const handleSignOutThisDevice = async () => {
+    try {
+      await logout();
+      navigate("/signin");
+    } catch (error) {
+      console.error("Could not sign out:", error);
+      toast.error("Could not sign out", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleSignOutSession = async (session: MemberSession) => {
+    try {
+      setSigningOutSessionId(session.sessionId);
+      await signOutSession(session.sessionId);
+      toast.success("Device signed out", {
+        description: `${session.deviceLabel} will need to sign in again.`,
+      });
+    } catch (error) {
+      console.error("Could not sign out device:", error);
+      toast.error("Could not sign out device", { description: getErrorMessage(error) });
+    } finally {
+      setSigningOutSessionId(null);
+    }
+  };
+
+  const handleSignOutOthers = async () => {
+    try {
+      setIsSigningOutOthers(true);
+      const signedOut = await signOutOtherSessions();
+      toast.success("Signed out other devices", {
+        description: `${signedOut} device${signedOut === 1 ? "" : "s"} will need to sign in again.`,
+      });
+    } catch (error) {
+      console.error("Could not sign out other devices:", error);
+      toast.error("Could not sign out other devices", { description: getErrorMessage(error) });
+    } finally {
+      setIsSigningOutOthers(false);
+    }
+  };
+
+  return (
+    <Card className="border-border">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <IconDevices className="h-5 w-5 text-primary" />
+          Devices
+        </CardTitle>
+        <CardDescription className="text-xs">
+          Where your account is signed in. Sign out anything you don't recognize and change your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!loading && sessions.length === 0 && (
+          <p className="text-xs text-muted-foreground">No signed-in devices recorded yet.</p>
+        )}
+        {sessions.map((session) => (
+          <SessionRow
+            key={session.sessionId}
+            session={session}
+            isThisDevice={session.sessionId === currentSessionId}
+            isSigningOut={signingOutSessionId === session.sessionId}
+            onSignOut={
+              session.sessionId === currentSessionId
+                ? handleSignOutThisDevice
+                : () => handleSignOutSession(session)
+            }
+          />
+        ))}
+
+        <Button
+          size="sm"
+          variant="outline"
+          className="w-full"
+          onClick={handleSignOutOthers}
+          disabled={isSigningOutOthers || otherSessions.length === 0}
+        >
+          {isSigningOutOthers ? "Signing out..." : "Sign Out All Other Devices"}
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Other devices are signed out right away and can't refresh their sign-in.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -12,7 +12,14 @@ interface TimelineEntry {
   content: React.ReactNode;
 }
 
-export const Timeline = ({ data }: { data: TimelineEntry[] }) => {
+interface TimelineProps {
+  data: TimelineEntry[];
+  title?: React.ReactNode;
+  description?: React.ReactNode;
+  compact?: boolean; // Tighter spacing and smaller titles for use inside cards
+}
+
+export const Timeline = ({ data, title, description, compact = false }: TimelineProps) => {
   const ref = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [height, setHeight] = useState(0);
@@ -22,7 +29,7 @@ export const Timeline = ({ data }: { data: TimelineEntry[] }) => {
       const rect = ref.current.getBoundingClientRect();
       setHeight(rect.height);
     }
-  }, [ref]);
+  }, [ref, data.length]);
 
   const { scrollYProgress } = useScroll({
     target: containerRef,
@@ -34,36 +41,55 @@ export const Timeline = ({ data }: { data: TimelineEntry[] }) => {
 
   return (
     <div
-      className="w-full bg-background font-sans md:px-10"
+      className={compact ? "w-full font-sans" : "w-full bg-background font-sans md:px-10"}
       ref={containerRef}
     >
-      <div className="max-w-7xl mx-auto py-20 px-4 md:px-8 lg:px-10">
-        <h2 className="text-lg md:text-4xl mb-4 text-foreground max-w-4xl">
-          Changelog from my journey
-        </h2>
-        <p className="text-muted-foreground text-sm md:text-base max-w-sm">
-          I&apos;ve been working on Aceternity for the past 2 years. Here&apos;s
-          a timeline of my journey.
-        </p>
-      </div>
+      {(title || description) && (
+        <div className={compact ? "pb-2" : "max-w-7xl mx-auto py-20 px-4 md:px-8 lg:px-10"}>
+          {title && (
+            <h2 className={compact ? "text-base font-semibold mb-1 text-foreground" : "text-lg md:text-4xl mb-4 text-foreground max-w-4xl"}>
+              {title}
+            </h2>
+          )}
+          {description && (
+            <p className={compact ? "text-muted-foreground text-xs" : "text-muted-foreground text-sm md:text-base max-w-sm"}>
+              {description}
+            </p>
+          )}
+        </div>
+      )}
 
-      <div ref={ref} className="relative max-w-7xl mx-auto pb-20">
+      <div ref={ref} className={compact ? "relative pb-4" : "relative max-w-7xl mx-auto pb-20"}>
         {data.map((item, index) => (
           <div
             key={index}
-            className="flex justify-start pt-10 md:pt-40 md:gap-10"
+            className={compact ? "flex justify-start pt-6" : "flex justify-start pt-10 md:pt-40 md:gap-10"}
           >
-            <div className="sticky flex flex-col md:flex-row z-40 items-center top-40 self-start max-w-xs lg:max-w-sm md:w-full">
+            <div
+              className={
+                compact
+                  ? "sticky flex flex-col z-40 items-center top-40 self-start"
+                  : "sticky flex flex-col md:flex-row z-40 items-center top-40 self-start max-w-xs lg:max-w-sm md:w-full"
+              }
+            >
               <div className="h-10 absolute left-3 md:left-3 w-10 rounded-full bg-background flex items-center justify-center">
                 <div className="h-4 w-4 rounded-full bg-muted border border-border p-2" />
               </div>
-              <h3 className="hidden md:block text-xl md:pl-20 md:text-5xl font-bold text-muted-foreground">
-                {item.title}
-              </h3>
+              {!compact && (
+                <h3 className="hidden md:block text-xl md:pl-20 md:text-5xl font-bold text-muted-foreground">
+                  {item.title}
+                </h3>
+              )}
             </div>
 
-            <div className="relative pl-20 pr-4 md:pl-4 w-full">
-              <h3 className="md:hidden block text-2xl mb-4 text-left font-bold text-muted-foreground">
+            <div className={compact ? "relative pl-16 pr-2 w-full" : "relative pl-20 pr-4 md:pl-4 w-full"}>
+              <h3
+                className={
+                  compact
+                    ? "block text-sm mb-2 text-left font-semibold text-muted-foreground"
+                    : "md:hidden block text-2xl mb-4 text-left font-bold text-muted-foreground"
+                }
+              >
                 {item.title}
               </h3>
               {item.content}{" "}
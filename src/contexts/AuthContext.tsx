@@ -7,6 +7,13 @@ import {
   isSuspendedStatus,
   SUSPENDED_ACCOUNT_MESSAGE_STORAGE_KEY,
 } from "@/lib/accountStatus";
+import {
+  MemberSession,
+  clearCurrentSessionId,
+  endCurrentSession,
+  getCurrentSessionId,
+  registerSession,
+} from "@/lib/memberSessions";
 
 interface UserData {
   uid: string;
@@ -36,9 +43,9 @@ interface UserData {
   phoneDisclaimerAccepted?: boolean;
   
   // PIN Security
-  pinHash?: string;
   hasPinSetup: boolean;
   lastAppUnlockAt?: string;
+  passkeyFunding?: boolean; // Passkeys may authorize withdrawals instead of the PIN
   
   // KYC Fields
   kycStatus: "NOT_SUBMITTED" | "PENDING" | "VERIFIED" | "APPROVED" | "REJECTED";
@@ -98,17 +105,57 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   useEffect(() => {
     let unsubscribeSnapshot: (() => void) | undefined;
+    let unsubscribeSession: (() => void) | undefined;
     let handlingSuspendedAccount = false;
+    let authGeneration = 0;
+
+    // Another device (or this one) signed this session out
+    const signOutEndedSession = () => {
+      clearCurrentSessionId();
+      signOut(auth).catch((signOutError) => {
+        console.error("Error signing out ended session:", signOutError);
+      });
+    };
 
     const unsubscribeAuth = onAuthStateChanged(auth, (firebaseUser) => {
+      const generation = ++authGeneration;
+
       if (unsubscribeSnapshot) {
         unsubscribeSnapshot();
         unsubscribeSnapshot = undefined;
       }
+      if (unsubscribeSession) {
+        unsubscribeSession();
+        unsubscribeSession = undefined;
+      }
 
       setUser(firebaseUser);
       
       if (firebaseUser) {
+        // Register this device, then watch for it being signed out elsewhere
+        registerSession()
+          .then(() => {
+            if (generation !== authGeneration) return;
+            unsubscribeSession = onSnapshot(
+              doc(db, "memberSessions", getCurrentSessionId()),
+              (sessionSnapshot) => {
+                if ((sessionSnapshot.data() as MemberSession | undefined)?.signedOutAt) {
+                  signOutEndedSession();
+                }
+              },
+              (error) => {
+                console.error("Error listening to session:", error);
+              }
+            );
+          })
+          .catch((error) => {
+            if (error?.code === "functions/unauthenticated" && generation === authGeneration) {
+              signOutEndedSession();
+              return;
+            }
+            console.error("Error registering session:", error);
+          });
+
         // Subscribe to real-time user data updates from Firestore
         const userDocRef = doc(db, "members", firebaseUser.uid);
         
@@ -195,11 +242,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (unsubscribeSnapshot) {
         unsubscribeSnapshot();
       }
+      if (unsubscribeSession) {
+        unsubscribeSession();
+      }
     };
   }, []);
 
   const logout = async () => {
     try {
+      await endCurrentSession().catch((error) => {
+        console.error("Error ending session:", error);
+      });
+      clearCurrentSessionId();
       await signOut(auth);
       setUser(null);
       setUserData(null);
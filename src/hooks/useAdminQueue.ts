@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+
+/**
+ * Loads one admin console queue through its callable
+ * @param loader - e.g. listPendingContracts from lib/adminConsole
+ * @returns Items, loading state, error, and a refresh function to call after an action
+ */
+export function useAdminQueue<T>(loader: () => Promise<T[]>) {
+  const [data, setData] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      setData(await loader());
+      setError(null);
+    } catch (err) {
+      console.error("[Admin] Failed to load queue:", err);
+      setError(err instanceof Error ? err : new Error("Failed to load queue"));
+    } finally {
+      setLoading(false);
+    }
+  }, [loader]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { data, loading, error, refresh };
+}
@@ -0,0 +1,25 @@
+import { useMemo } from "react";
+import { useRealtimeCollection } from "@/hooks/useRealtimeCollection";
+import {
+  CONTRACT_PLANS_COLLECTION,
+  getAllContractPlans,
+  getAvailableContractPlans,
+  setContractPlanCatalog,
+} from "@/lib/contractPlans";
+
+/**
+ * Keeps the contract plan catalog cache in sync with Firestore
+ * @returns All plan versions and the plans currently open for new donations
+ */
+export function useContractPlans() {
+  const { data, loading } = useRealtimeCollection<Record<string, unknown>>(CONTRACT_PLANS_COLLECTION);
+
+  return useMemo(() => {
+    setContractPlanCatalog(data);
+    return {
+      plans: getAllContractPlans(),
+      availablePlans: getAvailableContractPlans(),
+      loading,
+    };
+  }, [data, loading]);
+}
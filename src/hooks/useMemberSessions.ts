@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { MemberSession } from "@/lib/memberSessions";
+
+/**
+ * The member's signed-in devices, most recently seen first
+ */
+export function useMemberSessions(userId: string | null) {
+  const [data, setData] = useState<MemberSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setData([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+
+    const sessionsQuery = query(collection(db, "memberSessions"), where("userId", "==", userId));
+
+    const unsubscribe = onSnapshot(
+      sessionsQuery,
+      (snapshot) => {
+        const sessions = snapshot.docs
+          .map((item) => item.data() as MemberSession)
+          .filter((session) => !session.signedOutAt);
+        sessions.sort((a, b) => new Date(b.lastSeenAt).getTime() - new Date(a.lastSeenAt).getTime());
+
+        setData(sessions);
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Error listening to sessions:", err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  return { data, loading, error };
+}
@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { Passkey, getDevicePasskeyId, isPasskeySupported } from "@/lib/passkeys";
+
+/**
+ * The member's enrolled passkeys, oldest first
+ */
+export function usePasskeys(userId: string | null) {
+  const [data, setData] = useState<Passkey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setData([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+
+    const passkeysQuery = query(collection(db, "passkeys"), where("userId", "==", userId));
+
+    const unsubscribe = onSnapshot(
+      passkeysQuery,
+      (snapshot) => {
+        const passkeys = snapshot.docs.map((item) => item.data() as Passkey);
+        passkeys.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+        setData(passkeys);
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Error listening to passkeys:", err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  return { data, loading, error };
+}
+
+/**
+ * Whether this browser supports passkeys and holds one of the member's
+ * (a passkey removed from another device stops counting right away)
+ */
+export function useDevicePasskey(userId: string | null) {
+  const { data: passkeys, loading } = usePasskeys(userId);
+  const [isSupported, setIsSupported] = useState(false);
+
+  useEffect(() => {
+    void isPasskeySupported().then(setIsSupported);
+  }, []);
+
+  const devicePasskeyId = getDevicePasskeyId();
+  const isEnrolled = passkeys.some((passkey) => passkey.credentialId === devicePasskeyId);
+
+  return { isSupported, isEnrolled: isSupported && isEnrolled, loading };
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from "react";
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { PayoutDestination } from "@/lib/payoutDestinations";
+
+/**
+ * The member's saved payout destinations, oldest first
+ */
+export function usePayoutDestinations(userId: string | null) {
+  const [data, setData] = useState<PayoutDestination[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setData([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    setLoading(true);
+
+    const destinationsQuery = query(collection(db, "payoutDestinations"), where("userId", "==", userId));
+
+    const unsubscribe = onSnapshot(
+      destinationsQuery,
+      (snapshot) => {
+        const destinations = snapshot.docs.map((item) => ({ id: item.id, ...item.data() }) as PayoutDestination);
+        destinations.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+        setData(destinations);
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Error listening to payout destinations:", err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  return { data, loading, error };
+}
@@ -1,6 +1,7 @@
 import { useEffect, useState } from "react";
 import { collection, query, where, onSnapshot } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import { PayoutStatus, PayoutStatusHistoryEntry } from "@/lib/payoutStatus";
 
 export interface PayoutRequest {
   id: string;
@@ -10,14 +11,14 @@ export interface PayoutRequest {
   grossAmount?: number;
   platformFee?: number;
   netAmount?: number;
-  status: "pending" | "processing" | "completed" | "approved" | "failed" | "returned";
+  status: PayoutStatus;
   userFullName: string;
   userPhoneNumber: string;
   userEmail: string;
   withdrawalNumber?: number;
   totalWithdrawals?: number;
   contractPrincipal?: number;
-  withdrawalType?: "MANA_REWARDS" | "CONTRACT";
+  withdrawalType?: "MANA_REWARDS" | "CONTRACT" | "EARLY_TERMINATION";
   isPooled?: boolean;
   periodsWithdrawn?: number;
   withdrawalSessionId?: string;
@@ -28,6 +29,10 @@ export interface PayoutRequest {
   processedAt: string | null;
   processedBy: string | null;
   notes: string;
+  rejectionReason?: string;
+  reviewReasons?: Array<{ rule: string; message: string }>; // pending_review only (withdrawal risk rules)
+  transactionReference?: string;
+  statusHistory?: PayoutStatusHistoryEntry[];
 }
 
 export function useRealtimePayouts(userId: string | null) {
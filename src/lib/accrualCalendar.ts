@@ -0,0 +1,146 @@
+// Accrual calendars for contract periods. Dates are computed in the platform
+// timezone so a period unlocks on the same Manila calendar day for every member.
+// Keep in sync with functions/accrualCalendar.js.
+
+export const PLATFORM_TIMEZONE = "Asia/Manila";
+
+export type AccrualCalendar = "fixed_30_day" | "calendar_month";
+
+export const DEFAULT_ACCRUAL_CALENDAR: AccrualCalendar = "fixed_30_day";
+
+const FIXED_PERIOD_DAYS = 30;
+const DAY_IN_MS = 1000 * 60 * 60 * 24;
+
+type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+};
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, Number(part.value)])
+  );
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: date.getUTCMilliseconds(),
+  };
+};
+
+// Offset of the timezone from UTC at the given instant, in ms
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+  return asUtc - date.getTime();
+};
+
+const fromZonedParts = (parts: ZonedParts, timeZone: string): Date => {
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+  const firstGuess = asUtc - getTimeZoneOffset(new Date(asUtc), timeZone);
+  return new Date(asUtc - getTimeZoneOffset(new Date(firstGuess), timeZone));
+};
+
+const getDaysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+export function isAccrualCalendar(value: unknown): value is AccrualCalendar {
+  return value === "fixed_30_day" || value === "calendar_month";
+}
+
+/**
+ * Same local time `months` calendar months later in the platform timezone.
+ * The day is clamped to the end of shorter months (Jan 31 + 1 month = Feb 28/29).
+ */
+export function addCalendarMonths(start: Date, months: number, timeZone: string = PLATFORM_TIMEZONE): Date {
+  const parts = getZonedParts(start, timeZone);
+  const monthIndex = parts.month - 1 + months;
+  const year = parts.year + Math.floor(monthIndex / 12);
+  const month = (((monthIndex % 12) + 12) % 12) + 1;
+
+  return fromZonedParts({ ...parts, year, month, day: Math.min(parts.day, getDaysInMonth(year, month)) }, timeZone);
+}
+
+/**
+ * Date period `period` (1-based) unlocks for a contract started at `start`
+ */
+export function getPeriodUnlockDate(
+  start: Date,
+  period: number,
+  calendar: AccrualCalendar = DEFAULT_ACCRUAL_CALENDAR
+): Date {
+  if (calendar === "calendar_month") {
+    return addCalendarMonths(start, period);
+  }
+  return new Date(start.getTime() + period * FIXED_PERIOD_DAYS * DAY_IN_MS);
+}
+
+/**
+ * Number of whole periods elapsed between `start` and `now`
+ */
+export function countElapsedPeriods(
+  start: Date,
+  now: Date,
+  calendar: AccrualCalendar = DEFAULT_ACCRUAL_CALENDAR
+): number {
+  if (now < start) return 0;
+
+  if (calendar === "fixed_30_day") {
+    return Math.floor(Math.floor((now.getTime() - start.getTime()) / DAY_IN_MS) / FIXED_PERIOD_DAYS);
+  }
+
+  const startParts = getZonedParts(start, PLATFORM_TIMEZONE);
+  const nowParts = getZonedParts(now, PLATFORM_TIMEZONE);
+  let periods = Math.max(0, (nowParts.year - startParts.year) * 12 + (nowParts.month - startParts.month));
+
+  while (periods > 0 && getPeriodUnlockDate(start, periods, calendar) > now) {
+    periods -= 1;
+  }
+  while (getPeriodUnlockDate(start, periods + 1, calendar) <= now) {
+    periods += 1;
+  }
+
+  return periods;
+}
+
+/**
+ * Whole platform-timezone calendar days from `now` until `date` (negative when past)
+ */
+export function getCalendarDaysUntil(date: Date, now: Date = new Date()): number {
+  const target = getZonedParts(date, PLATFORM_TIMEZONE);
+  const today = getZonedParts(now, PLATFORM_TIMEZONE);
+  return Math.round(
+    (Date.UTC(target.year, target.month - 1, target.day) - Date.UTC(today.year, today.month - 1, today.day)) / DAY_IN_MS
+  );
+}
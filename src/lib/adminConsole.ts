@@ -0,0 +1,193 @@
+import { doc, getDoc } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "./firebase";
+import { DonationContract } from "./donationContract";
+import { KYCManualData } from "./kycService";
+import { PayoutStatus } from "./payoutStatus";
+import { PayoutRequest } from "@/hooks/useRealtimePayouts";
+
+// Client side of functions/adminConsole.js. Every callable re-checks the
+// admins collection, so isAdminUser only decides what the app shows.
+
+export type PayoutAction = "clear" | "approve" | "process" | "complete" | "reject" | "fail" | "return";
+export type KycDecision = "approve" | "reject";
+export type PinResetMode = "unlock" | "reset";
+
+export interface AdminMemberSummary {
+  userId: string;
+  fullName: string | null;
+  email: string | null;
+  phoneNumber: string | null;
+  kycStatus: string;
+  hasPinSetup: boolean;
+  failedPinAttempts: number;
+  pinLockUntil: string | null;
+}
+
+export interface KycQueueItem extends AdminMemberSummary {
+  kycSubmittedAt: string | null;
+  kycIdImageURL: string | null;
+  kycManualData: KYCManualData | null;
+}
+
+export type AdminPayout = PayoutRequest & {
+  userName?: string;
+  userPhone?: string;
+  paymentMethod?: string;
+  gcashNumber?: string;
+};
+
+export interface PayoutBatch {
+  id: string;
+  paymentMethod: string;
+  payoutIds: string[];
+  payoutCount: number;
+  totalAmount: number;
+  fileName: string;
+  status: "exported" | "partially_settled" | "settled";
+  completedCount: number;
+  failedCount: number;
+  createdBy: string;
+  createdAt: string;
+}
+
+export interface PayoutBatchExport {
+  batchId: string;
+  paymentMethod: string;
+  payoutCount: number;
+  totalAmount: number;
+  fileName: string;
+  csv: string;
+}
+
+export interface PayoutSettlementResult {
+  batchId: string;
+  completed: string[];
+  failed: string[];
+  skipped: Array<{ payoutId: string; line: number; reason: string }>;
+  stillProcessing: number;
+}
+
+export interface MaintenanceScheduleInput {
+  enabled: boolean;
+  message: string;
+  startAt: string | null; // ISO
+  endAt: string | null; // ISO
+}
+
+export interface ManaRewardPost {
+  poolId: string;
+  activeCode: string;
+  totalPool: number;
+  expiresAt: string;
+}
+
+/**
+ * Whether the signed-in user has a document in the admins collection
+ * @param userId - Firebase Auth UID
+ */
+export async function isAdminUser(userId: string): Promise<boolean> {
+  const adminSnap = await getDoc(doc(db, "admins", userId));
+  return adminSnap.exists();
+}
+
+async function listQueue<T>(queue: "contracts" | "payouts" | "batches" | "kyc"): Promise<T[]> {
+  const callable = httpsCallable<{ queue: string }, { items: T[] }>(functions, "listAdminQueue");
+  const result = await callable({ queue });
+  return result.data.items;
+}
+
+export const listPendingContracts = () => listQueue<DonationContract>("contracts");
+export const listOpenPayouts = () => listQueue<AdminPayout>("payouts");
+export const listOpenPayoutBatches = () => listQueue<PayoutBatch>("batches");
+export const listPendingKyc = () => listQueue<KycQueueItem>("kyc");
+
+// Status each action moves a payout to (see lib/payoutStatus)
+export const PAYOUT_ACTION_TARGETS: Record<PayoutAction, PayoutStatus> = {
+  clear: "pending",
+  approve: "approved",
+  process: "processing",
+  complete: "completed",
+  reject: "rejected",
+  fail: "failed",
+  return: "returned",
+};
+
+/**
+ * Move a payout along its lifecycle. Reject, fail and return need a reason;
+ * completions can carry the transfer reference.
+ */
+export async function updatePayoutStatus(
+  payoutId: string,
+  action: PayoutAction,
+  options: { reason?: string; reference?: string } = {}
+): Promise<void> {
+  const callable = httpsCallable(functions, "updatePayoutStatus");
+  await callable({ payoutId, action, ...options });
+}
+
+/**
+ * Move every pending/approved payout of one payment method to processing
+ * under a new batch and get its bulk-transfer CSV
+ */
+export async function exportPayoutBatch(paymentMethod: string): Promise<PayoutBatchExport> {
+  const callable = httpsCallable<{ paymentMethod: string }, PayoutBatchExport>(functions, "exportPayoutBatch");
+  const result = await callable({ paymentMethod });
+  return result.data;
+}
+
+/**
+ * Apply the bank's result file to a batch (Reference and Status columns,
+ * optional Transaction Reference and Remarks)
+ */
+export async function importPayoutSettlement(batchId: string, csv: string): Promise<PayoutSettlementResult> {
+  const callable = httpsCallable<{ batchId: string; csv: string }, PayoutSettlementResult>(
+    functions,
+    "importPayoutSettlement"
+  );
+  const result = await callable({ batchId, csv });
+  return result.data;
+}
+
+/**
+ * Verify or reject a pending KYC submission
+ * @param reason - Required when rejecting; shown to the member
+ */
+export async function reviewKycSubmission(userId: string, decision: KycDecision, reason?: string): Promise<void> {
+  const callable = httpsCallable(functions, "reviewKycSubmission");
+  await callable({ userId, decision, reason: reason || null });
+}
+
+/**
+ * Find a member by UID or email
+ */
+export async function lookupMember(identifier: string): Promise<AdminMemberSummary> {
+  const callable = httpsCallable<{ identifier: string }, AdminMemberSummary>(functions, "lookupMember");
+  const result = await callable({ identifier: identifier.trim() });
+  return result.data;
+}
+
+/**
+ * "unlock" clears a PIN lockout; "reset" also clears the PIN so the member sets a new one
+ */
+export async function resetMemberPin(userId: string, mode: PinResetMode): Promise<void> {
+  const callable = httpsCallable(functions, "resetMemberPin");
+  await callable({ userId, mode });
+}
+
+/**
+ * Replace the active MANA reward with a new code and pool
+ */
+export async function postManaReward(code: string, totalPool: number, expiresInHours: number): Promise<ManaRewardPost> {
+  const callable = httpsCallable<
+    { code: string; totalPool: number; expiresInHours: number },
+    ManaRewardPost
+  >(functions, "postManaReward");
+  const result = await callable({ code, totalPool, expiresInHours });
+  return result.data;
+}
+
+export async function setMaintenanceSchedule(schedule: MaintenanceScheduleInput): Promise<void> {
+  const callable = httpsCallable(functions, "setMaintenanceSchedule");
+  await callable(schedule);
+}
@@ -0,0 +1,241 @@
+import { db } from "./firebase";
+import { collection, getDocs } from "firebase/firestore";
+import { AccrualCalendar, DEFAULT_ACCRUAL_CALENDAR, isAccrualCalendar } from "./accrualCalendar";
+
+// Versioned contract plan catalog. Each doc in `contractPlans` is one immutable
+// version of a plan ({planId}_v{version}); editing a plan means adding a new
+// version, so contracts keep the terms of the version they were created under.
+// Keep in sync with functions/contractMath.js.
+
+export const CONTRACT_PLANS_COLLECTION = "contractPlans";
+
+export interface ContractPlanConfig {
+  type: string; // Plan ID stored on contracts as contractType
+  version: number;
+  label: string;
+  title: string;
+  description: string;
+  durationMonths: number;
+  compoundLockIn: boolean;
+  periodicRate: number;
+  withdrawalSlots: number;
+  accrualCalendar: AccrualCalendar; // How periods are counted from the start date
+  claimWindowDays: number; // Days after the end date that accrued funds stay claimable (monthly plans)
+  earlyTerminationPenaltyRate: number; // Share of the current value kept on early exit (lock-in plans)
+  minAmount: number;
+  maxAmount: number | null;
+  availableFrom: string | null; // ISO string, null = no start limit
+  availableUntil: string | null; // ISO string, null = no end limit
+  sortOrder?: number;
+}
+
+export const DEFAULT_CONTRACT_PLAN_TYPE = "monthly_12_no_principal";
+export const DEFAULT_CLAIM_WINDOW_DAYS = 30;
+export const DEFAULT_EARLY_TERMINATION_PENALTY_RATE = 0.2;
+export const DEFAULT_PLAN_MIN_AMOUNT = 1000;
+
+// Version 1 of the original plans. Contracts created before the catalog have no
+// planVersion and resolve here.
+const BUILT_IN_PLANS: ContractPlanConfig[] = [
+  {
+    type: "monthly_12_no_principal",
+    version: 1,
+    label: "30% Monthly for 1 Year (Principal Unchanged)",
+    title: "30% Monthly for 1 Year",
+    description: "Withdraw every 30 days; principal remains unchanged.",
+    durationMonths: 12,
+    compoundLockIn: false,
+    periodicRate: 0.3,
+    withdrawalSlots: 12,
+    accrualCalendar: "fixed_30_day",
+    claimWindowDays: DEFAULT_CLAIM_WINDOW_DAYS,
+    earlyTerminationPenaltyRate: DEFAULT_EARLY_TERMINATION_PENALTY_RATE,
+    minAmount: DEFAULT_PLAN_MIN_AMOUNT,
+    maxAmount: null,
+    availableFrom: null,
+    availableUntil: null,
+    sortOrder: 1,
+  },
+  {
+    type: "lockin_6_compound",
+    version: 1,
+    label: "6-Month Lock-In (30% Monthly Compounded)",
+    title: "6-Month Lock-In (Compounded)",
+    description: "No withdrawals for 6 months; returns are compounded monthly.",
+    durationMonths: 6,
+    compoundLockIn: true,
+    periodicRate: 0.3,
+    withdrawalSlots: 1,
+    accrualCalendar: "fixed_30_day",
+    claimWindowDays: DEFAULT_CLAIM_WINDOW_DAYS,
+    earlyTerminationPenaltyRate: DEFAULT_EARLY_TERMINATION_PENALTY_RATE,
+    minAmount: DEFAULT_PLAN_MIN_AMOUNT,
+    maxAmount: null,
+    availableFrom: null,
+    availableUntil: null,
+    sortOrder: 2,
+  },
+  {
+    type: "lockin_12_compound",
+    version: 1,
+    label: "12-Month Lock-In (30% Monthly Compounded)",
+    title: "12-Month Lock-In (Compounded)",
+    description: "No withdrawals for 12 months; returns are compounded monthly.",
+    durationMonths: 12,
+    compoundLockIn: true,
+    periodicRate: 0.3,
+    withdrawalSlots: 1,
+    accrualCalendar: "fixed_30_day",
+    claimWindowDays: DEFAULT_CLAIM_WINDOW_DAYS,
+    earlyTerminationPenaltyRate: DEFAULT_EARLY_TERMINATION_PENALTY_RATE,
+    minAmount: DEFAULT_PLAN_MIN_AMOUNT,
+    maxAmount: null,
+    availableFrom: null,
+    availableUntil: null,
+    sortOrder: 3,
+  },
+];
+
+const getPlanKey = (type: string, version: number) => `${type}_v${version}`;
+
+let planCatalog = new Map<string, ContractPlanConfig>(
+  BUILT_IN_PLANS.map((plan) => [getPlanKey(plan.type, plan.version), plan])
+);
+
+const toPlanConfig = (data: Record<string, unknown>): ContractPlanConfig | null => {
+  const type = typeof data.planId === "string" ? data.planId : "";
+  const version = Number(data.version);
+  const durationMonths = Number(data.durationMonths);
+  const periodicRate = Number(data.periodicRate);
+
+  if (!type || !Number.isInteger(version) || version < 1 || !(durationMonths > 0) || !(periodicRate >= 0)) {
+    return null;
+  }
+
+  const label = String(data.label || type);
+  const maxAmount = data.maxAmount === null || data.maxAmount === undefined ? null : Number(data.maxAmount);
+
+  return {
+    type,
+    version,
+    label,
+    title: String(data.title || label),
+    description: String(data.description || ""),
+    durationMonths,
+    compoundLockIn: Boolean(data.compoundLockIn),
+    periodicRate,
+    withdrawalSlots: Math.max(1, Number(data.withdrawalSlots) || 1),
+    accrualCalendar: isAccrualCalendar(data.accrualCalendar) ? data.accrualCalendar : DEFAULT_ACCRUAL_CALENDAR,
+    claimWindowDays:
+      data.claimWindowDays === undefined || data.claimWindowDays === null
+        ? DEFAULT_CLAIM_WINDOW_DAYS
+        : Math.max(0, Number(data.claimWindowDays) || 0),
+    earlyTerminationPenaltyRate:
+      data.earlyTerminationPenaltyRate === undefined || data.earlyTerminationPenaltyRate === null
+        ? DEFAULT_EARLY_TERMINATION_PENALTY_RATE
+        : Math.min(1, Math.max(0, Number(data.earlyTerminationPenaltyRate) || 0)),
+    minAmount:
+      data.minAmount === undefined || data.minAmount === null
+        ? DEFAULT_PLAN_MIN_AMOUNT
+        : Math.max(0, Number(data.minAmount) || 0),
+    maxAmount: maxAmount !== null && Number.isFinite(maxAmount) ? maxAmount : null,
+    availableFrom: typeof data.availableFrom === "string" ? data.availableFrom : null,
+    availableUntil: typeof data.availableUntil === "string" ? data.availableUntil : null,
+    sortOrder: Number.isFinite(Number(data.sortOrder)) ? Number(data.sortOrder) : undefined,
+  };
+};
+
+/**
+ * Replace the cached catalog with plan documents from Firestore.
+ * Built-in version 1 plans stay available unless a document overrides them.
+ */
+export function setContractPlanCatalog(docs: Array<Record<string, unknown>>): void {
+  const next = new Map<string, ContractPlanConfig>(
+    BUILT_IN_PLANS.map((plan) => [getPlanKey(plan.type, plan.version), plan])
+  );
+
+  docs.forEach((data) => {
+    const plan = toPlanConfig(data);
+    if (plan) {
+      next.set(getPlanKey(plan.type, plan.version), plan);
+    }
+  });
+
+  planCatalog = next;
+}
+
+/**
+ * Fetch the plan catalog from Firestore into the cache
+ * @returns All plan versions
+ */
+export async function loadContractPlanCatalog(): Promise<ContractPlanConfig[]> {
+  const snapshot = await getDocs(collection(db, CONTRACT_PLANS_COLLECTION));
+  setContractPlanCatalog(snapshot.docs.map((docSnap) => docSnap.data()));
+  return getAllContractPlans();
+}
+
+export function getAllContractPlans(): ContractPlanConfig[] {
+  return Array.from(planCatalog.values());
+}
+
+export function isKnownContractPlan(type: string): boolean {
+  return getAllContractPlans().some((plan) => plan.type === type);
+}
+
+/**
+ * Latest cached version of a plan, regardless of availability
+ */
+export function getLatestContractPlan(type: string): ContractPlanConfig | null {
+  return getAllContractPlans()
+    .filter((plan) => plan.type === type)
+    .reduce<ContractPlanConfig | null>((latest, plan) => (!latest || plan.version > latest.version ? plan : latest), null);
+}
+
+/**
+ * Resolve the terms of a specific plan version. Falls back to the latest cached
+ * version when that version has not been loaded yet.
+ */
+export function resolveContractPlan(type: string, version: number = 1): ContractPlanConfig {
+  return (
+    planCatalog.get(getPlanKey(type, version)) ||
+    getLatestContractPlan(type) ||
+    (planCatalog.get(getPlanKey(DEFAULT_CONTRACT_PLAN_TYPE, 1)) as ContractPlanConfig)
+  );
+}
+
+export function isContractPlanAvailable(plan: ContractPlanConfig, now: Date = new Date()): boolean {
+  if (plan.availableFrom && now < new Date(plan.availableFrom)) return false;
+  if (plan.availableUntil && now > new Date(plan.availableUntil)) return false;
+  return true;
+}
+
+/**
+ * Plans that can be selected for a new contract: the latest version of each
+ * plan, if it is inside its availability window
+ */
+export function getAvailableContractPlans(now: Date = new Date()): ContractPlanConfig[] {
+  const types = Array.from(new Set(getAllContractPlans().map((plan) => plan.type)));
+
+  return types
+    .map((type) => getLatestContractPlan(type) as ContractPlanConfig)
+    .filter((plan) => isContractPlanAvailable(plan, now))
+    .sort((a, b) => (a.sortOrder ?? Number.MAX_SAFE_INTEGER) - (b.sortOrder ?? Number.MAX_SAFE_INTEGER));
+}
+
+/**
+ * Current version of a plan for a new contract
+ * @throws Error when the plan does not exist or is outside its availability window
+ */
+export function getCurrentContractPlan(type: string, now: Date = new Date()): ContractPlanConfig {
+  const plan = getLatestContractPlan(type);
+
+  if (!plan) {
+    throw new Error(`Unknown contract plan: ${type}`);
+  }
+
+  if (!isContractPlanAvailable(plan, now)) {
+    throw new Error(`${plan.title} is not available for new donations`);
+  }
+
+  return plan;
+}
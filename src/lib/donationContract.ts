@@ -1,56 +1,34 @@
-import { db } from "./firebase";
-import { collection, addDoc, doc, updateDoc, getDoc, serverTimestamp, writeBatch } from "firebase/firestore";
-import { verifyPin } from "./pinSecurity";
-import { canUserWithdraw } from "./kycService";
-
+import { functions } from "./firebase";
+import { httpsCallable } from "firebase/functions";
+import type { PayoutStatus } from "./payoutStatus";
+import {
+  ContractPlanConfig,
+  DEFAULT_CONTRACT_PLAN_TYPE,
+  isKnownContractPlan,
+  resolveContractPlan,
+} from "./contractPlans";
+import {
+  addCalendarMonths,
+  countElapsedPeriods,
+  getCalendarDaysUntil,
+  getPeriodUnlockDate,
+} from "./accrualCalendar";
+
+const DAY_IN_MS = 1000 * 60 * 60 * 24;
+
+// Built-in plan IDs; the catalog in `contractPlans` can add more
 export type DonationContractType =
   | "monthly_12_no_principal"
   | "lockin_6_compound"
-  | "lockin_12_compound";
-
-type ContractPlanConfig = {
-  type: DonationContractType;
-  label: string;
-  durationMonths: number;
-  compoundLockIn: boolean;
-  periodicRate: number;
-  withdrawalSlots: number;
-};
-
-const MONTHLY_PERIOD_DAYS = 30;
-
-const CONTRACT_PLAN_CONFIG: Record<DonationContractType, ContractPlanConfig> = {
-  monthly_12_no_principal: {
-    type: "monthly_12_no_principal",
-    label: "30% Monthly for 1 Year (Principal Unchanged)",
-    durationMonths: 12,
-    compoundLockIn: false,
-    periodicRate: 0.3,
-    withdrawalSlots: 12,
-  },
-  lockin_6_compound: {
-    type: "lockin_6_compound",
-    label: "6-Month Lock-In (30% Monthly Compounded)",
-    durationMonths: 6,
-    compoundLockIn: true,
-    periodicRate: 0.3,
-    withdrawalSlots: 1,
-  },
-  lockin_12_compound: {
-    type: "lockin_12_compound",
-    label: "12-Month Lock-In (30% Monthly Compounded)",
-    durationMonths: 12,
-    compoundLockIn: true,
-    periodicRate: 0.3,
-    withdrawalSlots: 1,
-  },
-};
+  | "lockin_12_compound"
+  | (string & {});
 
 export interface DonationContract {
   id?: string;
   userId: string;
   donationAmount: number; // Principal - NEVER changes
   contractType?: DonationContractType;
+  planVersion?: number; // Catalog version the contract was created under (missing = 1)
   verifiedAmount?: number | null; // Admin-verified principal when adjusted
   discrepancyAmount?: number | null; // Difference between submitted and verified amount
   hasDiscrepancy?: boolean; // Flag for adjusted approvals
@@ -63,7 +41,7 @@ export interface DonationContract {
   withdrawalsCount: number; // 0-12 (deprecated, kept for backwards compatibility)
   totalWithdrawn?: number; // Actual total amount withdrawn (replaces period counting)
   contractEndDate: string | null; // ISO string (donationStartDate + 1 year) - Set when approved
-  status: "pending" | "active" | "approved" | "completed" | "expired" | "rejected";
+  status: "pending" | "active" | "approved" | "completed" | "expired" | "rejected" | "terminated";
   receiptURL?: string;
   receiptPath?: string;
   rejectionReason?: string | null;
@@ -71,6 +49,55 @@ export interface DonationContract {
   createdAt: string;
   approvedAt?: string | null; // When admin approved
   approvedBy?: string | null; // Admin user ID
+  expiredAt?: string | null; // When the claim window closed (monthly plans)
+  forfeitedAmount?: number | null; // Accrued funds left unclaimed at expiry
+  terminationStatus?: "requested" | "approved" | "rejected" | null; // Early termination (lock-in plans)
+  terminationPayoutId?: string | null;
+  terminationRequestedAt?: string | null;
+  terminationPreviousLastWithdrawalDate?: string | null; // Restored if the request is rejected
+  terminatedAt?: string | null;
+  earlyTerminationQuote?: EarlyTerminationQuote | null; // Quote the request was made on
+  rolloverMode?: ContractRolloverMode; // What the daily rollover reinvests (missing = none)
+  parentContractId?: string | null; // Contract this one was rolled over from
+  lastRolloverAt?: string | null;
+  rolloverSkippedReason?: string | null; // Why the last rollover attempt did not run
+  fundingSources?: ContractFundingSource[]; // Where a re-donated principal came from
+  fundedContracts?: ContractFundedLink[]; // Re-donations this contract paid into
+}
+
+export interface ContractFundingSource {
+  type: "contract" | "mana";
+  contractId?: string; // Set when type is "contract"
+  amount: number;
+}
+
+export interface ContractFundedLink {
+  contractId: string;
+  amount: number;
+  fundedAt: string;
+}
+
+export interface ContractLineageNode {
+  contractId: string | null; // null for MANA balance
+  contract: DonationContract | null; // null for MANA or a contract not loaded
+  amount: number; // Amount this source contributed to its child
+  isReceiptBacked: boolean;
+  isUntracked: boolean; // Re-donated before funding sources were recorded
+  sources: ContractLineageNode[];
+}
+
+// Auto-rollover at maturity / each unlock (see functions/contractRollover.js)
+export type ContractRolloverMode = "none" | "principal_and_returns" | "returns_only";
+
+export interface EarlyTerminationQuote {
+  monthsElapsed: number; // Whole periods compounded so far
+  principal: number;
+  accruedReturns: number;
+  currentValue: number; // principal + accruedReturns
+  penaltyRate: number;
+  penaltyAmount: number;
+  totalWithdrawn: number;
+  payoutAmount: number; // currentValue - penaltyAmount - totalWithdrawn
 }
 
 export interface ContractAdjustmentDetails {
@@ -88,14 +115,17 @@ const toSafeAmount = (value: unknown): number => {
 
 export function getContractType(contract: DonationContract): DonationContractType {
   const value = contract.contractType;
-  if (value && value in CONTRACT_PLAN_CONFIG) {
+  if (value && isKnownContractPlan(value)) {
     return value;
   }
-  return "monthly_12_no_principal";
+  return DEFAULT_CONTRACT_PLAN_TYPE;
 }
 
+/**
+ * Plan terms for a contract, resolved against the catalog version it was created under
+ */
 export function getContractPlanConfig(contract: DonationContract): ContractPlanConfig {
-  return CONTRACT_PLAN_CONFIG[getContractType(contract)];
+  return resolveContractPlan(getContractType(contract), contract.planVersion ?? 1);
 }
 
 export function getContractPlanLabel(contract: DonationContract): string {
@@ -128,20 +158,36 @@ export function getContractWithdrawalSlots(contract: DonationContract): number {
   return getContractPlanConfig(contract).withdrawalSlots;
 }
 
+/**
+ * Contract end date: durationMonths calendar months after the start (Asia/Manila),
+ * clamped to the end of shorter months
+ */
+export function calculateContractEndDate(startDate: Date, plan: ContractPlanConfig): Date {
+  return addCalendarMonths(startDate, plan.durationMonths);
+}
+
+/**
+ * Last moment accrued funds of a monthly contract can be claimed: the end date
+ * plus the plan's claim window
+ * @returns Claim deadline, or null for lock-in plans (matured funds do not lapse)
+ */
+export function getContractClaimDeadline(contract: DonationContract): Date | null {
+  if (!contract.contractEndDate) return null;
+  const plan = getContractPlanConfig(contract);
+  if (plan.compoundLockIn) return null;
+  return new Date(new Date(contract.contractEndDate).getTime() + plan.claimWindowDays * DAY_IN_MS);
+}
+
 export function getContractUnlockDate(contract: DonationContract): Date | null {
   if (!contract.donationStartDate) return null;
   const startDate = new Date(contract.donationStartDate);
   const plan = getContractPlanConfig(contract);
 
   if (plan.compoundLockIn) {
-    const unlockDate = new Date(startDate);
-    unlockDate.setMonth(unlockDate.getMonth() + plan.durationMonths);
-    return unlockDate;
+    return contract.contractEndDate ? new Date(contract.contractEndDate) : calculateContractEndDate(startDate, plan);
   }
 
-  const firstWithdrawalDate = new Date(startDate);
-  firstWithdrawalDate.setDate(firstWithdrawalDate.getDate() + MONTHLY_PERIOD_DAYS);
-  return firstWithdrawalDate;
+  return getPeriodUnlockDate(startDate, 1, plan.accrualCalendar);
 }
 
 export function getContractAdjustmentDetails(contract: DonationContract): ContractAdjustmentDetails {
@@ -176,82 +222,89 @@ export function getContractPrincipal(contract: DonationContract): number {
   return getContractAdjustmentDetails(contract).approvedAmount;
 }
 
+/**
+ * Total withdrawn so far, falling back to withdrawalsCount periods for
+ * contracts written before totalWithdrawn existed.
+ * Mirrors getContractTotalWithdrawn in functions/contractMath.js
+ */
+export function getContractTotalWithdrawn(contract: DonationContract): number {
+  const amountPerPeriod = getContractPrincipal(contract) * getContractPlanConfig(contract).periodicRate;
+  return contract.totalWithdrawn ?? (Number(contract.withdrawalsCount || 0) * amountPerPeriod);
+}
+
 export function hasAdjustedApproval(contract: DonationContract): boolean {
   return getContractAdjustmentDetails(contract).isAdjusted;
 }
 
 /**
- * Create a new donation contract
- * @param userId - User's Firebase UID
+ * Create a new donation contract (pending until an admin approves the receipt).
+ * The createDonationContract callable re-checks the plan and donation limits.
  * @param amount - Donation amount
  * @param paymentMethod - Payment method used
+ * @param contractType - Plan ID from the contract plan catalog
  * @param receiptURL - Receipt image URL
  * @param receiptPath - Receipt storage path
+ * @param idempotencyKey - Client-generated key; a replay returns the original contract ID
  * @returns Contract ID
  */
 export async function donate(
-  userId: string,
   amount: number,
   paymentMethod: string,
-  contractType: DonationContractType = "monthly_12_no_principal",
+  contractType: DonationContractType = DEFAULT_CONTRACT_PLAN_TYPE,
   receiptURL?: string,
-  receiptPath?: string
+  receiptPath?: string,
+  idempotencyKey?: string
 ): Promise<string> {
   if (amount <= 0) {
     throw new Error("Donation amount must be greater than zero");
   }
 
-  const now = new Date();
-  const createdDate = now.toISOString();
-
-  const contract: Omit<DonationContract, "id"> = {
-    userId,
-    donationAmount: amount,
-    contractType,
-    donationStartDate: null, // Will be set when admin approves
-    lastWithdrawalDate: null,
-    withdrawalsCount: 0,
-    totalWithdrawn: 0, // Track actual amount withdrawn
-    contractEndDate: null, // Will be set when admin approves
-    status: "pending", // Awaiting admin approval
+  const callable = httpsCallable<
+    {
+      amount: number;
+      paymentMethod: string;
+      contractType: string;
+      receiptURL: string | null;
+      receiptPath: string | null;
+      idempotencyKey: string | null;
+    },
+    { contractId: string }
+  >(functions, "createDonationContract");
+
+  const result = await callable({
+    amount,
     paymentMethod,
-    receiptURL,
-    receiptPath,
-    createdAt: createdDate,
-    approvedAt: null,
-    approvedBy: null,
-  };
+    contractType,
+    receiptURL: receiptURL || null,
+    receiptPath: receiptPath || null,
+    idempotencyKey: idempotencyKey || null,
+  });
 
-  const docRef = await addDoc(collection(db, "donationContracts"), contract);
-  return docRef.id;
+  return result.data.contractId;
 }
 
 /**
- * Create a donation contract using the user's withdrawable pool (contracts + MANA balance)
- * @param userId - User's Firebase UID
+ * Create a donation contract using the user's withdrawable pool (contracts + MANA balance).
+ * The createPoolRedonation callable recomputes the pool and applies the drawdowns.
  * @param amount - Amount to re-donate from withdrawable pool
  * @param contractType - Selected contract type
  * @param contracts - Current list of user's contracts
  * @param userBalance - Current user MANA/reward balance
+ * @param idempotencyKey - Client-generated key; a replay returns the original contract ID
  * @returns New contract ID
  */
 export async function donateFromWithdrawablePool(
-  userId: string,
   amount: number,
   contractType: DonationContractType,
   contracts: DonationContract[],
-  userBalance: number = 0
+  userBalance: number = 0,
+  idempotencyKey?: string
 ): Promise<string> {
   if (amount <= 0) {
     throw new Error("Donation amount must be greater than zero");
   }
 
-  const safeContracts = contracts.filter((contract) => contract.userId === userId);
-  const {
-    totalAmount: totalWithdrawable,
-    contractWithdrawals,
-    eligibleContracts,
-  } = calculateTotalWithdrawable(safeContracts, userBalance);
+  const { totalAmount: totalWithdrawable } = calculateTotalWithdrawable(contracts, userBalance);
 
   if (amount > totalWithdrawable) {
     throw new Error(
@@ -259,125 +312,73 @@ export async function donateFromWithdrawablePool(
     );
   }
 
-  const userRef = doc(db, "members", userId);
-  const userSnap = await getDoc(userRef);
-
-  if (!userSnap.exists()) {
-    throw new Error("User not found");
-  }
-
-  const liveUserData = userSnap.data();
-  const liveBalance = Number(liveUserData.balance || 0);
-
-  const amountFromContracts = Math.min(amount, contractWithdrawals);
-  const amountFromBalance = Math.max(0, amount - amountFromContracts);
-
-  if (amountFromBalance > liveBalance) {
-    throw new Error("Insufficient MANA balance for this re-donation amount");
-  }
-
-  const now = new Date();
-  const timestamp = now.toISOString();
-  const endDate = new Date(now);
-  const selectedPlan = CONTRACT_PLAN_CONFIG[contractType];
-  endDate.setMonth(endDate.getMonth() + selectedPlan.durationMonths);
-
-  const batch = writeBatch(db);
-
-  if (amountFromContracts > 0) {
-    const distribution = distributeWithdrawalAmount(amountFromContracts, eligibleContracts);
-
-    for (const item of distribution) {
-      const { contract, amount: consumedAmount } = item;
+  const callable = httpsCallable<
+    { amount: number; contractType: string; idempotencyKey: string | null },
+    { contractId: string }
+  >(functions, "createPoolRedonation");
 
-      if (!contract.id) {
-        throw new Error("Contract ID missing for withdrawable pool re-donation");
-      }
+  const result = await callable({
+    amount,
+    contractType,
+    idempotencyKey: idempotencyKey || null,
+  });
 
-      const plan = getContractPlanConfig(contract);
-      const amountPerPeriod = getContractPrincipal(contract) * plan.periodicRate;
-      const maxTotalWithdrawal = getContractMaxTotalWithdrawal(contract);
-      const currentTotalWithdrawn = contract.totalWithdrawn ?? (contract.withdrawalsCount * amountPerPeriod);
-      const newTotalWithdrawn = currentTotalWithdrawn + consumedAmount;
-      const equivalentPeriods = plan.compoundLockIn
-        ? (newTotalWithdrawn > 0 ? 1 : 0)
-        : Math.ceil(newTotalWithdrawn / amountPerPeriod);
-      const newStatus = newTotalWithdrawn >= maxTotalWithdrawal ? "completed" : contract.status;
-
-      batch.update(doc(db, "donationContracts", contract.id), {
-        totalWithdrawn: newTotalWithdrawn,
-        withdrawalsCount: equivalentPeriods,
-        lastWithdrawalDate: timestamp,
-        status: newStatus,
-      });
-    }
-  }
+  return result.data.contractId;
+}
 
-  if (amountFromBalance > 0) {
-    batch.update(userRef, {
-      balance: Math.max(0, liveBalance - amountFromBalance),
-    });
-  }
+export type ContractReviewDecision = "approve" | "approve_adjusted" | "reject";
 
-  const newContractRef = doc(collection(db, "donationContracts"));
-  const newContract: Omit<DonationContract, "id"> = {
-    userId,
-    donationAmount: amount,
-    contractType,
-    donationStartDate: timestamp,
-    lastWithdrawalDate: null,
-    withdrawalsCount: 0,
-    totalWithdrawn: 0,
-    contractEndDate: endDate.toISOString(),
-    status: "active",
-    paymentMethod: "redonate_pool",
-    createdAt: timestamp,
-    approvedAt: timestamp,
-    approvedBy: "system_redonate_pool",
-  };
+export interface ContractReviewResult {
+  contractId: string;
+  decision: ContractReviewDecision;
+  approvedAmount: number | null;
+  reviewId: string;
+}
 
-  batch.set(newContractRef, newContract);
-  await batch.commit();
+const reviewContract = async (input: {
+  contractId: string;
+  decision: ContractReviewDecision;
+  verifiedAmount?: number;
+  note?: string;
+  rejectionReason?: string;
+}): Promise<ContractReviewResult> => {
+  const callable = httpsCallable<typeof input, ContractReviewResult>(functions, "reviewDonationContract");
+  const result = await callable(input);
+  return result.data;
+};
 
-  return newContractRef.id;
+/**
+ * Approve a pending contract at the submitted amount (Admin only)
+ * @param contractId - Contract document ID
+ * @returns Review result from the reviewDonationContract function
+ */
+export async function approveContract(contractId: string): Promise<ContractReviewResult> {
+  return reviewContract({ contractId, decision: "approve" });
 }
 
 /**
- * Approve a pending contract (Admin only)
+ * Approve a pending contract at the amount verified on the receipt (Admin only)
  * @param contractId - Contract document ID
- * @param adminUserId - Admin user ID
- * @returns Updated contract
+ * @param verifiedAmount - Principal the contract starts with
+ * @param note - Explanation shown to the member
+ * @returns Review result from the reviewDonationContract function
  */
-export async function approveContract(
+export async function approveContractAdjusted(
   contractId: string,
-  adminUserId: string
-): Promise<void> {
-  const contractRef = doc(db, "donationContracts", contractId);
-  const contractSnap = await getDoc(contractRef);
-
-  if (!contractSnap.exists()) {
-    throw new Error("Contract not found");
-  }
-
-  const contract = contractSnap.data() as DonationContract;
-
-  if (contract.status !== "pending") {
-    throw new Error("Contract is not pending approval");
-  }
+  verifiedAmount: number,
+  note: string
+): Promise<ContractReviewResult> {
+  return reviewContract({ contractId, decision: "approve_adjusted", verifiedAmount, note });
+}
 
-  const now = new Date();
-  const startDate = now.toISOString();
-  const endDate = new Date(now);
-  const plan = getContractPlanConfig(contract);
-  endDate.setMonth(endDate.getMonth() + plan.durationMonths);
-
-  await updateDoc(contractRef, {
-    status: "active",
-    donationStartDate: startDate,
-    contractEndDate: endDate.toISOString(),
-    approvedAt: startDate,
-    approvedBy: adminUserId,
-  });
+/**
+ * Reject a pending contract (Admin only)
+ * @param contractId - Contract document ID
+ * @param rejectionReason - Reason shown to the member
+ * @returns Review result from the reviewDonationContract function
+ */
+export async function rejectContract(contractId: string, rejectionReason: string): Promise<ContractReviewResult> {
+  return reviewContract({ contractId, decision: "reject", rejectionReason });
 }
 
 /**
@@ -389,6 +390,7 @@ export function canWithdraw(contract: DonationContract): {
   canWithdraw: boolean;
   reason: string;
   nextWithdrawalDate?: Date;
+  claimDeadline?: Date;
   availablePeriods?: number;
   availableAmount?: number;
 } {
@@ -403,6 +405,18 @@ export function canWithdraw(contract: DonationContract): {
       availableAmount: 0,
     };
   }
+
+  if (contract.status === "terminated" || contract.terminationStatus === "requested") {
+    return {
+      canWithdraw: false,
+      reason:
+        contract.status === "terminated"
+          ? "Contract was terminated early"
+          : "Early termination request pending admin review",
+      availablePeriods: 0,
+      availableAmount: 0,
+    };
+  }
   
   // Check if dates are set (should be set after approval)
   if (!contract.donationStartDate || !contract.contractEndDate) {
@@ -451,11 +465,14 @@ export function canWithdraw(contract: DonationContract): {
     };
   }
 
-  // Check if contract is expired
-  if (now > endDate) {
+  // Past the end date, accrued funds stay claimable until the claim deadline
+  const claimDeadline = getContractClaimDeadline(contract) as Date;
+  const isInClaimWindow = now > endDate;
+
+  if (now > claimDeadline) {
     return {
       canWithdraw: false,
-      reason: "Contract has expired (1 year period ended)",
+      reason: "Contract has expired (claim window ended)",
       availablePeriods: 0,
       availableAmount: 0,
     };
@@ -471,9 +488,9 @@ export function canWithdraw(contract: DonationContract): {
     };
   }
 
-  // Calculate accumulated withdrawable funds based on time elapsed
-  const daysSinceStart = Math.floor((now.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
-  const periodsElapsed = Math.floor(daysSinceStart / 30);
+  // Calculate accumulated withdrawable funds based on periods elapsed on the plan's accrual calendar
+  const periodsElapsed = countElapsedPeriods(startDate, now, plan.accrualCalendar);
+  const isCalendarMonth = plan.accrualCalendar === "calendar_month";
   
   // Amount per period (30% of donation)
   const amountPerPeriod = getContractPrincipal(contract) * plan.periodicRate;
@@ -492,13 +509,14 @@ export function canWithdraw(contract: DonationContract): {
   // Calculate equivalent periods for backwards compatibility
   const availablePeriods = amountPerPeriod > 0 ? Math.floor(availableAmount / amountPerPeriod) : 0;
   
-  // Check if first period has unlocked yet (30 days after start)
+  // Check if first period has unlocked yet (one period after start)
   if (periodsElapsed < 1) {
-    const firstWithdrawalDate = new Date(startDate);
-    firstWithdrawalDate.setDate(firstWithdrawalDate.getDate() + 30);
+    const firstWithdrawalDate = getPeriodUnlockDate(startDate, 1, plan.accrualCalendar);
     return {
       canWithdraw: false,
-      reason: "Must wait 30 days after donation before first withdrawal",
+      reason: isCalendarMonth
+        ? "Must wait one month after donation before first withdrawal"
+        : "Must wait 30 days after donation before first withdrawal",
       nextWithdrawalDate: firstWithdrawalDate,
       availablePeriods: 0,
       availableAmount: 0,
@@ -508,7 +526,13 @@ export function canWithdraw(contract: DonationContract): {
   if (availableAmount > 0) {
     return {
       canWithdraw: true,
-      reason: `${availableAmount.toFixed(2)} KOLI available to withdraw`,
+      reason: isInClaimWindow
+        ? `${availableAmount.toFixed(2)} KOLI unclaimed. Contract ended; withdraw within ${Math.max(
+            0,
+            getCalendarDaysUntil(claimDeadline, now)
+          )} days or it will be forfeited`
+        : `${availableAmount.toFixed(2)} KOLI available to withdraw`,
+      claimDeadline: isInClaimWindow ? claimDeadline : undefined,
       availablePeriods,
       availableAmount,
     };
@@ -516,14 +540,13 @@ export function canWithdraw(contract: DonationContract): {
   
   // Check if completed or just need to wait
   const isCompleted = totalWithdrawn >= maxTotalWithdrawal;
-  const nextWithdrawalDate = new Date(startDate);
-  nextWithdrawalDate.setDate(nextWithdrawalDate.getDate() + ((periodsElapsed + 1) * 30));
+  const nextWithdrawalDate = getPeriodUnlockDate(startDate, periodsElapsed + 1, plan.accrualCalendar);
 
   return {
     canWithdraw: false,
     reason: isCompleted
       ? "All funds withdrawn (3.6x donation limit reached)"
-      : `Next funds available in ${30 - (daysSinceStart % 30)} days`,
+      : `Next funds available in ${Math.max(1, getCalendarDaysUntil(nextWithdrawalDate, now))} days`,
     nextWithdrawalDate: isCompleted ? undefined : nextWithdrawalDate,
     availablePeriods: 0,
     availableAmount: 0,
@@ -531,152 +554,60 @@ export function canWithdraw(contract: DonationContract): {
 }
 
 /**
- * Process a withdrawal from a contract
- * @param contractId - Contract document ID
- * @returns Withdrawal amount
+ * Amount the next withdrawal takes from a contract, rounded down to whole KOLI
+ * the same way the withdrawWithPin callable does (getContractWithdrawalAmount
+ * in functions/contractMath.js): everything available for lock-in plans, one
+ * period's payout capped at what is available for monthly plans.
+ * @returns 0 when nothing can be withdrawn yet
  */
-export async function withdraw(contractId: string): Promise<number> {
-  const contractRef = doc(db, "donationContracts", contractId);
-  const contractSnap = await getDoc(contractRef);
-
-  if (!contractSnap.exists()) {
-    throw new Error("Contract not found");
-  }
-
-  const contract = { id: contractSnap.id, ...contractSnap.data() } as DonationContract;
-  const plan = getContractPlanConfig(contract);
-
-  // Validate withdrawal eligibility
-  const { canWithdraw: isAllowed, reason, availableAmount = 0 } = canWithdraw(contract);
+export function getContractWithdrawalAmount(contract: DonationContract): number {
+  const { canWithdraw: isAllowed, availableAmount = 0 } = canWithdraw(contract);
   if (!isAllowed) {
-    throw new Error(reason);
+    return 0;
   }
 
-  // Calculate withdrawal amount based on contract plan
-  const withdrawalAmount = plan.compoundLockIn
+  const plan = getContractPlanConfig(contract);
+  return plan.compoundLockIn
     ? Math.floor(availableAmount)
-    : Math.floor(getContractPrincipal(contract) * plan.periodicRate);
-
-  // Update contract
-  const now = new Date().toISOString();
-  const updatedTotalWithdrawn = Number(contract.totalWithdrawn || 0) + withdrawalAmount;
-  const maxTotalWithdrawal = getContractMaxTotalWithdrawal(contract);
-  const newWithdrawalsCount = plan.compoundLockIn
-    ? (updatedTotalWithdrawn > 0 ? 1 : 0)
-    : contract.withdrawalsCount + 1;
-  const newStatus = updatedTotalWithdrawn >= maxTotalWithdrawal ? "completed" : "active";
-
-  await updateDoc(contractRef, {
-    lastWithdrawalDate: now,
-    totalWithdrawn: updatedTotalWithdrawn,
-    withdrawalsCount: newWithdrawalsCount,
-    status: newStatus,
-  });
-
-  // Note: Actual balance update would happen here
-  // This should be done in a cloud function for security
-
-  return withdrawalAmount;
+    : Math.min(Math.floor(getContractPrincipal(contract) * plan.periodicRate), Math.floor(availableAmount));
 }
 
 /**
- * Process a withdrawal with PIN verification and P2P queue creation
+ * Process a withdrawal with PIN authorization and P2P queue creation.
+ * Runs server-side in the withdrawWithPin callable, which also applies the
+ * fee schedule and the withdrawal risk rules (a flagged payout is queued as
+ * pending_review).
  * @param contractId - Contract document ID
- * @param userId - User's Firebase UID
- * @param pin - User's 6-digit funding PIN
- * @returns Withdrawal amount
+ * @param pinAuthorization - "withdraw" token from authorizePinAction covering the amount
+ * @param idempotencyKey - Client-generated key; a replay returns the original payout
+ * @param destinationId - Saved payout destination to send the funds to
+ * @returns The queued payout with its fee and status
  */
 export async function withdrawWithPin(
   contractId: string,
-  userId: string,
-  pin: string
-): Promise<number> {
-  // Verify PIN first
-  const isPinValid = await verifyPin(userId, pin);
-  if (!isPinValid) {
-    throw new Error("Incorrect PIN. Please try again.");
-  }
-
-  const contractRef = doc(db, "donationContracts", contractId);
-  const contractSnap = await getDoc(contractRef);
-
-  if (!contractSnap.exists()) {
-    throw new Error("Contract not found");
-  }
-
-  const contract = { id: contractSnap.id, ...contractSnap.data() } as DonationContract;
-  const plan = getContractPlanConfig(contract);
-
-  // Validate withdrawal eligibility
-  const { canWithdraw: isAllowed, reason, availableAmount = 0 } = canWithdraw(contract);
-  if (!isAllowed) {
-    throw new Error(reason);
-  }
-
-  // Verify contract belongs to user
-  if (contract.userId !== userId) {
-    throw new Error("Unauthorized: Contract does not belong to this user");
-  }
-
-  // Get user data for P2P queue
-  const userRef = doc(db, "members", userId);
-  const userSnap = await getDoc(userRef);
-  
-  if (!userSnap.exists()) {
-    throw new Error("User not found");
-  }
-
-  const userData = userSnap.data();
-
-  // Verify KYC status
-  if (userData.kycStatus !== "VERIFIED" && userData.kycStatus !== "APPROVED") {
-    throw new Error("KYC verification required for withdrawals");
-  }
-
-  // Calculate withdrawal amount based on contract plan
-  const withdrawalAmount = plan.compoundLockIn
-    ? Math.floor(availableAmount)
-    : Math.floor(getContractPrincipal(contract) * plan.periodicRate);
-  const now = new Date().toISOString();
-  const currentTotalWithdrawn = Number(contract.totalWithdrawn || 0);
-  const newTotalWithdrawn = currentTotalWithdrawn + withdrawalAmount;
-  const maxTotalWithdrawal = getContractMaxTotalWithdrawal(contract);
-  const newWithdrawalsCount = plan.compoundLockIn
-    ? (newTotalWithdrawn > 0 ? 1 : 0)
-    : contract.withdrawalsCount + 1;
-  const newStatus = newTotalWithdrawn >= maxTotalWithdrawal ? "completed" : "active";
-
-  // Create P2P payout queue document
-  await addDoc(collection(db, "payout_queue"), {
-    userId,
+  pinAuthorization: string,
+  idempotencyKey?: string,
+  destinationId?: string
+): Promise<{ payoutId: string; amount: number; platformFee: number; netAmount: number; status: PayoutStatus }> {
+  const callable = httpsCallable<
+    { contractId: string; pinAuthorization: string; idempotencyKey: string | null; destinationId: string | null },
+    { payoutId: string; amount: number; platformFee?: number; netAmount?: number; status?: PayoutStatus }
+  >(functions, "withdrawWithPin");
+
+  const result = await callable({
     contractId,
-    amount: withdrawalAmount,
-    status: "pending",
-    userFullName: userData.name || `${userData.firstName || ""} ${userData.lastName || ""}`.trim(),
-    userPhoneNumber: userData.phoneNumber || "N/A",
-    userEmail: userData.email || "N/A",
-    withdrawalNumber: newWithdrawalsCount,
-    totalWithdrawals: getContractWithdrawalSlots(contract),
-    contractPrincipal: getContractPrincipal(contract),
-    requestedAt: now,
-    processedAt: null,
-    processedBy: null,
-    notes: `P2P Withdrawal ${newWithdrawalsCount}/${getContractWithdrawalSlots(contract)} from contract ${contractId}`,
-    createdAt: serverTimestamp(),
+    pinAuthorization,
+    idempotencyKey: idempotencyKey || null,
+    destinationId: destinationId || null,
   });
 
-  // Update contract
-  await updateDoc(contractRef, {
-    lastWithdrawalDate: now,
-    totalWithdrawn: newTotalWithdrawn,
-    withdrawalsCount: newWithdrawalsCount,
-    status: newStatus,
-  });
-
-  // Note: Actual balance update should be done by admin when processing P2P queue
-  // This ensures security and manual verification
-
-  return withdrawalAmount;
+  return {
+    payoutId: result.data.payoutId,
+    amount: result.data.amount,
+    platformFee: result.data.platformFee ?? 0,
+    netAmount: result.data.netAmount ?? result.data.amount,
+    status: result.data.status ?? "pending",
+  };
 }
 
 /**
@@ -703,7 +634,7 @@ export function isContractActive(contract: DonationContract): boolean {
   }
   
   const now = new Date();
-  const endDate = new Date(contract.contractEndDate);
+  const claimDeadline = getContractClaimDeadline(contract);
   
   const plan = getContractPlanConfig(contract);
   const amountPerPeriod = getContractPrincipal(contract) * plan.periodicRate;
@@ -713,7 +644,7 @@ export function isContractActive(contract: DonationContract): boolean {
   // Accept both "active" and "approved" statuses
   return (
     (contract.status === "active" || contract.status === "approved") &&
-    (plan.compoundLockIn ? true : now <= endDate) &&
+    (claimDeadline ? now <= claimDeadline : true) &&
     totalWithdrawn < maxTotalWithdrawal
   );
 }
@@ -796,6 +727,281 @@ export function getDaysUntilNextWithdrawal(contract: DonationContract): number |
   return Math.max(0, diffDays);
 }
 
+export type PayoutScheduleStatus = "withdrawn" | "available" | "upcoming" | "expired";
+
+export interface PayoutScheduleEntry {
+  period: number; // 1-based
+  unlockDate: Date;
+  amount: number; // Amount unlocking on this date
+  cumulativeUnlocked: number; // Total unlocked up to and including this date
+  withdrawn: number; // Part of this unlock already withdrawn
+  remaining: number; // Part of this unlock not yet withdrawn
+  status: PayoutScheduleStatus;
+}
+
+export interface ContractPayoutSchedule {
+  isProjected: boolean; // True for pending contracts (dates assume approval today)
+  startDate: Date;
+  endDate: Date;
+  claimDeadline: Date | null; // Monthly plans: unclaimed unlocks expire after this
+  totalPayout: number;
+  totalWithdrawn: number;
+  totalRemaining: number;
+  entries: PayoutScheduleEntry[];
+}
+
+/**
+ * Build the full payout schedule for a contract: every unlock date, the amount
+ * unlocking, the cumulative unlocked amount and how much of each unlock has been
+ * withdrawn. Withdrawals are applied to the earliest unlocks first.
+ * @param contract - The donation contract
+ * @param now - Reference date for statuses (defaults to now)
+ * @returns Payout schedule
+ */
+export function getContractPayoutSchedule(
+  contract: DonationContract,
+  now: Date = new Date()
+): ContractPayoutSchedule {
+  const plan = getContractPlanConfig(contract);
+  const isProjected = !contract.donationStartDate;
+  const startDate = isProjected ? new Date(now) : new Date(contract.donationStartDate as string);
+  const endDate = contract.contractEndDate
+    ? new Date(contract.contractEndDate)
+    : calculateContractEndDate(startDate, plan);
+  const claimDeadline = plan.compoundLockIn
+    ? null
+    : new Date(endDate.getTime() + plan.claimWindowDays * DAY_IN_MS);
+
+  const amountPerPeriod = getContractPrincipal(contract) * plan.periodicRate;
+  const totalPayout = getContractMaxTotalWithdrawal(contract);
+  const totalWithdrawn = Math.min(
+    totalPayout,
+    contract.totalWithdrawn ?? (contract.withdrawalsCount * amountPerPeriod)
+  );
+
+  const unlocks: Array<{ unlockDate: Date; amount: number }> = [];
+
+  if (plan.compoundLockIn) {
+    unlocks.push({ unlockDate: endDate, amount: totalPayout });
+  } else {
+    let scheduled = 0;
+    for (let period = 1; period <= plan.withdrawalSlots && scheduled < totalPayout; period += 1) {
+      const unlockDate = getPeriodUnlockDate(startDate, period, plan.accrualCalendar);
+      const amount = Math.min(amountPerPeriod, totalPayout - scheduled);
+      unlocks.push({ unlockDate, amount });
+      scheduled += amount;
+    }
+  }
+
+  let cumulativeUnlocked = 0;
+  let unallocatedWithdrawn = totalWithdrawn;
+
+  const entries = unlocks.map(({ unlockDate, amount }, index): PayoutScheduleEntry => {
+    cumulativeUnlocked += amount;
+    const withdrawn = Math.min(amount, unallocatedWithdrawn);
+    unallocatedWithdrawn -= withdrawn;
+    const remaining = amount - withdrawn;
+
+    let status: PayoutScheduleStatus = "available";
+    if (remaining <= 0) {
+      status = "withdrawn";
+    } else if (isProjected || unlockDate > now) {
+      status = "upcoming";
+    } else if (claimDeadline && now > claimDeadline) {
+      status = "expired";
+    }
+
+    return {
+      period: index + 1,
+      unlockDate,
+      amount,
+      cumulativeUnlocked,
+      withdrawn,
+      remaining,
+      status,
+    };
+  });
+
+  return {
+    isProjected,
+    startDate,
+    endDate,
+    claimDeadline,
+    totalPayout,
+    totalWithdrawn,
+    totalRemaining: Math.max(0, totalPayout - totalWithdrawn),
+    entries,
+  };
+}
+
+/**
+ * Quote for ending a lock-in contract before maturity: the principal plus the
+ * returns compounded over whole periods elapsed so far, less the plan's penalty
+ * on that value. Mirrors getEarlyTerminationQuote in functions/contractMath.js,
+ * which recomputes it when the request is submitted.
+ * @param contract - The donation contract
+ * @param now - Quote date (defaults to now)
+ * @returns Early termination quote
+ */
+export function getEarlyTerminationQuote(
+  contract: DonationContract,
+  now: Date = new Date()
+): EarlyTerminationQuote {
+  const plan = getContractPlanConfig(contract);
+  const principal = getContractPrincipal(contract);
+  const startDate = contract.donationStartDate ? new Date(contract.donationStartDate) : now;
+  const monthsElapsed = Math.min(plan.durationMonths, countElapsedPeriods(startDate, now, plan.accrualCalendar));
+  const currentValue = calculateCompoundedContractValue(principal, monthsElapsed, plan.periodicRate);
+  const penaltyAmount = currentValue * plan.earlyTerminationPenaltyRate;
+  const totalWithdrawn = getContractTotalWithdrawn(contract);
+
+  return {
+    monthsElapsed,
+    principal,
+    accruedReturns: currentValue - principal,
+    currentValue,
+    penaltyRate: plan.earlyTerminationPenaltyRate,
+    penaltyAmount,
+    totalWithdrawn,
+    payoutAmount: Math.max(0, currentValue - penaltyAmount - totalWithdrawn),
+  };
+}
+
+/**
+ * Check if a contract can be terminated early: an active lock-in contract
+ * before maturity with no termination request pending
+ * @param contract - The donation contract
+ * @returns Object with canTerminate boolean and reason
+ */
+export function canTerminateEarly(
+  contract: DonationContract,
+  now: Date = new Date()
+): { canTerminate: boolean; reason: string } {
+  if (!getContractPlanConfig(contract).compoundLockIn) {
+    return { canTerminate: false, reason: "Only lock-in contracts can be terminated early" };
+  }
+
+  if (contract.status !== "active" && contract.status !== "approved") {
+    return { canTerminate: false, reason: `Contract status is ${contract.status}` };
+  }
+
+  if (contract.terminationStatus === "requested") {
+    return { canTerminate: false, reason: "Early termination request pending admin review" };
+  }
+
+  if (!contract.contractEndDate || now >= new Date(contract.contractEndDate)) {
+    return { canTerminate: false, reason: "Contract has matured; withdraw the full amount instead" };
+  }
+
+  return { canTerminate: true, reason: "" };
+}
+
+/**
+ * Request early termination of a lock-in contract. Runs server-side in the
+ * requestEarlyTermination callable, which checks the PIN authorization,
+ * recomputes the quote and queues an EARLY_TERMINATION payout. The contract
+ * closes as `terminated` once the payout is approved.
+ * @param contractId - Contract document ID
+ * @param pinAuthorization - "early_termination" token from authorizePinAction covering the payout
+ * @param idempotencyKey - Client-generated key; a replay returns the original payout
+ * @param destinationId - Saved payout destination to send the funds to
+ * @returns Payout queue ID, amount and the quote it was based on
+ */
+export async function requestEarlyTermination(
+  contractId: string,
+  pinAuthorization: string,
+  idempotencyKey: string | undefined,
+  destinationId: string
+): Promise<{ payoutId: string; amount: number; quote: EarlyTerminationQuote }> {
+  const callable = httpsCallable<
+    { contractId: string; pinAuthorization: string; idempotencyKey: string | null; destinationId: string },
+    { payoutId: string; amount: number; quote: EarlyTerminationQuote }
+  >(functions, "requestEarlyTermination");
+
+  const result = await callable({ contractId, pinAuthorization, idempotencyKey: idempotencyKey || null, destinationId });
+  return result.data;
+}
+
+/**
+ * Set what a contract reinvests automatically when funds unlock. The daily
+ * scheduledContractRollover function creates the successor contract.
+ * @param contractId - Contract document ID
+ * @param rolloverMode - "none", "principal_and_returns" or "returns_only"
+ */
+export async function setContractRollover(contractId: string, rolloverMode: ContractRolloverMode): Promise<void> {
+  const callable = httpsCallable<
+    { contractId: string; rolloverMode: ContractRolloverMode },
+    { contractId: string; rolloverMode: ContractRolloverMode }
+  >(functions, "setContractRollover");
+
+  await callable({ contractId, rolloverMode });
+}
+
+const isRedonatedContract = (contract: DonationContract): boolean =>
+  contract.paymentMethod === "redonate_pool" || contract.paymentMethod === "rollover";
+
+/**
+ * Build the funding tree of a contract back to its receipt-backed deposits.
+ * Contracts created before fundingSources was recorded fall back to
+ * parentContractId (rollovers) or are marked as untracked.
+ * @param contract - Contract to trace
+ * @param contracts - The member's contracts, used to resolve source IDs
+ * @returns Root node for the contract; its sources are the contracts and MANA that funded it
+ */
+export function getContractLineage(
+  contract: DonationContract,
+  contracts: DonationContract[]
+): ContractLineageNode {
+  const contractsById = new Map(contracts.filter((c) => c.id).map((c) => [c.id!, c]));
+
+  const buildNode = (
+    current: DonationContract | null,
+    contractId: string | null,
+    amount: number,
+    visited: Set<string>
+  ): ContractLineageNode => {
+    const node: ContractLineageNode = {
+      contractId,
+      contract: current,
+      amount,
+      isReceiptBacked: Boolean(current && !isRedonatedContract(current)),
+      isUntracked: false,
+      sources: [],
+    };
+
+    if (!current || !isRedonatedContract(current) || (contractId && visited.has(contractId))) {
+      return node;
+    }
+
+    const nextVisited = new Set(visited);
+    if (contractId) nextVisited.add(contractId);
+
+    const fundingSources: ContractFundingSource[] =
+      current.fundingSources && current.fundingSources.length > 0
+        ? current.fundingSources
+        : current.parentContractId
+          ? [{ type: "contract", contractId: current.parentContractId, amount: getContractPrincipal(current) }]
+          : [];
+
+    node.isUntracked = fundingSources.length === 0;
+    node.sources = fundingSources.map((source) => {
+      if (source.type === "mana" || !source.contractId) {
+        return buildNode(null, null, toSafeAmount(source.amount), nextVisited);
+      }
+      return buildNode(
+        contractsById.get(source.contractId) || null,
+        source.contractId,
+        toSafeAmount(source.amount),
+        nextVisited
+      );
+    });
+
+    return node;
+  };
+
+  return buildNode(contract, contract.id || null, getContractPrincipal(contract), new Set());
+}
+
 /**
  * Calculate total withdrawable amount across all eligible contracts
  * @param contracts - Array of user's donation contracts
@@ -907,178 +1113,94 @@ export function distributeWithdrawalAmount(
 }
 
 /**
- * Process a pooled withdrawal with PIN verification across multiple contracts
- * @param userId - User's Firebase UID
- * @param pin - User's 6-digit funding PIN
- * @param requestedAmount - Custom amount to withdraw
- * @param contracts - Selected user's contracts
- * @param manaToWithdraw - Amount from MANA rewards to include (optional)
- * @returns Array of created payout queue IDs
+ * Split a pooled withdrawal into the payout lines processPooledWithdrawal queues:
+ * the MANA line first, then the contracts in order until the amount is covered.
+ * Used to preview the fee, which is charged per line.
+ * @returns One line per payout doc; contractId is null for the MANA line
  */
-export async function processPooledWithdrawal(
-  userId: string,
-  pin: string,
+export function getPooledWithdrawalLines(
   requestedAmount: number,
-  contracts: DonationContract[],
-  manaToWithdraw: number = 0,
-  platformFee: number = 0,
-  grossAmount: number = 0
-): Promise<{ payoutIds: string[]; totalAmount: number }> {
-  // Verify PIN first
-  const isPinValid = await verifyPin(userId, pin);
-  if (!isPinValid) {
-    throw new Error("Incorrect PIN. Please try again.");
-  }
-
-  // Calculate total withdrawable from selected contracts
-  const { totalAmount: contractTotal, eligibleContracts } = calculateTotalWithdrawable(contracts, 0);
-  const totalAvailable = contractTotal + manaToWithdraw;
-
-  if (eligibleContracts.length === 0 && manaToWithdraw === 0) {
-    throw new Error("No contracts or MANA rewards selected for withdrawal");
-  }
-
-  if (requestedAmount > totalAvailable) {
-    throw new Error(
-      `Requested amount ${requestedAmount.toFixed(2)} KOLI exceeds selected available ${totalAvailable.toFixed(2)} KOLI`
-    );
-  }
-
-  // Get user data for P2P queue
-  const userRef = doc(db, "members", userId);
-  const userSnap = await getDoc(userRef);
-  
-  if (!userSnap.exists()) {
-    throw new Error("User not found");
+  eligibleContracts: Array<{ contract: DonationContract; availableAmount: number }>,
+  manaToWithdraw: number = 0
+): Array<{ contractId: string | null; amount: number }> {
+  const lines: Array<{ contractId: string | null; amount: number }> = [];
+  const manaAmount = Math.min(requestedAmount, manaToWithdraw);
+
+  if (manaAmount > 0) {
+    lines.push({ contractId: null, amount: manaAmount });
   }
 
-  const userData = userSnap.data();
+  const contractTotal = eligibleContracts.reduce((sum, item) => sum + item.availableAmount, 0);
+  const amountFromContracts = Math.min(requestedAmount - manaAmount, contractTotal);
 
-  // Verify KYC status
-  const { canWithdraw: kycAllowed, reason: kycReason } = canUserWithdraw(userData);
-  if (!kycAllowed) {
-    throw new Error(kycReason || "KYC verification required");
+  if (amountFromContracts > 0) {
+    for (const { contractId, amount } of distributeWithdrawalAmount(amountFromContracts, eligibleContracts)) {
+      lines.push({ contractId, amount });
+    }
   }
 
-  const payoutIds: string[] = [];
-  const now = new Date().toISOString();
-  let remainingAmount = requestedAmount;
-
-  // Generate a unique withdrawal session ID to link all payouts from this single withdrawal
-  const withdrawalSessionId = `session_${Date.now()}_${userId.substring(0, 8)}`;
-
-  // Calculate remaining withdrawable balance after this withdrawal
-  const { totalAmount: currentTotalWithdrawable } = calculateTotalWithdrawable(contracts, userData.balance || 0);
-  const totalWithdrawableAfterWithdrawal = currentTotalWithdrawable - requestedAmount;
-
-  // First, withdraw from MANA if selected
-  if (manaToWithdraw > 0 && remainingAmount > 0) {
-    const manaAmount = Math.min(remainingAmount, manaToWithdraw);
-
-    // Deduct MANA balance from user account immediately
-    const currentBalance = userData.balance || 0;
-    const newBalance = Math.max(0, currentBalance - manaAmount);
-    await updateDoc(userRef, {
-      balance: newBalance,
-    });
-
-    // Create MANA withdrawal payout queue document
-    const manaPayoutData = {
-      userId,
-      userName: userData.fullName || userData.email || "Unknown",
-      userEmail: userData.email || "",
-      userPhone: userData.phoneNumber || "",
-      amount: manaAmount,
-      grossAmount: platformFee > 0 ? manaAmount / (1 - (platformFee / grossAmount)) : manaAmount,
-      platformFee: platformFee > 0 ? (manaAmount / (1 - (platformFee / grossAmount))) - manaAmount : 0,
-      netAmount: manaAmount,
-      withdrawalType: "MANA_REWARDS",
-      isPooled: true,
-      withdrawalSessionId, // Link to withdrawal session
-      totalWithdrawableBalance: totalWithdrawableAfterWithdrawal, // Remaining balance after withdrawal
-      status: "pending",
-      paymentMethod: userData.preferredPayoutMethod || "GCash",
-      gcashNumber: userData.gcashNumber || "",
-      requestedAt: now,
-      processedAt: null,
-      processedBy: null,
-      transactionProof: null,
-      notes: `MANA Rewards withdrawal: ${manaAmount.toFixed(2)} KOLI`,
-    };
-
-    const manaPayoutRef = await addDoc(collection(db, "payout_queue"), manaPayoutData);
-    payoutIds.push(manaPayoutRef.id);
+  return lines;
+}
 
-    remainingAmount -= manaAmount;
+/**
+ * Process a pooled withdrawal with PIN authorization across multiple contracts.
+ * Runs server-side in the processPooledWithdrawal callable so the authorization,
+ * contract drawdowns, MANA deduction and payout queue docs commit atomically.
+ * The callable also computes each payout line's platform fee from the fee schedule
+ * and applies the withdrawal risk rules (flagged lines are queued as pending_review).
+ * @param pinAuthorization - "withdraw" token from authorizePinAction covering requestedAmount
+ * @param requestedAmount - Custom amount to withdraw
+ * @param contractIds - IDs of the selected contracts
+ * @param manaToWithdraw - Amount from MANA rewards to include (optional)
+ * @param idempotencyKey - Client-generated key; a replay returns the original payout IDs
+ * @param destinationId - Saved payout destination to send the funds to
+ * @returns Created payout queue IDs with the total fee, net amount and status
+ */
+export async function processPooledWithdrawal(
+  pinAuthorization: string,
+  requestedAmount: number,
+  contractIds: string[],
+  manaToWithdraw: number = 0,
+  idempotencyKey?: string,
+  destinationId?: string
+): Promise<{ payoutIds: string[]; totalAmount: number; platformFee: number; netAmount: number; status: PayoutStatus }> {
+  if (requestedAmount <= 0) {
+    throw new Error("Withdrawal amount must be greater than zero");
   }
 
-  // Then, withdraw from contracts if any are selected and there's remaining amount
-  if (eligibleContracts.length > 0 && remainingAmount > 0) {
-    const amountFromContracts = Math.min(remainingAmount, contractTotal);
-    const distribution = distributeWithdrawalAmount(amountFromContracts, eligibleContracts);
-
-    // Process each contract in the distribution
-    for (const item of distribution) {
-      const { contractId, amount, contract } = item;
-      const contractRef = doc(db, "donationContracts", contractId);
-      const plan = getContractPlanConfig(contract);
-
-      // Calculate actual total withdrawn and check if completed
-      const amountPerPeriod = getContractPrincipal(contract) * plan.periodicRate;
-      const maxTotalWithdrawal = getContractMaxTotalWithdrawal(contract);
-      const currentTotalWithdrawn = contract.totalWithdrawn ?? (contract.withdrawalsCount * amountPerPeriod);
-      const newTotalWithdrawn = currentTotalWithdrawn + amount;
-      
-      // Calculate equivalent periods for backwards compatibility
-      const equivalentPeriods = plan.compoundLockIn
-        ? (newTotalWithdrawn > 0 ? 1 : 0)
-        : Math.ceil(newTotalWithdrawn / amountPerPeriod);
-      const newStatus = newTotalWithdrawn >= maxTotalWithdrawal ? "completed" : contract.status;
-
-      // Update contract with actual amount withdrawn
-      await updateDoc(contractRef, {
-        totalWithdrawn: newTotalWithdrawn,
-        withdrawalsCount: equivalentPeriods, // Keep for backwards compatibility
-        lastWithdrawalDate: now,
-        status: newStatus,
-      });
-
-      // Create P2P payout queue document for manual processing
-      const remainingBalance = maxTotalWithdrawal - newTotalWithdrawn;
-      const payoutData = {
-        userId,
-        userName: userData.fullName || userData.email || "Unknown",
-        userEmail: userData.email || "",
-        userPhone: userData.phoneNumber || "",
-        contractId,
-        amount,
-        grossAmount: platformFee > 0 ? amount / (1 - (platformFee / grossAmount)) : amount,
-        platformFee: platformFee > 0 ? (amount / (1 - (platformFee / grossAmount))) - amount : 0,
-        netAmount: amount,
-        isPooled: true, // Mark as pooled withdrawal
-        withdrawalSessionId, // Link to withdrawal session
-        totalWithdrawableBalance: totalWithdrawableAfterWithdrawal, // Remaining balance after withdrawal
-        withdrawalNumber: equivalentPeriods, // Equivalent period number
-        totalWithdrawals: getContractWithdrawalSlots(contract),
-        actualAmountWithdrawn: amount, // Actual amount this withdrawal
-        totalWithdrawnSoFar: newTotalWithdrawn, // Total withdrawn including this
-        remainingBalance, // Remaining withdrawable balance
-        status: "pending",
-        paymentMethod: userData.preferredPayoutMethod || "GCash",
-        gcashNumber: userData.gcashNumber || "",
-        requestedAt: now,
-        processedAt: null,
-        processedBy: null,
-        transactionProof: null,
-        notes: `Withdrawal: ${amount.toFixed(2)} KOLI (${remainingBalance.toFixed(2)} KOLI remaining) from contract ${contractId}`,
-      };
-
-      const payoutRef = await addDoc(collection(db, "payout_queue"), payoutData);
-      payoutIds.push(payoutRef.id);
+  const callable = httpsCallable<
+    {
+      pinAuthorization: string;
+      requestedAmount: number;
+      contractIds: string[];
+      manaToWithdraw: number;
+      idempotencyKey: string | null;
+      destinationId: string | null;
+    },
+    {
+      payoutIds: string[];
+      totalAmount: number;
+      platformFee?: number;
+      netAmount?: number;
+      status?: PayoutStatus;
+      withdrawalSessionId: string;
     }
+  >(functions, "processPooledWithdrawal");
+
+  const result = await callable({
+    pinAuthorization,
+    requestedAmount,
+    contractIds,
+    manaToWithdraw,
+    idempotencyKey: idempotencyKey || null,
+    destinationId: destinationId || null,
+  });
 
-    remainingAmount -= amountFromContracts;
-  }
-
-  return { payoutIds, totalAmount: requestedAmount };
+  return {
+    payoutIds: result.data.payoutIds,
+    totalAmount: result.data.totalAmount,
+    platformFee: result.data.platformFee ?? 0,
+    netAmount: result.data.netAmount ?? result.data.totalAmount,
+    status: result.data.status ?? "pending",
+  };
 }
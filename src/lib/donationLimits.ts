@@ -0,0 +1,147 @@
+import type { ContractPlanConfig } from "./contractPlans";
+import type { DonationContract } from "./donationContract";
+import { getContractPrincipal } from "./donationContract";
+
+// Client half of the donation limits (see functions/donationLimits.js, which
+// enforces them when the contract is created). Used for form validation.
+
+export const DONATION_LIMITS_DOC = "donationLimits"; // systemSettings/donationLimits
+
+export type KycTier = "unverified" | "pending" | "verified";
+
+export type DonationLimitName = "plan_minimum" | "plan_maximum" | "member_cap" | "kyc_tier_ceiling";
+
+export interface DonationLimits {
+  memberActivePrincipalCap: number | null; // null = no cap
+  kycTierCeilings: Record<KycTier, number | null>;
+}
+
+export interface DonationLimitViolation {
+  limit: DonationLimitName;
+  limitAmount: number;
+  message: string;
+}
+
+// Fallbacks for a missing doc or a missing / invalid field; the callables
+// log a warning whenever they use one
+export const DEFAULT_MEMBER_ACTIVE_PRINCIPAL_CAP = 500000;
+export const DEFAULT_UNVERIFIED_PRINCIPAL_CEILING = 20000; // not submitted / rejected
+export const DEFAULT_PENDING_PRINCIPAL_CEILING = 50000; // KYC under review
+export const DEFAULT_VERIFIED_PRINCIPAL_CEILING = 500000;
+
+export const DEFAULT_DONATION_LIMITS: DonationLimits = {
+  memberActivePrincipalCap: DEFAULT_MEMBER_ACTIVE_PRINCIPAL_CAP,
+  kycTierCeilings: {
+    unverified: DEFAULT_UNVERIFIED_PRINCIPAL_CEILING,
+    pending: DEFAULT_PENDING_PRINCIPAL_CEILING,
+    verified: DEFAULT_VERIFIED_PRINCIPAL_CEILING,
+  },
+};
+
+const KYC_TIER_LABELS: Record<KycTier, string> = {
+  unverified: "Unverified",
+  pending: "KYC Pending",
+  verified: "KYC Verified",
+};
+
+const ACTIVE_PRINCIPAL_STATUSES = new Set<DonationContract["status"]>(["pending", "approved", "active"]);
+
+const toLimit = (value: unknown, fallback: number | null): number | null => {
+  if (value === null) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const formatPeso = (value: number) => `₱${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}`;
+
+/**
+ * Merge the systemSettings/donationLimits document over the defaults
+ */
+export function resolveDonationLimits(data?: Partial<Record<keyof DonationLimits, unknown>> | null): DonationLimits {
+  const ceilings = (data?.kycTierCeilings || {}) as Partial<Record<KycTier, unknown>>;
+  const defaults = DEFAULT_DONATION_LIMITS.kycTierCeilings;
+
+  return {
+    memberActivePrincipalCap: toLimit(data?.memberActivePrincipalCap, DEFAULT_DONATION_LIMITS.memberActivePrincipalCap),
+    kycTierCeilings: {
+      unverified: toLimit(ceilings.unverified, defaults.unverified),
+      pending: toLimit(ceilings.pending, defaults.pending),
+      verified: toLimit(ceilings.verified, defaults.verified),
+    },
+  };
+}
+
+export function getKycTier(kycStatus?: string | null): KycTier {
+  const status = String(kycStatus || "NOT_SUBMITTED").toUpperCase();
+  if (status === "VERIFIED" || status === "APPROVED") return "verified";
+  if (status === "PENDING") return "pending";
+  return "unverified";
+}
+
+/**
+ * Total principal of pending, approved and active contracts
+ */
+export function getActivePrincipal(contracts: DonationContract[]): number {
+  return contracts
+    .filter((contract) => ACTIVE_PRINCIPAL_STATUSES.has(contract.status))
+    .reduce((sum, contract) => sum + getContractPrincipal(contract), 0);
+}
+
+/**
+ * Check a new contract against the plan, member cap and KYC-tier limits
+ * @returns The first limit exceeded, or null when the donation is allowed
+ */
+export function getDonationLimitViolation(params: {
+  amount: number;
+  plan: ContractPlanConfig;
+  contracts: DonationContract[];
+  kycStatus?: string | null;
+  limits: DonationLimits;
+}): DonationLimitViolation | null {
+  const { amount, plan, contracts, kycStatus, limits } = params;
+
+  if (plan.minAmount > 0 && amount < plan.minAmount) {
+    return {
+      limit: "plan_minimum",
+      limitAmount: plan.minAmount,
+      message: `Minimum donation for ${plan.label} is ${formatPeso(plan.minAmount)}`,
+    };
+  }
+
+  if (plan.maxAmount !== null && amount > plan.maxAmount) {
+    return {
+      limit: "plan_maximum",
+      limitAmount: plan.maxAmount,
+      message: `Maximum donation for ${plan.label} is ${formatPeso(plan.maxAmount)}`,
+    };
+  }
+
+  const activePrincipal = getActivePrincipal(contracts);
+  const projectedPrincipal = activePrincipal + amount;
+  const cap = limits.memberActivePrincipalCap;
+
+  if (cap !== null && projectedPrincipal > cap) {
+    return {
+      limit: "member_cap",
+      limitAmount: cap,
+      message:
+        `Per-member cap reached: active principal would be ${formatPeso(projectedPrincipal)}, above the ${formatPeso(cap)} cap ` +
+        `(you can add up to ${formatPeso(Math.max(0, cap - activePrincipal))})`,
+    };
+  }
+
+  const tier = getKycTier(kycStatus);
+  const ceiling = limits.kycTierCeilings[tier];
+
+  if (ceiling !== null && projectedPrincipal > ceiling) {
+    return {
+      limit: "kyc_tier_ceiling",
+      limitAmount: ceiling,
+      message:
+        `${KYC_TIER_LABELS[tier]} members can hold up to ${formatPeso(ceiling)} in active principal ` +
+        `(you can add up to ${formatPeso(Math.max(0, ceiling - activePrincipal))})`,
+    };
+  }
+
+  return null;
+}
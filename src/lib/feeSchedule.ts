@@ -0,0 +1,158 @@
+// Client half of the platform fee schedule (see functions/feeSchedule.js,
+// which computes the fee of every payout line the withdrawal callables queue).
+// Used for the fee preview in WithdrawalModal.
+
+export const FEE_SCHEDULE_DOC = "feeSchedule"; // systemSettings/feeSchedule
+
+export type FeeRuleType = "percentage" | "flat" | "tiered";
+
+export type PayoutMethod = "gcash" | "maya" | "bank";
+
+export interface FeeTier {
+  minAmount: number;
+  rate: number;
+  flat: number;
+}
+
+export interface FeeRule {
+  id: string;
+  label: string;
+  type: FeeRuleType;
+  active: boolean;
+  rate: number; // percentage rules, e.g. 0.02 = 2%
+  amount: number; // flat rules
+  tiers: FeeTier[]; // tiered rules, ascending by minAmount
+  paymentMethods: PayoutMethod[]; // empty = every method
+  minFee: number | null;
+  maxFee: number | null;
+}
+
+export interface FeeSchedule {
+  rules: FeeRule[];
+}
+
+export interface FeeBreakdownLine {
+  ruleId: string;
+  label: string;
+  fee: number;
+}
+
+export interface PayoutFee {
+  grossAmount: number; // Leaves the contract or MANA balance
+  platformFee: number;
+  netAmount: number; // Sent by finance
+  feeBreakdown: FeeBreakdownLine[];
+}
+
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = { rules: [] };
+
+const FEE_RULE_TYPES = new Set<FeeRuleType>(["percentage", "flat", "tiered"]);
+const PAYOUT_METHODS = new Set<PayoutMethod>(["gcash", "maya", "bank"]);
+
+type RawFeeRule = Partial<Record<keyof FeeRule, unknown>>;
+
+const toNonNegative = (value: unknown, fallback = 0): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const toOptionalLimit = (value: unknown): number | null => {
+  if (value === null || value === undefined) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+const roundCentavos = (value: number) => Math.round(value * 100) / 100;
+
+const resolveTier = (tier: Partial<Record<keyof FeeTier, unknown>> | null): FeeTier => ({
+  minAmount: toNonNegative(tier?.minAmount),
+  rate: toNonNegative(tier?.rate),
+  flat: toNonNegative(tier?.flat),
+});
+
+const resolveFeeRule = (rule: RawFeeRule | null, index: number): FeeRule | null => {
+  if (!rule || !FEE_RULE_TYPES.has(rule.type as FeeRuleType)) {
+    return null;
+  }
+
+  const paymentMethods = Array.isArray(rule.paymentMethods)
+    ? rule.paymentMethods
+        .map((method) => String(method).toLowerCase() as PayoutMethod)
+        .filter((method) => PAYOUT_METHODS.has(method))
+    : [];
+
+  return {
+    id: typeof rule.id === "string" && rule.id ? rule.id : `rule_${index + 1}`,
+    label: typeof rule.label === "string" && rule.label ? rule.label : "Platform fee",
+    type: rule.type as FeeRuleType,
+    active: rule.active !== false,
+    rate: toNonNegative(rule.rate),
+    amount: toNonNegative(rule.amount),
+    tiers: Array.isArray(rule.tiers)
+      ? rule.tiers.map(resolveTier).sort((a, b) => a.minAmount - b.minAmount)
+      : [],
+    paymentMethods,
+    minFee: toOptionalLimit(rule.minFee),
+    maxFee: toOptionalLimit(rule.maxFee),
+  };
+};
+
+/**
+ * Merge the systemSettings/feeSchedule document over the defaults, dropping
+ * rules with an unknown type
+ */
+export function resolveFeeSchedule(data?: { rules?: unknown } | null): FeeSchedule {
+  const rules = Array.isArray(data?.rules) ? (data.rules as RawFeeRule[]) : DEFAULT_FEE_SCHEDULE.rules;
+  return {
+    rules: rules.map(resolveFeeRule).filter((rule): rule is FeeRule => rule !== null),
+  };
+}
+
+/**
+ * gcash, maya or bank for a payout's destination fields
+ */
+export function getPayoutMethod(destination: { paymentMethod?: string | null; bankName?: string | null }): PayoutMethod {
+  if (destination.bankName) return "bank";
+  const method = String(destination.paymentMethod || "").trim().toLowerCase();
+  return method === "gcash" || method === "maya" ? method : "bank";
+}
+
+const getRuleFee = (rule: FeeRule, amount: number): number => {
+  let fee = 0;
+
+  if (rule.type === "percentage") {
+    fee = amount * rule.rate;
+  } else if (rule.type === "flat") {
+    fee = rule.amount;
+  } else {
+    const tier = rule.tiers.filter((candidate) => candidate.minAmount <= amount).pop();
+    fee = tier ? amount * tier.rate + tier.flat : 0;
+  }
+
+  if (rule.minFee !== null) fee = Math.max(fee, rule.minFee);
+  if (rule.maxFee !== null) fee = Math.min(fee, rule.maxFee);
+  return fee;
+};
+
+/**
+ * Fee for one payout line; the fee is deducted from the line amount
+ */
+export function calculatePayoutFee(amount: number, paymentMethod: PayoutMethod, schedule: FeeSchedule): PayoutFee {
+  const grossAmount = toNonNegative(amount);
+  const feeBreakdown = schedule.rules
+    .filter((rule) => rule.active && (rule.paymentMethods.length === 0 || rule.paymentMethods.includes(paymentMethod)))
+    .map((rule) => ({ ruleId: rule.id, label: rule.label, fee: roundCentavos(getRuleFee(rule, grossAmount)) }))
+    .filter((line) => line.fee > 0);
+
+  const platformFee = Math.min(
+    grossAmount,
+    roundCentavos(feeBreakdown.reduce((sum, line) => sum + line.fee, 0))
+  );
+
+  return {
+    grossAmount,
+    platformFee,
+    netAmount: grossAmount - platformFee,
+    feeBreakdown,
+  };
+}
@@ -0,0 +1,13 @@
+// The money-moving callables check and record keys (functions/idempotency.js),
+// so the app only generates them. Keys must match /^[A-Za-z0-9_-]{8,128}$/.
+
+/**
+ * Generate a client-side idempotency key for one user intent
+ * (reuse the same key when retrying the same request)
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
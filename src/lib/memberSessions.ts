@@ -0,0 +1,133 @@
+import { signInWithCustomToken } from "firebase/auth";
+import { httpsCallable } from "firebase/functions";
+import { auth, functions } from "./firebase";
+import { createIdempotencyKey } from "./idempotency";
+
+/**
+ * Signed-in devices. The session callables (functions/memberSessions.js) keep
+ * one memberSessions doc per device; this browser remembers its own session ID.
+ * Keep in sync with functions/memberSessions.js
+ */
+
+export type SessionPlatform = "iPhone" | "iPad" | "Android" | "Mac" | "Windows" | "Linux" | "Other";
+
+export interface MemberSession {
+  sessionId: string;
+  userId: string;
+  deviceLabel: string; // e.g. "Safari on iPhone"
+  platform: SessionPlatform;
+  displayMode: "pwa" | "browser";
+  location: { city: string | null; region: string | null; country: string } | null; // Approximate, from IP
+  createdAt: string;
+  lastSeenAt: string;
+  signedOutAt: string | null;
+  signedOutBy?: string; // "self" or the session that signed this one out
+}
+
+const SESSION_ID_KEY = "koli_session_id";
+
+export function getCurrentSessionId(): string {
+  let sessionId = localStorage.getItem(SESSION_ID_KEY);
+  if (!sessionId) {
+    sessionId = createIdempotencyKey();
+    localStorage.setItem(SESSION_ID_KEY, sessionId);
+  }
+  return sessionId;
+}
+
+/**
+ * Forget this browser's session so the next sign-in starts a new one
+ */
+export function clearCurrentSessionId(): void {
+  localStorage.removeItem(SESSION_ID_KEY);
+}
+
+export function getDeviceInfo(): { platform: SessionPlatform; browser: string; isInstalled: boolean } {
+  const agent = navigator.userAgent;
+  const platform: SessionPlatform = /iPhone/.test(agent)
+    ? "iPhone"
+    : /iPad/.test(agent)
+      ? "iPad"
+      : /Android/.test(agent)
+        ? "Android"
+        : /Mac/.test(agent)
+          ? "Mac"
+          : /Windows/.test(agent)
+            ? "Windows"
+            : /Linux/.test(agent)
+              ? "Linux"
+              : "Other";
+  const browser = /Edg\//.test(agent)
+    ? "Edge"
+    : /SamsungBrowser/.test(agent)
+      ? "Samsung Internet"
+      : /Firefox|FxiOS/.test(agent)
+        ? "Firefox"
+        : /Chrome|CriOS/.test(agent)
+          ? "Chrome"
+          : /Safari/.test(agent)
+            ? "Safari"
+            : "Browser";
+  const isInstalled = Boolean(window.matchMedia?.("(display-mode: standalone)").matches);
+
+  return { platform, browser, isInstalled };
+}
+
+/**
+ * Create or refresh this device's session (sign-in, app start, unlock).
+ * Rejects with "unauthenticated" once the session was signed out.
+ */
+export async function registerSession(): Promise<MemberSession> {
+  const { platform, browser, isInstalled } = getDeviceInfo();
+  const callable = httpsCallable<
+    { sessionId: string; deviceLabel: string; platform: SessionPlatform; displayMode: "pwa" | "browser" },
+    MemberSession
+  >(functions, "registerSession");
+
+  const result = await callable({
+    sessionId: getCurrentSessionId(),
+    deviceLabel: isInstalled ? `KOLI app on ${platform}` : `${browser} on ${platform}`,
+    platform,
+    displayMode: isInstalled ? "pwa" : "browser",
+  });
+  return result.data;
+}
+
+/**
+ * Mark this device's session signed out; call before signing out of Firebase
+ */
+export async function endCurrentSession(): Promise<void> {
+  const sessionId = localStorage.getItem(SESSION_ID_KEY);
+  if (!sessionId) return;
+
+  const callable = httpsCallable(functions, "endSession");
+  await callable({ sessionId });
+}
+
+/**
+ * Sign out one of the member's other devices; it signs out as soon as it sees
+ * its session marked signed out
+ */
+export async function signOutSession(sessionId: string): Promise<void> {
+  const callable = httpsCallable<{ sessionId: string; currentSessionId: string }, { sessionId: string }>(
+    functions,
+    "signOutSession"
+  );
+  await callable({ sessionId, currentSessionId: getCurrentSessionId() });
+}
+
+/**
+ * Revoke every other device's sign-in; this device signs back in with the
+ * returned custom token because its own refresh token is revoked too
+ * @returns How many sessions were signed out
+ */
+export async function signOutOtherSessions(): Promise<number> {
+  const callable = httpsCallable<{ sessionId: string }, { signedOut: number; customToken: string }>(
+    functions,
+    "signOutOtherSessions"
+  );
+  const result = await callable({ sessionId: getCurrentSessionId() });
+
+  await signInWithCustomToken(auth, result.data.customToken);
+  return result.data.signedOut;
+}
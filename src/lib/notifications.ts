@@ -15,7 +15,10 @@ export type NotificationType =
   | "donation_adjusted"
   | "transaction_approved"
   | "contract_near_withdrawal"
-  | "contract_ready_withdrawal";
+  | "contract_ready_withdrawal"
+  | "contract_claim_expiring"
+  | "contract_rolled_over"
+  | "withdrawal_refunded";
 
 export interface AppNotification {
   id: string;
@@ -0,0 +1,212 @@
+import { httpsCallable } from "firebase/functions";
+import { functions } from "./firebase";
+import { getDeviceInfo } from "./memberSessions";
+import type { PinAuthorization, PinAuthorizationScope } from "./pinSecurity";
+
+/**
+ * Passkeys (WebAuthn platform authenticators) as an alternative to the PIN.
+ * Keep in sync with functions/passkeys.js, which builds the options and
+ * verifies every response.
+ */
+
+export interface Passkey {
+  credentialId: string;
+  userId: string;
+  deviceLabel: string;
+  deviceType: "singleDevice" | "multiDevice";
+  backedUp: boolean;
+  transports: AuthenticatorTransport[];
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+// Unlock attempts before PinUnlock falls back to the PIN
+export const MAX_PASSKEY_UNLOCK_FAILURES = 2;
+
+// Credential enrolled on this browser, so only that device offers the passkey
+const DEVICE_PASSKEY_KEY = "koli_passkey_credential_id";
+
+interface CredentialDescriptorJSON {
+  id: string;
+  type: "public-key";
+  transports?: AuthenticatorTransport[];
+}
+
+interface CreationOptionsJSON
+  extends Omit<PublicKeyCredentialCreationOptions, "challenge" | "user" | "excludeCredentials"> {
+  challenge: string;
+  user: { id: string; name: string; displayName: string };
+  excludeCredentials?: CredentialDescriptorJSON[];
+}
+
+interface RequestOptionsJSON extends Omit<PublicKeyCredentialRequestOptions, "challenge" | "allowCredentials"> {
+  challenge: string;
+  allowCredentials?: CredentialDescriptorJSON[];
+}
+
+const fromBase64Url = (value: string): ArrayBuffer => {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64 + "===".slice((base64.length + 3) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+};
+
+const toBase64Url = (buffer: ArrayBuffer): string => {
+  let binary = "";
+  new Uint8Array(buffer).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const toDescriptor = (descriptor: CredentialDescriptorJSON): PublicKeyCredentialDescriptor => ({
+  ...descriptor,
+  id: fromBase64Url(descriptor.id),
+});
+
+/**
+ * Whether this browser has a platform authenticator (fingerprint, face, device PIN)
+ */
+export async function isPasskeySupported(): Promise<boolean> {
+  if (typeof window === "undefined" || !window.PublicKeyCredential) {
+    return false;
+  }
+
+  try {
+    return await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+  } catch {
+    return false;
+  }
+}
+
+export function getDevicePasskeyId(): string | null {
+  return localStorage.getItem(DEVICE_PASSKEY_KEY);
+}
+
+/**
+ * e.g. "iPhone (app)" or "Windows (browser)"
+ */
+export function getDefaultDeviceLabel(): string {
+  const { platform, isInstalled } = getDeviceInfo();
+  const device = platform === "Other" ? "This device" : platform;
+  return `${device} (${isInstalled ? "app" : "browser"})`;
+}
+
+/**
+ * Enroll this device; the PIN confirms it is the member adding the passkey
+ * @returns The new credential ID
+ */
+export async function enrollPasskey(pin: string, deviceLabel: string): Promise<string> {
+  const start = httpsCallable<{ pin: string }, CreationOptionsJSON>(functions, "startPasskeyRegistration");
+  const { data: options } = await start({ pin });
+
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      user: { ...options.user, id: fromBase64Url(options.user.id) },
+      excludeCredentials: options.excludeCredentials?.map(toDescriptor),
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error("Passkey setup was cancelled");
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  const finish = httpsCallable<{ response: unknown; deviceLabel: string }, { credentialId: string }>(
+    functions,
+    "finishPasskeyRegistration"
+  );
+  const result = await finish({
+    deviceLabel,
+    response: {
+      id: credential.id,
+      rawId: toBase64Url(credential.rawId),
+      type: credential.type,
+      response: {
+        clientDataJSON: toBase64Url(response.clientDataJSON),
+        attestationObject: toBase64Url(response.attestationObject),
+        transports: typeof response.getTransports === "function" ? response.getTransports() : [],
+      },
+      clientExtensionResults: credential.getClientExtensionResults(),
+      authenticatorAttachment: credential.authenticatorAttachment ?? undefined,
+    },
+  });
+
+  localStorage.setItem(DEVICE_PASSKEY_KEY, result.data.credentialId);
+  return result.data.credentialId;
+}
+
+const getAssertion = async (): Promise<unknown> => {
+  const start = httpsCallable<void, RequestOptionsJSON>(functions, "startPasskeyAuthentication");
+  const { data: options } = await start();
+
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...options,
+      challenge: fromBase64Url(options.challenge),
+      allowCredentials: options.allowCredentials?.map(toDescriptor),
+    },
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error("Passkey check was cancelled");
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  return {
+    id: credential.id,
+    rawId: toBase64Url(credential.rawId),
+    type: credential.type,
+    response: {
+      clientDataJSON: toBase64Url(response.clientDataJSON),
+      authenticatorData: toBase64Url(response.authenticatorData),
+      signature: toBase64Url(response.signature),
+      userHandle: response.userHandle ? toBase64Url(response.userHandle) : undefined,
+    },
+    clientExtensionResults: credential.getClientExtensionResults(),
+    authenticatorAttachment: credential.authenticatorAttachment ?? undefined,
+  };
+};
+
+/**
+ * App unlock with the device's passkey
+ */
+export async function unlockWithPasskey(): Promise<boolean> {
+  const finish = httpsCallable<{ response: unknown }, { verified: boolean }>(functions, "finishPasskeyAuthentication");
+  const result = await finish({ response: await getAssertion() });
+  return result.data.verified;
+}
+
+/**
+ * Same token as authorizePinAction, from a passkey; needs passkeyFunding on
+ */
+export async function authorizeWithPasskey(
+  scope: PinAuthorizationScope,
+  maxAmount: number
+): Promise<PinAuthorization> {
+  const finish = httpsCallable<
+    { response: unknown; scope: PinAuthorizationScope; maxAmount: number },
+    { verified: boolean; authorization: PinAuthorization }
+  >(functions, "finishPasskeyAuthentication");
+  const result = await finish({ response: await getAssertion(), scope, maxAmount });
+  return result.data.authorization;
+}
+
+export async function removePasskey(credentialId: string): Promise<void> {
+  const callable = httpsCallable(functions, "removePasskey");
+  await callable({ credentialId });
+
+  if (getDevicePasskeyId() === credentialId) {
+    localStorage.removeItem(DEVICE_PASSKEY_KEY);
+  }
+}
+
+export async function setPasskeyFunding(enabled: boolean): Promise<void> {
+  const callable = httpsCallable(functions, "setPasskeyFunding");
+  await callable({ enabled });
+}
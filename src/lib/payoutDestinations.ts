@@ -0,0 +1,107 @@
+import { httpsCallable } from "firebase/functions";
+import { functions } from "./firebase";
+import { formatPhilippinePhone } from "./phoneValidation";
+
+/**
+ * Saved payout destinations. Keep in sync with functions/payoutDestinations.js,
+ * which validates, sends the confirmation code and enforces the cooling-off
+ * period when a withdrawal uses a destination.
+ */
+
+export type PayoutDestinationType = "gcash" | "maya" | "bank";
+
+export interface PayoutDestination {
+  id: string;
+  userId: string;
+  type: PayoutDestinationType;
+  accountNumber: string; // +63XXXXXXXXXX for e-wallets, digits for banks
+  accountName: string;
+  bankName: string | null;
+  status: "pending_verification" | "verified";
+  verifiedAt: string | null;
+  availableAt: string | null; // End of the cooling-off period
+  createdAt: string;
+}
+
+export interface PayoutDestinationInput {
+  type: PayoutDestinationType;
+  accountNumber: string;
+  accountName: string;
+  bankName?: string;
+}
+
+export const PAYOUT_DESTINATION_TYPES: Record<PayoutDestinationType, { label: string; isEwallet: boolean }> = {
+  gcash: { label: "GCash", isEwallet: true },
+  maya: { label: "Maya", isEwallet: true },
+  bank: { label: "Bank", isEwallet: false },
+};
+
+export const PHILIPPINE_BANKS = [
+  "BDO Unibank",
+  "BPI",
+  "Metrobank",
+  "Land Bank of the Philippines",
+  "PNB",
+  "Security Bank",
+  "UnionBank",
+  "RCBC",
+  "China Bank",
+  "EastWest Bank",
+  "Other",
+];
+
+export const COOLING_OFF_HOURS = 24;
+
+/**
+ * Verified and past its cooling-off period
+ */
+export function isPayoutDestinationAvailable(destination: PayoutDestination, now: Date = new Date()): boolean {
+  return (
+    destination.status === "verified" &&
+    Boolean(destination.availableAt) &&
+    new Date(destination.availableAt!).getTime() <= now.getTime()
+  );
+}
+
+/**
+ * e.g. "GCash +63 917 123 4567" or "BPI •••• 6789"
+ */
+export function getPayoutDestinationLabel(destination: PayoutDestination): string {
+  if (PAYOUT_DESTINATION_TYPES[destination.type].isEwallet) {
+    return `${PAYOUT_DESTINATION_TYPES[destination.type].label} ${formatPhilippinePhone(destination.accountNumber)}`;
+  }
+  return `${destination.bankName || "Bank"} •••• ${destination.accountNumber.slice(-4)}`;
+}
+
+/**
+ * Save a destination and email its confirmation code
+ * @returns ID of the new (unverified) destination
+ */
+export async function addPayoutDestination(input: PayoutDestinationInput): Promise<string> {
+  const callable = httpsCallable<PayoutDestinationInput, { destinationId: string }>(functions, "addPayoutDestination");
+  const result = await callable(input);
+  return result.data.destinationId;
+}
+
+export async function resendPayoutDestinationCode(destinationId: string): Promise<void> {
+  const callable = httpsCallable(functions, "resendPayoutDestinationCode");
+  await callable({ destinationId });
+}
+
+/**
+ * Confirm a destination with its emailed code
+ * @returns When the cooling-off period ends (ISO)
+ */
+export async function verifyPayoutDestination(destinationId: string, code: string): Promise<string> {
+  const callable = httpsCallable<{ destinationId: string; code: string }, { availableAt: string }>(
+    functions,
+    "verifyPayoutDestination"
+  );
+  const result = await callable({ destinationId, code });
+  return result.data.availableAt;
+}
+
+export async function removePayoutDestination(destinationId: string): Promise<void> {
+  const callable = httpsCallable(functions, "removePayoutDestination");
+  await callable({ destinationId });
+}
@@ -0,0 +1,60 @@
+/**
+ * Payout queue lifecycle. Keep in sync with functions/payoutStateMachine.js,
+ * which enforces it; this copy decides which actions the admin console offers.
+ */
+
+export type PayoutStatus =
+  | "pending_review"
+  | "pending"
+  | "approved"
+  | "processing"
+  | "completed"
+  | "rejected"
+  | "failed"
+  | "returned";
+
+export interface PayoutStatusHistoryEntry {
+  from: string | null; // null on the entry written when the payout is created
+  to: string;
+  actor: string | null;
+  actorRole: "admin" | "member" | "system";
+  note: string | null;
+  at: string; // ISO
+  refused?: boolean; // A change that was reverted because the lifecycle does not allow it
+}
+
+export const PAYOUT_TRANSITIONS: Record<PayoutStatus, PayoutStatus[]> = {
+  pending_review: ["pending", "rejected"],
+  pending: ["approved", "processing", "completed", "rejected", "failed"],
+  approved: ["processing", "completed", "rejected", "failed"],
+  processing: ["completed", "rejected", "failed"],
+  completed: ["returned"],
+  rejected: [],
+  failed: [],
+  returned: [],
+};
+
+// Terminal statuses that return the held amount to the member
+export const REFUND_PAYOUT_STATUSES: PayoutStatus[] = ["rejected", "failed", "returned"];
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  pending_review: "In Review",
+  pending: "Pending",
+  approved: "Approved",
+  processing: "Processing",
+  completed: "Completed",
+  rejected: "Rejected",
+  failed: "Failed",
+  returned: "Returned",
+};
+
+export function canTransitionPayout(from: string, to: PayoutStatus): boolean {
+  return (PAYOUT_TRANSITIONS[from as PayoutStatus] || []).includes(to);
+}
+
+/**
+ * Label for a stored status; unknown legacy values are shown as stored
+ */
+export function getPayoutStatusLabel(status: string): string {
+  return PAYOUT_STATUS_LABELS[status as PayoutStatus] || status;
+}
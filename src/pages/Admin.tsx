@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from "react";
+import { Navigate, useNavigate } from "react-router-dom";
+import { motion } from "motion/react";
+import { IconArrowLeft, IconShieldLock } from "@tabler/icons-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/contexts/AuthContext";
+import { isAdminUser } from "@/lib/adminConsole";
+import { ContractReviewPanel } from "@/components/admin/ContractReviewPanel";
+import { PayoutQueuePanel } from "@/components/admin/PayoutQueuePanel";
+import { PayoutBatchPanel } from "@/components/admin/PayoutBatchPanel";
+import { KycQueuePanel } from "@/components/admin/KycQueuePanel";
+import { PinSupportPanel } from "@/components/admin/PinSupportPanel";
+import { ManaRewardPanel } from "@/components/admin/ManaRewardPanel";
+import { MaintenancePanel } from "@/components/admin/MaintenancePanel";
+
+const Admin = () => {
+  const navigate = useNavigate();
+  const { user, loading } = useAuth();
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setIsAdmin(loading ? null : false);
+      return;
+    }
+
+    let cancelled = false;
+    isAdminUser(user.uid)
+      .then((result) => {
+        if (!cancelled) setIsAdmin(result);
+      })
+      .catch((error) => {
+        console.error("Admin check failed:", error);
+        if (!cancelled) setIsAdmin(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, loading]);
+
+  if (isAdmin === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <motion.header
+        initial={{ opacity: 0, y: -20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="backdrop-blur-lg bg-background/80 border-b border-border"
+      >
+        <div className="max-w-5xl mx-auto flex items-center gap-3 px-4 py-4">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/dashboard")}>
+            <IconArrowLeft size={20} />
+          </Button>
+          <IconShieldLock className="h-6 w-6 text-primary" />
+          <div>
+            <p className="font-bold text-lg">Admin Console</p>
+            <p className="text-xs text-muted-foreground">Finance and operations</p>
+          </div>
+        </div>
+      </motion.header>
+
+      <main className="max-w-5xl mx-auto px-4 py-6">
+        <Tabs defaultValue="contracts">
+          <TabsList className="flex flex-wrap h-auto">
+            <TabsTrigger value="contracts">Contracts</TabsTrigger>
+            <TabsTrigger value="payouts">Payouts</TabsTrigger>
+            <TabsTrigger value="batches">Batches</TabsTrigger>
+            <TabsTrigger value="kyc">KYC</TabsTrigger>
+            <TabsTrigger value="pin">PIN Support</TabsTrigger>
+            <TabsTrigger value="rewards">MANA Rewards</TabsTrigger>
+            <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
+          </TabsList>
+
+          <Card className="mt-4">
+            <CardContent className="p-4">
+              <TabsContent value="contracts" className="mt-0">
+                <ContractReviewPanel />
+              </TabsContent>
+              <TabsContent value="payouts" className="mt-0">
+                <PayoutQueuePanel />
+              </TabsContent>
+              <TabsContent value="batches" className="mt-0">
+                <PayoutBatchPanel />
+              </TabsContent>
+              <TabsContent value="kyc" className="mt-0">
+                <KycQueuePanel />
+              </TabsContent>
+              <TabsContent value="pin" className="mt-0">
+                <PinSupportPanel />
+              </TabsContent>
+              <TabsContent value="rewards" className="mt-0">
+                <ManaRewardPanel />
+              </TabsContent>
+              <TabsContent value="maintenance" className="mt-0">
+                <MaintenancePanel />
+              </TabsContent>
+            </CardContent>
+          </Card>
+        </Tabs>
+      </main>
+    </div>
+  );
+};
+
+export default Admin;
@@ -14,6 +14,7 @@ import {
   IconHourglass,
   IconCircleCheck,
   IconAlertCircle,
+  IconCalendar,
 } from "@tabler/icons-react";
 import koliLogo from "@/assets/koli-logo.png";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -25,10 +26,15 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { SkeletonList } from "@/components/ui/skeleton";
 import { useAuth } from "@/contexts/AuthContext";
 import { useRealtimeContracts } from "@/hooks/useRealtimeContracts";
+import { useContractPlans } from "@/hooks/useContractPlans";
 import { BottomNavigation } from "@/components/common/BottomNavigation";
 import { HeaderWithdrawable } from "@/components/common/HeaderWithdrawable";
 import { AddDonationModal } from "@/components/donation/AddDonationModal";
 import { ExternalWithdrawModal } from "@/components/donation/ExternalWithdrawModal";
+import { PooledWithdrawalModal } from "@/components/donation/PooledWithdrawalModal";
+import { PayoutScheduleTimeline } from "@/components/donation/PayoutScheduleTimeline";
+import { EarlyTerminationModal } from "@/components/donation/EarlyTerminationModal";
+import { RolloverSettings } from "@/components/donation/RolloverSettings";
 import {
   DonationContract,
   canWithdraw,
@@ -41,7 +47,8 @@ import {
   getContractPlanLabel,
   getContractMaxTotalWithdrawal,
   getContractWithdrawalSlots,
-  getContractType,
+  getContractPlanConfig,
+  canTerminateEarly,
 } from "@/lib/donationContract";
 import { toast } from "sonner";
 import { canUserWithdraw, getKycDisclaimer, isUserFullyVerified } from "@/lib/kycService";
@@ -52,9 +59,14 @@ const Donation = () => {
   const [currentTime, setCurrentTime] = useState(new Date());
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isExternalWithdrawOpen, setIsExternalWithdrawOpen] = useState(false);
+  const [isPooledWithdrawOpen, setIsPooledWithdrawOpen] = useState(false);
+  const [scheduleContractId, setScheduleContractId] = useState<string | null>(null);
+  const [terminationContract, setTerminationContract] = useState<DonationContract | null>(null);
 
   // Fetch user's donation contracts from Firestore in real-time
   const { data: contracts, loading: contractsLoading } = useRealtimeContracts(user?.uid || null);
+  // Loads the plan catalog so contracts resolve against the plan version they were created under
+  const { availablePlans } = useContractPlans();
 
   // Debug logging
   useEffect(() => {
@@ -71,6 +83,18 @@ const Donation = () => {
   const activeContracts = contracts.filter(c => isContractActive(c));
   const completedContracts = contracts.filter(c => c.status === "completed");
   const expiredContracts = contracts.filter(c => c.status === "expired");
+  const totalForfeited = expiredContracts.reduce((sum, c) => sum + Number(c.forfeitedAmount || 0), 0);
+
+  // Ended monthly contracts with accrued funds still inside their claim window
+  const claimWindowContracts = activeContracts
+    .map((contract) => ({ contract, check: canWithdraw(contract) }))
+    .filter(({ check }) => check.claimDeadline && (check.availableAmount || 0) > 0);
+  const totalUnclaimed = claimWindowContracts.reduce((sum, { check }) => sum + (check.availableAmount || 0), 0);
+  const earliestClaimDeadline = claimWindowContracts.reduce<Date | null>(
+    (earliest, { check }) =>
+      check.claimDeadline && (!earliest || check.claimDeadline < earliest) ? check.claimDeadline : earliest,
+    null
+  );
 
   // Calculate totals
   const totalPrincipal = activeContracts.reduce((sum, c) => sum + getContractPrincipal(c), 0);
@@ -203,6 +227,29 @@ const Donation = () => {
             </motion.div>
           )}
 
+          {/* Unclaimed funds about to lapse */}
+          {earliestClaimDeadline && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.05 }}
+            >
+              <Card className="border-red-500/20 bg-red-500/5">
+                <CardContent className="p-4 flex items-start gap-3">
+                  <IconAlertCircle className="h-5 w-5 text-red-500 flex-shrink-0 mt-0.5" />
+                  <div className="flex-1 space-y-1">
+                    <p className="text-sm font-semibold text-red-500">Unclaimed Funds Expiring</p>
+                    <p className="text-xs text-muted-foreground">
+                      {totalUnclaimed.toLocaleString()} KOLI from {claimWindowContracts.length} ended contract(s) is
+                      still unclaimed. Withdraw or re-donate it by {earliestClaimDeadline.toLocaleDateString()} or it
+                      will be forfeited.
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
           {/* ZONE 1: STATUS ZONE - Portfolio Overview */}
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -281,17 +328,27 @@ const Donation = () => {
                         </Badge>
                       )}
                     </div>
-                    {availableWithdrawalsCount > 0 && (
+                    {totalWithdrawable > 0 && (
                       <>
                         {userData && isUserFullyVerified(userData) ? (
-                          <Button
-                            onClick={handleQuickWithdrawClick}
-                            className="w-full bg-green-600 hover:bg-green-700"
-                            size="sm"
-                          >
-                            <IconWallet className="w-4 h-4 mr-2" />
-                            Withdraw Now
-                          </Button>
+                          <div className="space-y-2">
+                            <Button
+                              onClick={handleQuickWithdrawClick}
+                              className="w-full bg-green-600 hover:bg-green-700"
+                              size="sm"
+                            >
+                              <IconWallet className="w-4 h-4 mr-2" />
+                              Withdraw Now
+                            </Button>
+                            <Button
+                              onClick={() => setIsPooledWithdrawOpen(true)}
+                              className="w-full"
+                              size="sm"
+                              variant="outline"
+                            >
+                              P2P Payout (GCash, Maya or Bank)
+                            </Button>
+                          </div>
                         ) : (
                           <div className="space-y-2">
                             <Button
@@ -338,6 +395,9 @@ const Donation = () => {
                   <div>
                     <div className="text-2xl font-bold text-muted-foreground">{expiredContracts.length}</div>
                     <div className="text-xs text-muted-foreground">Expired</div>
+                    {totalForfeited > 0 && (
+                      <div className="text-xs text-red-400">{totalForfeited.toLocaleString()} KOLI forfeited</div>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -439,26 +499,26 @@ const Donation = () => {
                                 Awaiting admin approval. Contract will activate once approved.
                               </p>
                               <p className="text-xs text-muted-foreground mt-2">
-                                {getContractType(contract) === "monthly_12_no_principal"
+                                {!getContractPlanConfig(contract).compoundLockIn
                                   ? "Once approved, first withdrawal unlocks after 30 days."
-                                  : `Once approved, withdrawals unlock after ${getContractType(contract) === "lockin_6_compound" ? "6 months" : "12 months"}.`}
+                                  : `Once approved, withdrawals unlock after ${getContractPlanConfig(contract).durationMonths} months.`}
                               </p>
                             </div>
 
                             <div className="grid grid-cols-2 gap-3">
                               <div className="p-3 rounded-lg bg-secondary border border-border">
-                                {getContractType(contract) === "monthly_12_no_principal" ? (
+                                {!getContractPlanConfig(contract).compoundLockIn ? (
                                   <>
                                     <p className="text-xs text-muted-foreground mb-1">Will Withdraw Per Period</p>
                                     <p className="text-lg font-bold text-green-400">
-                                      {Math.floor(contract.donationAmount * 0.3).toLocaleString()} KOLI
+                                      {Math.floor(contract.donationAmount * getContractPlanConfig(contract).periodicRate).toLocaleString()} KOLI
                                     </p>
                                   </>
                                 ) : (
                                   <>
                                     <p className="text-xs text-muted-foreground mb-1">Lock-In Type</p>
                                     <p className="text-sm font-bold text-green-400">
-                                      {getContractType(contract) === "lockin_6_compound" ? "6-Month Compound" : "12-Month Compound"}
+                                      {`${getContractPlanConfig(contract).durationMonths}-Month Compound`}
                                     </p>
                                   </>
                                 )}
@@ -489,12 +549,13 @@ const Donation = () => {
                     canWithdraw: canWithdrawNow,
                     reason,
                     nextWithdrawalDate,
+                    claimDeadline,
                     availablePeriods = 0,
                     availableAmount: availableAmountNow = 0,
                   } = canWithdraw(contract);
                   const details = getWithdrawalDetails(contract);
                   const adjustment = getContractAdjustmentDetails(contract);
-                  const isMonthlyPlan = getContractType(contract) === "monthly_12_no_principal";
+                  const isMonthlyPlan = !getContractPlanConfig(contract).compoundLockIn;
                   const totalSlots = getContractWithdrawalSlots(contract);
                   const startDate = new Date(contract.donationStartDate);
                   const endDate = new Date(contract.contractEndDate);
@@ -544,6 +605,11 @@ const Donation = () => {
                                     Adjusted
                                   </Badge>
                                 )}
+                                {contract.terminationStatus === "requested" && (
+                                  <Badge variant="outline" className="border-orange-500/50 text-orange-400">
+                                    Termination Pending
+                                  </Badge>
+                                )}
                               </div>
                               {contract.reviewNote && contract.reviewNote.trim() && (
                                 <div className="mt-2 px-3 py-2 rounded-md bg-primary/10 border border-primary/30 inline-block">
@@ -558,6 +624,11 @@ const Donation = () => {
                               <p className="text-xs text-muted-foreground">
                                 Plan: {getContractPlanLabel(contract)}
                               </p>
+                              {contract.parentContractId && (
+                                <p className="text-xs text-primary">
+                                  Rolled over from #{contract.parentContractId.slice(0, 8)}
+                                </p>
+                              )}
                               {adjustment.isAdjusted && (
                                 <p className="text-xs text-yellow-500">
                                   Verified: {adjustment.approvedAmount.toLocaleString()} KOLI from {adjustment.originalAmount.toLocaleString()} KOLI submitted
@@ -628,6 +699,11 @@ const Donation = () => {
                                     {availablePeriods} periods stacked ({details.withdrawalPerPeriod.toLocaleString()} KOLI × {availablePeriods})
                                   </p>
                                 )}
+                                {claimDeadline && (
+                                  <p className="text-xs text-red-400">
+                                    Contract ended. Claim by {claimDeadline.toLocaleDateString()} or it will be forfeited.
+                                  </p>
+                                )}
                               </div>
                             ) : nextWithdrawalDate ? (
                               <div className="space-y-2">
@@ -681,6 +757,40 @@ const Donation = () => {
                             )}
                           </div>
 
+                          {/* Auto-Rollover */}
+                          <div className="mb-4">
+                            <RolloverSettings contract={contract} />
+                          </div>
+
+                          {/* Payout Schedule */}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="w-full"
+                            onClick={() =>
+                              setScheduleContractId(scheduleContractId === contract.id ? null : contract.id || null)
+                            }
+                          >
+                            <IconCalendar size={16} className="mr-2" />
+                            {scheduleContractId === contract.id ? "Hide Payout Schedule" : "View Payout Schedule"}
+                          </Button>
+                          {scheduleContractId === contract.id && (
+                            <div className="mt-4">
+                              <PayoutScheduleTimeline contract={contract} />
+                            </div>
+                          )}
+
+                          {/* Early exit for lock-in contracts */}
+                          {canTerminateEarly(contract).canTerminate && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="w-full mt-2 text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                              onClick={() => setTerminationContract(contract)}
+                            >
+                              Request Early Termination
+                            </Button>
+                          )}
                         </CardContent>
                       </Card>
                     </motion.div>
@@ -702,9 +812,9 @@ const Donation = () => {
                     </h4>
                     <ul className="text-xs text-muted-foreground space-y-1">
                       <li>• Principal amount never decreases</li>
-                      <li>• Option 1: 30% every 30 days for 12 months (principal unchanged)</li>
-                      <li>• Option 2: 6-month lock-in with 30% monthly compounding</li>
-                      <li>• Option 3: 12-month lock-in with 30% monthly compounding</li>
+                      {availablePlans.map((plan, index) => (
+                        <li key={plan.type}>• Option {index + 1}: {plan.label}</li>
+                      ))}
                       <li>• Lock-in contracts unlock the full compounded amount at maturity</li>
                     </ul>
                   </div>
@@ -732,6 +842,19 @@ const Donation = () => {
         withdrawableAmount={totalWithdrawable}
       />
 
+      {/* Pooled P2P Withdrawal Modal */}
+      <PooledWithdrawalModal
+        open={isPooledWithdrawOpen}
+        onClose={() => setIsPooledWithdrawOpen(false)}
+        contracts={contracts}
+      />
+
+      <EarlyTerminationModal
+        open={Boolean(terminationContract)}
+        onClose={() => setTerminationContract(null)}
+        contract={terminationContract}
+      />
+
       <BottomNavigation />
     </div>
   );
@@ -43,6 +43,12 @@ const getTypeLabel = (type: AppNotification["type"]) => {
       return "Contract";
     case "contract_ready_withdrawal":
       return "Withdraw";
+    case "contract_claim_expiring":
+      return "Expiring";
+    case "contract_rolled_over":
+      return "Rollover";
+    case "withdrawal_refunded":
+      return "Refund";
     default:
       return "Notification";
   }
@@ -43,7 +43,7 @@ export const PinSetup = () => {
 
     setLoading(true);
     try {
-      await setupPin(user.uid, pin);
+      await setupPin(pin);
       toast.success("PIN setup successful!");
       navigate("/dashboard");
     } catch (error: any) {
@@ -1,13 +1,16 @@
 import React, { useState, useEffect } from "react";
 import { motion } from "motion/react";
-import { IconLock, IconAlertCircle } from "@tabler/icons-react";
+import { IconLock, IconAlertCircle, IconFingerprint } from "@tabler/icons-react";
 import koliLogo from "@/assets/koli-logo.png";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
-import { verifyPin, updateLastUnlock } from "@/lib/pinSecurity";
+import { checkPin, updateLastUnlock } from "@/lib/pinSecurity";
+import { registerSession } from "@/lib/memberSessions";
+import { MAX_PASSKEY_UNLOCK_FAILURES, unlockWithPasskey } from "@/lib/passkeys";
 import { useAuth } from "@/contexts/AuthContext";
+import { useDevicePasskey } from "@/hooks/usePasskeys";
 
 interface PinUnlockProps {
   onUnlock: () => void;
@@ -17,10 +20,13 @@ export const PinUnlock: React.FC<PinUnlockProps> = ({ onUnlock }) => {
   const { user, userData, logout } = useAuth();
   const [pin, setPin] = useState("");
   const [loading, setLoading] = useState(false);
-  const [attempts, setAttempts] = useState(0);
+  const [attemptsRemaining, setAttemptsRemaining] = useState<number | null>(null);
   const [isLocked, setIsLocked] = useState(false);
+  const [passkeyFailures, setPasskeyFailures] = useState(0);
+  const { isEnrolled: hasDevicePasskey } = useDevicePasskey(user?.uid || null);
 
-  const MAX_ATTEMPTS = 5;
+  // Fall back to the PIN once the passkey fails too often
+  const canUsePasskey = hasDevicePasskey && passkeyFailures < MAX_PASSKEY_UNLOCK_FAILURES;
 
   useEffect(() => {
     // Auto-focus on mount
@@ -30,6 +36,36 @@ export const PinUnlock: React.FC<PinUnlockProps> = ({ onUnlock }) => {
     }
   }, []);
 
+  // Last seen for the device list on Profile
+  const refreshSession = () =>
+    registerSession().catch((error) => {
+      console.error("Error refreshing session:", error);
+    });
+
+  const handlePasskeyUnlock = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      if (await unlockWithPasskey()) {
+        await updateLastUnlock(user.uid);
+        void refreshSession();
+        toast.success("Unlocked with passkey");
+        onUnlock();
+      }
+    } catch (error) {
+      console.error("Passkey unlock error:", error);
+      const failures = passkeyFailures + 1;
+      setPasskeyFailures(failures);
+      toast.error(
+        failures >= MAX_PASSKEY_UNLOCK_FAILURES ? "Passkey didn't work. Enter your PIN instead." : "Passkey check failed",
+        { description: error instanceof Error ? error.message : undefined }
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handlePinInput = (value: string) => {
     // Only allow digits and max 6 characters
     const cleaned = value.replace(/\D/g, "").slice(0, 6);
@@ -55,34 +91,35 @@ export const PinUnlock: React.FC<PinUnlockProps> = ({ onUnlock }) => {
     }
 
     if (isLocked) {
-      toast.error("Too many failed attempts. Please logout and login again.");
+      toast.error("Too many failed attempts. Try again in 30 minutes.");
       return;
     }
 
     setLoading(true);
     try {
-      const isValid = await verifyPin(user.uid, pinToVerify);
+      // The server counts attempts and locks the PIN, so a reload does not reset them
+      const { verified, attemptsRemaining: remaining } = await checkPin(pinToVerify);
 
-      if (isValid) {
+      if (verified) {
         // Update last unlock timestamp
         await updateLastUnlock(user.uid);
+        void refreshSession();
         toast.success("PIN verified!");
         onUnlock();
       } else {
-        const newAttempts = attempts + 1;
-        setAttempts(newAttempts);
+        setAttemptsRemaining(remaining);
         setPin("");
 
-        if (newAttempts >= MAX_ATTEMPTS) {
+        if (remaining === 0) {
           setIsLocked(true);
-          toast.error("Too many failed attempts. Please logout and login again.");
+          toast.error("Too many failed attempts. Try again in 30 minutes.");
         } else {
-          toast.error(`Incorrect PIN. ${MAX_ATTEMPTS - newAttempts} attempts remaining.`);
+          toast.error(`Incorrect PIN. ${remaining} attempts remaining.`);
         }
       }
     } catch (error: any) {
       console.error("PIN verification error:", error);
-      toast.error("Failed to verify PIN");
+      toast.error(error?.message || "Failed to verify PIN");
       setPin("");
     } finally {
       setLoading(false);
@@ -132,24 +169,24 @@ export const PinUnlock: React.FC<PinUnlockProps> = ({ onUnlock }) => {
 
           <CardContent className="space-y-6">
             {/* Warning if attempts are high */}
-            {attempts > 0 && !isLocked && (
+            {attemptsRemaining !== null && !isLocked && (
               <motion.div
                 initial={{ opacity: 0, y: -10 }}
                 animate={{ opacity: 1, y: 0 }}
                 className={`p-4 rounded-lg border ${
-                  attempts >= 3
+                  attemptsRemaining <= 1
                     ? "bg-red-500/10 border-red-500/20"
                     : "bg-yellow-500/10 border-yellow-500/20"
                 }`}
               >
                 <p className="text-sm font-semibold text-foreground flex items-center gap-2">
                   <IconAlertCircle
-                    className={`h-4 w-4 ${attempts >= 3 ? "text-red-500" : "text-yellow-500"}`}
+                    className={`h-4 w-4 ${attemptsRemaining <= 1 ? "text-red-500" : "text-yellow-500"}`}
                   />
-                  {MAX_ATTEMPTS - attempts} attempts remaining
+                  {attemptsRemaining} attempts remaining
                 </p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Account will be locked after {MAX_ATTEMPTS} failed attempts
+                  Your PIN will be locked for 30 minutes after too many failed attempts
                 </p>
               </motion.div>
             )}
@@ -166,7 +203,7 @@ export const PinUnlock: React.FC<PinUnlockProps> = ({ onUnlock }) => {
                   Account Locked
                 </p>
                 <p className="text-xs text-muted-foreground mt-1">
-                  Too many failed PIN attempts. Please logout and login again with your email and password.
+                  Too many failed PIN attempts. Try again in 30 minutes, or contact support to unlock your PIN.
                 </p>
               </motion.div>
             )}
@@ -201,6 +238,19 @@ export const PinUnlock: React.FC<PinUnlockProps> = ({ onUnlock }) => {
               {loading ? "Verifying..." : "Unlock"}
             </Button>
 
+            {canUsePasskey && (
+              <Button
+                onClick={handlePasskeyUnlock}
+                variant="outline"
+                className="w-full"
+                size="lg"
+                disabled={loading || isLocked}
+              >
+                <IconFingerprint className="h-5 w-5 mr-2" />
+                Unlock with Passkey
+              </Button>
+            )}
+
             {/* Logout Option */}
             <div className="text-center">
               <button
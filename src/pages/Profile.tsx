@@ -38,6 +38,9 @@ import {
   getContractPrincipal,
 } from "@/lib/donationContract";
 import { ExternalWithdrawModal } from "@/components/donation/ExternalWithdrawModal";
+import { PayoutDestinationsCard } from "@/components/donation/PayoutDestinationsCard";
+import { PasskeysCard } from "@/components/security/PasskeysCard";
+import { SessionsCard } from "@/components/security/SessionsCard";
 import { BottomNavigation } from "@/components/common/BottomNavigation";
 import {
   Dialog,
@@ -363,6 +366,12 @@ const Profile = () => {
                 </button>
               </CardContent>
             </Card>
+
+            <PasskeysCard userId={user?.uid || null} passkeyFunding={Boolean(userData?.passkeyFunding)} />
+
+            <SessionsCard userId={user?.uid || null} />
+
+            <PayoutDestinationsCard userId={user?.uid || null} />
           </motion.div>
 
           {/* Zone 2: Donation Contracts Overview */}
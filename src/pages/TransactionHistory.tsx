@@ -17,6 +17,7 @@ import {
   IconRefresh,
   IconChevronDown,
   IconChevronUp,
+  IconGitBranch,
 } from "@tabler/icons-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -39,7 +40,9 @@ import { useRealtimeContracts } from "@/hooks/useRealtimeContracts";
 import { useRealtimePayouts } from "@/hooks/useRealtimePayouts";
 import { useRealtimeRewardsHistory } from "@/hooks/useRealtimeRewardsHistory";
 import { HeaderWithdrawable } from "@/components/common/HeaderWithdrawable";
-import { DonationContract, getContractAdjustmentDetails } from "@/lib/donationContract";
+import { ContractLineage } from "@/components/donation/ContractLineage";
+import { PayoutStatusHistory } from "@/components/donation/PayoutStatusHistory";
+import { DonationContract, getContractAdjustmentDetails, getContractLineage } from "@/lib/donationContract";
 
 interface Transaction {
   id: string;
@@ -124,7 +127,9 @@ const TransactionHistory = () => {
         date: new Date(payout.requestedAt),
         description: payout.withdrawalType === "MANA_REWARDS" 
           ? "MANA Rewards"
-          : `Withdrawal ${payout.withdrawalNumber}/${payout.totalWithdrawals}`,
+          : payout.withdrawalType === "EARLY_TERMINATION"
+            ? "Early Termination"
+            : `Withdrawal ${payout.withdrawalNumber}/${payout.totalWithdrawals}`,
         details: payout,
       });
     });
@@ -245,6 +250,12 @@ const TransactionHistory = () => {
               <IconAlertCircle size={12} className="mr-1" /> Rejected
             </Badge>
           );
+        case "terminated":
+          return (
+            <Badge variant="outline" className="border-red-500/50 text-red-400">
+              Terminated Early
+            </Badge>
+          );
         default:
           return <Badge variant="outline">{status}</Badge>;
       }
@@ -264,12 +275,36 @@ const TransactionHistory = () => {
               <IconLoader size={12} className="mr-1" /> Processing
             </Badge>
           );
+        case "approved":
+          return (
+            <Badge className="bg-blue-500 text-white">
+              <IconCircleCheck size={12} className="mr-1" /> Approved
+            </Badge>
+          );
         case "failed":
           return (
             <Badge variant="destructive">
               <IconAlertCircle size={12} className="mr-1" /> Failed
             </Badge>
           );
+        case "rejected":
+          return (
+            <Badge variant="destructive">
+              <IconAlertCircle size={12} className="mr-1" /> Rejected
+            </Badge>
+          );
+        case "returned":
+          return (
+            <Badge variant="outline" className="border-red-500/50 text-red-400">
+              <IconAlertCircle size={12} className="mr-1" /> Returned
+            </Badge>
+          );
+        case "pending_review":
+          return (
+            <Badge variant="outline" className="border-orange-500/50 text-orange-400">
+              <IconHourglass size={12} className="mr-1" /> In Review
+            </Badge>
+          );
         case "pending":
         default:
           return (
@@ -321,6 +356,32 @@ const TransactionHistory = () => {
     }
   };
 
+  const renderStatusHistory = (withdrawal: Transaction) => {
+    const historyKey = `history-${withdrawal.id}`;
+    const isHistoryOpen = expandedGroups.has(historyKey);
+
+    return (
+      <div className="mt-2 pt-2 border-t border-border">
+        <button
+          type="button"
+          onClick={() => toggleGroup(historyKey)}
+          className="text-xs text-primary hover:underline flex items-center gap-1"
+        >
+          <IconHistory size={12} />
+          {isHistoryOpen ? "Hide Status History" : "View Status History"}
+        </button>
+        {isHistoryOpen && (
+          <div className="mt-2">
+            <PayoutStatusHistory
+              requestedAt={withdrawal.details?.requestedAt}
+              history={withdrawal.details?.statusHistory}
+            />
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const loading = contractsLoading || payoutsLoading || rewardsLoading;
 
   const openReceiptModal = async (url?: string, path?: string) => {
@@ -575,6 +636,36 @@ const TransactionHistory = () => {
                                           );
                                         })()}
 
+                                      {transaction.type === "deposit" &&
+                                        (() => {
+                                          const contract = transaction.details as DonationContract | undefined;
+                                          if (contract?.paymentMethod !== "redonate_pool" && contract?.paymentMethod !== "rollover") {
+                                            return null;
+                                          }
+                                          const lineageKey = `lineage-${transaction.id}`;
+                                          const isLineageOpen = expandedGroups.has(lineageKey);
+
+                                          return (
+                                            <div className="mt-2 pt-2 border-t border-blue-500/30">
+                                              <button
+                                                type="button"
+                                                onClick={() => toggleGroup(lineageKey)}
+                                                className="text-xs text-blue-400 hover:underline flex items-center gap-1"
+                                              >
+                                                <IconGitBranch size={12} />
+                                                {isLineageOpen ? "Hide Funding Sources" : "View Funding Sources"}
+                                              </button>
+                                              {isLineageOpen && (
+                                                <div className="mt-2">
+                                                  <ContractLineage
+                                                    lineage={getContractLineage(contract, contracts as DonationContract[])}
+                                                  />
+                                                </div>
+                                              )}
+                                            </div>
+                                          );
+                                        })()}
+
                                       {transaction.type === "deposit" &&
                                         transaction.status === "rejected" &&
                                         transaction.details?.rejectionReason && (
@@ -609,6 +700,8 @@ const TransactionHistory = () => {
                                             </p>
                                           </div>
                                         )}
+
+                                      {transaction.type === "withdrawal" && renderStatusHistory(transaction)}
                                     </>
                                   )}
                                 </div>
@@ -659,6 +752,8 @@ const TransactionHistory = () => {
                                           </p>
                                         </div>
                                       )}
+
+                                      {renderStatusHistory(withdrawal)}
                                     </CardContent>
                                   </Card>
                                 ))}
@@ -1,8 +1,9 @@
 // Email verification service with strict security
 import emailOTPService from './emailOTPService';
-import { auth, db } from '../lib/firebase';
-import { createUserWithEmailAndPassword, signInWithEmailAndPassword } from 'firebase/auth';
-import { doc, setDoc, getDoc, collection, query, where, getDocs, serverTimestamp, updateDoc, increment } from 'firebase/firestore';
+import { auth, db, functions } from '../lib/firebase';
+import { createUserWithEmailAndPassword } from 'firebase/auth';
+import { httpsCallable } from 'firebase/functions';
+import { doc, setDoc, getDoc, serverTimestamp, updateDoc, increment } from 'firebase/firestore';
 
 interface PendingSignUp {
   email: string;
@@ -349,19 +350,8 @@ class EmailVerificationService implements EmailVerificationServiceInterface {
     try {
       console.log(`👤 Creating user account for ${pendingSignUp.email}...`);
 
-      // Double-check email uniqueness
-      const emailQuery = query(
-        collection(db, 'members'),
-        where('email', '==', pendingSignUp.email)
-      );
-      const emailSnapshot = await getDocs(emailQuery);
-
-      if (!emailSnapshot.empty) {
-        this.pendingSignUps.delete(sessionId);
-        return { success: false, error: 'Email is already registered' };
-      }
-
-      // Step 1: Create Firebase Auth user
+      // Step 1: Create Firebase Auth user (fails with auth/email-already-in-use
+      // for a registered email)
       console.log('🔐 Creating Firebase Auth user...');
       const userCredential = await createUserWithEmailAndPassword(
         auth, 
@@ -372,12 +362,8 @@ class EmailVerificationService implements EmailVerificationServiceInterface {
       const firebaseUser = userCredential.user;
       console.log('✅ Firebase Auth user created with UID:', firebaseUser.uid);
       
-      // IMPORTANT: Sign out immediately to prevent auth state change from reading non-existent document
-      console.log('🔓 Signing out to avoid race condition...');
-      await auth.signOut();
-      console.log('✅ Signed out successfully');
-
-      // Step 2: Now save user document to Firestore WITHOUT being authenticated
+      // Step 2: Save the user document while signed in as the new user
+      // (security rules only let members create their own doc)
       const userData = {
         uid: firebaseUser.uid,
         email: pendingSignUp.email,
@@ -418,7 +404,6 @@ class EmailVerificationService implements EmailVerificationServiceInterface {
         balance: 0,
         deposit: 0,
         hasPinSetup: false,
-        pinHash: null,
         kycStatus: "NOT_SUBMITTED",
       };
 
@@ -483,27 +468,16 @@ class EmailVerificationService implements EmailVerificationServiceInterface {
         }
       }
 
-      // Step 3: Handle referral code if provided
+      // Step 3: Handle referral code if provided. The referrer lookup runs in
+      // the recordSignupReferral callable (functions/signupReferral.js), which
+      // reads the code saved on the new members doc above
       if (pendingSignUp.referralCode) {
         try {
-          const referralQuery = query(
-            collection(db, 'users'),
-            where('referralCode', '==', pendingSignUp.referralCode)
-          );
-          const referralSnapshot = await getDocs(referralQuery);
-          
-          if (!referralSnapshot.empty) {
-            const referrerDoc = referralSnapshot.docs[0];
-            const referrerId = referrerDoc.id;
-            
-            await setDoc(doc(db, 'referrals', `${referrerId}_${firebaseUser.uid}`), {
-              referrerId,
-              referredUserId: firebaseUser.uid,
-              referralCode: pendingSignUp.referralCode,
-              status: 'completed',
-              createdAt: serverTimestamp(),
-              bonusAwarded: false,
-            });
+          const recordReferral = httpsCallable<void, { recorded: boolean }>(functions, 'recordSignupReferral');
+          const { data } = await recordReferral();
+
+          if (!data.recorded) {
+            console.warn(`Referral code ${pendingSignUp.referralCode} did not match a referrer`);
           }
         } catch (referralError) {
           console.error('Referral processing error:', referralError);
@@ -515,11 +489,6 @@ class EmailVerificationService implements EmailVerificationServiceInterface {
       this.pendingSignUps.delete(sessionId);
 
       console.log(`✅ User account created successfully for ${pendingSignUp.email}`);
-      
-      // Step 5: Sign the user back in so they can access the dashboard
-      console.log('🔐 Signing user back in...');
-      await signInWithEmailAndPassword(auth, pendingSignUp.email, pendingSignUp.password);
-      console.log('✅ User signed in successfully');
 
       const responseUser = {
         uid: firebaseUser.uid,
@@ -601,9 +570,6 @@ class EmailVerificationService implements EmailVerificationServiceInterface {
     if (cleanedCount > 0) {
       console.log(`🧹 Cleaned up ${cleanedCount} expired verification sessions`);
     }
-
-    // Also clean up expired OTPs
-    emailOTPService.cleanupExpiredOTPs();
   }
 
   /**
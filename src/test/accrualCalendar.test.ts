@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import {
+  addCalendarMonths,
+  countElapsedPeriods,
+  getCalendarDaysUntil,
+  getPeriodUnlockDate,
+} from "@/lib/accrualCalendar";
+
+// 2026-01-31 10:00 in Asia/Manila (UTC+8)
+const monthEndStart = new Date("2026-01-31T02:00:00.000Z");
+
+describe("accrual calendar", () => {
+  it("clamps calendar months to the end of shorter months", () => {
+    expect(addCalendarMonths(monthEndStart, 1).toISOString()).toBe("2026-02-28T02:00:00.000Z");
+    expect(addCalendarMonths(monthEndStart, 2).toISOString()).toBe("2026-03-31T02:00:00.000Z");
+    expect(addCalendarMonths(monthEndStart, 3).toISOString()).toBe("2026-04-30T02:00:00.000Z");
+    expect(addCalendarMonths(monthEndStart, 12).toISOString()).toBe("2027-01-31T02:00:00.000Z");
+  });
+
+  it("uses the Manila calendar day, not the UTC one", () => {
+    // 2026-02-01 01:00 Manila is still Jan 31 in UTC
+    const start = new Date("2026-01-31T17:00:00.000Z");
+    expect(addCalendarMonths(start, 1).toISOString()).toBe("2026-02-28T17:00:00.000Z");
+  });
+
+  it("keeps fixed 30-day periods for the default calendar", () => {
+    expect(getPeriodUnlockDate(monthEndStart, 1).toISOString()).toBe("2026-03-02T02:00:00.000Z");
+    expect(countElapsedPeriods(monthEndStart, new Date("2026-03-02T01:59:59.000Z"))).toBe(0);
+    expect(countElapsedPeriods(monthEndStart, new Date("2026-03-02T02:00:00.000Z"))).toBe(1);
+  });
+
+  it("counts elapsed calendar-month periods at the exact unlock instant", () => {
+    expect(countElapsedPeriods(monthEndStart, new Date("2026-02-28T01:59:59.000Z"), "calendar_month")).toBe(0);
+    expect(countElapsedPeriods(monthEndStart, new Date("2026-02-28T02:00:00.000Z"), "calendar_month")).toBe(1);
+    expect(countElapsedPeriods(monthEndStart, new Date("2027-01-31T02:00:00.000Z"), "calendar_month")).toBe(12);
+  });
+
+  it("counts days until a date in Manila calendar days", () => {
+    const now = new Date("2026-02-27T15:30:00.000Z"); // Feb 27 23:30 Manila
+    expect(getCalendarDaysUntil(new Date("2026-02-28T02:00:00.000Z"), now)).toBe(1);
+  });
+});
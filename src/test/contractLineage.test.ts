@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/firebase", () => ({ db: {}, functions: {} }));
+
+import { DonationContract, getContractLineage } from "@/lib/donationContract";
+
+const baseContract: DonationContract = {
+  userId: "user-1",
+  donationAmount: 1000,
+  donationStartDate: "2026-01-01T00:00:00.000Z",
+  contractEndDate: "2027-01-01T00:00:00.000Z",
+  lastWithdrawalDate: null,
+  withdrawalsCount: 0,
+  totalWithdrawn: 0,
+  status: "active",
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("getContractLineage", () => {
+  it("traces pool re-donations and rollovers back to receipt-backed deposits", () => {
+    const deposit: DonationContract = { ...baseContract, id: "deposit", paymentMethod: "gcash" };
+    const pool: DonationContract = {
+      ...baseContract,
+      id: "pool",
+      donationAmount: 500,
+      paymentMethod: "redonate_pool",
+      fundingSources: [
+        { type: "contract", contractId: "deposit", amount: 300 },
+        { type: "mana", amount: 200 },
+      ],
+    };
+    const rollover: DonationContract = {
+      ...baseContract,
+      id: "rollover",
+      donationAmount: 650,
+      paymentMethod: "rollover",
+      parentContractId: "pool",
+    };
+
+    const lineage = getContractLineage(rollover, [deposit, pool, rollover]);
+
+    expect(lineage.sources).toHaveLength(1);
+    expect(lineage.sources[0]).toMatchObject({ contractId: "pool", amount: 650, isReceiptBacked: false });
+    expect(lineage.sources[0].sources.map((node) => [node.contractId, node.amount, node.isReceiptBacked])).toEqual([
+      ["deposit", 300, true],
+      [null, 200, false],
+    ]);
+  });
+
+  it("marks legacy pool re-donations without funding sources as untracked", () => {
+    const legacy: DonationContract = { ...baseContract, id: "legacy", paymentMethod: "redonate_pool" };
+
+    const lineage = getContractLineage(legacy, [legacy]);
+
+    expect(lineage.isUntracked).toBe(true);
+    expect(lineage.sources).toHaveLength(0);
+  });
+});
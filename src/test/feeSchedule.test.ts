@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { calculatePayoutFee, getPayoutMethod, resolveFeeSchedule } from "@/lib/feeSchedule";
+
+const schedule = resolveFeeSchedule({
+  rules: [
+    { id: "service", label: "Service fee", type: "percentage", rate: 0.02, minFee: 10, maxFee: 200 },
+    { id: "bank", label: "Bank transfer fee", type: "flat", amount: 25, paymentMethods: ["bank"] },
+    {
+      id: "volume",
+      label: "Volume fee",
+      type: "tiered",
+      tiers: [
+        { minAmount: 5000, rate: 0, flat: 15 },
+        { minAmount: 0, rate: 0, flat: 5 },
+      ],
+    },
+    { id: "retired", type: "flat", amount: 100, active: false },
+    { id: "unknown", type: "surcharge", amount: 100 },
+  ],
+});
+
+describe("calculatePayoutFee", () => {
+  it("adds every matching rule and deducts the fee from the line", () => {
+    expect(calculatePayoutFee(900, "gcash", schedule)).toEqual({
+      grossAmount: 900,
+      platformFee: 23,
+      netAmount: 877,
+      feeBreakdown: [
+        { ruleId: "service", label: "Service fee", fee: 18 },
+        { ruleId: "volume", label: "Volume fee", fee: 5 },
+      ],
+    });
+  });
+
+  it("applies method-specific rules, tiers and fee limits", () => {
+    const fee = calculatePayoutFee(20000, "bank", schedule);
+    expect(fee.feeBreakdown.map((line) => [line.ruleId, line.fee])).toEqual([
+      ["service", 200],
+      ["bank", 25],
+      ["volume", 15],
+    ]);
+    expect(fee.netAmount).toBe(19760);
+  });
+
+  it("never charges more than the line amount", () => {
+    expect(calculatePayoutFee(12, "bank", schedule)).toMatchObject({ platformFee: 12, netAmount: 0 });
+  });
+
+  it("charges nothing without a fee schedule", () => {
+    expect(calculatePayoutFee(900, "maya", resolveFeeSchedule(null))).toMatchObject({ platformFee: 0, netAmount: 900 });
+  });
+});
+
+describe("getPayoutMethod", () => {
+  it("maps destination fields to a fee method", () => {
+    expect(getPayoutMethod({ paymentMethod: "GCash" })).toBe("gcash");
+    expect(getPayoutMethod({ paymentMethod: "BPI", bankName: "BPI" })).toBe("bank");
+    expect(getPayoutMethod({ paymentMethod: "Bank Transfer" })).toBe("bank");
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/firebase", () => ({ db: {}, functions: {} }));
+
+import { PayoutDestination, getPayoutDestinationLabel, isPayoutDestinationAvailable } from "@/lib/payoutDestinations";
+
+const gcash: PayoutDestination = {
+  id: "dest-1",
+  userId: "user-1",
+  type: "gcash",
+  accountNumber: "+639171234567",
+  accountName: "Juan Dela Cruz",
+  bankName: null,
+  status: "verified",
+  verifiedAt: "2026-03-01T00:00:00.000Z",
+  availableAt: "2026-03-02T00:00:00.000Z",
+  createdAt: "2026-03-01T00:00:00.000Z",
+};
+
+describe("isPayoutDestinationAvailable", () => {
+  it("waits for the cooling-off period after verification", () => {
+    expect(isPayoutDestinationAvailable(gcash, new Date("2026-03-01T12:00:00.000Z"))).toBe(false);
+    expect(isPayoutDestinationAvailable(gcash, new Date("2026-03-02T00:00:00.000Z"))).toBe(true);
+  });
+
+  it("never allows unconfirmed destinations", () => {
+    const pending = { ...gcash, status: "pending_verification" as const, verifiedAt: null, availableAt: null };
+    expect(isPayoutDestinationAvailable(pending, new Date("2027-01-01T00:00:00.000Z"))).toBe(false);
+  });
+});
+
+describe("getPayoutDestinationLabel", () => {
+  it("shows e-wallet numbers in full and masks bank accounts", () => {
+    expect(getPayoutDestinationLabel(gcash)).toBe("GCash +63 917 123 4567");
+    expect(
+      getPayoutDestinationLabel({ ...gcash, type: "bank", bankName: "BPI", accountNumber: "1234567890" })
+    ).toBe("BPI •••• 7890");
+  });
+});
@@ -0,0 +1,165 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/firebase", () => ({ db: {}, functions: {} }));
+
+import {
+  DonationContract,
+  getContractPayoutSchedule,
+  getContractWithdrawalAmount,
+  getEarlyTerminationQuote,
+  getPooledWithdrawalLines,
+} from "@/lib/donationContract";
+
+const baseContract: DonationContract = {
+  userId: "user-1",
+  donationAmount: 1000,
+  donationStartDate: "2026-01-01T00:00:00.000Z",
+  contractEndDate: "2027-01-01T00:00:00.000Z",
+  lastWithdrawalDate: null,
+  withdrawalsCount: 0,
+  totalWithdrawn: 0,
+  status: "active",
+  createdAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("getContractPayoutSchedule", () => {
+  it("lists every monthly unlock with cumulative totals", () => {
+    const schedule = getContractPayoutSchedule(
+      { ...baseContract, contractType: "monthly_12_no_principal" },
+      new Date("2026-01-15T00:00:00.000Z")
+    );
+
+    expect(schedule.entries).toHaveLength(12);
+    expect(schedule.entries[0].unlockDate.toISOString()).toBe("2026-01-31T00:00:00.000Z");
+    expect(schedule.entries[0].amount).toBeCloseTo(300);
+    expect(schedule.entries[11].cumulativeUnlocked).toBeCloseTo(3600);
+    expect(schedule.totalPayout).toBeCloseTo(3600);
+    expect(schedule.entries.every((entry) => entry.status === "upcoming")).toBe(true);
+  });
+
+  it("applies withdrawals to the earliest unlocks first", () => {
+    const schedule = getContractPayoutSchedule(
+      { ...baseContract, contractType: "monthly_12_no_principal", totalWithdrawn: 450 },
+      new Date("2026-03-15T00:00:00.000Z")
+    );
+
+    expect(schedule.entries[0]).toMatchObject({ withdrawn: 300, remaining: 0, status: "withdrawn" });
+    expect(schedule.entries[1].withdrawn).toBeCloseTo(150);
+    expect(schedule.entries[1].status).toBe("available");
+    expect(schedule.entries[2].status).toBe("upcoming");
+    expect(schedule.totalRemaining).toBeCloseTo(3150);
+  });
+
+  it("marks unwithdrawn monthly unlocks as expired after the contract ends", () => {
+    const schedule = getContractPayoutSchedule(
+      { ...baseContract, contractType: "monthly_12_no_principal", totalWithdrawn: 3300 },
+      new Date("2027-02-01T00:00:00.000Z")
+    );
+
+    expect(schedule.entries[10].status).toBe("withdrawn");
+    expect(schedule.entries[11].status).toBe("expired");
+  });
+
+  it("keeps unwithdrawn monthly unlocks available during the claim window", () => {
+    const schedule = getContractPayoutSchedule(
+      { ...baseContract, contractType: "monthly_12_no_principal", totalWithdrawn: 3300 },
+      new Date("2027-01-20T00:00:00.000Z")
+    );
+
+    expect(schedule.claimDeadline?.toISOString()).toBe("2027-01-31T00:00:00.000Z");
+    expect(schedule.entries[11].status).toBe("available");
+  });
+
+  it("returns a single maturity unlock for compound lock-in plans", () => {
+    const schedule = getContractPayoutSchedule(
+      { ...baseContract, contractType: "lockin_6_compound", contractEndDate: "2026-07-01T00:00:00.000Z" },
+      new Date("2026-07-02T00:00:00.000Z")
+    );
+
+    expect(schedule.entries).toHaveLength(1);
+    expect(schedule.entries[0].unlockDate.toISOString()).toBe("2026-07-01T00:00:00.000Z");
+    expect(schedule.entries[0].amount).toBeCloseTo(1000 * Math.pow(1.3, 6));
+    expect(schedule.entries[0].status).toBe("available");
+  });
+
+  it("projects the schedule from today for pending contracts", () => {
+    const now = new Date("2026-05-01T00:00:00.000Z");
+    const schedule = getContractPayoutSchedule(
+      {
+        ...baseContract,
+        contractType: "lockin_12_compound",
+        status: "pending",
+        donationStartDate: null,
+        contractEndDate: null,
+      },
+      now
+    );
+
+    expect(schedule.isProjected).toBe(true);
+    expect(schedule.startDate.toISOString()).toBe(now.toISOString());
+    expect(schedule.entries[0].status).toBe("upcoming");
+  });
+});
+
+describe("getContractWithdrawalAmount", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("rounds a monthly payout down to whole KOLI like the callable", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-02-15T00:00:00.000Z"));
+
+    // 30% of 999 is 299.7
+    expect(getContractWithdrawalAmount({ ...baseContract, contractType: "monthly_12_no_principal", donationAmount: 999 })).toBe(299);
+  });
+
+  it("caps a monthly payout at the floored available amount", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-02-15T00:00:00.000Z"));
+
+    expect(
+      getContractWithdrawalAmount({ ...baseContract, contractType: "monthly_12_no_principal", totalWithdrawn: 150.5 })
+    ).toBe(149);
+  });
+
+  it("returns 0 before anything unlocks", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-01-15T00:00:00.000Z"));
+
+    expect(getContractWithdrawalAmount({ ...baseContract, contractType: "monthly_12_no_principal" })).toBe(0);
+  });
+});
+
+describe("getEarlyTerminationQuote", () => {
+  it("counts legacy withdrawalsCount periods when totalWithdrawn is missing, like the callable", () => {
+    const { totalWithdrawn: _totalWithdrawn, ...legacyContract } = baseContract;
+    const quote = getEarlyTerminationQuote(
+      { ...legacyContract, contractType: "lockin_12_compound", withdrawalsCount: 1 },
+      new Date("2026-03-15T00:00:00.000Z")
+    );
+
+    // One 30% period of the 1000 principal
+    expect(quote.totalWithdrawn).toBeCloseTo(300);
+    expect(quote.payoutAmount).toBeCloseTo(quote.currentValue - quote.penaltyAmount - 300);
+  });
+});
+
+describe("getPooledWithdrawalLines", () => {
+  const eligibleContracts = [
+    { contract: { ...baseContract, id: "contract-a" }, availableAmount: 100 },
+    { contract: { ...baseContract, id: "contract-b" }, availableAmount: 200 },
+  ];
+
+  it("takes MANA first, then drains the contracts in order", () => {
+    expect(getPooledWithdrawalLines(180, eligibleContracts, 50)).toEqual([
+      { contractId: null, amount: 50 },
+      { contractId: "contract-a", amount: 100 },
+      { contractId: "contract-b", amount: 30 },
+    ]);
+  });
+
+  it("queues a single MANA line when the balance covers the amount", () => {
+    expect(getPooledWithdrawalLines(40, eligibleContracts, 50)).toEqual([{ contractId: null, amount: 40 }]);
+  });
+});
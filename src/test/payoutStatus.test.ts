@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { canTransitionPayout, getPayoutStatusLabel } from "@/lib/payoutStatus";
+
+describe("canTransitionPayout", () => {
+  it("allows forward moves and refunds before settlement", () => {
+    expect(canTransitionPayout("pending", "approved")).toBe(true);
+    expect(canTransitionPayout("approved", "completed")).toBe(true);
+    expect(canTransitionPayout("processing", "failed")).toBe(true);
+    expect(canTransitionPayout("completed", "returned")).toBe(true);
+  });
+
+  it("refuses moving back or out of terminal statuses", () => {
+    expect(canTransitionPayout("completed", "pending")).toBe(false);
+    expect(canTransitionPayout("processing", "approved")).toBe(false);
+    expect(canTransitionPayout("rejected", "completed")).toBe(false);
+    expect(canTransitionPayout("Completed", "returned")).toBe(false);
+  });
+
+  it("holds payouts in review until cleared or rejected", () => {
+    expect(canTransitionPayout("pending_review", "pending")).toBe(true);
+    expect(canTransitionPayout("pending_review", "rejected")).toBe(true);
+    expect(canTransitionPayout("pending_review", "completed")).toBe(false);
+    expect(canTransitionPayout("pending", "pending_review")).toBe(false);
+  });
+
+  it("labels unknown legacy statuses as stored", () => {
+    expect(getPayoutStatusLabel("returned")).toBe("Returned");
+    expect(getPayoutStatusLabel("declined")).toBe("declined");
+  });
+});
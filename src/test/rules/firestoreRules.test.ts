@@ -0,0 +1,607 @@
+import { readFileSync } from "node:fs";
+import { afterAll, beforeAll, beforeEach, describe, it } from "vitest";
+import {
+  RulesTestEnvironment,
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  Timestamp,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+
+/**
+ * firestore.rules against the local emulator (npm run test:rules)
+ */
+
+let testEnv: RulesTestEnvironment;
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: "koli-rules-test",
+    firestore: { rules: readFileSync("firestore.rules", "utf8") },
+  });
+});
+
+afterAll(async () => {
+  await testEnv?.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+});
+
+const seed = (path: string, data: Record<string, unknown>) =>
+  testEnv.withSecurityRulesDisabled((context) => setDoc(doc(context.firestore(), path), data));
+
+const asMember = (uid = "alice") => testEnv.authenticatedContext(uid, { email: `${uid}@example.com` }).firestore();
+const asGuest = () => testEnv.unauthenticatedContext().firestore();
+
+const newMember = (uid = "alice") => ({
+  uid,
+  email: `${uid}@example.com`,
+  firstName: "Alice",
+  lastName: "Santos",
+  emailVerified: true,
+  referralCode: null,
+  platformCodeId: null,
+  platformCode: null,
+  leaderId: null,
+  leaderName: null,
+  joinedUnderLeaderAt: null,
+  createdAt: serverTimestamp(),
+  profile: { displayName: "Alice Santos", avatar: null },
+  settings: { notifications: { email: true, marketing: false, security: true } },
+  stats: { totalDonations: 0, totalWithdrawals: 0, referralCount: 0 },
+  status: "active",
+  lastLoginAt: serverTimestamp(),
+  role: "member",
+  balance: 0,
+  deposit: 0,
+  hasPinSetup: false,
+  kycStatus: "NOT_SUBMITTED",
+});
+
+const existingMember = (uid = "alice") => ({
+  ...newMember(uid),
+  createdAt: "2026-01-01T00:00:00.000Z",
+  lastLoginAt: "2026-01-01T00:00:00.000Z",
+  balance: 250,
+  hasPinSetup: true,
+  kycStatus: "NOT_SUBMITTED",
+});
+
+const pendingContract = (userId = "alice") => ({
+  userId,
+  donationAmount: 1000,
+  contractType: "monthly_12",
+  planVersion: 1,
+  donationStartDate: null,
+  lastWithdrawalDate: null,
+  withdrawalsCount: 0,
+  totalWithdrawn: 0,
+  contractEndDate: null,
+  status: "pending",
+  paymentMethod: "gcash",
+  receiptURL: null,
+  receiptPath: null,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  approvedAt: null,
+  approvedBy: null,
+});
+
+const pendingOtp = () => ({
+  email: "new@example.com",
+  hashedOTP: "a".repeat(64),
+  attempts: 1,
+  maxAttempts: 3,
+  createdAt: Timestamp.now(),
+  expiresAt: Timestamp.fromMillis(Date.now() + 5 * 60 * 1000),
+  lastSentAt: Timestamp.now(),
+});
+
+describe("members", () => {
+  it("lets a member read only their own doc", async () => {
+    await seed("members/alice", existingMember("alice"));
+    await seed("members/bob", existingMember("bob"));
+
+    await assertSucceeds(getDoc(doc(asMember("alice"), "members/alice")));
+    await assertFails(getDoc(doc(asMember("alice"), "members/bob")));
+    await assertFails(getDoc(doc(asGuest(), "members/alice")));
+    await assertFails(getDocs(query(collection(asMember("alice"), "members"), where("email", "==", "bob@example.com"))));
+  });
+
+  it("keeps other members' docs from admin clients (lookupMember callable)", async () => {
+    await seed("admins/admin-1", { role: "admin" });
+    await seed("members/alice", existingMember("alice"));
+
+    await assertFails(getDoc(doc(asMember("admin-1"), "members/alice")));
+    await assertFails(updateDoc(doc(asMember("admin-1"), "members/alice"), { balance: 1000000 }));
+  });
+
+  it("creates a member doc only for the signed-in user with zero balances", async () => {
+    await assertSucceeds(setDoc(doc(asMember("alice"), "members/alice"), newMember("alice")));
+    await assertFails(setDoc(doc(asMember("bob"), "members/carol"), newMember("carol")));
+    await assertFails(setDoc(doc(asGuest(), "members/dave"), newMember("dave")));
+  });
+
+  it("rejects signup docs with balances, roles or server-owned fields", async () => {
+    const db = asMember("alice");
+
+    await assertFails(setDoc(doc(db, "members/alice"), { ...newMember("alice"), balance: 1000000 }));
+    await assertFails(setDoc(doc(db, "members/alice"), { ...newMember("alice"), role: "admin" }));
+    await assertFails(setDoc(doc(db, "members/alice"), { ...newMember("alice"), kycStatus: "VERIFIED" }));
+    await assertFails(setDoc(doc(db, "members/alice"), { ...newMember("alice"), hasPinSetup: true }));
+    await assertFails(setDoc(doc(db, "members/alice"), { ...newMember("alice"), pinHash: "abc" }));
+    await assertFails(setDoc(doc(db, "members/alice"), { ...newMember("alice"), passkeyFunding: true }));
+    await assertFails(
+      setDoc(doc(db, "members/alice"), { ...newMember("alice"), stats: { totalDonations: 5000, referralCount: 0 } })
+    );
+  });
+
+  it("allows app unlock and KYC submission updates", async () => {
+    await seed("members/alice", existingMember("alice"));
+    const db = asMember("alice");
+
+    await assertSucceeds(updateDoc(doc(db, "members/alice"), { lastAppUnlockAt: "2026-02-01T00:00:00.000Z" }));
+    await assertSucceeds(
+      updateDoc(doc(db, "members/alice"), {
+        kycStatus: "PENDING",
+        kycSubmittedAt: "2026-02-01T00:00:00.000Z",
+        kycIdImageURL: "https://example.com/id.jpg",
+        kycIdImagePath: "kyc/alice/id-card.jpg",
+        kycRejectionReason: null,
+        kycVerifiedAt: null,
+        kycManualData: { address: "Manila" },
+        address: "Manila",
+      })
+    );
+  });
+
+  it("locks balances, PIN and verification fields", async () => {
+    await seed("members/alice", existingMember("alice"));
+    const db = asMember("alice");
+
+    await assertFails(updateDoc(doc(db, "members/alice"), { balance: 999999 }));
+    await assertFails(updateDoc(doc(db, "members/alice"), { deposit: 10 }));
+    await assertFails(updateDoc(doc(db, "members/alice"), { pinHash: "abc" }));
+    await assertFails(updateDoc(doc(db, "members/alice"), { hasPinSetup: false }));
+    await assertFails(updateDoc(doc(db, "members/alice"), { passkeyFunding: true }));
+    await assertFails(updateDoc(doc(db, "members/alice"), { role: "admin" }));
+    await assertFails(updateDoc(doc(db, "members/alice"), { status: "active", suspensionReason: null, balance: 1 }));
+    await assertFails(updateDoc(doc(db, "members/alice"), { kycStatus: "VERIFIED" }));
+    await assertFails(updateDoc(doc(db, "members/alice"), { kycVerifiedAt: "2026-02-01T00:00:00.000Z" }));
+    await assertFails(deleteDoc(doc(db, "members/alice")));
+  });
+
+  it("does not let anyone else touch a member", async () => {
+    await seed("members/alice", existingMember("alice"));
+
+    await assertFails(updateDoc(doc(asMember("bob"), "members/alice"), { lastAppUnlockAt: "2026-02-01T00:00:00.000Z" }));
+    await assertFails(updateDoc(doc(asGuest(), "members/alice"), { balance: 0 }));
+    await assertFails(updateDoc(doc(asGuest(), "members/alice"), { pinLockUntil: null, failedPinAttempts: 0 }));
+  });
+
+  it("keeps a verified member from resubmitting KYC", async () => {
+    await seed("members/alice", { ...existingMember("alice"), kycStatus: "VERIFIED" });
+
+    await assertFails(updateDoc(doc(asMember("alice"), "members/alice"), { kycStatus: "PENDING" }));
+  });
+});
+
+describe("donationContracts", () => {
+  it("scopes reads to the owner", async () => {
+    await seed("donationContracts/c-alice", pendingContract("alice"));
+    await seed("donationContracts/c-bob", pendingContract("bob"));
+    const db = asMember("alice");
+
+    await assertSucceeds(getDoc(doc(db, "donationContracts/c-alice")));
+    await assertSucceeds(getDocs(query(collection(db, "donationContracts"), where("userId", "==", "alice"))));
+    await assertFails(getDoc(doc(db, "donationContracts/c-bob")));
+    await assertFails(getDocs(collection(db, "donationContracts")));
+    await assertFails(getDoc(doc(asGuest(), "donationContracts/c-alice")));
+  });
+
+  it("leaves contract creation to the createDonationContract callable", async () => {
+    const db = asMember("alice");
+
+    await assertFails(setDoc(doc(db, "donationContracts/c-1"), pendingContract("alice")));
+    await assertFails(
+      setDoc(doc(db, "donationContracts/c-2"), { ...pendingContract("alice"), contractType: "lockin_12_compound" })
+    );
+    await assertFails(setDoc(doc(db, "donationContracts/c-3"), { ...pendingContract("alice"), status: "active" }));
+    await assertFails(setDoc(doc(asGuest(), "donationContracts/c-4"), pendingContract("alice")));
+  });
+
+  it("lets the owner attach a receipt while pending and nothing else", async () => {
+    await seed("donationContracts/c-pending", pendingContract("alice"));
+    await seed("donationContracts/c-active", { ...pendingContract("alice"), status: "active" });
+    const db = asMember("alice");
+
+    await assertSucceeds(
+      updateDoc(doc(db, "donationContracts/c-pending"), {
+        receiptURL: "https://example.com/receipt.jpg",
+        receiptPath: "receipts/alice/receipt.jpg",
+      })
+    );
+    await assertFails(updateDoc(doc(db, "donationContracts/c-pending"), { status: "active" }));
+    await assertFails(updateDoc(doc(db, "donationContracts/c-pending"), { donationAmount: 99999999 }));
+    await assertFails(updateDoc(doc(db, "donationContracts/c-active"), { receiptURL: "https://example.com/x.jpg" }));
+    await assertFails(updateDoc(doc(db, "donationContracts/c-active"), { totalWithdrawn: 0 }));
+    await assertFails(updateDoc(doc(asMember("bob"), "donationContracts/c-pending"), { receiptURL: null }));
+    await assertFails(deleteDoc(doc(db, "donationContracts/c-pending")));
+  });
+});
+
+describe("idempotencyKeys and ledgerEntries", () => {
+  it("keeps idempotency records server-side", async () => {
+    await seed("idempotencyKeys/alice_key-00000001", {
+      userId: "alice",
+      operation: "withdraw_with_pin",
+      result: { payoutId: "p-1" },
+      expiresAt: Timestamp.fromMillis(Date.now() - 1000),
+    });
+    const db = asMember("alice");
+
+    await assertFails(getDoc(doc(db, "idempotencyKeys/alice_key-00000001")));
+    await assertFails(
+      setDoc(doc(db, "idempotencyKeys/alice_key-00000002"), {
+        userId: "alice",
+        operation: "withdraw_with_pin",
+        result: { payoutId: "p-fake" },
+      })
+    );
+    await assertFails(
+      updateDoc(doc(db, "idempotencyKeys/alice_key-00000001"), { result: { payoutId: "p-fake" } })
+    );
+  });
+
+  it("lets members read their ledger entries but never post them", async () => {
+    await seed("ledgerEntries/withdrawal_hold_p-1_0", { userId: "alice", account: "contract:c-1", amount: 100 });
+    const db = asMember("alice");
+
+    await assertSucceeds(getDoc(doc(db, "ledgerEntries/withdrawal_hold_p-1_0")));
+    await assertFails(getDoc(doc(asMember("bob"), "ledgerEntries/withdrawal_hold_p-1_0")));
+    await assertFails(
+      setDoc(doc(db, "ledgerEntries/withdrawal_hold_c-1_0"), {
+        userId: "alice",
+        movementType: "withdrawal_hold",
+        account: "payout_clearing:alice",
+        side: "credit",
+        amount: 100,
+      })
+    );
+    await assertFails(updateDoc(doc(db, "ledgerEntries/withdrawal_hold_p-1_0"), { amount: 1 }));
+    await assertFails(deleteDoc(doc(db, "ledgerEntries/withdrawal_hold_p-1_0")));
+  });
+});
+
+describe("ODHexMembers", () => {
+  it("scopes reads to the signed-in ODHex member", async () => {
+    await seed("ODHexMembers/alice", { email: "alice@example.com", vaultBalance: 100 });
+    await seed("ODHexMembers/alice/odhexLedger/e-1", { amount: 100 });
+
+    await assertSucceeds(getDoc(doc(asMember("alice"), "ODHexMembers/alice")));
+    await assertSucceeds(getDoc(doc(asMember("alice"), "ODHexMembers/alice/odhexLedger/e-1")));
+    await assertFails(getDoc(doc(asMember("bob"), "ODHexMembers/alice")));
+    await assertFails(getDoc(doc(asGuest(), "ODHexMembers/alice")));
+    await assertFails(getDoc(doc(asGuest(), "ODHexMembers/alice/odhexLedger/e-1")));
+  });
+
+  it("keeps the vault balance server-owned", async () => {
+    await seed("ODHexMembers/alice", { email: "alice@example.com", vaultBalance: 100 });
+    const db = asMember("alice");
+
+    await assertSucceeds(setDoc(doc(asMember("bob"), "ODHexMembers/bob"), { email: "bob@example.com", vaultBalance: 0 }));
+    await assertFails(setDoc(doc(asMember("carol"), "ODHexMembers/carol"), { vaultBalance: 500 }));
+    await assertSucceeds(updateDoc(doc(db, "ODHexMembers/alice"), { displayName: "Alice" }));
+    await assertFails(updateDoc(doc(db, "ODHexMembers/alice"), { vaultBalance: 100000 }));
+    await assertFails(setDoc(doc(db, "ODHexMembers/alice/odhexLedger/e-2"), { amount: 5 }));
+    await assertFails(deleteDoc(doc(db, "ODHexMembers/alice")));
+    await assertFails(setDoc(doc(asGuest(), "ODHexMembers/dave"), { vaultBalance: 0 }));
+  });
+});
+
+describe("pendingOTPs and emailQueue", () => {
+  it("keeps signup OTPs inside the OTP callables", async () => {
+    await seed("pendingOTPs/otp-1", pendingOtp());
+    const db = asGuest();
+
+    await assertFails(getDoc(doc(db, "pendingOTPs/otp-1")));
+    await assertFails(getDoc(doc(asMember("alice"), "pendingOTPs/otp-1")));
+    await assertFails(getDocs(query(collection(db, "pendingOTPs"), where("email", "==", "new@example.com"))));
+    await assertFails(setDoc(doc(db, "pendingOTPs/otp-2"), pendingOtp()));
+    await assertFails(updateDoc(doc(db, "pendingOTPs/otp-1"), { attempts: 0 }));
+    await assertFails(deleteDoc(doc(db, "pendingOTPs/otp-1")));
+  });
+
+  it("does not let clients queue emails", async () => {
+    await assertFails(
+      setDoc(doc(asGuest(), "emailQueue/e-1"), { to: "someone@example.com", subject: "Hi", text: "Hi", processed: false })
+    );
+    await assertFails(
+      setDoc(doc(asMember("alice"), "emailQueue/e-2"), { to: "someone@example.com", subject: "Hi", processed: false })
+    );
+  });
+
+  it("keeps the retired emailOtpVerifications collection closed", async () => {
+    await assertFails(setDoc(doc(asGuest(), "emailOtpVerifications/new%40example.com"), { otp: "123456" }));
+    await assertFails(getDoc(doc(asMember("alice"), "emailOtpVerifications/new%40example.com")));
+  });
+});
+
+describe("users", () => {
+  it("only lets a member read and write their own legacy profile", async () => {
+    await seed("users/alice", { email: "alice@example.com", balance: 0 });
+
+    await assertSucceeds(getDoc(doc(asMember("alice"), "users/alice")));
+    await assertSucceeds(setDoc(doc(asMember("bob"), "users/bob"), { email: "bob@example.com" }));
+    await assertFails(getDoc(doc(asMember("bob"), "users/alice")));
+    await assertFails(getDoc(doc(asGuest(), "users/alice")));
+    await assertFails(setDoc(doc(asGuest(), "users/carol"), { email: "carol@example.com" }));
+    await assertFails(setDoc(doc(asMember("bob"), "users/carol"), { email: "carol@example.com" }));
+    await assertFails(updateDoc(doc(asMember("bob"), "users/alice"), { balance: 100 }));
+  });
+
+  it("keeps the referral lookup and referrals in the recordSignupReferral callable", async () => {
+    await seed("users/alice", { email: "alice@example.com", referralCode: "KOLI-ALICE" });
+    const db = asMember("bob");
+
+    await assertFails(getDocs(query(collection(db, "users"), where("referralCode", "==", "KOLI-ALICE"))));
+    await assertFails(
+      setDoc(doc(db, "referrals/alice_bob"), {
+        referrerId: "alice",
+        referredUserId: "bob",
+        referralCode: "KOLI-ALICE",
+        status: "completed",
+      })
+    );
+  });
+});
+
+describe("notifications", () => {
+  it("lets members read their notifications and check for missing ones", async () => {
+    await seed("notifications/n-alice", { userId: "alice", title: "Donation approved", isRead: false });
+    const db = asMember("alice");
+
+    await assertSucceeds(getDoc(doc(db, "notifications/n-alice")));
+    await assertSucceeds(getDoc(doc(db, "notifications/n-missing")));
+    await assertFails(getDoc(doc(asMember("bob"), "notifications/n-alice")));
+    await assertFails(getDoc(doc(asGuest(), "notifications/n-alice")));
+  });
+
+  it("creates unread notifications for the member only", async () => {
+    const db = asMember("alice");
+
+    await assertSucceeds(setDoc(doc(db, "notifications/n-1"), { userId: "alice", title: "Ready", isRead: false }));
+    await assertFails(setDoc(doc(db, "notifications/n-2"), { userId: "bob", title: "Ready", isRead: false }));
+    await assertFails(setDoc(doc(asGuest(), "notifications/n-3"), { userId: "alice", isRead: false }));
+  });
+
+  it("only lets members mark theirs read", async () => {
+    await seed("notifications/n-alice", { userId: "alice", title: "Donation approved", isRead: false });
+    const db = asMember("alice");
+
+    await assertSucceeds(
+      updateDoc(doc(db, "notifications/n-alice"), { isRead: true, readAt: serverTimestamp(), updatedAt: serverTimestamp() })
+    );
+    await assertFails(updateDoc(doc(db, "notifications/n-alice"), { title: "Withdrawal approved" }));
+    await assertFails(updateDoc(doc(db, "notifications/n-alice"), { userId: "bob" }));
+    await assertFails(updateDoc(doc(asMember("bob"), "notifications/n-alice"), { isRead: true }));
+  });
+});
+
+describe("walletAuthorizations", () => {
+  const authCode = (userId = "alice") => ({
+    userId,
+    email: `${userId}@example.com`,
+    appName: "K-Kash",
+    expiresAt: "2026-01-01T00:10:00.000Z",
+    used: false,
+  });
+
+  it("lets members issue unused codes for themselves", async () => {
+    const db = asMember("alice");
+
+    await assertSucceeds(setDoc(doc(db, "walletAuthorizations/koli_1"), authCode("alice")));
+    await assertFails(setDoc(doc(db, "walletAuthorizations/koli_2"), authCode("bob")));
+    await assertFails(setDoc(doc(db, "walletAuthorizations/koli_3"), { ...authCode("alice"), used: true }));
+    await assertFails(setDoc(doc(asGuest(), "walletAuthorizations/koli_4"), authCode("alice")));
+  });
+
+  it("keeps codes private and leaves redemption to the token service", async () => {
+    await seed("walletAuthorizations/koli_1", authCode("alice"));
+
+    await assertSucceeds(getDoc(doc(asMember("alice"), "walletAuthorizations/koli_1")));
+    await assertFails(getDoc(doc(asGuest(), "walletAuthorizations/koli_1")));
+    await assertFails(getDoc(doc(asMember("bob"), "walletAuthorizations/koli_1")));
+    await assertFails(updateDoc(doc(asGuest(), "walletAuthorizations/koli_1"), { used: true }));
+    await assertFails(updateDoc(doc(asMember("alice"), "walletAuthorizations/koli_1"), { used: false, userId: "bob" }));
+    await assertFails(deleteDoc(doc(asMember("alice"), "walletAuthorizations/koli_1")));
+  });
+});
+
+describe("payout_queue", () => {
+  it("scopes reads to the owner and keeps status changes server-side", async () => {
+    await seed("payout_queue/p-alice", { userId: "alice", amount: 100, status: "pending" });
+    const db = asMember("alice");
+
+    await assertSucceeds(getDoc(doc(db, "payout_queue/p-alice")));
+    await assertSucceeds(getDocs(query(collection(db, "payout_queue"), where("userId", "==", "alice"))));
+    await assertFails(getDoc(doc(asMember("bob"), "payout_queue/p-alice")));
+    await assertFails(getDoc(doc(asGuest(), "payout_queue/p-alice")));
+    await assertFails(updateDoc(doc(db, "payout_queue/p-alice"), { status: "completed" }));
+    await assertFails(deleteDoc(doc(db, "payout_queue/p-alice")));
+  });
+
+  it("only accepts pending ODHex vault withdrawals from clients", async () => {
+    const db = asMember("alice");
+
+    await assertSucceeds(
+      setDoc(doc(db, "payout_queue/p-1"), { userId: "alice", amount: 50, status: "pending", sourceApp: "odhex" })
+    );
+    await assertFails(setDoc(doc(db, "payout_queue/p-2"), { userId: "alice", amount: 50, status: "pending" }));
+    await assertFails(
+      setDoc(doc(db, "payout_queue/p-3"), { userId: "alice", amount: 50, status: "approved", sourceApp: "odhex" })
+    );
+    await assertFails(
+      setDoc(doc(db, "payout_queue/p-4"), { userId: "bob", amount: 50, status: "pending", sourceApp: "odhex" })
+    );
+    await assertFails(
+      setDoc(doc(asGuest(), "payout_queue/p-5"), { userId: "alice", amount: 50, status: "pending", sourceApp: "odhex" })
+    );
+  });
+});
+
+describe("ODHex withdrawals and notifications", () => {
+  it("lets members record withdrawals but not settle them", async () => {
+    const db = asMember("alice");
+
+    await assertSucceeds(setDoc(doc(db, "odhexWithdrawals/w-1"), { userId: "alice", amount: 50, status: "pending" }));
+    await assertSucceeds(getDoc(doc(db, "odhexWithdrawals/w-1")));
+    await assertFails(getDoc(doc(asMember("bob"), "odhexWithdrawals/w-1")));
+    await assertFails(updateDoc(doc(db, "odhexWithdrawals/w-1"), { status: "completed" }));
+    await assertFails(setDoc(doc(db, "odhexWithdrawals/w-2"), { userId: "alice", amount: 50, status: "completed" }));
+    await assertFails(setDoc(doc(asGuest(), "odhexWithdrawals/w-3"), { userId: "alice", amount: 50 }));
+  });
+
+  it("lets members mark their notifications read", async () => {
+    await seed("odhexNotifications/n-1", { userId: "alice", title: "Withdrawal Rejected", read: false });
+    const db = asMember("alice");
+
+    await assertSucceeds(updateDoc(doc(db, "odhexNotifications/n-1"), { read: true }));
+    await assertFails(updateDoc(doc(db, "odhexNotifications/n-1"), { title: "Approved" }));
+    await assertFails(getDoc(doc(asMember("bob"), "odhexNotifications/n-1")));
+    await assertFails(setDoc(doc(db, "odhexNotifications/n-2"), { userId: "alice", read: false }));
+  });
+});
+
+describe("odhexPulls", () => {
+  it("scopes pulls to the signed-in ODHex member and keeps them immutable", async () => {
+    await seed("odhexPulls/pull-alice", { userId: "alice", amount: 100 });
+    const db = asMember("alice");
+
+    await assertSucceeds(getDoc(doc(db, "odhexPulls/pull-alice")));
+    await assertSucceeds(setDoc(doc(db, "odhexPulls/pull-2"), { userId: "alice", amount: 50 }));
+    await assertFails(getDoc(doc(asMember("bob"), "odhexPulls/pull-alice")));
+    await assertFails(getDoc(doc(asGuest(), "odhexPulls/pull-alice")));
+    await assertFails(setDoc(doc(db, "odhexPulls/pull-3"), { userId: "bob", amount: 50 }));
+    await assertFails(setDoc(doc(asGuest(), "odhexPulls/pull-4"), { userId: "alice", amount: 50 }));
+    await assertFails(updateDoc(doc(db, "odhexPulls/pull-alice"), { amount: 1000 }));
+    await assertFails(deleteDoc(doc(db, "odhexPulls/pull-alice")));
+  });
+});
+
+describe("deposits", () => {
+  it("is read-only for the owner", async () => {
+    await seed("deposits/d-1", { userId: "alice", amount: 100 });
+    const db = asMember("alice");
+
+    await assertSucceeds(getDoc(doc(db, "deposits/d-1")));
+    await assertFails(getDoc(doc(asMember("bob"), "deposits/d-1")));
+    await assertFails(updateDoc(doc(db, "deposits/d-1"), { amount: 1000 }));
+    await assertFails(setDoc(doc(db, "deposits/d-2"), { userId: "alice", amount: 1000 }));
+  });
+});
+
+describe("kashAccounts", () => {
+  it("ties a K-Kash account to its member only", async () => {
+    await seed("kashAccounts/alice", { userId: "alice", walletAddress: "kash-alice" });
+    const db = asMember("alice");
+
+    await assertSucceeds(getDoc(doc(db, "kashAccounts/alice")));
+    await assertSucceeds(updateDoc(doc(db, "kashAccounts/alice"), { walletAddress: "kash-alice-2" }));
+    await assertSucceeds(setDoc(doc(asMember("bob"), "kashAccounts/bob"), { userId: "bob" }));
+    await assertFails(getDoc(doc(asMember("bob"), "kashAccounts/alice")));
+    await assertFails(getDoc(doc(asGuest(), "kashAccounts/alice")));
+    await assertFails(setDoc(doc(asMember("bob"), "kashAccounts/carol"), { userId: "carol" }));
+    await assertFails(updateDoc(doc(asMember("bob"), "kashAccounts/alice"), { walletAddress: "kash-bob" }));
+    await assertFails(deleteDoc(doc(db, "kashAccounts/alice")));
+  });
+});
+
+describe("contractPlans and systemSettings", () => {
+  it.each(["contractPlans/monthly_12_no_principal_v1", "systemSettings/donationLimits"])(
+    "lets anyone read %s but no client change it",
+    async (path) => {
+      await seed(path, { enabled: true });
+      await seed("admins/admin-1", { role: "admin" });
+
+      await assertSucceeds(getDoc(doc(asGuest(), path)));
+      await assertSucceeds(getDoc(doc(asMember("alice"), path)));
+      await assertFails(setDoc(doc(asMember("alice"), path), { enabled: false }));
+      await assertFails(updateDoc(doc(asMember("alice"), path), { enabled: false }));
+      await assertFails(deleteDoc(doc(asMember("alice"), path)));
+      await assertFails(setDoc(doc(asGuest(), path), { enabled: false }));
+      await assertFails(updateDoc(doc(asMember("admin-1"), path), { enabled: false }));
+    }
+  );
+});
+
+describe("admin clients", () => {
+  beforeEach(async () => {
+    await seed("admins/admin-1", { role: "admin" });
+  });
+
+  it.each([
+    "ledgerEntries/entry-1",
+    "payout_queue/payout-1",
+    "donationContracts/contract-1",
+    "memberPins/alice",
+    "pinAuthorizations/abc",
+    "idempotencyKeys/alice_key-1",
+    "payoutBatches/batch-1",
+  ])("denies %s to an admin", async (path) => {
+    await seed(path, { userId: "alice", status: "pending" });
+    const db = asMember("admin-1");
+
+    await assertFails(getDoc(doc(db, path)));
+    await assertFails(setDoc(doc(db, `${path}-new`), { userId: "alice", status: "pending" }));
+    await assertFails(updateDoc(doc(db, path), { status: "completed" }));
+    await assertFails(deleteDoc(doc(db, path)));
+  });
+
+  it("keeps the admin-managed collections open to admins", async () => {
+    await seed("news/post-1", { title: "Hello" });
+    const db = asMember("admin-1");
+
+    await assertSucceeds(getDoc(doc(db, "admins/admin-1")));
+    await assertSucceeds(updateDoc(doc(db, "news/post-1"), { title: "Updated" }));
+    await assertSucceeds(getDoc(doc(db, "manaClaimAnalytics/today")));
+    await assertFails(updateDoc(doc(asMember("alice"), "news/post-1"), { title: "Updated" }));
+  });
+});
+
+describe("Cloud Functions-only collections", () => {
+  it.each(["memberPins/alice", "pinAuthorizations/abc", "passkeyChallenges/alice", "payoutDestinationCodes/d-1"])(
+    "denies %s to its member",
+    async (path) => {
+      await seed(path, { userId: "alice" });
+      const db = asMember("alice");
+
+      await assertFails(getDoc(doc(db, path)));
+      await assertFails(setDoc(doc(db, path), { userId: "alice" }));
+    }
+  );
+
+  it.each(["passkeys/cred-1", "memberSessions/session-1", "payoutDestinations/d-1"])(
+    "lets the member read but not write %s",
+    async (path) => {
+      await seed(path, { userId: "alice" });
+
+      await assertSucceeds(getDoc(doc(asMember("alice"), path)));
+      await assertFails(getDoc(doc(asMember("bob"), path)));
+      await assertFails(updateDoc(doc(asMember("alice"), path), { userId: "alice", lastUsedAt: null }));
+    }
+  );
+});
@@ -1,4 +1,4 @@
-import { defineConfig } from "vitest/config";
+import { configDefaults, defineConfig } from "vitest/config";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 
@@ -9,6 +9,8 @@ export default defineConfig({
     globals: true,
     setupFiles: ["./src/test/setup.ts"],
     include: ["src/**/*.{test,spec}.{ts,tsx}"],
+    // Needs the Firestore emulator; run with npm run test:rules
+    exclude: [...configDefaults.exclude, "src/test/rules/**"],
   },
   resolve: {
     alias: { "@": path.resolve(__dirname, "./src") },
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config";
+
+// Security rules suite; runs inside `firebase emulators:exec` (npm run test:rules)
+export default defineConfig({
+  test: {
+    environment: "node",
+    include: ["src/test/rules/**/*.test.ts"],
+    fileParallelism: false,
+    testTimeout: 20000,
+    hookTimeout: 30000,
+  },
+});